@@ -1,137 +1,209 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import { FileUpload } from './components/FileUpload';
 import { ToleranceSlider } from './components/ToleranceSlider';
+import { ColorMetricSelect } from './components/ColorMetricSelect';
+import { ColorCountSlider } from './components/ColorCountSlider';
+import { TraceSettings } from './components/TraceSettings';
+import { BridgeSettings } from './components/BridgeSettings';
+import { RegistrationSettings } from './components/RegistrationSettings';
+import { SvgPaintSettings } from './components/SvgPaintSettings';
+import { ExportSettingsPanel } from './components/ExportSettingsPanel';
+import { CleanupSettings } from './components/CleanupSettings';
+import { TrapSettings } from './components/TrapSettings';
+import { PrefilterSettings } from './components/PrefilterSettings';
+import { DitherSettings } from './components/DitherSettings';
+import { CutSettings } from './components/CutSettings';
+import { TileSettings } from './components/TileSettings';
+import { PalettePanel } from './components/PalettePanel';
+import { BatchQueue } from './components/BatchQueue';
 import { Loader } from './components/Loader';
 import { ColorGroupCard } from './components/ColorGroupCard';
-import { PackageIcon, EyeIcon, UndoIcon, MergeIcon } from './components/Icons';
+import { PackageIcon, EyeIcon, UndoIcon, RedoIcon, MergeIcon, EditIcon, LayersIcon } from './components/Icons';
 import { PreviewModal } from './components/PreviewModal';
 import { SvgEditModal } from './components/SvgEditModal';
-import { processSVG, processRaster } from './utils/imageProcessor';
-import { colorDistance } from './utils/colorUtils';
-import type { SVGColorGroup, RasterColorGroup, ImageDimensions } from './types';
+import { RegionEditor } from './components/RegionEditor';
+import { imageDataToDataUrl, loadImageData } from './utils/imageProcessor';
+import { createRasterPipeline, isCancellation } from './utils/rasterPipeline';
+import { EMPTY_HISTORY, HISTORY_ACTION_LABELS, recordHistory, redoHistory, undoHistory } from './utils/history';
+import type { LabelMap, RasterPipeline } from './utils/rasterPipeline';
+import { DEFAULT_TRACE_OPTIONS } from './utils/tracer';
+import { DEFAULT_BRIDGE_OPTIONS } from './utils/bridges';
+import { DEFAULT_CLEANUP_OPTIONS, isCleanupActive } from './utils/labelCleanup';
+import { DEFAULT_TRAP_OPTIONS, layerTrap } from './utils/trapping';
+import { DEFAULT_PREFILTER_OPTIONS } from './utils/prefilter';
+import { DEFAULT_DITHER_OPTIONS, isDitherActive } from './utils/dithering';
+import { DEFAULT_CUT_OPTIONS, CUT_FORMATS, buildCutFile } from './utils/cutExport';
+import { DEFAULT_TILE_OPTIONS } from './utils/tiling';
+import { DEFAULT_REGISTRATION_OPTIONS } from './utils/registrationMarks';
+import { createFinalSvgString, transformSvgGroups, resolveExportFrame, DEFAULT_EXPORT_SETTINGS } from './utils/svgExport';
+import { defsToMarkup, mergeDefs, DEFAULT_SVG_PAINT_OPTIONS, NON_RENDERED_CONTAINERS } from './utils/svgDefs';
+import { toleranceToDistance } from './utils/colorUtils';
+import { analyzeIslands, analyzeSource, cleanupOverrides, prepareImageData, processingKey } from './utils/sourceAnalysis';
+import { addLayerBundle, buildLayerSvg as buildLayerSvgString, buildLayeredRaster, buildLayeredSvg, renderRasterLayer } from './utils/layerExport';
+import { processBatch } from './utils/batch';
+import { createZipArchive } from './utils/zip';
+import { regionFromLabels, splitRasterGroup, splitSvgGroup } from './utils/connectivity';
+import { mergePixelOverrides, reassignElement, reassignPixels } from './utils/regionOverrides';
+import { createProject, deserializeGroups, isProjectFile, parseProject, serializeGroups, PROJECT_FILE_EXTENSION } from './utils/project';
+import { clearSession, loadSession, saveSession } from './utils/projectStore';
+import { layerColor, nearestPaintColor, parsePaletteFile } from './utils/palette';
+import type { SVGColorGroup, RasterColorGroup, ImageDimensions, ColorMetric, GroupingMode, TraceOptions, BridgeOptions, IslandAnalysis, Bridge, RegistrationOptions, ExportSettings, ExportFrame, SvgPaintOptions, History, HistoryAction, ProjectSettings, StencilProject, BatchItem, SplitOptions, PaintColor, Palette, CleanupOptions, TrapOptions, PrefilterOptions, DitherOptions, CutOptions, CleanupOverride, CutFormat, LayerFormat, LayeredRasterFormat, TileOptions } from './types';
 
 // State interface for the application
 interface AppState {
   file: File | null;
   fileContent: string | null;
   tolerance: number;
+  colorMetric: ColorMetric;
+  groupingMode: GroupingMode;
+  targetColorCount: number;
+  vectorizeRaster: boolean;
+  traceOptions: TraceOptions;
+  bridgeOptions: BridgeOptions;
+  islandAnalyses: Map<SVGColorGroup | RasterColorGroup, IslandAnalysis>;
+  registrationOptions: RegistrationOptions;
+  exportSettings: ExportSettings;
+  svgPaintOptions: SvgPaintOptions;
+  cleanupOptions: CleanupOptions;
+  trapOptions: TrapOptions;
+  prefilterOptions: PrefilterOptions;
+  ditherOptions: DitherOptions;
+  cutOptions: CutOptions;
+  tileOptions: TileOptions;
   isLoading: boolean;
   error: string | null;
   colorGroups: (SVGColorGroup | RasterColorGroup)[];
   dimensions: ImageDimensions | null;
   isSvgSource: boolean;
   originalImageData: ImageData | null;
+  // Bản đồ nhãn theo pixel của colorGroups hiện tại (chỉ nguồn raster), dùng chung cho xem trước và xuất
+  labelCache: { groups: (SVGColorGroup | RasterColorGroup)[]; labelMap: LabelMap } | null;
+  // Bản đồ nhãn đã làm sạch, ứng với bản đồ nhãn nguồn và thiết lập làm sạch đã dùng
+  cleanupCache: { source: LabelMap; options: CleanupOptions; labelMap: LabelMap } | null;
+  ditherCache: { source: LabelMap; groups: (SVGColorGroup | RasterColorGroup)[]; options: DitherOptions; labelMap: LabelMap } | null;
+  isCleanupBeforeShown: boolean;
+  layeredRasterFormat: LayeredRasterFormat; // Định dạng của tài liệu nhiều lớp khi nguồn là raster
+  progress: number | null;
   isPreviewModalOpen: boolean;
-  deletedGroups: { group: (SVGColorGroup | RasterColorGroup); originalIndex: number }[];
+  isRegionEditorOpen: boolean;
   editingGroup: { index: number; group: SVGColorGroup } | null;
-  reorderHistory: (SVGColorGroup | RasterColorGroup)[][];
+  history: History;
   originalFilePreviewUrl: string | null;
+  // Ảnh sau tiền xử lý (null nếu không bật), hiển thị cạnh ảnh gốc để so sánh
+  filteredPreviewUrl: string | null;
+  isSourceInputShown: boolean;
   selectedGroupIndices: number[];
-  mergeHistory: (SVGColorGroup | RasterColorGroup)[][];
+  // Hàng đợi xử lý hàng loạt; ảnh đang mở là activeItemId
+  queue: BatchItem[];
+  activeItemId: number | null;
+  sharedSettings: boolean;
+  batchProgress: number | null;
+  // Bảng màu sơn đã nhập, giữ nguyên khi chuyển ảnh
+  palette: Palette | null;
+  paletteError: string | null; // Lỗi khi nhập bảng màu, hiển thị trong PalettePanel
 }
 
 const initialState: AppState = {
   file: null,
   fileContent: null,
   tolerance: 20,
+  colorMetric: 'rgb',
+  groupingMode: 'tolerance',
+  targetColorCount: 4,
+  vectorizeRaster: false,
+  traceOptions: DEFAULT_TRACE_OPTIONS,
+  bridgeOptions: DEFAULT_BRIDGE_OPTIONS,
+  islandAnalyses: new Map(),
+  registrationOptions: DEFAULT_REGISTRATION_OPTIONS,
+  exportSettings: DEFAULT_EXPORT_SETTINGS,
+  svgPaintOptions: DEFAULT_SVG_PAINT_OPTIONS,
+  cleanupOptions: DEFAULT_CLEANUP_OPTIONS,
+  trapOptions: DEFAULT_TRAP_OPTIONS,
+  prefilterOptions: DEFAULT_PREFILTER_OPTIONS,
+  ditherOptions: DEFAULT_DITHER_OPTIONS,
+  cutOptions: DEFAULT_CUT_OPTIONS,
+  tileOptions: DEFAULT_TILE_OPTIONS,
   isLoading: false,
   error: null,
   colorGroups: [],
   dimensions: null,
   isSvgSource: false,
   originalImageData: null,
+  labelCache: null,
+  cleanupCache: null,
+  ditherCache: null,
+  isCleanupBeforeShown: false,
+  layeredRasterFormat: 'psd',
+  progress: null,
   isPreviewModalOpen: false,
-  deletedGroups: [],
+  isRegionEditorOpen: false,
   editingGroup: null,
-  reorderHistory: [],
+  history: EMPTY_HISTORY,
   originalFilePreviewUrl: null,
+  filteredPreviewUrl: null,
+  isSourceInputShown: false,
   selectedGroupIndices: [],
-  mergeHistory: [],
+  queue: [],
+  activeItemId: null,
+  sharedSettings: true,
+  batchProgress: null,
+  palette: null,
+  paletteError: null,
 };
 
-const createFinalSvgString = (innerHtml: string): string => {
-    return `<svg width="600" height="600" viewBox="0 0 600 600" fill="none" xmlns="http://www.w3.org/2000/svg">${innerHtml}</svg>`;
-};
-
-const transformSvgElements = (elements: SVGElement[], dimensions: ImageDimensions | null): string => {
-    if (!dimensions) return elements.map(el => el.outerHTML).join('');
-
-    const viewBox = dimensions.viewBox || `0 0 ${dimensions.width} ${dimensions.height}`;
-    const viewBoxParts = viewBox.split(/[ ,]+/).map(parseFloat);
-    if (viewBoxParts.length !== 4 || viewBoxParts.some(isNaN)) return elements.map(el => el.outerHTML).join('');
-    
-    const [x, y, w, h] = viewBoxParts;
-    if (w <= 0 || h <= 0) return elements.map(el => el.outerHTML).join('');
-
-    const targetWidth = 600;
-    const targetHeight = 600;
-    const scale = Math.min(targetWidth / w, targetHeight / h);
-    const translateX = (targetWidth - w * scale) / 2 - x * scale;
-    const translateY = (targetHeight - h * scale) / 2 - y * scale;
-
-    return elements.map(el => {
-        const clone = el.cloneNode(true) as SVGElement;
-        
-        // Apply transform directly to path data
-        const d = clone.getAttribute('d');
-        if (d) {
-             const transformedD = d.replace(/([MmLlHhVvCcSsQqTtAaZz])([^MmLlHhVvCcSsQqTtAaZz]*)/g, (_, command, argsStr) => {
-                const args = (argsStr.trim().match(/[-+]?[0-9]*\.?[0-9]+(?:[eE][-+]?[0-9]+)?/g) || []).map(parseFloat);
-                let newArgs = [];
-                const isRelative = command === command.toLowerCase();
-
-                switch(command.toLowerCase()) {
-                    case 'a':
-                        newArgs[0] = args[0] * scale;
-                        newArgs[1] = args[1] * scale;
-                        newArgs[2] = args[2];
-                        newArgs[3] = args[3];
-                        newArgs[4] = args[4];
-                        newArgs[5] = isRelative ? args[5] * scale : (args[5] - x) * scale + (targetWidth - w * scale) / 2;
-                        newArgs[6] = isRelative ? args[6] * scale : (args[6] - y) * scale + (targetHeight - h * scale) / 2;
-                        break;
-                    case 'h':
-                        newArgs[0] = isRelative ? args[0] * scale : (args[0] - x) * scale + (targetWidth - w * scale) / 2;
-                        break;
-                    case 'v':
-                         newArgs[0] = isRelative ? args[0] * scale : (args[0] - y) * scale + (targetHeight - h * scale) / 2;
-                         break;
-                    default:
-                        for(let i=0; i<args.length; i+=2) {
-                            newArgs.push(isRelative ? args[i] * scale : (args[i] - x) * scale + (targetWidth - w * scale) / 2);
-                            newArgs.push(isRelative ? args[i+1] * scale : (args[i+1] - y) * scale + (targetHeight - h * scale) / 2);
-                        }
-                        break;
-                }
-                 if (command.toLowerCase() === 'z') return command;
-                 return command + newArgs.join(' ');
-            });
-            clone.setAttribute('d', transformedD);
-        }
-        
-        clone.removeAttribute('transform');
-
-        return clone.outerHTML;
-    }).join('');
-};
+// Áp dụng một thao tác lên các nhóm màu và ghi nó vào lịch sử hoàn tác chung.
+const applyOperation = (s: AppState, action: HistoryAction, colorGroups: (SVGColorGroup | RasterColorGroup)[]): AppState => ({
+  ...s,
+  colorGroups,
+  history: recordHistory(s.history, action, { colorGroups: s.colorGroups, tolerance: s.tolerance }, { colorGroups, tolerance: s.tolerance }),
+  selectedGroupIndices: [],
+});
 
+// Ghi (hoặc xóa, khi error là undefined) lỗi của một ảnh trong hàng đợi
+const markQueueItem = (queue: BatchItem[], id: number | null, error: string | undefined): BatchItem[] =>
+  queue.map(item => (item.id === id ? { ...item, error } : item));
 
 interface ReassembledPreviewProps {
   isSvgSource: boolean;
   colorGroups: (SVGColorGroup | RasterColorGroup)[];
   dimensions: ImageDimensions | null;
   originalImageData: ImageData | null;
-  tolerance: number;
+  labelMap: LabelMap | null;
+  pipeline: RasterPipeline;
+  exportFrame: ExportFrame;
 }
 
-const ReassembledPreview: React.FC<ReassembledPreviewProps> = ({ isSvgSource, colorGroups, dimensions, originalImageData, tolerance }) => {
+const ReassembledPreview: React.FC<ReassembledPreviewProps> = ({ isSvgSource, colorGroups, dimensions, originalImageData, labelMap, pipeline, exportFrame }) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
 
+    // Raster Preview Effect: ảnh được vẽ trong Worker từ bản đồ nhãn đã lưu
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || !originalImageData || !labelMap || isSvgSource) return;
+
+        let cancelled = false;
+        const colors = colorGroups.map(layerColor);
+        pipeline.render(originalImageData, colors, null, labelMap)
+          .then(pixels => {
+            const ctx = canvas.getContext('2d');
+            if (cancelled || !ctx) return;
+            canvas.width = originalImageData.width;
+            canvas.height = originalImageData.height;
+            ctx.putImageData(new ImageData(pixels, originalImageData.width, originalImageData.height), 0, 0);
+          })
+          .catch(err => {
+            if (!isCancellation(err)) console.error(err);
+          });
+
+        return () => {
+          cancelled = true;
+        };
+    }, [originalImageData, colorGroups, labelMap, pipeline, isSvgSource]);
+
     // SVG Preview
     if (isSvgSource) {
-      const allElements = colorGroups.flatMap(g => (g as SVGColorGroup).elements);
-      const transformedHtml = transformSvgElements(allElements, dimensions);
-      const svgData = createFinalSvgString(transformedHtml);
+      const transformedHtml = transformSvgGroups(colorGroups as SVGColorGroup[], dimensions, exportFrame);
+      const svgData = createFinalSvgString(transformedHtml, exportFrame);
       const dataUrl = `data:image/svg+xml;base64,${btoa(svgData)}`;
 
       return (
@@ -141,50 +213,6 @@ const ReassembledPreview: React.FC<ReassembledPreviewProps> = ({ isSvgSource, co
       );
     }
     
-    // Raster Preview Effect
-    useEffect(() => {
-        const canvas = canvasRef.current;
-        if (!canvas || !originalImageData || !dimensions || isSvgSource) return;
-
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return;
-
-        canvas.width = dimensions.width;
-        canvas.height = dimensions.height;
-
-        const newImageData = ctx.createImageData(originalImageData.width, originalImageData.height);
-        const data = originalImageData.data;
-        const newData = newImageData.data;
-        const maxDist = tolerance * 2.55;
-
-        for (let i = 0; i < data.length; i += 4) {
-            if (data[i + 3] < 128) continue;
-            
-            const pixelColor = { r: data[i], g: data[i + 1], b: data[i + 2] };
-            let bestGroupIndex = -1;
-            let minDistance = Infinity;
-
-            for (let j = 0; j < colorGroups.length; j++) {
-                const dist = colorDistance(pixelColor, colorGroups[j].representativeColor);
-                if (dist < minDistance) {
-                    minDistance = dist;
-                    bestGroupIndex = j;
-                }
-            }
-
-            if (bestGroupIndex !== -1 && minDistance < maxDist) {
-                const repColor = colorGroups[bestGroupIndex].representativeColor;
-                newData[i] = repColor.r;
-                newData[i + 1] = repColor.g;
-                newData[i + 2] = repColor.b;
-                newData[i + 3] = 255;
-            } else {
-                newData[i+3] = 0;
-            }
-        }
-        ctx.putImageData(newImageData, 0, 0);
-    }, [originalImageData, dimensions, colorGroups, tolerance, isSvgSource]);
-
     if (!isSvgSource) {
       return (
         <div className="w-full h-full flex justify-center items-center bg-[url('data:image/svg+xml,%3csvg%20xmlns=%22http://www.w3.org/2000/svg%22%20viewBox=%220%200%2032%2032%22%20width=%2232%22%22height=%2232%22%20fill=%22none%22%3e%3cpath%20d=%22M0%200h16v16H0zM16%2016h16v16H16z%22%20fill=%22%23475569%22/%3e%3c/svg%3e')] bg-repeat rounded-md">
@@ -199,67 +227,155 @@ const ReassembledPreview: React.FC<ReassembledPreviewProps> = ({ isSvgSource, co
 
 function App() {
   const [state, setState] = useState<AppState>(initialState);
+  const [pipeline] = useState(createRasterPipeline);
+  // Ảnh raster đã giải mã, giữ lại để không phải giải mã lại mỗi lần thay đổi dung sai
+  const decodedImage = useRef<{ source: string; imageData: ImageData } | null>(null);
+  // Kết quả tiền xử lý gần nhất của ảnh đã giải mã, theo thiết lập lọc
+  const filteredImage = useRef<{ source: ImageData; key: string; imageData: ImageData; previewUrl: string } | null>(null);
+  // Thiết lập ứng với các nhóm hiện tại, để nhận biết khi chỉ có dung sai thay đổi (thao tác có thể hoàn tác)
+  // và để không xử lý lại ảnh sau khi hoàn tác dung sai hoặc mở một dự án đã lưu
+  const processedSettings = useRef<{ source: string; key: string; tolerance: number } | null>(null);
+  const nextItemId = useRef(1);
   const {
     file,
     fileContent,
     tolerance,
+    colorMetric,
+    groupingMode,
+    targetColorCount,
+    vectorizeRaster,
+    traceOptions,
+    bridgeOptions,
+    islandAnalyses,
+    registrationOptions,
+    exportSettings,
+    svgPaintOptions,
+    cleanupOptions,
+    trapOptions,
+    prefilterOptions,
+    ditherOptions,
+    cutOptions,
+    tileOptions,
     isLoading,
     error,
     colorGroups,
     dimensions,
     isSvgSource,
     originalImageData,
+    labelCache,
+    cleanupCache,
+    ditherCache,
+    isCleanupBeforeShown,
+    layeredRasterFormat,
+    progress,
     isPreviewModalOpen,
-    deletedGroups,
+    isRegionEditorOpen,
     editingGroup,
-    reorderHistory,
+    history,
     originalFilePreviewUrl,
+    filteredPreviewUrl,
+    isSourceInputShown,
     selectedGroupIndices,
-    mergeHistory,
+    queue,
+    activeItemId,
+    sharedSettings,
+    batchProgress,
+    palette,
+    paletteError,
   } = state;
 
   const draggedItem = useRef<number | null>(null);
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
 
-  const resetState = () => setState(initialState);
+  const resetState = () => {
+    processedSettings.current = null;
+    clearSession().catch(err => console.warn('Could not clear the saved session.', err));
+    setState(initialState);
+  };
   
   const openPreviewModal = () => setState(s => ({ ...s, isPreviewModalOpen: true }));
   const closePreviewModal = () => setState(s => ({ ...s, isPreviewModalOpen: false }));
+  const openRegionEditor = () => setState(s => ({ ...s, isRegionEditorOpen: true }));
+  const closeRegionEditor = () => setState(s => ({ ...s, isRegionEditorOpen: false }));
+
+  // Giải mã ảnh nguồn raster rồi tiền xử lý; cả hai bước được giữ lại để không lặp lại khi chỉ thiết lập khác thay đổi
+  const decodeRasterSource = async (content: string, options: PrefilterOptions, onProgress?: (progress: number) => void) => {
+    if (decodedImage.current?.source !== content) {
+      decodedImage.current = { source: content, imageData: await loadImageData(content) };
+    }
+    const decoded = decodedImage.current.imageData;
+    const key = JSON.stringify(options);
+    if (filteredImage.current?.source === decoded && filteredImage.current.key === key) return filteredImage.current;
+    const imageData = await prepareImageData(decoded, { prefilterOptions: options }, pipeline, onProgress);
+    if (imageData === decoded) return { imageData, previewUrl: null };
+    filteredImage.current = { source: decoded, key, imageData, previewUrl: imageDataToDataUrl(imageData) };
+    return filteredImage.current;
+  };
 
   const processImage = useCallback(async () => {
     if (!file || !fileContent) return;
 
-    setState(s => ({ ...s, isLoading: true, error: null, colorGroups: [], deletedGroups: [], reorderHistory: [], selectedGroupIndices: [], mergeHistory: [] }));
+    setState(s => ({ ...s, isLoading: true, error: null, progress: null, selectedGroupIndices: [] }));
+
+    // Nếu chỉ dung sai thay đổi so với lần xử lý trước, kết quả mới được ghi thành một thao tác trong lịch sử;
+    // mọi thay đổi thiết lập khác tạo ra một bộ nhóm hoàn toàn mới nên lịch sử được xóa.
+    const key = processingKey({ colorMetric, groupingMode, targetColorCount, vectorizeRaster, traceOptions, svgPaintOptions, cleanupOptions, prefilterOptions, ditherOptions });
+    const previous = processedSettings.current;
+    const sameSettings = previous !== null && previous.source === fileContent && previous.key === key;
+    const nextHistory = (s: AppState, groups: (SVGColorGroup | RasterColorGroup)[]): History => {
+      if (!previous || !sameSettings) return EMPTY_HISTORY;
+      if (previous.tolerance === tolerance || s.colorGroups.length === 0) return s.history;
+      return recordHistory(s.history, 'tolerance', { colorGroups: s.colorGroups, tolerance: previous.tolerance }, { colorGroups: groups, tolerance });
+    };
 
     try {
-      if (file.type === 'image/svg+xml') {
-        const { groups, dimensions } = processSVG(fileContent, tolerance);
-        setState(s => ({
-          ...s,
-          colorGroups: groups,
-          dimensions,
-          isSvgSource: true,
-          originalImageData: null,
-          isLoading: false,
-        }));
-      } else {
-        const { groups, originalImageData, dimensions } = await processRaster(fileContent, tolerance);
-        setState(s => ({
-          ...s,
-          colorGroups: groups,
-          dimensions,
-          isSvgSource: false,
-          originalImageData,
-          isLoading: false,
-        }));
+      let originalImageData: ImageData | null = null;
+      let filteredPreviewUrl: string | null = null;
+      if (file.type !== 'image/svg+xml') {
+        ({ imageData: originalImageData, previewUrl: filteredPreviewUrl } = await decodeRasterSource(fileContent, prefilterOptions, value => setState(s => ({ ...s, progress: value }))));
       }
+      const { groups, labelMap, dimensions, isSvgSource } = await analyzeSource(
+        fileContent,
+        originalImageData,
+        { tolerance, colorMetric, groupingMode, targetColorCount, vectorizeRaster, traceOptions, svgPaintOptions, cleanupOptions, prefilterOptions, ditherOptions },
+        pipeline,
+        value => setState(s => ({ ...s, progress: value }))
+      );
+      processedSettings.current = { source: fileContent, key, tolerance };
+      setState(s => ({
+        ...s,
+        colorGroups: groups,
+        history: nextHistory(s, groups),
+        labelCache: labelMap ? { groups, labelMap } : null,
+        dimensions,
+        isSvgSource,
+        originalImageData,
+        filteredPreviewUrl,
+        progress: null,
+        isLoading: false,
+      }));
     } catch (err) {
+      // Lần xử lý bị hủy vì thiết lập đã thay đổi; lần xử lý mới sẽ cập nhật trạng thái.
+      if (isCancellation(err)) return;
       console.error(err);
-      setState(s => ({ ...s, isLoading: false, error: 'Failed to process the image. Please try another file.' }));
+      // Trong hàng đợi nhiều ảnh, chỉ đánh dấu ảnh lỗi để vẫn mở được các ảnh còn lại
+      setState(s => (s.queue.length > 1
+        ? { ...s, isLoading: false, progress: null, queue: markQueueItem(s.queue, s.activeItemId, 'Could not process this image.') }
+        : { ...s, isLoading: false, progress: null, error: 'Failed to process the image. Please try another file.' }));
     }
-  }, [file, fileContent, tolerance]);
+  }, [file, fileContent, tolerance, colorMetric, groupingMode, targetColorCount, vectorizeRaster, traceOptions, svgPaintOptions, cleanupOptions, prefilterOptions, ditherOptions, pipeline]);
 
   useEffect(() => {
+    // Dừng ngay lần phân tích đang chạy trong Worker thay vì chờ nó hoàn tất với thiết lập cũ
+    pipeline.cancel();
+    const processed = processedSettings.current;
+    if (
+      processed && processed.source === fileContent && processed.tolerance === tolerance &&
+      processed.key === processingKey({ colorMetric, groupingMode, targetColorCount, vectorizeRaster, traceOptions, svgPaintOptions, cleanupOptions, prefilterOptions, ditherOptions })
+    ) {
+      setState(s => (s.isLoading ? { ...s, isLoading: false, progress: null } : s));
+      return;
+    }
     const handler = setTimeout(() => {
         if (file && fileContent) {
             processImage();
@@ -269,9 +385,105 @@ function App() {
     return () => {
         clearTimeout(handler);
     };
-  }, [tolerance, file, fileContent]); 
+  }, [tolerance, colorMetric, groupingMode, targetColorCount, vectorizeRaster, traceOptions, svgPaintOptions, cleanupOptions, prefilterOptions, ditherOptions, file, fileContent, pipeline]);
+
+  useEffect(() => () => pipeline.dispose(), [pipeline]);
 
-  const handleFileUpload = (uploadedFile: File) => {
+  // Mở một dự án đã lưu; khi mở một ảnh trong hàng đợi, item là ảnh đó và settings (nếu có) thay cho thiết lập đã lưu
+  const restoreProject = async (project: StencilProject, item?: BatchItem, settings?: ProjectSettings) => {
+    pipeline.cancel();
+    const { source } = project;
+    const isSvgFile = source.type === 'image/svg+xml';
+    const restoredFile = item?.file ?? new File(
+      [isSvgFile ? new Blob([source.content], { type: source.type }) : await (await fetch(source.content)).blob()],
+      source.name,
+      { type: source.type }
+    );
+    const savedSettings = project.settings;
+    let originalImageData: ImageData | null = null;
+    let filteredPreviewUrl: string | null = null;
+    if (!isSvgFile) {
+      // Các nhóm đã lưu được tách từ ảnh đã tiền xử lý theo thiết lập lúc lưu
+      ({ imageData: originalImageData, previewUrl: filteredPreviewUrl } = await decodeRasterSource(source.content, savedSettings.prefilterOptions));
+    }
+    // Nếu thiết lập khác với lúc lưu, ảnh sẽ được xử lý lại
+    processedSettings.current = { source: source.content, key: processingKey(savedSettings), tolerance: savedSettings.tolerance };
+    const openedItem = item ?? { id: nextItemId.current++, file: restoredFile, project: null };
+    setState(s => ({
+      ...initialState,
+      ...(settings ?? project.settings),
+      file: restoredFile,
+      fileContent: source.content,
+      originalFilePreviewUrl: isSvgFile ? `data:image/svg+xml;base64,${btoa(source.content)}` : source.content,
+      colorGroups: deserializeGroups(project.groups),
+      dimensions: project.dimensions,
+      isSvgSource: project.isSvgSource,
+      originalImageData,
+      filteredPreviewUrl,
+      queue: item ? s.queue : [openedItem],
+      activeItemId: openedItem.id,
+      sharedSettings: s.sharedSettings,
+      palette: s.palette,
+    }));
+  };
+
+  const currentSettings = (): ProjectSettings => (
+    { tolerance, colorMetric, groupingMode, targetColorCount, vectorizeRaster, traceOptions, bridgeOptions, registrationOptions, exportSettings, svgPaintOptions, cleanupOptions, trapOptions, prefilterOptions, ditherOptions, cutOptions, tileOptions }
+  );
+
+  const buildProject = (): StencilProject | null => {
+    if (!file || !fileContent) return null;
+    return createProject({
+      source: { name: file.name, type: file.type, content: fileContent },
+      settings: currentSettings(),
+      dimensions,
+      isSvgSource,
+      groups: serializeGroups(colorGroups),
+    });
+  };
+
+  const openProjectFile = async (projectFile: File) => {
+    try {
+      await restoreProject(parseProject(await projectFile.text()));
+    } catch (err) {
+      console.error(err);
+      setState(s => ({ ...s, error: err instanceof Error ? err.message : 'Could not open the project.' }));
+    }
+  };
+
+  const handleSaveProject = () => {
+    const project = buildProject();
+    if (!project || !file) return;
+    const blob = new Blob([JSON.stringify(project)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${file.name.split('.').slice(0, -1).join('.') || 'stencil'}${PROJECT_FILE_EXTENSION}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  // Khôi phục phiên làm việc đã tự động lưu khi mở lại trang
+  useEffect(() => {
+    loadSession()
+      .then(project => (project ? restoreProject(project) : undefined))
+      .catch(err => console.warn('Could not restore the previous session.', err));
+  }, []);
+
+  // Tự động lưu phiên hiện tại vào IndexedDB sau mỗi thay đổi (chờ 1 giây để gộp các thay đổi liên tiếp)
+  useEffect(() => {
+    if (!file || isLoading || colorGroups.length === 0) return;
+    const handler = setTimeout(() => {
+      const project = buildProject();
+      if (project) saveSession(project).catch(err => console.warn('Could not autosave the session.', err));
+    }, 1000);
+    return () => clearTimeout(handler);
+  }, [file, fileContent, colorGroups, tolerance, colorMetric, groupingMode, targetColorCount, vectorizeRaster, traceOptions, bridgeOptions, registrationOptions, exportSettings, svgPaintOptions, cleanupOptions, trapOptions, prefilterOptions, ditherOptions, cutOptions, tileOptions, dimensions, isSvgSource, isLoading]);
+
+  // Mở một ảnh nguồn (mục itemId trong hàng đợi) với thiết lập hiện tại
+  const loadSourceFile = (uploadedFile: File, itemId: number) => {
     const reader = new FileReader();
     reader.onload = (e) => {
       const content = e.target?.result as string;
@@ -284,6 +496,7 @@ function App() {
       if (uploadedFile.type === 'image/svg+xml') {
         previewUrl = `data:image/svg+xml;base64,${btoa(content)}`;
       }
+      processedSettings.current = null;
 
       setState(s => ({
           ...initialState,
@@ -291,7 +504,26 @@ function App() {
           fileContent: content,
           isSvgSource: uploadedFile.type === 'image/svg+xml',
           tolerance: s.tolerance,
+          colorMetric: s.colorMetric,
+          groupingMode: s.groupingMode,
+          targetColorCount: s.targetColorCount,
+          vectorizeRaster: s.vectorizeRaster,
+          traceOptions: s.traceOptions,
+          bridgeOptions: s.bridgeOptions,
+          registrationOptions: s.registrationOptions,
+          exportSettings: s.exportSettings,
+          svgPaintOptions: s.svgPaintOptions,
+          cleanupOptions: s.cleanupOptions,
+          trapOptions: s.trapOptions,
+          prefilterOptions: s.prefilterOptions,
+          ditherOptions: s.ditherOptions,
+          cutOptions: s.cutOptions,
+          tileOptions: s.tileOptions,
           originalFilePreviewUrl: previewUrl,
+          queue: s.queue,
+          activeItemId: itemId,
+          sharedSettings: s.sharedSettings,
+          palette: s.palette,
       }));
     };
     reader.onerror = () => setState(s => ({...s, error: 'Error reading file.'}));
@@ -305,13 +537,301 @@ function App() {
     }
   };
 
+  const handleFilesUpload = (files: File[]) => {
+    if (files.length === 1 && isProjectFile(files[0])) {
+      openProjectFile(files[0]);
+      return;
+    }
+    const items = files.filter(f => !isProjectFile(f)).map(f => ({ id: nextItemId.current++, file: f, project: null }));
+    if (items.length === 0) return;
+    setState(s => ({ ...s, queue: items }));
+    loadSourceFile(items[0].file, items[0].id);
+  };
+
+  // Lưu kết quả (và chỉnh sửa) của ảnh đang mở vào mục của nó trong hàng đợi
+  const snapshotQueue = (): BatchItem[] =>
+    queue.map(item => (item.id === activeItemId && colorGroups.length > 0 ? { ...item, project: buildProject() } : item));
+
+  const openQueueItem = (item: BatchItem) => {
+    setState(s => ({ ...s, queue: markQueueItem(s.queue, item.id, undefined) }));
+    if (item.project) {
+      restoreProject(item.project, item, sharedSettings ? currentSettings() : undefined)
+        .catch(err => {
+          console.error(err);
+          setState(s => ({ ...s, queue: markQueueItem(s.queue, item.id, 'Could not open this image.') }));
+        });
+    } else {
+      loadSourceFile(item.file, item.id);
+    }
+  };
+
+  const handleSelectQueueItem = (id: number) => {
+    if (id === activeItemId || isLoading) return;
+    const nextQueue = snapshotQueue();
+    const target = nextQueue.find(item => item.id === id);
+    if (!target) return;
+    setState(s => ({ ...s, queue: nextQueue }));
+    openQueueItem(target);
+  };
+
+  const handleRemoveQueueItem = (id: number) => {
+    const index = queue.findIndex(item => item.id === id);
+    const nextQueue = queue.filter(item => item.id !== id);
+    if (nextQueue.length === 0) {
+      resetState();
+      return;
+    }
+    setState(s => ({ ...s, queue: nextQueue }));
+    if (id === activeItemId) openQueueItem(nextQueue[Math.min(index, nextQueue.length - 1)]);
+  };
+
+  const handleAddFiles = (files: File[]) => {
+    const items = files.filter(f => !isProjectFile(f)).map(f => ({ id: nextItemId.current++, file: f, project: null }));
+    setState(s => ({ ...s, queue: [...s.queue, ...items] }));
+  };
+
+  const handleSharedSettingsChange = (value: boolean) => {
+    setState(s => ({ ...s, sharedSettings: value }));
+  };
+
+  const handleProcessAllClick = async () => {
+    if (isLoading || queue.length === 0) return;
+    const items = snapshotQueue();
+    const shared = currentSettings();
+    setState(s => ({ ...s, queue: items, isLoading: true, batchProgress: 0 }));
+    try {
+      // Ảnh chưa từng được mở dùng thiết lập hiện tại
+      const { archive, projects } = await processBatch(
+        items,
+        item => (sharedSettings || !item.project ? shared : item.project.settings),
+        pipeline,
+        value => setState(s => ({ ...s, batchProgress: value }))
+      );
+      setState(s => ({
+        ...s,
+        queue: s.queue.map(item => (item.id !== s.activeItemId && projects.has(item.id) ? { ...item, project: projects.get(item.id)! } : item)),
+      }));
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(archive);
+      link.download = 'stencils.zip';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(link.href);
+    } catch (err) {
+      console.error(err);
+      alert(`Batch export failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setState(s => ({ ...s, isLoading: false, batchProgress: null }));
+    }
+  };
+
   const handleToleranceChange = (value: number) => {
     setState(s => ({ ...s, tolerance: value }));
   };
 
+  const handleColorMetricChange = (value: ColorMetric) => {
+    setState(s => ({ ...s, colorMetric: value }));
+  };
+
+  const handleGroupingModeChange = (value: GroupingMode) => {
+    setState(s => ({ ...s, groupingMode: value }));
+  };
+
+  const handleTargetColorCountChange = (value: number) => {
+    setState(s => ({ ...s, targetColorCount: value }));
+  };
+
+  const handleVectorizeChange = (value: boolean) => {
+    setState(s => ({ ...s, vectorizeRaster: value }));
+  };
+
+  const handleTraceOptionsChange = (value: TraceOptions) => {
+    setState(s => ({ ...s, traceOptions: value }));
+  };
+
+  // Nguồn raster vẫn là raster ngay cả khi các lớp đã được vector hóa
+  const isRasterFile = !!file && file.type !== 'image/svg+xml';
+
+  // Ở chế độ số lớp cố định, mọi pixel đều thuộc về cụm gần nhất nên không giới hạn khoảng cách.
+  const maxGroupDistance = isRasterFile && groupingMode === 'count'
+    ? Infinity
+    : toleranceToDistance(tolerance, colorMetric);
+
+  const labelMap = labelCache && labelCache.groups === colorGroups ? labelCache.labelMap : null;
+
+  // Sau khi gộp, xóa hoặc sắp xếp lại nhóm, bản đồ nhãn được tính lại trong Worker.
+  useEffect(() => {
+    if (isSvgSource || !originalImageData || colorGroups.length === 0 || labelCache?.groups === colorGroups) return;
+
+    let cancelled = false;
+    pipeline.computeLabels(originalImageData, colorGroups as RasterColorGroup[], colorMetric, maxGroupDistance)
+      .then(result => {
+        if (!cancelled) setState(s => ({ ...s, labelCache: { groups: colorGroups, labelMap: result } }));
+      })
+      .catch(err => {
+        if (!isCancellation(err)) console.error(err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isSvgSource, originalImageData, colorGroups, colorMetric, maxGroupDistance, labelCache, pipeline]);
+
+  // Làm sạch chạy trên bản đồ nhãn trong Worker; xem trước và xuất dùng bản đồ đã làm sạch.
+  // Bản đồ nhãn được tính lại mỗi khi nhóm thay đổi, nên bộ nhớ đệm theo bản đồ nguồn cũng theo thiết lập riêng của lớp.
+  const layerCleanup = useMemo(() => cleanupOverrides(colorGroups), [colorGroups]);
+  const cleanupActive = !isSvgSource && isCleanupActive(cleanupOptions, layerCleanup);
+  const cleanedLabelMap = cleanupCache && cleanupCache.source === labelMap && cleanupCache.options === cleanupOptions ? cleanupCache.labelMap : null;
+  const refinedLabelMap = cleanupActive ? cleanedLabelMap : labelMap;
+  // Dither chạy sau làm sạch, giữa các màu sơn của lớp
+  const ditherActive = !isSvgSource && isDitherActive(ditherOptions);
+  const ditheredLabelMap = ditherCache && ditherCache.source === refinedLabelMap && ditherCache.groups === colorGroups && ditherCache.options === ditherOptions
+    ? ditherCache.labelMap
+    : null;
+  const outputLabelMap = ditherActive ? ditheredLabelMap : refinedLabelMap;
+
+  useEffect(() => {
+    if (!cleanupActive || !originalImageData || !labelMap || cleanedLabelMap) return;
+
+    let cancelled = false;
+    const handler = setTimeout(() => {
+      pipeline.cleanup(originalImageData, labelMap, cleanupOptions, layerCleanup)
+        .then(result => {
+          if (!cancelled) setState(s => ({ ...s, cleanupCache: { source: labelMap, options: cleanupOptions, labelMap: result } }));
+        })
+        .catch(err => {
+          if (!isCancellation(err)) console.error(err);
+        });
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(handler);
+    };
+  }, [cleanupActive, originalImageData, labelMap, cleanedLabelMap, cleanupOptions, layerCleanup, pipeline]);
+
+  useEffect(() => {
+    if (!ditherActive || !originalImageData || !refinedLabelMap || ditheredLabelMap) return;
+
+    let cancelled = false;
+    const handler = setTimeout(() => {
+      pipeline.dither(originalImageData, refinedLabelMap, colorGroups.map(layerColor), ditherOptions)
+        .then(result => {
+          if (!cancelled) setState(s => ({ ...s, ditherCache: { source: refinedLabelMap, groups: colorGroups, options: ditherOptions, labelMap: result } }));
+        })
+        .catch(err => {
+          if (!isCancellation(err)) console.error(err);
+        });
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(handler);
+    };
+  }, [ditherActive, originalImageData, refinedLabelMap, ditheredLabelMap, colorGroups, ditherOptions, pipeline]);
+
+  const handlePrefilterOptionsChange = (value: PrefilterOptions) => {
+    setState(s => ({ ...s, prefilterOptions: value }));
+  };
+
+  const showSourceInput = (value: boolean) => {
+    setState(s => ({ ...s, isSourceInputShown: value }));
+  };
+
+  const inputPreviewUrl = filteredPreviewUrl && !isSourceInputShown ? filteredPreviewUrl : originalFilePreviewUrl;
+
+  const handleCleanupOptionsChange = (value: CleanupOptions) => {
+    setState(s => ({ ...s, cleanupOptions: value }));
+  };
+
+  const handleDitherOptionsChange = (value: DitherOptions) => {
+    setState(s => ({ ...s, ditherOptions: value }));
+  };
+
+  const handleCutOptionsChange = (value: CutOptions) => {
+    setState(s => ({ ...s, cutOptions: value }));
+  };
+
+  const handleTileOptionsChange = (value: TileOptions) => {
+    setState(s => ({ ...s, tileOptions: value }));
+  };
+
+  const showCleanupBefore = (value: boolean) => {
+    setState(s => ({ ...s, isCleanupBeforeShown: value }));
+  };
+
+  // "Before" là các lớp phẳng ban đầu, trước khi làm sạch và dither
+  const refineActive = cleanupActive || ditherActive;
+  const previewLabelMap = refineActive && isCleanupBeforeShown ? labelMap : outputLabelMap;
+
+  const handleSvgPaintOptionsChange = (value: SvgPaintOptions) => {
+    setState(s => ({ ...s, svgPaintOptions: value }));
+  };
+
+  const handleExportSettingsChange = (value: ExportSettings) => {
+    setState(s => ({ ...s, exportSettings: value }));
+  };
+
+  const exportFrame = useMemo(() => resolveExportFrame(exportSettings, dimensions), [exportSettings, dimensions]);
+  // Khung của lớp raster khi xuất; null = độ phân giải gốc của ảnh
+  const rasterFrame = exportSettings.scaleRaster ? exportFrame : null;
+
+  const handleBridgeOptionsChange = (value: BridgeOptions) => {
+    setState(s => ({ ...s, bridgeOptions: value }));
+  };
+
+  // Phân tích lại đảo của các lớp mỗi khi lớp, khung xuất hoặc thiết lập cầu nối thay đổi
+  useEffect(() => {
+    if (!bridgeOptions.detectIslands || colorGroups.length === 0) {
+      setState(s => (s.islandAnalyses.size > 0 ? { ...s, islandAnalyses: new Map() } : s));
+      return;
+    }
+
+    let cancelled = false;
+    analyzeIslands(colorGroups, { isSvgSource, dimensions, frame: exportFrame, imageData: originalImageData, labelMap: outputLabelMap }, bridgeOptions, () => cancelled)
+      .then(analyses => {
+        if (analyses) setState(s => ({ ...s, islandAnalyses: analyses }));
+      })
+      .catch(err => console.error(err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [bridgeOptions, colorGroups, isSvgSource, dimensions, originalImageData, outputLabelMap, exportFrame]);
+
+  const layerBridges = (group: SVGColorGroup | RasterColorGroup): Bridge[] =>
+    bridgeOptions.insertBridges ? islandAnalyses.get(group)?.bridges ?? [] : [];
+
+  const handleTrapOptionsChange = (value: TrapOptions) => {
+    setState(s => ({ ...s, trapOptions: value }));
+  };
+
+  const handleTrapOffsetChange = (index: number, value: number | null) => {
+    setState(s => applyOperation(s, 'trap', s.colorGroups.map((group, i) => {
+      if (i !== index) return group;
+      const { trapOffset: _previous, ...rest } = group;
+      return value === null ? rest : { ...rest, trapOffset: value };
+    })));
+  };
+
+  const handleLayerCleanupChange = (index: number, value: CleanupOverride | null) => {
+    setState(s => applyOperation(s, 'cleanup', s.colorGroups.map((group, i) => {
+      if (i !== index || 'elements' in group) return group;
+      const { cleanup: _previous, ...rest } = group;
+      return value === null ? rest : { ...rest, cleanup: value };
+    })));
+  };
+
+  const handleRegistrationOptionsChange = (value: RegistrationOptions) => {
+    setState(s => ({ ...s, registrationOptions: value }));
+  };
+
+  const buildLayerSvg = (group: SVGColorGroup, index: number): string =>
+    buildLayerSvgString(colorGroups as SVGColorGroup[], index, dimensions, exportFrame, layerBridges(group), registrationOptions, layerTrap(colorGroups, index, trapOptions, exportSettings.dpi));
+
   const downloadSvg = (group: SVGColorGroup, index: number) => {
-    const transformedHtml = transformSvgElements(group.elements, dimensions);
-    const svgData = createFinalSvgString(transformedHtml);
+    const svgData = buildLayerSvg(group, index);
     const blob = new Blob([svgData], { type: 'image/svg+xml' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -323,6 +843,23 @@ function App() {
     URL.revokeObjectURL(url);
   };
   
+  // Tệp đường cắt (DXF/HPGL/PDF) của một lớp vector, cùng khung xuất với tệp SVG
+  const downloadCutFile = (format: CutFormat, index: number) => {
+    const blob = buildCutFile(format, colorGroups as SVGColorGroup[], [index], dimensions, exportFrame, exportSettings.dpi, cutOptions, {
+      registrationOptions,
+      bridgesFor: i => layerBridges(colorGroups[i]),
+      trapFor: i => layerTrap(colorGroups, i, trapOptions, exportSettings.dpi),
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${index + 1}.${CUT_FORMATS[format].extension}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+  
   const triggerPngDownload = (canvas: HTMLCanvasElement, index: number) => {
     const url = canvas.toDataURL('image/png');
     const a = document.createElement('a');
@@ -333,90 +870,84 @@ function App() {
     document.body.removeChild(a);
   };
 
-  const downloadPng = (group: SVGColorGroup | RasterColorGroup, index: number) => {
+  const downloadPng = async (group: SVGColorGroup | RasterColorGroup, index: number) => {
     const canvas = document.createElement('canvas');
-    canvas.width = 600;
-    canvas.height = 600;
+    canvas.width = exportFrame.width;
+    canvas.height = exportFrame.height;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
     if (isSvgSource) {
-      const svgGroup = group as SVGColorGroup;
-      const transformedHtml = transformSvgElements(svgGroup.elements, dimensions);
-      const svgData = createFinalSvgString(transformedHtml);
+      const svgData = buildLayerSvg(group as SVGColorGroup, index);
       const img = new Image();
       img.onload = () => {
-        ctx.drawImage(img, 0, 0);
+        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
         triggerPngDownload(canvas, index);
       };
       img.src = `data:image/svg+xml;base64,${btoa(svgData)}`;
-    } else if (originalImageData && dimensions) {
-      canvas.width = dimensions.width;
-      canvas.height = dimensions.height;
-      const rasterGroup = group as RasterColorGroup;
-      const newImageData = ctx.createImageData(originalImageData.width, originalImageData.height);
-      const data = originalImageData.data;
-      const newData = newImageData.data;
-      const groupIndex = colorGroups.findIndex(g => g.representativeColor === rasterGroup.representativeColor);
-      const maxDist = tolerance * 2.55;
-
-      for (let i = 0; i < data.length; i += 4) {
-        if (data[i + 3] < 128) continue;
-        const pixelColor = { r: data[i], g: data[i + 1], b: data[i + 2] };
-        let bestGroupIndex = -1;
-        let minDistance = Infinity;
-        for (let j = 0; j < colorGroups.length; j++) {
-            const dist = colorDistance(pixelColor, colorGroups[j].representativeColor);
-            if (dist < minDistance) { minDistance = dist; bestGroupIndex = j; }
-        }
-        if (bestGroupIndex === groupIndex && minDistance < maxDist) {
-            newData[i] = data[i]; newData[i + 1] = data[i + 1]; newData[i + 2] = data[i + 2]; newData[i + 3] = data[i + 3];
-        }
+    } else if (originalImageData && outputLabelMap) {
+      try {
+        const layerIndex = colorGroups.indexOf(group);
+        const trap = layerTrap(colorGroups, layerIndex, trapOptions, exportSettings.dpi);
+        const layerCanvas = await renderRasterLayer(pipeline, originalImageData, colorGroups, layerIndex, outputLabelMap, rasterFrame, layerBridges(group), registrationOptions, trap);
+        triggerPngDownload(layerCanvas, index);
+      } catch (err) {
+        if (!isCancellation(err)) console.error(err);
       }
-      ctx.putImageData(newImageData, 0, 0);
-      triggerPngDownload(canvas, index);
     }
   };
 
-  const handleDownload = (group: SVGColorGroup | RasterColorGroup, format: 'svg' | 'png', index: number) => {
-    if (format === 'svg' && isSvgSource) {
+  const handleDownload = (group: SVGColorGroup | RasterColorGroup, format: LayerFormat, index: number) => {
+    if (format === 'png' || !isSvgSource) {
+      downloadPng(group, index);
+    } else if (format === 'svg') {
       downloadSvg(group as SVGColorGroup, index);
     } else {
-      downloadPng(group, index);
+      downloadCutFile(format, index);
     }
   };
   
   const handleDeleteGroup = (indexToDelete: number) => {
-    const groupToDelete = colorGroups[indexToDelete];
-    const newColorGroups = colorGroups.filter((_, index) => index !== indexToDelete);
+    setState(s => applyOperation(s, 'delete', s.colorGroups.filter((_, index) => index !== indexToDelete)));
+  };
+
+  const restoreFromHistory = (step: typeof undoHistory) => {
+    if (isLoading) return;
+    const result = step(history);
+    if (!result) return;
+    const { snapshot } = result;
+    // Các nhóm được khôi phục đã ứng với dung sai của ảnh chụp, nên không cần xử lý lại ảnh
+    if (processedSettings.current) processedSettings.current = { ...processedSettings.current, tolerance: snapshot.tolerance };
     setState(s => ({
-        ...s,
-        colorGroups: newColorGroups,
-        deletedGroups: [...s.deletedGroups, { group: groupToDelete, originalIndex: indexToDelete }],
-        selectedGroupIndices: [],
+      ...s,
+      colorGroups: snapshot.colorGroups,
+      tolerance: snapshot.tolerance,
+      history: result.history,
+      selectedGroupIndices: [],
     }));
   };
 
-  const handleUndoDelete = () => {
-    if (deletedGroups.length === 0) return;
-    const newDeletedGroups = [...deletedGroups];
-    const lastDeleted = newDeletedGroups.pop();
-    if (lastDeleted) {
-        const newColorGroups = [...colorGroups];
-        const insertAt = Math.min(lastDeleted.originalIndex, newColorGroups.length);
-        newColorGroups.splice(insertAt, 0, lastDeleted.group);
-        setState(s => ({ ...s, colorGroups: newColorGroups, deletedGroups: newDeletedGroups }));
-    }
-  };
-  
-  const handleUndoReorder = () => {
-    if (reorderHistory.length === 0) return;
-    const newReorderHistory = [...reorderHistory];
-    const lastState = newReorderHistory.pop();
-    if (lastState) {
-        setState(s => ({ ...s, colorGroups: lastState, reorderHistory: newReorderHistory }));
-    }
-  };
+  const handleUndo = () => restoreFromHistory(undoHistory);
+  const handleRedo = () => restoreFromHistory(redoHistory);
+
+  // Phím tắt Ctrl+Z / Ctrl+Shift+Z (và Ctrl+Y), bỏ qua khi đang gõ trong ô nhập liệu
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || editingGroup) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
 
   const handleDragStart = (index: number) => draggedItem.current = index;
   const handleDragEnter = (index: number) => setDragOverIndex(index);
@@ -431,16 +962,12 @@ function App() {
         return;
     };
 
+    const dragIndex = draggedItem.current;
     setState(s => {
       const newColorGroups = [...s.colorGroups];
-      const draggedGroup = newColorGroups.splice(draggedItem.current!, 1)[0];
+      const draggedGroup = newColorGroups.splice(dragIndex, 1)[0];
       newColorGroups.splice(dropIndex, 0, draggedGroup);
-      return {
-        ...s,
-        colorGroups: newColorGroups,
-        reorderHistory: [...s.reorderHistory, s.colorGroups],
-        selectedGroupIndices: [],
-      };
+      return applyOperation(s, 'reorder', newColorGroups);
     });
     
     draggedItem.current = null;
@@ -462,39 +989,83 @@ function App() {
       if (doc.querySelector("parsererror")) {
         throw new Error("Invalid SVG syntax.");
       }
-      const newElements = Array.from(doc.documentElement.childNodes).filter(node => node.nodeType === 1) as SVGElement[];
+      const children = Array.from(doc.documentElement.children) as SVGElement[];
+      // Các định nghĩa (gradient, clip-path...) được tách riêng khỏi phần tử hiển thị của nhóm
+      const newDefs = children.filter(el => el.tagName === 'defs').flatMap(el => Array.from(el.children) as SVGElement[]);
+      const newElements = children.filter(el => el.tagName !== 'defs' && !el.matches(NON_RENDERED_CONTAINERS));
       
       const newColorGroups = [...colorGroups];
       const oldGroup = newColorGroups[editingGroup.index] as SVGColorGroup;
-      newColorGroups[editingGroup.index] = { ...oldGroup, elements: newElements };
+      newColorGroups[editingGroup.index] = { ...oldGroup, elements: newElements, defs: newDefs };
       
-      setState(s => ({ ...s, colorGroups: newColorGroups, editingGroup: null, selectedGroupIndices: [] }));
+      setState(s => ({ ...applyOperation(s, 'edit', newColorGroups), editingGroup: null }));
 
     } catch (e) {
       alert(`Error saving SVG: ${e instanceof Error ? e.message : 'Unknown error'}`);
     }
   };
   
+  const handleLayeredRasterFormatChange = (value: LayeredRasterFormat) => {
+    setState(s => ({ ...s, layeredRasterFormat: value }));
+  };
+
+  // Một tệp giữ riêng mọi lớp: SVG có layer của Inkscape, hoặc PSD/TIFF dựng từ mặt nạ của từng nhóm
+  const handleDownloadLayeredClick = async () => {
+    if (!file) return;
+    let blob: Blob;
+    let extension: string;
+    try {
+      if (isSvgSource) {
+        blob = new Blob([buildLayeredSvg(colorGroups as SVGColorGroup[], dimensions, exportFrame)], { type: 'image/svg+xml' });
+        extension = 'svg';
+      } else if (originalImageData && outputLabelMap) {
+        blob = await buildLayeredRaster(layeredRasterFormat, pipeline, originalImageData, colorGroups, outputLabelMap, rasterFrame, exportSettings.dpi);
+        extension = layeredRasterFormat === 'psd' ? 'psd' : 'tif';
+      } else {
+        return;
+      }
+    } catch (err) {
+      if (!isCancellation(err)) alert(`Error exporting layered file: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      return;
+    }
+
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `${file.name.split('.').slice(0, -1).join('.') || 'layers'}-layers.${extension}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+  };
+
   const handleDownloadAllClick = async () => {
-    if (!isSvgSource || !file) return;
+    if (!file) return;
     
-    // @ts-ignore
-    const zip = new JSZip();
-
-    // Thumbnail
-    const allElements = colorGroups.flatMap(g => (g as SVGColorGroup).elements);
-    const transformedThumbnailHtml = transformSvgElements(allElements, dimensions);
-    const thumbnailSvgData = `<svg width="600" height="600" viewBox="0 0 600 600" xmlns="http://www.w3.org/2000/svg"><rect width="100%" height="100%" fill="white"/>${transformedThumbnailHtml}</svg>`;
-    zip.file("thumb.svg", thumbnailSvgData);
-
-    // Layers
-    colorGroups.forEach((group, index) => {
-      const transformedHtml = transformSvgElements((group as SVGColorGroup).elements, dimensions);
-      const svgData = createFinalSvgString(transformedHtml);
-      zip.file(`${index + 1}.svg`, svgData);
-    });
+    const zip = createZipArchive();
+
+    // Thumbnail, các lớp và manifest.json
+    try {
+      await addLayerBundle(
+        zip,
+        { name: file.name, groups: colorGroups, isSvgSource, dimensions, imageData: originalImageData, labelMap: outputLabelMap },
+        {
+          frame: exportFrame,
+          registrationOptions,
+          bridgesFor: index => layerBridges(colorGroups[index]),
+          trapFor: index => layerTrap(colorGroups, index, trapOptions, exportSettings.dpi),
+          cutOptions,
+          tileOptions,
+          dpi: exportSettings.dpi,
+          scaleRaster: exportSettings.scaleRaster,
+        },
+        pipeline
+      );
+    } catch (err) {
+      if (!isCancellation(err)) console.error(err);
+      return;
+    }
     
-    const zipBlob = await zip.generateAsync({ type: 'blob' });
+    const zipBlob = await zip.generate();
     const link = document.createElement('a');
     link.href = URL.createObjectURL(zipBlob);
     link.download = `${file.name.split('.').slice(0, -1).join('.') || 'archive'}.zip`;
@@ -517,6 +1088,81 @@ function App() {
     });
   };
 
+  const handleSplitGroup = (index: number, options: SplitOptions) => {
+    const group = colorGroups[index];
+    let parts: (SVGColorGroup | RasterColorGroup)[];
+    let unchanged: boolean;
+    if (isSvgSource) {
+      // Tọa độ của các hình tính theo viewBox
+      const viewBox = dimensions?.viewBox?.split(/[ ,]+/).map(parseFloat);
+      const area = viewBox && viewBox.length === 4 ? viewBox[2] * viewBox[3] : (dimensions?.width ?? 0) * (dimensions?.height ?? 0);
+      const svgGroup = group as SVGColorGroup;
+      parts = splitSvgGroup(svgGroup, area * options.minAreaPercent / 100, options.proximity);
+      unchanged = parts.length === 1 && (parts[0] as SVGColorGroup).elements.length === svgGroup.elements.length;
+    } else {
+      if (!originalImageData || !labelMap) return;
+      const { width, height } = originalImageData;
+      const rasterParts = splitRasterGroup(group as RasterColorGroup, labelMap.labels, width, height, index, width * height * options.minAreaPercent / 100);
+      const pixelCount = labelMap.labels.reduce((count, label) => count + (label === index ? 1 : 0), 0);
+      parts = rasterParts;
+      unchanged = rasterParts.length === 1 && rasterParts[0].totalCount === pixelCount;
+    }
+    if (parts.length === 0) {
+      alert('Every region of this layer is smaller than the minimum area.');
+      return;
+    }
+    if (unchanged) {
+      alert('This layer is already a single connected region.');
+      return;
+    }
+    setState(s => applyOperation(s, 'split', [...s.colorGroups.slice(0, index), ...parts, ...s.colorGroups.slice(index + 1)]));
+  };
+
+  const handleReassignPixels = (pixels: Uint32Array, target: number | null) => {
+    setState(s => applyOperation(s, 'reassign', reassignPixels(s.colorGroups as RasterColorGroup[], pixels, target)));
+  };
+
+  const handleReassignElement = (groupIndex: number, elementIndex: number, target: number | null) => {
+    setState(s => {
+      const groups = reassignElement(s.colorGroups as SVGColorGroup[], groupIndex, elementIndex, target);
+      return groups === s.colorGroups ? s : applyOperation(s, 'reassign', groups);
+    });
+  };
+
+  // Đổi màu không thay đổi bản đồ nhãn, nên bản đồ hiện tại được giữ lại cho các nhóm mới
+  const applyRecolor = (s: AppState, colorGroups: (SVGColorGroup | RasterColorGroup)[]): AppState => ({
+    ...applyOperation(s, 'recolor', colorGroups),
+    labelCache: s.labelCache && s.labelCache.groups === s.colorGroups ? { groups: colorGroups, labelMap: s.labelCache.labelMap } : s.labelCache,
+  });
+
+  const handleRecolorGroup = (index: number, color: PaintColor | null) => {
+    setState(s => applyRecolor(s, s.colorGroups.map((group, i) => {
+      if (i !== index) return group;
+      const { targetColor: _previous, ...rest } = group;
+      return color ? { ...rest, targetColor: color } : rest;
+    })));
+  };
+
+  const handleImportPalette = async (paletteFile: File) => {
+    try {
+      const imported = await parsePaletteFile(paletteFile);
+      setState(s => ({ ...s, palette: imported, paletteError: null }));
+    } catch (err) {
+      console.error(err);
+      // Chỉ báo lỗi trong bảng màu; lỗi chung sẽ thay cả trình chỉnh sửa và xóa phiên làm việc
+      setState(s => ({ ...s, paletteError: err instanceof Error ? err.message : 'Could not read the palette file.' }));
+    }
+  };
+
+  const handleMapToPalette = () => {
+    if (!palette) return;
+    setState(s => applyRecolor(s, s.colorGroups.map(group => ({ ...group, targetColor: nearestPaintColor(group.representativeColor, palette, s.colorMetric) }))));
+  };
+
+  const handleClearRecolor = () => {
+    setState(s => applyRecolor(s, s.colorGroups.map(({ targetColor: _targetColor, ...group }) => group)));
+  };
+
   const handleMergeGroups = () => {
     if (selectedGroupIndices.length < 2) return;
 
@@ -530,7 +1176,10 @@ function App() {
       const allElements = svgGroups.flatMap(g => g.elements);
       newMergedGroup = {
         representativeColor: primaryGroup.representativeColor,
+        ...(primaryGroup.targetColor ? { targetColor: primaryGroup.targetColor } : {}),
+        ...(primaryGroup.trapOffset !== undefined ? { trapOffset: primaryGroup.trapOffset } : {}),
         elements: allElements,
+        defs: mergeDefs(...svgGroups.map(g => g.defs)),
       };
     } else {
       const rasterGroups = groupsToMerge as RasterColorGroup[];
@@ -539,9 +1188,19 @@ function App() {
       const totalCount = rasterGroups.reduce((sum, g) => sum + g.totalCount, 0);
       newMergedGroup = {
         representativeColor: primaryGroup.representativeColor,
+        ...(primaryGroup.targetColor ? { targetColor: primaryGroup.targetColor } : {}),
+        ...(primaryGroup.trapOffset !== undefined ? { trapOffset: primaryGroup.trapOffset } : {}),
+        ...(primaryGroup.cleanup ? { cleanup: primaryGroup.cleanup } : {}),
         memberColors: allMemberColors,
         totalCount: totalCount,
+        ...mergePixelOverrides(rasterGroups),
       };
+      // Nhóm đã tách theo vùng không thể gán lại pixel theo màu, nên nhóm gộp giữ đúng các pixel hiện có của các nhóm
+      if (rasterGroups.some(g => g.region)) {
+        newMergedGroup.region = labelMap
+          ? regionFromLabels(labelMap.labels, selectedGroupIndices)
+          : Uint32Array.from(rasterGroups.flatMap(g => (g.region ? Array.from(g.region) : [])));
+      }
     }
 
     const indicesToRemove = new Set(selectedGroupIndices);
@@ -549,28 +1208,13 @@ function App() {
     const insertAtIndex = Math.min(...selectedGroupIndices);
     newColorGroups.splice(insertAtIndex, 0, newMergedGroup);
     
-    setState(s => ({
-        ...s,
-        colorGroups: newColorGroups,
-        mergeHistory: [...s.mergeHistory, s.colorGroups],
-        selectedGroupIndices: [],
-        deletedGroups: [],
-        reorderHistory: [],
-    }));
-  };
-
-  const handleUndoMerge = () => {
-    if (mergeHistory.length === 0) return;
-    const newMergeHistory = [...mergeHistory];
-    const lastState = newMergeHistory.pop();
-    if (lastState) {
-        setState(s => ({ ...s, colorGroups: lastState, mergeHistory: newMergeHistory }));
-    }
+    setState(s => applyOperation(s, 'merge', newColorGroups));
   };
 
 
   const renderContent = () => {
-    if (isLoading && colorGroups.length === 0) { return <Loader message="Analyzing your image..." />; }
+    if (batchProgress !== null) { return <Loader message={`Processing ${queue.length} images...`} progress={batchProgress} />; }
+    if (isLoading && colorGroups.length === 0) { return <Loader message="Analyzing your image..." progress={progress ?? undefined} />; }
     if (error) {
       return (
         <div className="text-center">
@@ -579,40 +1223,137 @@ function App() {
         </div>
       );
     }
-    if (!file) { return <FileUpload onFileUpload={handleFileUpload} />; }
-    return (
-      <div className="space-y-8">
-        <div><ToleranceSlider value={tolerance} onChange={handleToleranceChange} disabled={isLoading} /></div>
+    if (!file) { return <FileUpload onFilesUpload={handleFilesUpload} multiple />; }
+    const editor = (
+      <div className="flex-1 min-w-0 space-y-8">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6 items-end">
+          <div className="md:col-span-3">
+            {isRasterFile && (
+              <div className="inline-flex mb-3 rounded-md border border-gray-600 overflow-hidden text-sm">
+                {(['tolerance', 'count'] as GroupingMode[]).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => handleGroupingModeChange(mode)}
+                    disabled={isLoading}
+                    className={`px-3 py-1 ${groupingMode === mode ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'}`}
+                  >
+                    {mode === 'tolerance' ? 'By Tolerance' : 'By Layer Count'}
+                  </button>
+                ))}
+              </div>
+            )}
+            {isRasterFile && groupingMode === 'count'
+              ? <ColorCountSlider value={targetColorCount} onChange={handleTargetColorCountChange} disabled={isLoading} />
+              : <ToleranceSlider value={tolerance} onChange={handleToleranceChange} disabled={isLoading} metric={colorMetric} />}
+          </div>
+          <div><ColorMetricSelect value={colorMetric} onChange={handleColorMetricChange} disabled={isLoading} /></div>
+        </div>
+        {file.type === 'image/svg+xml' && (
+          <SvgPaintSettings options={svgPaintOptions} onChange={handleSvgPaintOptionsChange} disabled={isLoading} />
+        )}
+        {isRasterFile && (
+          <PrefilterSettings options={prefilterOptions} onChange={handlePrefilterOptionsChange} disabled={isLoading} />
+        )}
+        {isRasterFile && (
+          <TraceSettings
+            enabled={vectorizeRaster}
+            options={traceOptions}
+            onEnabledChange={handleVectorizeChange}
+            onOptionsChange={handleTraceOptionsChange}
+            disabled={isLoading}
+          />
+        )}
+        {isRasterFile && (
+          <CleanupSettings options={cleanupOptions} onChange={handleCleanupOptionsChange} disabled={isLoading} />
+        )}
+        {isRasterFile && (
+          <DitherSettings options={ditherOptions} onChange={handleDitherOptionsChange} disabled={isLoading} />
+        )}
+        {isSvgSource && (
+          <CutSettings options={cutOptions} onChange={handleCutOptionsChange} disabled={isLoading} />
+        )}
+        <BridgeSettings options={bridgeOptions} onChange={handleBridgeOptionsChange} disabled={isLoading} />
+        <TrapSettings options={trapOptions} onChange={handleTrapOptionsChange} disabled={isLoading} />
+        <RegistrationSettings options={registrationOptions} onChange={handleRegistrationOptionsChange} disabled={isLoading} />
+        <ExportSettingsPanel settings={exportSettings} frame={exportFrame} onChange={handleExportSettingsChange} disabled={isLoading} />
+        <TileSettings
+          options={tileOptions}
+          onChange={handleTileOptionsChange}
+          size={isSvgSource ? exportFrame : rasterFrame ?? originalImageData ?? exportFrame}
+          dpi={exportSettings.dpi}
+          disabled={isLoading}
+        />
+        <PalettePanel
+          palette={palette}
+          error={paletteError}
+          onImport={handleImportPalette}
+          onMapLayers={handleMapToPalette}
+          onClearRecolor={handleClearRecolor}
+          hasRecolor={colorGroups.some(g => g.targetColor)}
+          disabled={isLoading || colorGroups.length === 0}
+        />
         
         <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-8">
           <div>
-            <h3 className="text-lg font-semibold text-gray-300 mb-2 text-center">Original Input</h3>
+            <div className="flex items-center justify-center gap-3 mb-2">
+              <h3 className="text-lg font-semibold text-gray-300 text-center">Original Input</h3>
+              {filteredPreviewUrl && (
+                <div className="inline-flex rounded-md border border-gray-600 overflow-hidden text-xs">
+                  {[true, false].map(source => (
+                    <button
+                      key={String(source)}
+                      onClick={() => showSourceInput(source)}
+                      className={`px-2 py-0.5 ${isSourceInputShown === source ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'}`}
+                    >
+                      {source ? 'Source' : 'Filtered'}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
             <div className="aspect-square bg-gray-800 p-2 rounded-lg border border-gray-700 flex items-center justify-center">
-              {originalFilePreviewUrl && (
-                <img src={originalFilePreviewUrl} alt="Original file preview" className="max-w-full max-h-full object-contain" />
+              {inputPreviewUrl && (
+                <img src={inputPreviewUrl} alt="Original file preview" className="max-w-full max-h-full object-contain" />
               )}
             </div>
           </div>
           <div>
-            <h3 className="text-lg font-semibold text-gray-300 mb-2 text-center">Live Reassembled Thumbnail</h3>
+            <div className="flex items-center justify-center gap-3 mb-2">
+              <h3 className="text-lg font-semibold text-gray-300 text-center">Live Reassembled Thumbnail</h3>
+              {refineActive && (
+                <div className="inline-flex rounded-md border border-gray-600 overflow-hidden text-xs">
+                  {[true, false].map(before => (
+                    <button
+                      key={String(before)}
+                      onClick={() => showCleanupBefore(before)}
+                      className={`px-2 py-0.5 ${isCleanupBeforeShown === before ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'}`}
+                    >
+                      {before ? 'Before' : 'After'}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
              <div className="aspect-square bg-gray-800 p-2 rounded-lg border border-gray-700">
                 <ReassembledPreview 
                     isSvgSource={isSvgSource} 
                     colorGroups={colorGroups} 
                     dimensions={dimensions} 
                     originalImageData={originalImageData} 
-                    tolerance={tolerance}
+                    labelMap={previewLabelMap}
+                    pipeline={pipeline}
+                    exportFrame={exportFrame}
                 />
              </div>
           </div>
         </div>
         
-        {isLoading && <Loader message="Recalculating colors..." />}
+        {isLoading && <Loader message="Recalculating colors..." progress={progress ?? undefined} />}
         {!isLoading && colorGroups.length > 0 ? (
           <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6 pt-8">
             {colorGroups.map((group, index) => {
               const previewDataUrl = isSvgSource
-                ? `data:image/svg+xml;base64,${btoa(createFinalSvgString(transformSvgElements((group as SVGColorGroup).elements, dimensions)))}`
+                ? `data:image/svg+xml;base64,${btoa(createFinalSvgString(transformSvgGroups([group as SVGColorGroup], dimensions, exportFrame), exportFrame))}`
                 : undefined;
               
               return (
@@ -630,9 +1371,17 @@ function App() {
                   group={group}
                   isSvgSource={isSvgSource}
                   previewDataUrl={previewDataUrl}
+                  islandAnalysis={islandAnalyses.get(group)}
                   onDownload={(format) => handleDownload(group, format, index)}
+                  downloadPending={!isSvgSource && !outputLabelMap}
                   onDelete={() => handleDeleteGroup(index)}
                   onEdit={() => handleOpenEditModal(index)}
+                  onSplit={(options) => handleSplitGroup(index, options)}
+                  onRecolor={(color) => handleRecolorGroup(index, color)}
+                  trapUnit={trapOptions.unit}
+                  onTrapOffsetChange={(value) => handleTrapOffsetChange(index, value)}
+                  cleanupOptions={!isSvgSource && cleanupOptions.enabled ? cleanupOptions : null}
+                  onCleanupChange={(value) => handleLayerCleanupChange(index, value)}
                   isSelected={selectedGroupIndices.includes(index)}
                   onSelect={() => handleSelectGroup(index)}
                 />
@@ -647,11 +1396,27 @@ function App() {
          <p className="text-center text-gray-500 text-sm pt-4">Drag & drop to reorder layers. Extract color stencils from your images.</p>
       </div>
     );
+    return (
+      <div className="flex flex-col lg:flex-row gap-8">
+        <BatchQueue
+          items={queue}
+          activeItemId={activeItemId}
+          sharedSettings={sharedSettings}
+          onSelect={handleSelectQueueItem}
+          onRemove={handleRemoveQueueItem}
+          onAddFiles={handleAddFiles}
+          onSharedSettingsChange={handleSharedSettingsChange}
+          onProcessAll={handleProcessAllClick}
+          disabled={isLoading}
+        />
+        {editor}
+      </div>
+    );
   };
 
   return (
     <div className="bg-gray-900 text-white min-h-screen">
-      <header className="bg-gray-800/50 backdrop-blur-sm sticky top-0 z-10 border-b border-gray-700">
+      <header className="bg-gray-800/50 backdrop-blur-xs sticky top-0 z-10 border-b border-gray-700">
         <div className="container mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex items-center justify-between h-16">
             <div className="flex items-center">
@@ -659,9 +1424,27 @@ function App() {
                 <h1 className="ml-3 text-2xl font-bold text-gray-200">Image Color Extractor</h1>
             </div>
             {file && (
+              <div className="flex items-center gap-2">
+                <button onClick={handleSaveProject} disabled={isLoading || colorGroups.length === 0} className="px-4 py-2 text-sm font-medium text-indigo-400 rounded-md hover:bg-gray-700 disabled:text-gray-500 disabled:hover:bg-transparent focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500">
+                    Save Project
+                </button>
+                <label className="px-4 py-2 text-sm font-medium text-indigo-400 rounded-md hover:bg-gray-700 cursor-pointer focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-offset-gray-800 focus-within:ring-indigo-500">
+                    Open Project
+                    <input
+                      type="file"
+                      accept=".json"
+                      className="sr-only"
+                      onChange={(e) => {
+                        const projectFile = e.target.files?.[0];
+                        if (projectFile) openProjectFile(projectFile);
+                        e.target.value = '';
+                      }}
+                    />
+                </label>
                 <button onClick={resetState} className="px-4 py-2 text-sm font-medium text-indigo-400 rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500">
                     Start Over
                 </button>
+              </div>
             )}
           </div>
         </div>
@@ -670,8 +1453,8 @@ function App() {
         {renderContent()}
       </main>
       
-      {(colorGroups.length > 0 || deletedGroups.length > 0 || reorderHistory.length > 0 || mergeHistory.length > 0) && (
-        <div className="fixed bottom-0 left-0 right-0 z-20 bg-gray-800/90 backdrop-blur-sm border-t border-gray-700 shadow-lg">
+      {(colorGroups.length > 0 || history.past.length > 0 || history.future.length > 0) && (
+        <div className="fixed bottom-0 left-0 right-0 z-20 bg-gray-800/90 backdrop-blur-xs border-t border-gray-700 shadow-lg">
           <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-3 flex justify-center flex-wrap gap-4">
             {selectedGroupIndices.length === 1 && (
                <div className="inline-flex items-center justify-center px-6 py-3 text-base font-medium text-center text-gray-400 bg-gray-800 rounded-lg border border-gray-700">
@@ -684,37 +1467,82 @@ function App() {
                  <MergeIcon className="w-5 h-5 mr-2" /> Merge Selected
                </button>
             )}
-            {isSvgSource && colorGroups.length > 0 && (
-              <button onClick={handleDownloadAllClick} disabled={isLoading} className="inline-flex items-center justify-center px-6 py-3 text-base font-medium text-center text-white bg-green-600 rounded-lg hover:bg-green-700 focus:ring-4 focus:outline-none focus:ring-green-300 disabled:bg-gray-500">
+            {colorGroups.length > 0 && (
+              <button onClick={handleDownloadAllClick} disabled={isLoading || (!isSvgSource && !outputLabelMap)} className="inline-flex items-center justify-center px-6 py-3 text-base font-medium text-center text-white bg-green-600 rounded-lg hover:bg-green-700 focus:ring-4 focus:outline-none focus:ring-green-300 disabled:bg-gray-500">
                 <PackageIcon className="w-5 h-5 mr-2" /> Download All (ZIP)
               </button>
             )}
+            {colorGroups.length > 0 && (
+              <div className="inline-flex">
+                <button onClick={handleDownloadLayeredClick} disabled={isLoading || (!isSvgSource && !outputLabelMap)} className={`inline-flex items-center justify-center px-6 py-3 text-base font-medium text-center text-white bg-teal-600 hover:bg-teal-700 focus:ring-4 focus:outline-none focus:ring-teal-300 disabled:bg-gray-500 ${isSvgSource ? 'rounded-lg' : 'rounded-l-lg'}`}>
+                  <LayersIcon className="w-5 h-5 mr-2" /> {isSvgSource ? 'Layered SVG' : 'Layered File'}
+                </button>
+                {!isSvgSource && (
+                  <select
+                    value={layeredRasterFormat}
+                    onChange={(e) => handleLayeredRasterFormatChange(e.target.value as LayeredRasterFormat)}
+                    disabled={isLoading}
+                    className="px-2 text-sm text-white bg-teal-700 border-l border-teal-500 rounded-r-lg"
+                    aria-label="Layered file format"
+                  >
+                    <option value="psd">PSD</option>
+                    <option value="tiff">TIFF</option>
+                  </select>
+                )}
+              </div>
+            )}
             {colorGroups.length > 0 && (
             <button onClick={openPreviewModal} disabled={isLoading} className="inline-flex items-center justify-center px-6 py-3 text-base font-medium text-center text-white bg-blue-600 rounded-lg hover:bg-blue-700 focus:ring-4 focus:outline-none focus:ring-blue-300 disabled:bg-gray-500">
               <EyeIcon className="w-5 h-5 mr-2" /> Preview Fullscreen
             </button>
             )}
-             {mergeHistory.length > 0 && (
-              <button onClick={handleUndoMerge} disabled={isLoading} className="inline-flex items-center justify-center px-6 py-3 text-base font-medium text-center text-white bg-cyan-600 rounded-lg hover:bg-cyan-700 focus:ring-4 focus:outline-none focus:ring-cyan-300 disabled:bg-gray-500">
-                <UndoIcon className="w-5 h-5 mr-2" /> Undo Merge
-              </button>
-            )}
-            {reorderHistory.length > 0 && (
-              <button onClick={handleUndoReorder} disabled={isLoading} className="inline-flex items-center justify-center px-6 py-3 text-base font-medium text-center text-white bg-orange-600 rounded-lg hover:bg-orange-700 focus:ring-4 focus:outline-none focus:ring-orange-300 disabled:bg-gray-500">
-                <UndoIcon className="w-5 h-5 mr-2" /> Undo Reorder
+            {colorGroups.length > 0 && (
+              <button onClick={openRegionEditor} disabled={isLoading} className="inline-flex items-center justify-center px-6 py-3 text-base font-medium text-center text-white bg-purple-600 rounded-lg hover:bg-purple-700 focus:ring-4 focus:outline-none focus:ring-purple-300 disabled:bg-gray-500">
+                <EditIcon className="w-5 h-5 mr-2" /> Edit Regions
               </button>
             )}
-            {deletedGroups.length > 0 && (
-              <button onClick={handleUndoDelete} disabled={isLoading} className="inline-flex items-center justify-center px-6 py-3 text-base font-medium text-center text-white bg-yellow-600 rounded-lg hover:bg-yellow-700 focus:ring-4 focus:outline-none focus:ring-yellow-300 disabled:bg-gray-500">
-                <UndoIcon className="w-5 h-5 mr-2" /> Undo Delete
-              </button>
+            {(history.past.length > 0 || history.future.length > 0) && (
+              <div className="inline-flex rounded-lg overflow-hidden">
+                <button
+                  onClick={handleUndo}
+                  disabled={isLoading || history.past.length === 0}
+                  title="Undo (Ctrl+Z)"
+                  className="inline-flex items-center justify-center px-6 py-3 text-base font-medium text-center text-white bg-yellow-600 hover:bg-yellow-700 focus:ring-4 focus:outline-none focus:ring-yellow-300 disabled:bg-gray-500"
+                >
+                  <UndoIcon className="w-5 h-5 mr-2" />
+                  {history.past.length > 0 ? `Undo ${HISTORY_ACTION_LABELS[history.past[history.past.length - 1].action]}` : 'Undo'}
+                </button>
+                <button
+                  onClick={handleRedo}
+                  disabled={isLoading || history.future.length === 0}
+                  title="Redo (Ctrl+Shift+Z)"
+                  className="inline-flex items-center justify-center px-6 py-3 text-base font-medium text-center text-white bg-orange-600 border-l border-gray-800 hover:bg-orange-700 focus:ring-4 focus:outline-none focus:ring-orange-300 disabled:bg-gray-500"
+                >
+                  <RedoIcon className="w-5 h-5 mr-2" />
+                  {history.future.length > 0 ? `Redo ${HISTORY_ACTION_LABELS[history.future[history.future.length - 1].action]}` : 'Redo'}
+                </button>
+              </div>
             )}
           </div>
         </div>
       )}
       
       <PreviewModal isOpen={isPreviewModalOpen} onClose={closePreviewModal} title="Reassembled Preview">
-        {isPreviewModalOpen && <ReassembledPreview isSvgSource={isSvgSource} colorGroups={colorGroups} dimensions={dimensions} originalImageData={originalImageData} tolerance={tolerance}/>}
+        {isPreviewModalOpen && <ReassembledPreview isSvgSource={isSvgSource} colorGroups={colorGroups} dimensions={dimensions} originalImageData={originalImageData} labelMap={previewLabelMap} pipeline={pipeline} exportFrame={exportFrame}/>}
+      </PreviewModal>
+      <PreviewModal isOpen={isRegionEditorOpen} onClose={closeRegionEditor} title="Edit Regions">
+        {isRegionEditorOpen && (
+          <RegionEditor
+            isSvgSource={isSvgSource}
+            colorGroups={colorGroups}
+            dimensions={dimensions}
+            originalImageData={originalImageData}
+            labelMap={labelMap}
+            pipeline={pipeline}
+            onReassignPixels={handleReassignPixels}
+            onReassignElement={handleReassignElement}
+          />
+        )}
       </PreviewModal>
       {editingGroup && (
         <SvgEditModal
@@ -722,6 +1550,7 @@ function App() {
             onClose={() => setState(s => ({...s, editingGroup: null}))}
             onSave={handleSaveEditedSvg}
             initialSvgContent={createFinalSvgString(
+                defsToMarkup((editingGroup.group as SVGColorGroup).defs) +
                 (editingGroup.group as SVGColorGroup).elements.map(el => el.outerHTML).join('')
             )}
         />
@@ -0,0 +1,85 @@
+import React from 'react';
+import type { BatchItem } from '../types';
+import { PackageIcon, XIcon } from './Icons';
+
+interface BatchQueueProps {
+  items: BatchItem[];
+  activeItemId: number | null;
+  sharedSettings: boolean;
+  onSelect: (id: number) => void;
+  onRemove: (id: number) => void;
+  onAddFiles: (files: File[]) => void;
+  onSharedSettingsChange: (value: boolean) => void;
+  onProcessAll: () => void;
+  disabled?: boolean;
+}
+
+export const BatchQueue: React.FC<BatchQueueProps> = ({ items, activeItemId, sharedSettings, onSelect, onRemove, onAddFiles, onSharedSettingsChange, onProcessAll, disabled }) => {
+  const describe = (item: BatchItem) => {
+    if (item.error) return item.error;
+    if (item.id === activeItemId) return 'Editing';
+    return item.project ? `${item.project.groups.length} layers` : 'Not processed';
+  };
+
+  return (
+    <aside className="w-full lg:w-64 shrink-0 p-4 bg-gray-800 border border-gray-700 rounded-lg space-y-4 self-start">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-300">Images ({items.length})</h3>
+        <label className={`text-xs font-medium text-indigo-400 ${disabled ? 'opacity-50' : 'cursor-pointer hover:text-indigo-300'}`}>
+          Add files
+          <input
+            type="file"
+            multiple
+            accept=".svg,.png,.jpg,.jpeg"
+            className="sr-only"
+            disabled={disabled}
+            onChange={(e) => {
+              if (e.target.files) onAddFiles(Array.from(e.target.files));
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+      <ul className="space-y-1 max-h-96 overflow-y-auto">
+        {items.map(item => (
+          <li key={item.id} className="group flex items-center">
+            <button
+              onClick={() => onSelect(item.id)}
+              disabled={disabled}
+              className={`flex-1 min-w-0 px-2 py-1.5 text-left rounded-md ${item.id === activeItemId ? 'bg-indigo-600/30 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+            >
+              <span className="block text-sm truncate" title={item.file.name}>{item.file.name}</span>
+              <span className={`block text-xs ${item.error ? 'text-red-400' : 'text-gray-500'}`}>{describe(item)}</span>
+            </button>
+            <button
+              onClick={() => onRemove(item.id)}
+              disabled={disabled}
+              className="p-1 ml-1 rounded-full text-gray-500 hover:bg-red-500 hover:text-white opacity-0 group-hover:opacity-100"
+              aria-label={`Remove ${item.file.name}`}
+            >
+              <XIcon className="w-3 h-3" />
+            </button>
+          </li>
+        ))}
+      </ul>
+      <label className="flex items-start text-xs text-gray-400 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={sharedSettings}
+          onChange={(e) => onSharedSettingsChange(e.target.checked)}
+          disabled={disabled}
+          className="h-4 w-4 mr-2 mt-0.5 rounded bg-gray-900/50 border-gray-600 text-indigo-500 focus:ring-indigo-600"
+        />
+        Use the same settings for every image (otherwise each image keeps its own)
+      </label>
+      <button
+        onClick={onProcessAll}
+        disabled={disabled}
+        className="w-full inline-flex items-center justify-center px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:bg-gray-500"
+      >
+        <PackageIcon className="w-4 h-4 mr-2" />
+        Process All &amp; Export
+      </button>
+    </aside>
+  );
+};
@@ -0,0 +1,71 @@
+import React from 'react';
+import type { BridgeOptions } from '../types';
+
+interface BridgeSettingsProps {
+  options: BridgeOptions;
+  onChange: (options: BridgeOptions) => void;
+  disabled?: boolean;
+}
+
+export const BridgeSettings: React.FC<BridgeSettingsProps> = ({ options, onChange, disabled }) => {
+  return (
+    <div className="w-full p-4 bg-gray-800 border border-gray-700 rounded-lg">
+      <label className="flex items-center text-sm font-medium text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={options.detectIslands}
+          onChange={(e) => onChange({ ...options, detectIslands: e.target.checked })}
+          disabled={disabled}
+          className="h-4 w-4 mr-2 rounded bg-gray-900/50 border-gray-600 text-indigo-500 focus:ring-indigo-600"
+        />
+        Detect stencil islands (enclosed counters that fall out when cut)
+      </label>
+      {options.detectIslands && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mt-4">
+          <label className="flex items-center text-xs text-gray-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={options.insertBridges}
+              onChange={(e) => onChange({ ...options, insertBridges: e.target.checked })}
+              disabled={disabled}
+              className="h-4 w-4 mr-2 rounded bg-gray-900/50 border-gray-600 text-indigo-500 focus:ring-indigo-600"
+            />
+            Insert bridges on export
+          </label>
+          <div>
+            <label htmlFor="bridge-width" className="block mb-1 text-xs text-gray-400">
+              Bridge width: <span className="text-indigo-400">{options.width} px</span>
+            </label>
+            <input
+              id="bridge-width"
+              type="range"
+              min="1"
+              max="30"
+              step="1"
+              value={options.width}
+              onChange={(e) => onChange({ ...options, width: Number(e.target.value) })}
+              disabled={disabled || !options.insertBridges}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="bridge-count" className="block mb-1 text-xs text-gray-400">
+              Bridges per island: <span className="text-indigo-400">{options.count}</span>
+            </label>
+            <input
+              id="bridge-count"
+              type="range"
+              min="1"
+              max="4"
+              step="1"
+              value={options.count}
+              onChange={(e) => onChange({ ...options, count: Number(e.target.value) })}
+              disabled={disabled || !options.insertBridges}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
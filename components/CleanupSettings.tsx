@@ -0,0 +1,63 @@
+import React from 'react';
+import type { CleanupOptions } from '../types';
+
+interface CleanupSettingsProps {
+  options: CleanupOptions;
+  onChange: (options: CleanupOptions) => void;
+  disabled?: boolean;
+}
+
+interface SliderField {
+  key: Exclude<keyof CleanupOptions, 'enabled'>;
+  label: string;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}
+
+const FIELDS: SliderField[] = [
+  { key: 'minRegionSize', label: 'Remove specks under', max: 500, step: 1, format: v => (v > 1 ? `${v} px` : 'off') },
+  { key: 'morphologyRadius', label: 'Open/close radius', max: 10, step: 1, format: v => (v > 0 ? `${v} px` : 'off') },
+  { key: 'holeSize', label: 'Fill holes under', max: 2000, step: 10, format: v => (v > 0 ? `${v} px` : 'off') },
+  { key: 'smoothing', label: 'Edge smoothing', max: 4, step: 1, format: v => (v > 0 ? `${v} px` : 'off') },
+];
+
+export const CleanupSettings: React.FC<CleanupSettingsProps> = ({ options, onChange, disabled }) => {
+  return (
+    <div className="w-full p-4 bg-gray-800 border border-gray-700 rounded-lg">
+      <label className="flex items-center text-sm font-medium text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={options.enabled}
+          onChange={(e) => onChange({ ...options, enabled: e.target.checked })}
+          disabled={disabled}
+          className="h-4 w-4 mr-2 rounded bg-gray-900/50 border-gray-600 text-indigo-500 focus:ring-indigo-600"
+        />
+        Clean up layers (remove specks and anti-aliasing fringes before cutting)
+      </label>
+      {options.enabled && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mt-4">
+          {FIELDS.map(field => (
+            <div key={field.key}>
+              <label htmlFor={`cleanup-${field.key}`} className="block mb-1 text-xs text-gray-400">
+                {field.label}: <span className="text-indigo-400">{field.format(options[field.key])}</span>
+              </label>
+              <input
+                id={`cleanup-${field.key}`}
+                type="range"
+                min="0"
+                max={field.max}
+                step={field.step}
+                value={options[field.key]}
+                onChange={(e) => onChange({ ...options, [field.key]: Number(e.target.value) })}
+                disabled={disabled}
+                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+              />
+            </div>
+          ))}
+          <p className="sm:col-span-2 lg:col-span-4 text-xs text-gray-500">Each layer card can override these values under "Cleanup".</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import React from 'react';
+
+interface ColorCountSliderProps {
+  value: number;
+  onChange: (value: number) => void;
+  disabled?: boolean;
+  min?: number;
+  max?: number;
+}
+
+export const ColorCountSlider: React.FC<ColorCountSliderProps> = ({ value, onChange, disabled, min = 2, max = 16 }) => {
+  return (
+    <div className="w-full">
+      <label htmlFor="color-count" className="block mb-2 text-sm font-medium text-gray-300">
+        Target Number of Layers: <span className="font-bold text-indigo-400">{value}</span>
+      </label>
+      <input
+        id="color-count"
+        type="range"
+        min={min}
+        max={max}
+        step="1"
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        disabled={disabled}
+        className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+      />
+      <div className="flex justify-between text-xs text-gray-500 mt-1">
+        <span>{min} layers</span>
+        <span>{max} layers</span>
+      </div>
+    </div>
+  );
+};
@@ -1,24 +1,71 @@
-import React from 'react';
-import type { SVGColorGroup, RasterColorGroup } from '../types';
-import { rgbToHex } from '../utils/colorUtils';
-import { DownloadIcon, SvgFileIcon, PngFileIcon, XIcon, EditIcon } from './Icons';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import type { SVGColorGroup, RasterColorGroup, IslandAnalysis, SplitOptions, PaintColor, TrapOptions, CutFormat, LayerFormat, CleanupOptions, CleanupOverride } from '../types';
+import { CUT_FORMATS } from '../utils/cutExport';
+import { hexToRgb, rgbToHex } from '../utils/colorUtils';
+import { DEFAULT_SPLIT_OPTIONS } from '../utils/connectivity';
+import { DownloadIcon, SvgFileIcon, PngFileIcon, XIcon, EditIcon, SplitIcon } from './Icons';
 
 interface ColorGroupCardProps {
   group: SVGColorGroup | RasterColorGroup;
   isSvgSource: boolean;
   previewDataUrl?: string; // Generated preview from parent
-  onDownload: (format: 'svg' | 'png') => void;
+  islandAnalysis?: IslandAnalysis; // Islands highlighted in red, bridges in yellow
+  onDownload: (format: LayerFormat) => void;
+  downloadPending?: boolean; // Bản đồ nhãn của lớp raster đang được làm sạch, chưa tải xuống được
   onDelete: () => void;
   onEdit: () => void;
+  onSplit: (options: SplitOptions) => void;
+  onRecolor: (color: PaintColor | null) => void; // null = dùng lại màu gốc
+  trapUnit: TrapOptions['unit'];
+  onTrapOffsetChange: (value: number | null) => void; // null = dùng độ loang chung
+  cleanupOptions: CleanupOptions | null; // Thiết lập làm sạch chung; null = không hiện thiết lập riêng của lớp
+  onCleanupChange: (value: CleanupOverride | null) => void; // null = dùng thiết lập chung
   isSelected: boolean;
   onSelect: () => void;
 }
 
-export const ColorGroupCard: React.FC<ColorGroupCardProps> = ({ group, isSvgSource, previewDataUrl, onDownload, onDelete, onEdit, isSelected, onSelect }) => {
+const CLEANUP_FIELDS: { key: keyof CleanupOverride; label: string }[] = [
+  { key: 'minRegionSize', label: 'Specks under' },
+  { key: 'morphologyRadius', label: 'Open/close' },
+  { key: 'holeSize', label: 'Holes under' },
+  { key: 'smoothing', label: 'Smoothing' },
+];
+
+export const ColorGroupCard: React.FC<ColorGroupCardProps> = ({ group, isSvgSource, previewDataUrl, islandAnalysis, onDownload, downloadPending, onDelete, onEdit, onSplit, onRecolor, trapUnit, onTrapOffsetChange, cleanupOptions, onCleanupChange, isSelected, onSelect }) => {
   const hexColor = rgbToHex(group.representativeColor);
+  const targetHex = group.targetColor ? rgbToHex(group.targetColor.color) : null;
+  const onRecolorRef = useRef(onRecolor);
+  useEffect(() => {
+    onRecolorRef.current = onRecolor;
+  });
+
+  // Chỉ ghi màu khi hộp chọn màu đóng lại (sự kiện change gốc), không phải mỗi lần kéo, để lịch sử hoàn tác không bị ngập.
+  // Trình nghe được gắn một lần cho mỗi ô chọn màu và gọi hàm onRecolor mới nhất.
+  const colorInputRef = useCallback((input: HTMLInputElement | null) => {
+    if (!input) return;
+    const handleChange = () => {
+      const color = hexToRgb(input.value);
+      if (color) onRecolorRef.current({ color });
+    };
+    input.addEventListener('change', handleChange);
+    return () => input.removeEventListener('change', handleChange);
+  }, []);
+  const [splitOptions, setSplitOptions] = useState<SplitOptions | null>(null);
+  const cleanup = 'elements' in group ? undefined : group.cleanup;
+
+  // Ô trống bỏ giá trị riêng đó; không còn giá trị riêng nào thì lớp dùng lại thiết lập chung
+  const handleCleanupFieldChange = (key: keyof CleanupOverride, text: string) => {
+    const value = Number(text);
+    if (text !== '' && (!Number.isInteger(value) || value < 0)) return;
+    const { [key]: _previous, ...rest } = cleanup ?? {};
+    const next: CleanupOverride = text === '' ? rest : { ...rest, [key]: value };
+    onCleanupChange(Object.keys(next).length > 0 ? next : null);
+  };
 
   const renderPreview = () => {
-    if (previewDataUrl) {
+    if (islandAnalysis?.highlightDataUrl) {
+      return <img src={islandAnalysis.highlightDataUrl} alt="Island analysis preview" className="w-full h-full object-contain" />;
+    } else if (previewDataUrl) {
       return <img src={previewDataUrl} alt="Color group preview" className="w-full h-full object-contain" />;
     } else {
         // For raster, generating previews on the fly is expensive. Show color swatch instead.
@@ -48,6 +95,13 @@ export const ColorGroupCard: React.FC<ColorGroupCardProps> = ({ group, isSvgSour
              <EditIcon className="w-4 h-4" />
            </button>
         )}
+        <button
+          onClick={() => setSplitOptions(o => (o ? null : DEFAULT_SPLIT_OPTIONS))}
+          className="p-1 bg-gray-900/50 rounded-full text-gray-400 hover:bg-amber-500 hover:text-white transition-all scale-0 group-hover:scale-100"
+          aria-label="Split by connected region"
+        >
+          <SplitIcon className="w-4 h-4" />
+        </button>
         <button 
           onClick={onDelete}
           className="p-1 bg-gray-900/50 rounded-full text-gray-400 hover:bg-red-500 hover:text-white transition-all scale-0 group-hover:scale-100"
@@ -56,14 +110,132 @@ export const ColorGroupCard: React.FC<ColorGroupCardProps> = ({ group, isSvgSour
           <XIcon className="w-4 h-4" />
         </button>
       </div>
-      <div className="w-full h-32 bg-gray-900/50 flex items-center justify-center p-2 border-b border-gray-700">
+      <div className="relative w-full h-32 bg-gray-900/50 flex items-center justify-center p-2 border-b border-gray-700">
         {renderPreview()}
+        {islandAnalysis && (
+          <span className={`absolute bottom-1 right-1 px-2 py-0.5 text-xs rounded-full ${islandAnalysis.islands.length > 0 ? 'bg-red-600/80 text-white' : 'bg-green-700/80 text-gray-100'}`}>
+            {islandAnalysis.islands.length > 0
+              ? `${islandAnalysis.islands.length} island${islandAnalysis.islands.length > 1 ? 's' : ''}${islandAnalysis.bridges.length > 0 ? ` · ${islandAnalysis.bridges.length} bridges` : ''}`
+              : 'No islands'}
+          </span>
+        )}
       </div>
+      {splitOptions && (
+        <div className="p-3 space-y-2 bg-gray-900/60 border-b border-gray-700 text-xs text-gray-400">
+          <p className="text-gray-300">Split into connected regions</p>
+          <label className="flex items-center justify-between gap-2">
+            Minimum area (% of image)
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step={0.01}
+              value={splitOptions.minAreaPercent}
+              onChange={(e) => setSplitOptions({ ...splitOptions, minAreaPercent: Math.max(0, parseFloat(e.target.value) || 0) })}
+              className="w-20 p-1 bg-gray-900 border border-gray-600 rounded-md text-gray-200"
+            />
+          </label>
+          {isSvgSource && (
+            <label className="flex items-center justify-between gap-2">
+              Join shapes closer than
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={splitOptions.proximity}
+                onChange={(e) => setSplitOptions({ ...splitOptions, proximity: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className="w-20 p-1 bg-gray-900 border border-gray-600 rounded-md text-gray-200"
+              />
+            </label>
+          )}
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setSplitOptions(null)} className="px-2 py-1 rounded-md hover:bg-gray-700">Cancel</button>
+            <button
+              onClick={() => {
+                onSplit(splitOptions);
+                setSplitOptions(null);
+              }}
+              className="px-2 py-1 rounded-md text-white bg-amber-600 hover:bg-amber-700"
+            >
+              Split
+            </button>
+          </div>
+        </div>
+      )}
       <div className="p-4">
         <div className="flex items-center mb-3">
           <div className="w-8 h-8 rounded-full border-2 border-gray-600" style={{ backgroundColor: hexColor }}></div>
           <div className="ml-3 font-mono text-lg text-gray-300">{hexColor}</div>
         </div>
+        <div className="flex items-center gap-2 mb-3 text-xs text-gray-400">
+          <label className="flex items-center gap-2 cursor-pointer" title="Paint color for this layer">
+            <input
+              ref={colorInputRef}
+              key={targetHex ?? hexColor}
+              type="color"
+              defaultValue={targetHex ?? hexColor}
+              className="w-6 h-6 p-0 bg-transparent border-0 cursor-pointer"
+              aria-label="Choose paint color"
+            />
+            {targetHex ? (
+              <span className="truncate text-gray-300" title={group.targetColor?.name}>
+                → <span className="font-mono">{targetHex}</span>{group.targetColor?.name ? ` ${group.targetColor.name}` : ''}
+              </span>
+            ) : (
+              'Paint: original color'
+            )}
+          </label>
+          {targetHex && (
+            <button onClick={() => onRecolor(null)} className="ml-auto text-gray-500 hover:text-gray-200" aria-label="Reset paint color">
+              Reset
+            </button>
+          )}
+        </div>
+        <label className="flex items-center gap-2 mb-3 text-xs text-gray-400">
+          Bleed
+          <input
+            type="number"
+            min="0"
+            step={trapUnit === 'mm' ? 0.1 : 1}
+            value={group.trapOffset ?? ''}
+            placeholder="global"
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              if (e.target.value === '') onTrapOffsetChange(null);
+              else if (!isNaN(value) && value >= 0) onTrapOffsetChange(value);
+            }}
+            className="w-20 p-1 bg-gray-900 border border-gray-600 rounded-md text-gray-200"
+            aria-label="Layer bleed offset"
+          />
+          {trapUnit}
+        </label>
+        {cleanupOptions && (
+          <details className="mb-3 text-xs text-gray-400">
+            <summary className="cursor-pointer">Cleanup{cleanup ? ' (custom)' : ''}</summary>
+            <div className="grid grid-cols-2 gap-2 mt-2">
+              {CLEANUP_FIELDS.map(field => (
+                <label key={field.key} className="flex items-center justify-between gap-1">
+                  {field.label}
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={cleanup?.[field.key] ?? ''}
+                    placeholder={String(cleanupOptions[field.key])}
+                    onChange={(e) => handleCleanupFieldChange(field.key, e.target.value)}
+                    className="w-16 p-1 bg-gray-900 border border-gray-600 rounded-md text-gray-200"
+                    aria-label={`Layer cleanup: ${field.label}`}
+                  />
+                </label>
+              ))}
+            </div>
+            {cleanup && (
+              <button onClick={() => onCleanupChange(null)} className="mt-2 text-gray-500 hover:text-gray-200">
+                Use global cleanup
+              </button>
+            )}
+          </details>
+        )}
         <div className="flex space-x-2">
           {isSvgSource && (
             <button
@@ -76,12 +248,29 @@ export const ColorGroupCard: React.FC<ColorGroupCardProps> = ({ group, isSvgSour
           )}
           <button
             onClick={() => onDownload('png')}
-            className="flex-1 inline-flex items-center justify-center px-3 py-2 text-sm font-medium text-center text-white bg-teal-600 rounded-lg hover:bg-teal-700 focus:ring-4 focus:outline-none focus:ring-teal-300"
+            disabled={downloadPending}
+            title={downloadPending ? 'Cleaning up layers...' : undefined}
+            className="flex-1 inline-flex items-center justify-center px-3 py-2 text-sm font-medium text-center text-white bg-teal-600 rounded-lg hover:bg-teal-700 focus:ring-4 focus:outline-none focus:ring-teal-300 disabled:bg-gray-500"
           >
             <PngFileIcon className="w-4 h-4 mr-2" />
             PNG
           </button>
         </div>
+        {isSvgSource && (
+          <div className="flex mt-2 space-x-2">
+            {(Object.keys(CUT_FORMATS) as CutFormat[]).map(format => (
+              <button
+                key={format}
+                onClick={() => onDownload(format)}
+                className="flex-1 inline-flex items-center justify-center px-2 py-1.5 text-xs font-medium text-center text-gray-200 bg-gray-700 rounded-lg hover:bg-gray-600 focus:ring-4 focus:outline-none focus:ring-gray-500"
+                title={`Download cut paths (.${CUT_FORMATS[format].extension})`}
+              >
+                <DownloadIcon className="w-3 h-3 mr-1" />
+                {CUT_FORMATS[format].label}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
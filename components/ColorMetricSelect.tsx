@@ -0,0 +1,30 @@
+import React from 'react';
+import type { ColorMetric } from '../types';
+import { COLOR_METRIC_LABELS } from '../utils/colorUtils';
+
+interface ColorMetricSelectProps {
+  value: ColorMetric;
+  onChange: (value: ColorMetric) => void;
+  disabled?: boolean;
+}
+
+export const ColorMetricSelect: React.FC<ColorMetricSelectProps> = ({ value, onChange, disabled }) => {
+  return (
+    <div className="w-full">
+      <label htmlFor="color-metric" className="block mb-2 text-sm font-medium text-gray-300">
+        Color Distance Metric
+      </label>
+      <select
+        id="color-metric"
+        value={value}
+        onChange={(e) => onChange(e.target.value as ColorMetric)}
+        disabled={disabled}
+        className="w-full p-2 text-sm bg-gray-800 border border-gray-600 rounded-md text-gray-200 focus:ring-indigo-500 focus:border-indigo-500"
+      >
+        {(Object.keys(COLOR_METRIC_LABELS) as ColorMetric[]).map(metric => (
+          <option key={metric} value={metric}>{COLOR_METRIC_LABELS[metric]}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
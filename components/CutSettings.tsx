@@ -0,0 +1,61 @@
+import React from 'react';
+import type { CutOptions } from '../types';
+import { CUT_FORMATS } from '../utils/cutExport';
+
+interface CutSettingsProps {
+  options: CutOptions;
+  onChange: (options: CutOptions) => void;
+  disabled?: boolean;
+}
+
+const BUNDLE_FORMAT_LABELS: Record<CutOptions['bundleFormat'], string> = {
+  svg: 'SVG (one file per layer)',
+  dxf: `${CUT_FORMATS.dxf.label} (one file per layer)`,
+  hpgl: `${CUT_FORMATS.hpgl.label} (one file per layer, pen per layer)`,
+  pdf: `${CUT_FORMATS.pdf.label} (one page per layer)`,
+};
+
+export const CutSettings: React.FC<CutSettingsProps> = ({ options, onChange, disabled }) => {
+  return (
+    <div className="w-full p-4 bg-gray-800 border border-gray-700 rounded-lg">
+      <h4 className="mb-3 text-sm font-medium text-gray-300">Cutter output (DXF, HPGL, PDF)</h4>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+        <div>
+          <label htmlFor="cut-tolerance" className="block mb-1 text-xs text-gray-400">Curve tolerance (mm)</label>
+          <input
+            id="cut-tolerance"
+            type="number"
+            min="0.005"
+            step="0.01"
+            value={options.tolerance}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              if (!isNaN(value) && value > 0) onChange({ ...options, tolerance: value });
+            }}
+            disabled={disabled}
+            className="w-full p-1.5 text-sm bg-gray-900 border border-gray-600 rounded-md text-gray-200"
+          />
+        </div>
+        <div className="sm:col-span-2">
+          <label htmlFor="cut-bundle-format" className="block mb-1 text-xs text-gray-400">Layer files in "Download All"</label>
+          <select
+            id="cut-bundle-format"
+            value={options.bundleFormat}
+            onChange={(e) => onChange({ ...options, bundleFormat: e.target.value as CutOptions['bundleFormat'] })}
+            disabled={disabled}
+            className="w-full p-1.5 text-sm bg-gray-900 border border-gray-600 rounded-md text-gray-200"
+          >
+            {(Object.keys(BUNDLE_FORMAT_LABELS) as CutOptions['bundleFormat'][]).map(format => (
+              <option key={format} value={format}>{BUNDLE_FORMAT_LABELS[format]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <p className="mt-2 text-xs text-gray-500">
+        Curves are flattened to straight segments no further than the tolerance from the original shape, and strokes become
+        filled outlines. Sizes follow the export frame and DPI. Layers with bleed or bridges
+        are traced from a render at the export resolution; registration marks are added as open lines (without text).
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import React from 'react';
+import type { DitherOptions, DitherMode } from '../types';
+
+interface DitherSettingsProps {
+  options: DitherOptions;
+  onChange: (options: DitherOptions) => void;
+  disabled?: boolean;
+}
+
+interface SliderField {
+  key: Exclude<keyof DitherOptions, 'mode'>;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}
+
+const MODE_LABELS: Record<DitherMode, string> = {
+  none: 'Flat (nearest layer color)',
+  floydSteinberg: 'Floyd–Steinberg dithering',
+  ordered: 'Ordered (Bayer) dithering',
+  dots: 'Halftone dot screen',
+  lines: 'Halftone line screen',
+};
+
+// Chỉ lưới halftone mới có kích thước ô, góc và chấm tối thiểu
+const SCREEN_FIELDS: SliderField[] = [
+  { key: 'cellSize', label: 'Cell size', min: 3, max: 40, step: 1, format: v => `${v} px` },
+  { key: 'angle', label: 'Screen angle', min: 0, max: 90, step: 1, format: v => `${v}°` },
+  { key: 'minDotSize', label: 'Minimum dot', min: 0, max: 20, step: 1, format: v => (v > 0 ? `${v} px` : 'off') },
+];
+
+export const DitherSettings: React.FC<DitherSettingsProps> = ({ options, onChange, disabled }) => {
+  const isScreen = options.mode === 'dots' || options.mode === 'lines';
+
+  return (
+    <div className="w-full p-4 bg-gray-800 border border-gray-700 rounded-lg">
+      <h4 className="mb-3 text-sm font-medium text-gray-300">Gradients (dither or halftone between layer colors)</h4>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 items-end">
+        <div>
+          <label htmlFor="dither-mode" className="block mb-1 text-xs text-gray-400">Rendering</label>
+          <select
+            id="dither-mode"
+            value={options.mode}
+            onChange={(e) => onChange({ ...options, mode: e.target.value as DitherMode })}
+            disabled={disabled}
+            className="w-full p-1.5 text-sm bg-gray-900 border border-gray-600 rounded-md text-gray-200"
+          >
+            {(Object.keys(MODE_LABELS) as DitherMode[]).map(mode => (
+              <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>
+            ))}
+          </select>
+        </div>
+        {isScreen && SCREEN_FIELDS.map(field => (
+          <div key={field.key}>
+            <label htmlFor={`dither-${field.key}`} className="block mb-1 text-xs text-gray-400">
+              {field.label}: <span className="text-indigo-400">{field.format(options[field.key])}</span>
+            </label>
+            <input
+              id={`dither-${field.key}`}
+              type="range"
+              min={field.min}
+              max={field.max}
+              step={field.step}
+              value={options[field.key]}
+              onChange={(e) => onChange({ ...options, [field.key]: Number(e.target.value) })}
+              disabled={disabled}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+            />
+          </div>
+        ))}
+      </div>
+      {isScreen && (
+        <p className="mt-2 text-xs text-gray-500">
+          Dots and gaps smaller than the minimum are dropped so every opening can still be cut and sprayed.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+import React from 'react';
+import type { ExportSettings, ExportFrame, SizeUnit, AspectMode } from '../types';
+
+interface ExportSettingsPanelProps {
+  settings: ExportSettings;
+  frame: ExportFrame;
+  onChange: (settings: ExportSettings) => void;
+  disabled?: boolean;
+}
+
+const ASPECT_LABELS: Record<AspectMode, string> = {
+  fit: 'Fit inside (letterbox)',
+  fill: 'Fill (crop overflow)',
+  original: 'Keep original viewBox',
+};
+
+// Các khổ giấy thông dụng, tính bằng mm
+const PAPER_PRESETS: { label: string; width: number; height: number }[] = [
+  { label: 'A4', width: 210, height: 297 },
+  { label: 'A3', width: 297, height: 420 },
+  { label: 'A2', width: 420, height: 594 },
+];
+
+const inputClass = 'w-full p-1.5 text-sm bg-gray-900 border border-gray-600 rounded-md text-gray-200';
+
+export const ExportSettingsPanel: React.FC<ExportSettingsPanelProps> = ({ settings, frame, onChange, disabled }) => {
+  const update = (patch: Partial<ExportSettings>) => onChange({ ...settings, ...patch });
+
+  const handleNumber = (key: 'width' | 'height' | 'dpi' | 'margin') => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = Number(e.target.value);
+    if (!isNaN(value) && value >= 0) update({ [key]: value });
+  };
+
+  return (
+    <div className="w-full p-4 bg-gray-800 border border-gray-700 rounded-lg">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h4 className="text-sm font-medium text-gray-300">Export canvas</h4>
+        <div className="flex items-center gap-2 text-xs">
+          {PAPER_PRESETS.map(preset => (
+            <button
+              key={preset.label}
+              onClick={() => update({ unit: 'mm', width: preset.width, height: preset.height })}
+              disabled={disabled}
+              className="px-2 py-1 rounded bg-gray-700 text-gray-300 hover:bg-gray-600"
+            >
+              {preset.label}
+            </button>
+          ))}
+          <span className="text-gray-500">Output: {frame.width} × {frame.height} px</span>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-8 gap-3 items-end">
+        <div>
+          <label htmlFor="export-width" className="block mb-1 text-xs text-gray-400">Width</label>
+          <input id="export-width" type="number" min="1" step="any" value={settings.width} onChange={handleNumber('width')} disabled={disabled || settings.aspect === 'original'} className={inputClass} />
+        </div>
+        <div>
+          <label htmlFor="export-height" className="block mb-1 text-xs text-gray-400">Height</label>
+          <input id="export-height" type="number" min="1" step="any" value={settings.height} onChange={handleNumber('height')} disabled={disabled || settings.aspect === 'original'} className={inputClass} />
+        </div>
+        <div>
+          <label htmlFor="export-unit" className="block mb-1 text-xs text-gray-400">Unit</label>
+          <select id="export-unit" value={settings.unit} onChange={(e) => update({ unit: e.target.value as SizeUnit })} disabled={disabled} className={inputClass}>
+            <option value="px">px</option>
+            <option value="mm">mm</option>
+            <option value="in">in</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="export-dpi" className="block mb-1 text-xs text-gray-400">DPI</label>
+          <input id="export-dpi" type="number" min="1" step="1" value={settings.dpi} onChange={handleNumber('dpi')} disabled={disabled || settings.unit === 'px'} className={inputClass} />
+        </div>
+        <div className="col-span-2">
+          <label htmlFor="export-aspect" className="block mb-1 text-xs text-gray-400">Aspect</label>
+          <select id="export-aspect" value={settings.aspect} onChange={(e) => update({ aspect: e.target.value as AspectMode })} disabled={disabled} className={inputClass}>
+            {(Object.keys(ASPECT_LABELS) as AspectMode[]).map(aspect => (
+              <option key={aspect} value={aspect}>{ASPECT_LABELS[aspect]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="export-margin" className="block mb-1 text-xs text-gray-400">Margin ({settings.unit})</label>
+          <input id="export-margin" type="number" min="0" step="any" value={settings.margin} onChange={handleNumber('margin')} disabled={disabled} className={inputClass} />
+        </div>
+        <div>
+          <label className="flex items-center mb-1 text-xs text-gray-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.background !== null}
+              onChange={(e) => update({ background: e.target.checked ? '#ffffff' : null })}
+              disabled={disabled}
+              className="h-3.5 w-3.5 mr-1 rounded bg-gray-900/50 border-gray-600 text-indigo-500"
+            />
+            Background
+          </label>
+          <input
+            type="color"
+            value={settings.background ?? '#ffffff'}
+            onChange={(e) => update({ background: e.target.value })}
+            disabled={disabled || settings.background === null}
+            className="w-full h-8 bg-gray-900 border border-gray-600 rounded-md cursor-pointer disabled:opacity-40"
+            aria-label="Background color"
+          />
+        </div>
+        <label className="col-span-2 flex items-center text-xs text-gray-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.scaleRaster}
+            onChange={(e) => update({ scaleRaster: e.target.checked })}
+            disabled={disabled}
+            className="h-3.5 w-3.5 mr-1 rounded bg-gray-900/50 border-gray-600 text-indigo-500"
+          />
+          Scale raster layers into the frame
+        </label>
+      </div>
+      <p className="mt-2 text-xs text-gray-500">Applies to every exported layer (SVG, PNG, PSD/TIFF and cut files), the thumbnail and the ZIP bundle. Raster layers keep the source resolution unless scaled into the frame.</p>
+    </div>
+  );
+};
@@ -3,16 +3,17 @@ import React, { useState, useCallback } from 'react';
 import { UploadCloudIcon } from './Icons';
 
 interface FileUploadProps {
-  onFileUpload: (file: File) => void;
+  onFilesUpload: (files: File[]) => void;
   acceptedTypes?: string;
+  multiple?: boolean;
 }
 
-export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, acceptedTypes = '.svg,.png,.jpg,.jpeg' }) => {
+export const FileUpload: React.FC<FileUploadProps> = ({ onFilesUpload, acceptedTypes = '.svg,.png,.jpg,.jpeg,.json', multiple }) => {
   const [isDragging, setIsDragging] = useState(false);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      onFileUpload(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+      onFilesUpload(multiple ? Array.from(e.target.files) : [e.target.files[0]]);
     }
   };
 
@@ -37,10 +38,10 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, acceptedTy
     e.preventDefault();
     e.stopPropagation();
     setIsDragging(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      onFileUpload(e.dataTransfer.files[0]);
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      onFilesUpload(multiple ? Array.from(e.dataTransfer.files) : [e.dataTransfer.files[0]]);
     }
-  }, [onFileUpload]);
+  }, [onFilesUpload, multiple]);
 
   return (
     <div className="w-full max-w-2xl mx-auto">
@@ -57,13 +58,14 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, acceptedTy
         <p className="mb-2 text-lg text-gray-400">
           <span className="font-semibold text-indigo-400">Click to upload</span> or drag and drop
         </p>
-        <p className="text-xs text-gray-500">SVG, PNG, JPG or JPEG</p>
+        <p className="text-xs text-gray-500">SVG, PNG, JPG or JPEG (several at once for batch processing), or a saved .stencil.json project</p>
         <input
           type="file"
           id="file-upload"
           className="absolute top-0 left-0 w-full h-full opacity-0 cursor-pointer"
           onChange={handleFileChange}
           accept={acceptedTypes}
+          multiple={multiple}
         />
       </div>
     </div>
@@ -195,4 +195,58 @@ export const MergeIcon: React.FC<{ className?: string }> = ({ className }) => (
     <path d="m8 22 4-4 4 4" />
     <path d="M12 17.7a4 4 0 0 0 1.172-2.872L16 5" />
   </svg>
-);
\ No newline at end of file
+);
+export const RedoIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    width="24"
+    height="24"
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+    className={className}
+  >
+    <path d="M21 2v6h-6" />
+    <path d="M20.49 15a9 9 0 1 1-2.13-9.36L21 12" />
+  </svg>
+);
+export const SplitIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    width="24"
+    height="24"
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+    className={className}
+  >
+    <rect x="3" y="3" width="7" height="7" rx="1" />
+    <rect x="14" y="14" width="7" height="7" rx="1" />
+    <path d="M14 3h7v7" strokeDasharray="2 2" />
+    <path d="M3 14v7h7" strokeDasharray="2 2" />
+  </svg>
+);
+export const LayersIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    width="24"
+    height="24"
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+    className={className}
+  >
+    <path d="m12 2 10 5-10 5L2 7z" />
+    <path d="m2 12 10 5 10-5" />
+    <path d="m2 17 10 5 10-5" />
+  </svg>
+);
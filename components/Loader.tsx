@@ -1,11 +1,18 @@
-
 import React from 'react';
 
-export const Loader: React.FC<{ message?: string }> = ({ message = 'Processing image...' }) => {
+export const Loader: React.FC<{ message?: string; progress?: number }> = ({ message = 'Processing image...', progress }) => {
   return (
     <div className="flex flex-col items-center justify-center space-y-4">
       <div className="w-16 h-16 border-4 border-dashed rounded-full animate-spin border-indigo-400"></div>
       <p className="text-lg text-gray-300">{message}</p>
+      {progress !== undefined && (
+        <div className="w-64">
+          <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-500 transition-all" style={{ width: `${Math.round(progress * 100)}%` }}></div>
+          </div>
+          <p className="mt-1 text-xs text-center text-gray-400">{Math.round(progress * 100)}%</p>
+        </div>
+      )}
     </div>
   );
 };
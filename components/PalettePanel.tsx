@@ -0,0 +1,76 @@
+import React from 'react';
+import type { Palette } from '../types';
+import { rgbToHex } from '../utils/colorUtils';
+
+interface PalettePanelProps {
+  palette: Palette | null;
+  error: string | null;
+  onImport: (file: File) => void;
+  onMapLayers: () => void;
+  onClearRecolor: () => void;
+  hasRecolor: boolean;
+  disabled?: boolean;
+}
+
+export const PalettePanel: React.FC<PalettePanelProps> = ({ palette, error, onImport, onMapLayers, onClearRecolor, hasRecolor, disabled }) => {
+  return (
+    <div className="w-full p-4 bg-gray-800 border border-gray-700 rounded-lg space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <h3 className="text-sm font-medium text-gray-300">Paint palette</h3>
+        <label className={`text-xs font-medium text-indigo-400 ${disabled ? 'opacity-50' : 'cursor-pointer hover:text-indigo-300'}`}>
+          {palette ? 'Replace palette' : 'Import palette'}
+          <input
+            type="file"
+            accept=".gpl,.ase,.json,.txt,.hex"
+            className="sr-only"
+            disabled={disabled}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        <div className="flex gap-2 ml-auto">
+          <button
+            onClick={onMapLayers}
+            disabled={disabled || !palette}
+            className="px-3 py-1.5 text-xs font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-gray-600 disabled:text-gray-400"
+          >
+            Map layers to nearest paint
+          </button>
+          <button
+            onClick={onClearRecolor}
+            disabled={disabled || !hasRecolor}
+            className="px-3 py-1.5 text-xs font-medium text-gray-300 bg-gray-700 rounded-md hover:bg-gray-600 disabled:opacity-50"
+          >
+            Clear recolor
+          </button>
+        </div>
+      </div>
+      {error && <p className="text-xs text-red-400" role="alert">{error}</p>}
+      {palette ? (
+        <div>
+          <p className="mb-2 text-xs text-gray-400">{palette.name} · {palette.colors.length} colors</p>
+          <div className="flex flex-wrap gap-1 max-h-24 overflow-y-auto">
+            {palette.colors.map((paint, index) => {
+              const hex = rgbToHex(paint.color);
+              return (
+                <span
+                  key={index}
+                  className="w-5 h-5 rounded-xs border border-gray-600"
+                  style={{ backgroundColor: hex }}
+                  title={paint.name ? `${paint.name} (${hex})` : hex}
+                />
+              );
+            })}
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">
+          Import a GPL, ASE or JSON palette, or a list of hex codes (e.g. a Montana or MTN can range), to map each layer to the nearest paint you own.
+        </p>
+      )}
+    </div>
+  );
+};
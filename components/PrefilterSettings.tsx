@@ -0,0 +1,97 @@
+import React from 'react';
+import type { PrefilterOptions, PrefilterMode } from '../types';
+
+interface PrefilterSettingsProps {
+  options: PrefilterOptions;
+  onChange: (options: PrefilterOptions) => void;
+  disabled?: boolean;
+}
+
+interface SliderField {
+  key: Exclude<keyof PrefilterOptions, 'mode'>;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}
+
+const MODE_LABELS: Record<PrefilterMode, string> = {
+  none: 'None',
+  median: 'Median (removes noise and JPEG speckle)',
+  bilateral: 'Bilateral (smooths gradients, keeps edges)',
+  meanShift: 'Mean-shift (flattens into color regions)',
+  posterize: 'Posterize',
+};
+
+const RADIUS_FIELD: SliderField = { key: 'radius', label: 'Radius', min: 1, max: 8, step: 1, format: v => `${v} px` };
+const STRENGTH_FIELD: SliderField = { key: 'strength', label: 'Color range', min: 1, max: 100, step: 1, format: v => `${v}%` };
+const LEVELS_FIELD: SliderField = { key: 'levels', label: 'Levels per channel', min: 2, max: 16, step: 1, format: v => `${v}` };
+
+const TONE_FIELDS: SliderField[] = [
+  { key: 'brightness', label: 'Brightness', min: -100, max: 100, step: 1, format: v => `${v > 0 ? '+' : ''}${v}` },
+  { key: 'contrast', label: 'Contrast', min: -100, max: 100, step: 1, format: v => `${v > 0 ? '+' : ''}${v}` },
+  { key: 'blackPoint', label: 'Black point', min: 0, max: 254, step: 1, format: v => `${v}` },
+  { key: 'whitePoint', label: 'White point', min: 1, max: 255, step: 1, format: v => `${v}` },
+];
+
+export const PrefilterSettings: React.FC<PrefilterSettingsProps> = ({ options, onChange, disabled }) => {
+  const filterFields =
+    options.mode === 'posterize' ? [LEVELS_FIELD]
+    : options.mode === 'median' ? [RADIUS_FIELD]
+    : options.mode === 'none' ? []
+    : [RADIUS_FIELD, STRENGTH_FIELD];
+
+  const updateField = (key: SliderField['key'], value: number) => {
+    const next = { ...options, [key]: value };
+    // Giữ điểm đen luôn thấp hơn điểm trắng
+    if (key === 'blackPoint') next.whitePoint = Math.max(next.whitePoint, value + 1);
+    if (key === 'whitePoint') next.blackPoint = Math.min(next.blackPoint, value - 1);
+    onChange(next);
+  };
+
+  const renderSlider = (field: SliderField) => (
+    <div key={field.key}>
+      <label htmlFor={`prefilter-${field.key}`} className="block mb-1 text-xs text-gray-400">
+        {field.label}: <span className="text-indigo-400">{field.format(options[field.key])}</span>
+      </label>
+      <input
+        id={`prefilter-${field.key}`}
+        type="range"
+        min={field.min}
+        max={field.max}
+        step={field.step}
+        value={options[field.key]}
+        onChange={(e) => updateField(field.key, Number(e.target.value))}
+        disabled={disabled}
+        className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+      />
+    </div>
+  );
+
+  return (
+    <div className="w-full p-4 bg-gray-800 border border-gray-700 rounded-lg">
+      <h4 className="mb-3 text-sm font-medium text-gray-300">Pre-filter (applied to the image before grouping colors)</h4>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+        <div>
+          <label htmlFor="prefilter-mode" className="block mb-1 text-xs text-gray-400">Filter</label>
+          <select
+            id="prefilter-mode"
+            value={options.mode}
+            onChange={(e) => onChange({ ...options, mode: e.target.value as PrefilterMode })}
+            disabled={disabled}
+            className="w-full p-1.5 text-sm bg-gray-900 border border-gray-600 rounded-md text-gray-200"
+          >
+            {(Object.keys(MODE_LABELS) as PrefilterMode[]).map(mode => (
+              <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>
+            ))}
+          </select>
+        </div>
+        {filterFields.map(renderSlider)}
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mt-4">
+        {TONE_FIELDS.map(renderSlider)}
+      </div>
+    </div>
+  );
+};
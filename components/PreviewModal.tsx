@@ -39,7 +39,7 @@ export const PreviewModal: React.FC<PreviewModalProps> = ({ isOpen, onClose, tit
         className="relative w-full max-w-4xl max-h-[90vh] bg-gray-800 rounded-lg shadow-xl text-white transform transition-all flex flex-col"
         onClick={(e) => e.stopPropagation()}
       >
-        <div className="flex items-center justify-between p-4 border-b border-gray-700 flex-shrink-0">
+        <div className="flex items-center justify-between p-4 border-b border-gray-700 shrink-0">
           <h3 id="modal-title" className="text-xl font-semibold">
             {title}
           </h3>
@@ -0,0 +1,247 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { SVGColorGroup, RasterColorGroup, ImageDimensions } from '../types';
+import type { LabelMap, RasterPipeline } from '../utils/rasterPipeline';
+import { isCancellation } from '../utils/rasterPipeline';
+import { mergeDefs, sanitizedClone } from '../utils/svgDefs';
+import { rgbToHex } from '../utils/colorUtils';
+import { layerColor } from '../utils/palette';
+
+interface RegionEditorProps {
+  isSvgSource: boolean;
+  colorGroups: (SVGColorGroup | RasterColorGroup)[];
+  dimensions: ImageDimensions | null;
+  originalImageData: ImageData | null;
+  labelMap: LabelMap | null;
+  pipeline: RasterPipeline;
+  onReassignPixels: (pixels: Uint32Array, target: number | null) => void;
+  onReassignElement: (groupIndex: number, elementIndex: number, target: number | null) => void;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+type PaintTool = 'brush' | 'lasso';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Vẽ nét cọ hoặc vùng lasso lên canvas ở độ phân giải của ảnh
+function tracePaintPath(ctx: CanvasRenderingContext2D, points: Point[], tool: PaintTool, brushSize: number) {
+  if (points.length === 0) return;
+  ctx.beginPath();
+  if (tool === 'brush' && points.length === 1) {
+    ctx.arc(points[0].x, points[0].y, brushSize / 2, 0, Math.PI * 2);
+    ctx.fill();
+    return;
+  }
+  ctx.moveTo(points[0].x, points[0].y);
+  points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+  if (tool === 'lasso') {
+    ctx.closePath();
+    ctx.fill();
+  } else {
+    ctx.lineWidth = brushSize;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.stroke();
+  }
+}
+
+/** Các pixel (không trong suốt) nằm dưới nét cọ hoặc bên trong vùng lasso. */
+function paintedPixels(imageData: ImageData, points: Point[], tool: PaintTool, brushSize: number): Uint32Array {
+  const { width, height, data } = imageData;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return new Uint32Array(0);
+  ctx.fillStyle = ctx.strokeStyle = '#000';
+  tracePaintPath(ctx, points, tool, brushSize);
+  const mask = ctx.getImageData(0, 0, width, height).data;
+  const pixels: number[] = [];
+  for (let p = 0, i = 3; p < width * height; p++, i += 4) {
+    if (mask[i] >= 128 && data[i] >= 128) pixels.push(p);
+  }
+  return Uint32Array.from(pixels);
+}
+
+export const RegionEditor: React.FC<RegionEditorProps> = ({ isSvgSource, colorGroups, dimensions, originalImageData, labelMap, pipeline, onReassignPixels, onReassignElement }) => {
+  const [target, setTarget] = useState<number | null>(0);
+  const [tool, setTool] = useState<PaintTool>('brush');
+  const [brushSize, setBrushSize] = useState(12);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayRef = useRef<HTMLCanvasElement>(null);
+  const strokePoints = useRef<Point[] | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  // Lớp đích không còn tồn tại (sau khi xóa hoặc gộp): quay về lớp đầu tiên
+  useEffect(() => {
+    if (target !== null && target >= colorGroups.length) setTarget(colorGroups.length > 0 ? 0 : null);
+  }, [colorGroups.length, target]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !originalImageData || !labelMap || isSvgSource) return;
+
+    let cancelled = false;
+    pipeline.render(originalImageData, colorGroups.map(layerColor), null, labelMap)
+      .then(pixels => {
+        const ctx = canvas.getContext('2d');
+        if (cancelled || !ctx) return;
+        ctx.putImageData(new ImageData(pixels, originalImageData.width, originalImageData.height), 0, 0);
+      })
+      .catch(err => {
+        if (!isCancellation(err)) console.error(err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [originalImageData, colorGroups, labelMap, pipeline, isSvgSource]);
+
+  // Các hình của SVG nguồn được gắn vào <svg> bằng bản sao đã lọc thay vì chuỗi HTML,
+  // để thuộc tính sự kiện hay <script> trong tệp không bao giờ chạy trong trang.
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg || !isSvgSource) return;
+    const groups = colorGroups as SVGColorGroup[];
+    const style = document.createElementNS(SVG_NS, 'style');
+    style.textContent = '[data-element]{cursor:pointer}[data-element]:hover{opacity:0.5}';
+    const defs = document.createElementNS(SVG_NS, 'defs');
+    defs.append(...mergeDefs(...groups.map(g => g.defs)).map(sanitizedClone));
+    const elements = groups.flatMap((group, groupIndex) => group.elements.map((el, elementIndex) => {
+      const clone = sanitizedClone(el);
+      clone.setAttribute('data-group', String(groupIndex));
+      clone.setAttribute('data-element', String(elementIndex));
+      return clone;
+    }));
+    svg.replaceChildren(style, defs, ...elements);
+  }, [isSvgSource, colorGroups, dimensions]);
+
+  const handleSvgClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const el = (e.target as Element).closest('[data-element]');
+    if (!el) return;
+    onReassignElement(Number(el.getAttribute('data-group')), Number(el.getAttribute('data-element')), target);
+  };
+
+  const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * e.currentTarget.width / rect.width,
+      y: (e.clientY - rect.top) * e.currentTarget.height / rect.height,
+    };
+  };
+
+  const drawOverlay = () => {
+    const overlay = overlayRef.current;
+    const ctx = overlay?.getContext('2d');
+    if (!overlay || !ctx) return;
+    ctx.clearRect(0, 0, overlay.width, overlay.height);
+    if (!strokePoints.current) return;
+    const color = target === null ? '#ef4444' : rgbToHex(layerColor(colorGroups[target]));
+    ctx.globalAlpha = 0.6;
+    ctx.fillStyle = ctx.strokeStyle = color;
+    tracePaintPath(ctx, strokePoints.current, tool, brushSize);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!labelMap) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    strokePoints.current = [toImagePoint(e)];
+    drawOverlay();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!strokePoints.current) return;
+    strokePoints.current.push(toImagePoint(e));
+    drawOverlay();
+  };
+
+  const handlePointerUp = () => {
+    const points = strokePoints.current;
+    strokePoints.current = null;
+    drawOverlay();
+    if (!points || !originalImageData) return;
+    const pixels = paintedPixels(originalImageData, points, tool, brushSize);
+    if (pixels.length > 0) onReassignPixels(pixels, target);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-gray-400">Move to:</span>
+        {colorGroups.map((group, index) => (
+          <button
+            key={index}
+            onClick={() => setTarget(index)}
+            className={`w-7 h-7 rounded-full border-2 ${target === index ? 'border-white ring-2 ring-indigo-400' : 'border-gray-600'}`}
+            style={{ backgroundColor: rgbToHex(layerColor(group)) }}
+            title={`Layer ${index + 1} (${rgbToHex(layerColor(group))})`}
+            aria-label={`Move to layer ${index + 1}`}
+          />
+        ))}
+        <button
+          onClick={() => setTarget(null)}
+          className={`px-3 py-1 rounded-md ${target === null ? 'bg-red-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+        >
+          Discard
+        </button>
+      </div>
+
+      {isSvgSource ? (
+        <>
+          <p className="text-xs text-gray-500">Click a shape to move it to the chosen layer.</p>
+          <div className="bg-gray-900 rounded-md p-2" onClick={handleSvgClick}>
+            {dimensions && (
+              <svg
+                ref={svgRef}
+                xmlns={SVG_NS}
+                viewBox={dimensions.viewBox || `0 0 ${dimensions.width} ${dimensions.height}`}
+                width="100%"
+                style={{ maxHeight: '70vh' }}
+              />
+            )}
+          </div>
+        </>
+      ) : originalImageData && (
+        <>
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <div className="inline-flex rounded-md border border-gray-600 overflow-hidden">
+              {(['brush', 'lasso'] as PaintTool[]).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setTool(mode)}
+                  className={`px-3 py-1 ${tool === mode ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'}`}
+                >
+                  {mode === 'brush' ? 'Brush' : 'Lasso'}
+                </button>
+              ))}
+            </div>
+            {tool === 'brush' && (
+              <label className="flex items-center gap-2 text-gray-400">
+                Size
+                <input type="range" min={1} max={100} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} />
+                <span className="w-10 text-gray-300">{brushSize}px</span>
+              </label>
+            )}
+            {!labelMap && <span className="text-xs text-gray-500">Updating layers...</span>}
+          </div>
+          <div className="relative inline-block max-w-full">
+            <canvas ref={canvasRef} width={originalImageData.width} height={originalImageData.height} className="block max-w-full max-h-[70vh]" />
+            <canvas
+              ref={overlayRef}
+              width={originalImageData.width}
+              height={originalImageData.height}
+              className={`absolute inset-0 w-full h-full touch-none ${labelMap ? 'cursor-crosshair' : 'cursor-wait'}`}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
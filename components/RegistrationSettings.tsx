@@ -0,0 +1,103 @@
+import React from 'react';
+import type { RegistrationOptions, RegistrationMarkStyle } from '../types';
+
+interface RegistrationSettingsProps {
+  options: RegistrationOptions;
+  onChange: (options: RegistrationOptions) => void;
+  disabled?: boolean;
+}
+
+const STYLE_LABELS: Record<RegistrationMarkStyle, string> = {
+  crosshair: 'Crosshairs',
+  corner: 'Corner marks',
+  both: 'Crosshairs + corners',
+};
+
+export const RegistrationSettings: React.FC<RegistrationSettingsProps> = ({ options, onChange, disabled }) => {
+  return (
+    <div className="w-full p-4 bg-gray-800 border border-gray-700 rounded-lg">
+      <label className="flex items-center text-sm font-medium text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={options.enabled}
+          onChange={(e) => onChange({ ...options, enabled: e.target.checked })}
+          disabled={disabled}
+          className="h-4 w-4 mr-2 rounded bg-gray-900/50 border-gray-600 text-indigo-500 focus:ring-indigo-600"
+        />
+        Add registration marks to exported layers
+      </label>
+      {options.enabled && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mt-4">
+          <div>
+            <label htmlFor="registration-style" className="block mb-1 text-xs text-gray-400">Mark style</label>
+            <select
+              id="registration-style"
+              value={options.style}
+              onChange={(e) => onChange({ ...options, style: e.target.value as RegistrationMarkStyle })}
+              disabled={disabled}
+              className="w-full p-1.5 text-sm bg-gray-900 border border-gray-600 rounded-md text-gray-200"
+            >
+              {(Object.keys(STYLE_LABELS) as RegistrationMarkStyle[]).map(style => (
+                <option key={style} value={style}>{STYLE_LABELS[style]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="registration-size" className="block mb-1 text-xs text-gray-400">
+              Size: <span className="text-indigo-400">{options.size} px</span>
+            </label>
+            <input
+              id="registration-size"
+              type="range"
+              min="8"
+              max="60"
+              step="1"
+              value={options.size}
+              onChange={(e) => onChange({ ...options, size: Number(e.target.value) })}
+              disabled={disabled}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="registration-offset" className="block mb-1 text-xs text-gray-400">
+              Offset from edge: <span className="text-indigo-400">{options.offset} px</span>
+            </label>
+            <input
+              id="registration-offset"
+              type="range"
+              min="4"
+              max="80"
+              step="1"
+              value={options.offset}
+              onChange={(e) => onChange({ ...options, offset: Number(e.target.value) })}
+              disabled={disabled}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+            />
+          </div>
+          <div className="flex flex-col justify-center space-y-1">
+            <label className="flex items-center text-xs text-gray-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.showLayerNumber}
+                onChange={(e) => onChange({ ...options, showLayerNumber: e.target.checked })}
+                disabled={disabled}
+                className="h-4 w-4 mr-2 rounded bg-gray-900/50 border-gray-600 text-indigo-500 focus:ring-indigo-600"
+              />
+              Layer number
+            </label>
+            <label className="flex items-center text-xs text-gray-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.showHexLabel}
+                onChange={(e) => onChange({ ...options, showHexLabel: e.target.checked })}
+                disabled={disabled}
+                className="h-4 w-4 mr-2 rounded bg-gray-900/50 border-gray-600 text-indigo-500 focus:ring-indigo-600"
+              />
+              Hex color label
+            </label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import type { SvgPaintOptions, StrokeMode } from '../types';
+
+interface SvgPaintSettingsProps {
+  options: SvgPaintOptions;
+  onChange: (options: SvgPaintOptions) => void;
+  disabled?: boolean;
+}
+
+const GRADIENT_COLOR_LABELS: Record<SvgPaintOptions['gradientColor'], string> = {
+  average: 'Average of stops',
+  dominant: 'Dominant stop',
+};
+
+const STROKE_MODE_LABELS: Record<StrokeMode, string> = {
+  ignore: 'Ignore strokes',
+  separate: 'Separate layers by stroke color',
+  outline: 'Convert strokes to filled outlines',
+};
+
+export const SvgPaintSettings: React.FC<SvgPaintSettingsProps> = ({ options, onChange, disabled }) => {
+  return (
+    <div className="w-full p-4 bg-gray-800 border border-gray-700 rounded-lg">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-center">
+        <div>
+          <label htmlFor="stroke-mode" className="block mb-1 text-xs text-gray-400">Strokes</label>
+          <select
+            id="stroke-mode"
+            value={options.strokeMode}
+            onChange={(e) => onChange({ ...options, strokeMode: e.target.value as StrokeMode })}
+            disabled={disabled}
+            className="w-full p-1.5 text-sm bg-gray-900 border border-gray-600 rounded-md text-gray-200"
+          >
+            {(Object.keys(STROKE_MODE_LABELS) as StrokeMode[]).map(mode => (
+              <option key={mode} value={mode}>{STROKE_MODE_LABELS[mode]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="gradient-color" className="block mb-1 text-xs text-gray-400">Group gradients by</label>
+          <select
+            id="gradient-color"
+            value={options.gradientColor}
+            onChange={(e) => onChange({ ...options, gradientColor: e.target.value as SvgPaintOptions['gradientColor'] })}
+            disabled={disabled}
+            className="w-full p-1.5 text-sm bg-gray-900 border border-gray-600 rounded-md text-gray-200"
+          >
+            {(Object.keys(GRADIENT_COLOR_LABELS) as SvgPaintOptions['gradientColor'][]).map(mode => (
+              <option key={mode} value={mode}>{GRADIENT_COLOR_LABELS[mode]}</option>
+            ))}
+          </select>
+        </div>
+        <label className="flex items-center text-sm font-medium text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={options.flattenGradients}
+            onChange={(e) => onChange({ ...options, flattenGradients: e.target.checked })}
+            disabled={disabled}
+            className="h-4 w-4 mr-2 rounded bg-gray-900/50 border-gray-600 text-indigo-500 focus:ring-indigo-600"
+          />
+          Flatten gradients and patterns to solid fills
+        </label>
+      </div>
+      <p className="mt-2 text-xs text-gray-500">
+        Clip paths, masks and reused symbols are kept in the exported layers.
+      </p>
+    </div>
+  );
+};
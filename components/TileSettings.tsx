@@ -0,0 +1,97 @@
+import React from 'react';
+import type { TileOptions, TileSheet } from '../types';
+import { TILE_SHEETS, tileLayout } from '../utils/tiling';
+
+interface TileSettingsProps {
+  options: TileOptions;
+  onChange: (options: TileOptions) => void;
+  // Kích thước (px) và DPI của ảnh lớp được xuất, để hiển thị số tấm
+  size: { width: number; height: number } | null;
+  dpi: number;
+  disabled?: boolean;
+}
+
+const SHEET_LABELS: Record<TileSheet, string> = {
+  a4: TILE_SHEETS.a4.label,
+  a3: TILE_SHEETS.a3.label,
+  cutter60: TILE_SHEETS.cutter60.label,
+  custom: 'Custom size',
+};
+
+const NUMBER_FIELDS: { key: 'width' | 'height' | 'overlap'; label: string; custom: boolean }[] = [
+  { key: 'width', label: 'Sheet width (mm)', custom: true },
+  { key: 'height', label: 'Sheet height (mm)', custom: true },
+  { key: 'overlap', label: 'Overlap (mm)', custom: false },
+];
+
+export const TileSettings: React.FC<TileSettingsProps> = ({ options, onChange, size, dpi, disabled }) => {
+  const layout = options.enabled && size ? tileLayout(size.width, size.height, dpi, options) : null;
+
+  return (
+    <div className="w-full p-4 bg-gray-800 border border-gray-700 rounded-lg">
+      <label className="flex items-center text-sm font-medium text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={options.enabled}
+          onChange={(e) => onChange({ ...options, enabled: e.target.checked })}
+          disabled={disabled}
+          className="h-4 w-4 mr-2 rounded bg-gray-900/50 border-gray-600 text-indigo-500 focus:ring-indigo-600"
+        />
+        Split layers into overlapping sheets (large-format tiling)
+      </label>
+      {options.enabled && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mt-4 items-end">
+            <div>
+              <label htmlFor="tile-sheet" className="block mb-1 text-xs text-gray-400">Sheet</label>
+              <select
+                id="tile-sheet"
+                value={options.sheet}
+                onChange={(e) => onChange({ ...options, sheet: e.target.value as TileSheet })}
+                disabled={disabled}
+                className="w-full p-1.5 text-sm bg-gray-900 border border-gray-600 rounded-md text-gray-200"
+              >
+                {(Object.keys(SHEET_LABELS) as TileSheet[]).map(sheet => (
+                  <option key={sheet} value={sheet}>{SHEET_LABELS[sheet]}</option>
+                ))}
+              </select>
+            </div>
+            {NUMBER_FIELDS.filter(field => !field.custom || options.sheet === 'custom').map(field => (
+              <div key={field.key}>
+                <label htmlFor={`tile-${field.key}`} className="block mb-1 text-xs text-gray-400">{field.label}</label>
+                <input
+                  id={`tile-${field.key}`}
+                  type="number"
+                  min={field.custom ? 10 : 0}
+                  step="1"
+                  value={options[field.key]}
+                  onChange={(e) => {
+                    const value = Number(e.target.value);
+                    if (!isNaN(value) && value >= (field.custom ? 10 : 0)) onChange({ ...options, [field.key]: value });
+                  }}
+                  disabled={disabled}
+                  className="w-full p-1.5 text-sm bg-gray-900 border border-gray-600 rounded-md text-gray-200"
+                />
+              </div>
+            ))}
+            <label className="flex items-center text-xs text-gray-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.landscape}
+                onChange={(e) => onChange({ ...options, landscape: e.target.checked })}
+                disabled={disabled}
+                className="h-4 w-4 mr-2 rounded bg-gray-900/50 border-gray-600 text-indigo-500 focus:ring-indigo-600"
+              />
+              Landscape
+            </label>
+          </div>
+          <p className="mt-2 text-xs text-gray-500">
+            {layout && `${layout.columns} × ${layout.rows} sheets per layer. `}
+            Tiles are added to "Download All" under tiles/layer-N/ with their grid position, dashed overlap guides and
+            matching crosshairs in each overlap. Sizes follow the export DPI.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
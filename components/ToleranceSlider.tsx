@@ -1,16 +1,24 @@
 import React from 'react';
+import type { ColorMetric } from '../types';
+import { toleranceToDistance } from '../utils/colorUtils';
 
 interface ToleranceSliderProps {
   value: number;
   onChange: (value: number) => void;
   disabled?: boolean;
+  metric: ColorMetric;
 }
 
-export const ToleranceSlider: React.FC<ToleranceSliderProps> = ({ value, onChange, disabled }) => {
+export const ToleranceSlider: React.FC<ToleranceSliderProps> = ({ value, onChange, disabled, metric }) => {
+  const effectiveDistance = toleranceToDistance(value, metric);
+
   return (
     <div className="w-full">
       <label htmlFor="tolerance" className="block mb-2 text-sm font-medium text-gray-300">
         Color Similarity Tolerance: <span className="font-bold text-indigo-400">{value.toFixed(1)}</span>
+        <span className="ml-2 text-xs text-gray-500">
+          (max {metric === 'rgb' ? 'RGB distance' : 'ΔE'} {effectiveDistance.toFixed(metric === 'oklab' ? 3 : 1)})
+        </span>
       </label>
       <input
         id="tolerance"
@@ -30,3 +38,4 @@ export const ToleranceSlider: React.FC<ToleranceSliderProps> = ({ value, onChang
     </div>
   );
 };
+
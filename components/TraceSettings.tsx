@@ -0,0 +1,73 @@
+import React from 'react';
+import type { TraceOptions } from '../types';
+
+interface TraceSettingsProps {
+  enabled: boolean;
+  options: TraceOptions;
+  onEnabledChange: (enabled: boolean) => void;
+  onOptionsChange: (options: TraceOptions) => void;
+  disabled?: boolean;
+}
+
+export const TraceSettings: React.FC<TraceSettingsProps> = ({ enabled, options, onEnabledChange, onOptionsChange, disabled }) => {
+  return (
+    <div className="w-full p-4 bg-gray-800 border border-gray-700 rounded-lg">
+      <label className="flex items-center text-sm font-medium text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          disabled={disabled}
+          className="h-4 w-4 mr-2 rounded bg-gray-900/50 border-gray-600 text-indigo-500 focus:ring-indigo-600"
+        />
+        Vectorize layers (trace to SVG for cutters and plotters)
+      </label>
+      {enabled && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mt-4">
+          <div>
+            <label htmlFor="speckle-threshold" className="block mb-1 text-xs text-gray-400">
+              Speckle threshold: <span className="text-indigo-400">{options.speckleThreshold} px²</span>
+            </label>
+            <input
+              id="speckle-threshold"
+              type="range"
+              min="0"
+              max="200"
+              step="1"
+              value={options.speckleThreshold}
+              onChange={(e) => onOptionsChange({ ...options, speckleThreshold: Number(e.target.value) })}
+              disabled={disabled}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="simplify-tolerance" className="block mb-1 text-xs text-gray-400">
+              Simplify: <span className="text-indigo-400">{options.simplifyTolerance.toFixed(1)} px</span>
+            </label>
+            <input
+              id="simplify-tolerance"
+              type="range"
+              min="0"
+              max="5"
+              step="0.1"
+              value={options.simplifyTolerance}
+              onChange={(e) => onOptionsChange({ ...options, simplifyTolerance: Number(e.target.value) })}
+              disabled={disabled}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+            />
+          </div>
+          <label className="flex items-center text-xs text-gray-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={options.curveFitting}
+              onChange={(e) => onOptionsChange({ ...options, curveFitting: e.target.checked })}
+              disabled={disabled}
+              className="h-4 w-4 mr-2 rounded bg-gray-900/50 border-gray-600 text-indigo-500 focus:ring-indigo-600"
+            />
+            Fit Bézier curves
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
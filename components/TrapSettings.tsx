@@ -0,0 +1,68 @@
+import React from 'react';
+import type { TrapOptions, TrapMode } from '../types';
+
+interface TrapSettingsProps {
+  options: TrapOptions;
+  onChange: (options: TrapOptions) => void;
+  disabled?: boolean;
+}
+
+const MODE_LABELS: Record<TrapMode, string> = {
+  uniform: 'Grow every layer',
+  auto: 'Lighter layers spread under darker ones',
+};
+
+export const TrapSettings: React.FC<TrapSettingsProps> = ({ options, onChange, disabled }) => {
+  return (
+    <div className="w-full p-4 bg-gray-800 border border-gray-700 rounded-lg">
+      <h4 className="mb-3 text-sm font-medium text-gray-300">Bleed / trapping (hide gaps between stacked layers)</h4>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+        <div>
+          <label htmlFor="trap-amount" className="block mb-1 text-xs text-gray-400">Offset</label>
+          <div className="flex gap-2">
+            <input
+              id="trap-amount"
+              type="number"
+              min="0"
+              step={options.unit === 'mm' ? 0.1 : 1}
+              value={options.amount}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                if (!isNaN(value) && value >= 0) onChange({ ...options, amount: value });
+              }}
+              disabled={disabled}
+              className="w-full p-1.5 text-sm bg-gray-900 border border-gray-600 rounded-md text-gray-200"
+            />
+            <select
+              value={options.unit}
+              onChange={(e) => onChange({ ...options, unit: e.target.value as TrapOptions['unit'] })}
+              disabled={disabled}
+              className="p-1.5 text-sm bg-gray-900 border border-gray-600 rounded-md text-gray-200"
+              aria-label="Offset unit"
+            >
+              <option value="px">px</option>
+              <option value="mm">mm</option>
+            </select>
+          </div>
+        </div>
+        <div className="sm:col-span-2">
+          <label htmlFor="trap-mode" className="block mb-1 text-xs text-gray-400">Mode</label>
+          <select
+            id="trap-mode"
+            value={options.mode}
+            onChange={(e) => onChange({ ...options, mode: e.target.value as TrapMode })}
+            disabled={disabled}
+            className="w-full p-1.5 text-sm bg-gray-900 border border-gray-600 rounded-md text-gray-200"
+          >
+            {(Object.keys(MODE_LABELS) as TrapMode[]).map(mode => (
+              <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <p className="mt-2 text-xs text-gray-500">
+        Layers are sprayed in the order shown below. Millimetres use the export DPI; a layer's own offset overrides this value.
+      </p>
+    </div>
+  );
+};
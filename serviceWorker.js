@@ -0,0 +1,36 @@
+// Service worker của bản build: lưu sẵn mọi tệp của ứng dụng để dùng được khi không có mạng.
+// Danh sách tệp và phiên bản được vite.config.ts điền vào lúc build (xem offlinePlugin).
+const PRECACHE = self.__PRECACHE_MANIFEST__;
+const CACHE_NAME = `stencil-${self.__CACHE_VERSION__}`;
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.addAll(PRECACHE))
+      .then(() => self.skipWaiting())
+  );
+});
+
+// Xóa bộ nhớ đệm của các bản build cũ
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key.startsWith('stencil-') && key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Ưu tiên bộ nhớ đệm; trang (điều hướng) luôn trả về index.html đã lưu
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+  event.respondWith(
+    caches.open(CACHE_NAME).then(async cache => {
+      const cached = await cache.match(request.mode === 'navigate' ? './' : request, { ignoreSearch: request.mode === 'navigate' });
+      if (cached) return cached;
+      const response = await fetch(request);
+      if (response.ok && response.type === 'basic') cache.put(request, response.clone());
+      return response;
+    })
+  );
+});
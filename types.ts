@@ -8,21 +8,287 @@ export interface RGBColor {
 export interface SVGPathData {
   color: RGBColor;
   element: SVGElement;
+  defs?: SVGElement[];
 }
 
 export interface SVGColorGroup {
   representativeColor: RGBColor;
   elements: SVGElement[];
+  defs?: SVGElement[]; // Gradient, pattern, clipPath, mask... mà các phần tử tham chiếu đến
+  targetColor?: PaintColor; // Màu sơn dùng khi xem trước và xuất, thay cho màu đại diện
+  trapOffset?: number; // Độ loang riêng của lớp (theo đơn vị của TrapOptions), thay cho giá trị chung
 }
 
 export interface RasterColorGroup {
   representativeColor: RGBColor;
   memberColors: RGBColor[];
   totalCount: number;
+  region?: Uint32Array; // Chỉ số các pixel của nhóm khi nhóm bị giới hạn trong một vùng (ví dụ sau khi tách theo liên thông)
+  claimedPixels?: Uint32Array; // Pixel được tô thủ công vào nhóm, bất kể màu
+  excludedPixels?: Uint32Array; // Pixel bị tô ra khỏi nhóm (chuyển sang lớp khác hoặc loại bỏ)
+  targetColor?: PaintColor;
+  trapOffset?: number;
+  cleanup?: CleanupOverride;
 }
 
 export interface ImageDimensions {
   width: number;
   height: number;
   viewBox: string | null;
-}
\ No newline at end of file
+}
+export interface LabColor {
+  l: number;
+  a: number;
+  b: number;
+}
+
+export type ColorMetric = 'rgb' | 'cie76' | 'ciede2000' | 'oklab';
+
+export type GroupingMode = 'tolerance' | 'count';
+
+export interface TraceOptions {
+  speckleThreshold: number; // Diện tích tối thiểu (px²) của một đường viền; nhỏ hơn sẽ bị loại bỏ
+  simplifyTolerance: number; // Sai số tối đa (px) khi đơn giản hóa đường viền
+  curveFitting: boolean; // Làm mượt các đoạn thẳng thành đường cong Bézier
+}
+
+export interface BridgeOptions {
+  detectIslands: boolean;
+  insertBridges: boolean;
+  width: number; // Độ rộng cầu nối (px trong hệ tọa độ của lớp)
+  count: number; // Số cầu nối tối đa cho mỗi đảo
+}
+
+// Làm sạch bản đồ nhãn của các lớp raster trước khi xem trước và xuất
+export interface CleanupOptions {
+  enabled: boolean;
+  minRegionSize: number; // Vùng liên thông nhỏ hơn số pixel này được nhập vào lớp bao quanh
+  morphologyRadius: number; // Bán kính mở/đóng (co rồi giãn, giãn rồi co), 0 = tắt
+  holeSize: number; // Lỗ nằm trọn trong một lớp nhỏ hơn số pixel này được lấp, 0 = tắt
+  smoothing: number; // Bán kính lọc đa số để làm mượt viền, 0 = tắt
+}
+
+// Thiết lập làm sạch riêng của một lớp; giá trị không có dùng thiết lập chung
+export type CleanupOverride = Partial<Omit<CleanupOptions, 'enabled'>>;
+
+export type PrefilterMode = 'none' | 'median' | 'bilateral' | 'meanShift' | 'posterize';
+
+// Tiền xử lý ảnh raster trước khi gom nhóm màu (khử nhiễu giữ cạnh và chỉnh tông)
+export interface PrefilterOptions {
+  mode: PrefilterMode;
+  radius: number; // Bán kính cửa sổ (px) của bộ lọc trung vị, song phương và mean-shift
+  strength: number; // Khoảng màu (0–100) được coi là cùng vùng với bộ lọc song phương và mean-shift
+  levels: number; // Số mức mỗi kênh khi posterize
+  brightness: number; // -100..100
+  contrast: number; // -100..100
+  blackPoint: number; // 0..255, levels
+  whitePoint: number;
+}
+
+export type DitherMode = 'none' | 'floydSteinberg' | 'ordered' | 'dots' | 'lines';
+
+// Dựng lại chuyển sắc bằng các lớp màu phẳng: khuếch tán sai số, dither có thứ tự hoặc lưới halftone
+export interface DitherOptions {
+  mode: DitherMode;
+  cellSize: number; // Kích thước ô lưới halftone (px)
+  angle: number; // Góc xoay lưới halftone (độ)
+  minDotSize: number; // Chấm hoặc nét (và lỗ) nhỏ hơn đường kính này (px) bị bỏ để stencil vẫn cắt được
+}
+
+export type TrapMode = 'uniform' | 'auto';
+
+// Loang (trapping): nới rộng mỗi lớp ra ngoài để các lớp sơn chồng lên nhau không để lộ khe hở
+export interface TrapOptions {
+  mode: TrapMode; // 'auto': lớp chỉ loang vào các lớp tối hơn được phun sau nó
+  amount: number; // 0 = không loang
+  unit: 'px' | 'mm';
+}
+
+export interface Island {
+  area: number;
+  centroid: { x: number; y: number };
+}
+
+export interface Bridge {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  width: number;
+}
+
+export interface IslandAnalysis {
+  islands: Island[];
+  bridges: Bridge[];
+  highlightDataUrl: string;
+}
+
+export type RegistrationMarkStyle = 'crosshair' | 'corner' | 'both';
+
+export interface RegistrationOptions {
+  enabled: boolean;
+  style: RegistrationMarkStyle;
+  size: number; // Kích thước dấu (px trong khung xuất)
+  offset: number; // Khoảng cách từ mép khung đến tâm dấu
+  showLayerNumber: boolean;
+  showHexLabel: boolean;
+}
+
+export type SizeUnit = 'px' | 'mm' | 'in';
+
+export type AspectMode = 'fit' | 'fill' | 'original';
+
+export interface ExportSettings {
+  width: number; // Theo đơn vị `unit`
+  height: number;
+  unit: SizeUnit;
+  dpi: number;
+  aspect: AspectMode;
+  margin: number; // Theo đơn vị `unit`
+  background: string | null; // null = trong suốt
+  scaleRaster: boolean; // Phóng lớp raster (PNG, PSD, TIFF) vào khung; tắt thì giữ độ phân giải gốc của ảnh
+}
+
+export type CutFormat = 'dxf' | 'hpgl' | 'pdf';
+
+// Định dạng tệp của một lớp: SVG/PNG, hoặc đường cắt cho máy cắt decal, laser và bản in
+export type LayerFormat = 'svg' | 'png' | CutFormat;
+
+export interface CutOptions {
+  tolerance: number; // Sai số tối đa (mm) khi làm phẳng đường cong thành đoạn thẳng
+  bundleFormat: 'svg' | CutFormat; // Định dạng của các lớp vector trong ZIP
+}
+
+export type TileSheet = 'a4' | 'a3' | 'cutter60' | 'custom';
+
+// Chia mỗi lớp thành các tấm chồng mép nhau để in hoặc cắt tranh tường lớn hơn khổ máy
+export interface TileOptions {
+  enabled: boolean;
+  sheet: TileSheet;
+  landscape: boolean; // Xoay khổ giấy (đổi chiều rộng và chiều cao)
+  width: number; // Khổ tùy chọn (mm), chỉ dùng khi sheet = 'custom'
+  height: number;
+  overlap: number; // Phần chồng mép giữa hai tấm kề nhau (mm)
+}
+
+// Tài liệu một tệp giữ riêng từng lớp: SVG có layer của Inkscape, hoặc PSD/TIFF nhiều trang với nguồn raster
+export type LayeredRasterFormat = 'psd' | 'tiff';
+
+// Ảnh RGBA (không nhân trước alpha) của một lớp, cùng kích thước với tài liệu
+export interface LayerImage {
+  name: string;
+  pixels: Uint8ClampedArray;
+}
+
+// Khung xuất đã được tính toán: kích thước theo pixel và phép biến đổi từ viewBox gốc vào khung.
+export interface ExportFrame {
+  width: number;
+  height: number;
+  widthAttr: string;
+  heightAttr: string;
+  background: string | null;
+  scale: number;
+  translateX: number;
+  translateY: number;
+}
+
+// ignore: bỏ nét; separate: nét thành lớp riêng theo màu nét; outline: nét thành đường bao tô kín
+export type StrokeMode = 'ignore' | 'separate' | 'outline';
+
+export interface SvgPaintOptions {
+  gradientColor: 'average' | 'dominant'; // Cách quy gradient về một màu để gom nhóm
+  flattenGradients: boolean; // Thay gradient bằng màu đặc đã quy đổi khi xuất
+  strokeMode: StrokeMode;
+}
+
+export type HistoryAction = 'delete' | 'reorder' | 'merge' | 'split' | 'reassign' | 'edit' | 'recolor' | 'trap' | 'cleanup' | 'tolerance';
+
+// Phần trạng thái được lưu trong lịch sử hoàn tác
+export interface HistorySnapshot {
+  colorGroups: (SVGColorGroup | RasterColorGroup)[];
+  tolerance: number;
+}
+
+export interface HistoryEntry {
+  action: HistoryAction;
+  before: HistorySnapshot;
+  after: HistorySnapshot;
+}
+
+export interface History {
+  past: HistoryEntry[]; // Thao tác cũ nhất trước
+  future: HistoryEntry[]; // Các thao tác đã hoàn tác, thao tác gần nhất ở cuối
+}
+
+// Các thiết lập được lưu cùng dự án
+export interface ProjectSettings {
+  tolerance: number;
+  colorMetric: ColorMetric;
+  groupingMode: GroupingMode;
+  targetColorCount: number;
+  vectorizeRaster: boolean;
+  traceOptions: TraceOptions;
+  bridgeOptions: BridgeOptions;
+  registrationOptions: RegistrationOptions;
+  exportSettings: ExportSettings;
+  svgPaintOptions: SvgPaintOptions;
+  cleanupOptions: CleanupOptions;
+  trapOptions: TrapOptions;
+  prefilterOptions: PrefilterOptions;
+  ditherOptions: DitherOptions;
+  cutOptions: CutOptions;
+  tileOptions: TileOptions;
+}
+
+export type SerializedColorGroup =
+  | { kind: 'svg'; representativeColor: RGBColor; targetColor?: PaintColor; trapOffset?: number; elements: string[]; defs: string[] }
+  | {
+      kind: 'raster';
+      representativeColor: RGBColor;
+      targetColor?: PaintColor;
+      trapOffset?: number;
+      cleanup?: CleanupOverride;
+      memberColors: RGBColor[];
+      totalCount: number;
+      // Các tập pixel được lưu dạng base64
+      region?: string;
+      claimedPixels?: string;
+      excludedPixels?: string;
+    };
+
+// Tệp dự án (.stencil.json): ảnh nguồn, thiết lập và các lớp sau khi gộp, xóa, sắp xếp và chỉnh sửa
+export interface StencilProject {
+  format: 'stencil-project';
+  version: number; // Tệp của phiên bản cũ được chuyển lên phiên bản hiện tại khi mở
+  savedAt: string;
+  source: { name: string; type: string; content: string }; // content: văn bản SVG hoặc data URL của ảnh raster
+  settings: ProjectSettings;
+  dimensions: ImageDimensions | null;
+  isSvgSource: boolean;
+  groups: SerializedColorGroup[];
+}
+
+// Một ảnh trong hàng đợi xử lý hàng loạt; project giữ kết quả tách lớp và các chỉnh sửa khi ảnh không được mở
+export interface BatchItem {
+  id: number;
+  file: File;
+  project: StencilProject | null;
+  error?: string; // Lý do không mở hoặc xử lý được ảnh này
+}
+
+// Tách một lớp thành các vùng liên thông
+export interface SplitOptions {
+  minAreaPercent: number; // Vùng nhỏ hơn tỉ lệ này của diện tích ảnh bị loại bỏ
+  proximity: number; // Chỉ với SVG: các hình cách nhau không quá khoảng này (đơn vị của ảnh) được coi là liền nhau
+}
+
+// Một màu sơn (ví dụ một bình xịt trong bảng màu của hãng)
+export interface PaintColor {
+  color: RGBColor;
+  name?: string;
+}
+
+export interface Palette {
+  name: string;
+  colors: PaintColor[];
+}
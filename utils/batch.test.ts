@@ -0,0 +1,107 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest';
+import type { BatchItem, ProjectSettings } from '../types';
+import { processBatch } from './batch';
+import { DEFAULT_BRIDGE_OPTIONS } from './bridges';
+import { DEFAULT_CUT_OPTIONS } from './cutExport';
+import { DEFAULT_DITHER_OPTIONS } from './dithering';
+import { DEFAULT_CLEANUP_OPTIONS } from './labelCleanup';
+import { DEFAULT_PREFILTER_OPTIONS } from './prefilter';
+import { createProject } from './project';
+import type { RasterPipeline } from './rasterPipeline';
+import { DEFAULT_REGISTRATION_OPTIONS } from './registrationMarks';
+import { groupDistance, processingKey } from './sourceAnalysis';
+import { DEFAULT_SVG_PAINT_OPTIONS } from './svgDefs';
+import { DEFAULT_EXPORT_SETTINGS } from './svgExport';
+import { DEFAULT_TILE_OPTIONS } from './tiling';
+import { DEFAULT_TRACE_OPTIONS } from './tracer';
+import { DEFAULT_TRAP_OPTIONS } from './trapping';
+import type { ZipFolder } from './zip';
+
+const SETTINGS: ProjectSettings = {
+  tolerance: 20,
+  colorMetric: 'rgb',
+  groupingMode: 'tolerance',
+  targetColorCount: 4,
+  vectorizeRaster: false,
+  traceOptions: DEFAULT_TRACE_OPTIONS,
+  bridgeOptions: DEFAULT_BRIDGE_OPTIONS,
+  registrationOptions: DEFAULT_REGISTRATION_OPTIONS,
+  exportSettings: DEFAULT_EXPORT_SETTINGS,
+  svgPaintOptions: DEFAULT_SVG_PAINT_OPTIONS,
+  cleanupOptions: DEFAULT_CLEANUP_OPTIONS,
+  trapOptions: DEFAULT_TRAP_OPTIONS,
+  prefilterOptions: DEFAULT_PREFILTER_OPTIONS,
+  ditherOptions: DEFAULT_DITHER_OPTIONS,
+  cutOptions: DEFAULT_CUT_OPTIONS,
+  tileOptions: DEFAULT_TILE_OPTIONS,
+};
+
+// Kho ZIP giả ghi lại tệp theo đường dẫn trong thư mục
+const zipFiles = vi.hoisted(() => new Map<string, unknown>());
+vi.mock('./zip', () => ({
+  createZipArchive: () => {
+    zipFiles.clear();
+    const folder = (prefix: string): ZipFolder => ({
+      file(name, data) {
+        zipFiles.set(prefix + name, data);
+        return this;
+      },
+      folder: name => folder(`${prefix}${name}/`),
+    });
+    return { ...folder(''), generate: async () => new Blob(['zip']) };
+  },
+}));
+
+const pipeline = {} as RasterPipeline;
+
+// Một ảnh SVG đã được xử lý trước đó: hai lớp đỏ và xanh
+function savedItem(id: number, name: string): BatchItem {
+  return {
+    id,
+    file: new File(['<svg/>'], name, { type: 'image/svg+xml' }),
+    project: createProject({
+      source: { name, type: 'image/svg+xml', content: '<svg xmlns="http://www.w3.org/2000/svg"/>' },
+      settings: SETTINGS,
+      dimensions: { width: 10, height: 10, viewBox: '0 0 10 10' },
+      isSvgSource: true,
+      groups: [
+        { kind: 'svg', representativeColor: { r: 255, g: 0, b: 0 }, elements: ['<rect width="5" height="5" fill="#ff0000"/>'], defs: [] },
+        { kind: 'svg', representativeColor: { r: 0, g: 0, b: 255 }, elements: ['<rect x="5" width="5" height="5" fill="#0000ff"/>'], defs: [] },
+      ],
+    }),
+  };
+}
+
+describe('processBatch', () => {
+  it('exports every queued image into its own folder', async () => {
+    const progress: number[] = [];
+    const result = await processBatch([savedItem(1, 'logo.svg'), savedItem(2, 'logo.svg')], () => SETTINGS, pipeline, p => progress.push(p));
+    expect([...zipFiles.keys()]).toEqual([
+      'logo/thumb.svg', 'logo/1.svg', 'logo/2.svg', 'logo/manifest.json',
+      'logo (2)/thumb.svg', 'logo (2)/1.svg', 'logo (2)/2.svg', 'logo (2)/manifest.json',
+    ]);
+    expect(zipFiles.get('logo/2.svg')).toContain('#0000ff');
+    expect(progress).toEqual([0.5, 1]);
+    expect([...result.projects.keys()]).toEqual([1, 2]);
+  });
+
+  it('keeps the edited layers of images processed with the same settings', async () => {
+    const result = await processBatch([savedItem(1, 'logo.svg')], () => ({ ...SETTINGS, bridgeOptions: { ...DEFAULT_BRIDGE_OPTIONS, width: 8 } }), pipeline);
+    const project = result.projects.get(1)!;
+    expect(project.groups).toHaveLength(2);
+    expect(project.settings.bridgeOptions.width).toBe(8);
+  });
+});
+
+describe('source settings', () => {
+  it('ignores the tolerance in the processing key', () => {
+    expect(processingKey(SETTINGS)).toBe(processingKey({ ...SETTINGS, tolerance: 90 } as ProjectSettings));
+    expect(processingKey(SETTINGS)).not.toBe(processingKey({ ...SETTINGS, colorMetric: 'oklab' }));
+  });
+
+  it('does not limit the distance in fixed layer-count mode', () => {
+    expect(groupDistance({ ...SETTINGS, groupingMode: 'count' })).toBe(Infinity);
+    expect(groupDistance(SETTINGS)).toBeLessThan(Infinity);
+  });
+});
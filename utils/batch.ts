@@ -0,0 +1,100 @@
+import type { BatchItem, ProjectSettings, StencilProject, RasterColorGroup } from '../types';
+import { loadImageData } from './imageProcessor';
+import { analyzeIslands, analyzeSource, groupDistance, prepareImageData, processingKey, readSourceFile, refineLabels } from './sourceAnalysis';
+import type { SourceAnalysis } from './sourceAnalysis';
+import { addLayerBundle } from './layerExport';
+import { resolveExportFrame } from './svgExport';
+import { createProject, deserializeGroups, serializeGroups } from './project';
+import { layerTrap } from './trapping';
+import type { RasterPipeline } from './rasterPipeline';
+import { createZipArchive } from './zip';
+import type { ZipFolder } from './zip';
+
+export interface BatchResult {
+  archive: Blob;
+  projects: Map<number, StencilProject>; // Kết quả của từng ảnh theo id trong hàng đợi
+}
+
+// Tên thư mục trong ZIP: tên tệp bỏ phần mở rộng, thêm hậu tố khi hai ảnh trùng tên
+function uniqueFolderName(fileName: string, used: Set<string>): string {
+  const base = fileName.split('.').slice(0, -1).join('.') || fileName;
+  let name = base;
+  for (let n = 2; used.has(name); n++) name = `${base} (${n})`;
+  used.add(name);
+  return name;
+}
+
+async function addLayersToFolder(
+  folder: ZipFolder,
+  name: string,
+  source: SourceAnalysis,
+  imageData: ImageData | null,
+  settings: ProjectSettings,
+  pipeline: RasterPipeline
+): Promise<void> {
+  const frame = resolveExportFrame(settings.exportSettings, source.dimensions);
+  const analyses = settings.bridgeOptions.detectIslands
+    ? await analyzeIslands(source.groups, { ...source, frame, imageData }, settings.bridgeOptions)
+    : null;
+  await addLayerBundle(folder, { ...source, name, imageData }, {
+    frame,
+    registrationOptions: settings.registrationOptions,
+    bridgesFor: index => (settings.bridgeOptions.insertBridges ? analyses?.get(source.groups[index])?.bridges ?? [] : []),
+    trapFor: index => layerTrap(source.groups, index, settings.trapOptions, settings.exportSettings.dpi),
+    cutOptions: settings.cutOptions,
+    tileOptions: settings.tileOptions,
+    dpi: settings.exportSettings.dpi,
+    scaleRaster: settings.exportSettings.scaleRaster,
+  }, pipeline);
+}
+
+/**
+ * Xử lý lần lượt mọi ảnh trong hàng đợi và gom các lớp vào một ZIP, mỗi ảnh một thư mục.
+ * Ảnh đã có kết quả với cùng thiết lập tách nhóm được xuất nguyên trạng (giữ các thao tác gộp, xóa, chỉnh sửa);
+ * các ảnh còn lại được phân tích lại.
+ */
+export async function processBatch(
+  items: BatchItem[],
+  settingsFor: (item: BatchItem) => ProjectSettings,
+  pipeline: RasterPipeline,
+  onProgress?: (progress: number) => void
+): Promise<BatchResult> {
+  const zip = createZipArchive();
+  const usedNames = new Set<string>();
+  const projects = new Map<number, StencilProject>();
+
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    const settings = settingsFor(item);
+    const saved = item.project;
+    const content = saved?.source.content ?? await readSourceFile(item.file);
+    const imageData = item.file.type === 'image/svg+xml' ? null : await prepareImageData(await loadImageData(content), settings, pipeline);
+
+    let source: SourceAnalysis;
+    if (saved?.dimensions && saved.settings.tolerance === settings.tolerance && processingKey(saved.settings) === processingKey(settings)) {
+      const groups = deserializeGroups(saved.groups);
+      const labelMap = imageData && !saved.isSvgSource
+        ? await pipeline.computeLabels(imageData, groups as RasterColorGroup[], settings.colorMetric, groupDistance(settings))
+        : null;
+      source = { groups, labelMap, dimensions: saved.dimensions, isSvgSource: saved.isSvgSource };
+    } else {
+      source = await analyzeSource(content, imageData, settings, pipeline, value => onProgress?.((i + value * 0.8) / items.length));
+    }
+
+    // Lớp raster được xuất từ bản đồ nhãn đã làm sạch và dither, như khi xuất từng ảnh
+    const exported = imageData && source.labelMap
+      ? { ...source, labelMap: await refineLabels(imageData, source.labelMap, source.groups, settings, pipeline) }
+      : source;
+    await addLayersToFolder(zip.folder(uniqueFolderName(item.file.name, usedNames)), item.file.name, exported, imageData, settings, pipeline);
+    projects.set(item.id, createProject({
+      source: { name: item.file.name, type: item.file.type, content },
+      settings,
+      dimensions: source.dimensions,
+      isSvgSource: source.isSvgSource,
+      groups: serializeGroups(source.groups),
+    }));
+    onProgress?.((i + 1) / items.length);
+  }
+
+  return { archive: await zip.generate(), projects };
+}
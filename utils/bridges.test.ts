@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import type { BridgeOptions } from '../types';
+import { applyBridgesToImageData, DEFAULT_BRIDGE_OPTIONS, findIslands, forEachBridgePixel, planBridges, scaleBridges, wrapWithBridgeMask } from './bridges';
+
+const W = 24;
+const OPTIONS: BridgeOptions = { ...DEFAULT_BRIDGE_OPTIONS, detectIslands: true, insertBridges: true, width: 2, count: 2 };
+
+// Mặt nạ W × W của lớp (1 = vật liệu bị cắt bỏ) gồm các khối [x, y, w, h, giá trị] vẽ lần lượt
+function mask(blocks: [number, number, number, number, number][]): Uint8Array {
+  const m = new Uint8Array(W * W);
+  blocks.forEach(([x0, y0, w, h, value]) => {
+    for (let y = y0; y < y0 + h; y++) for (let x = x0; x < x0 + w; x++) m[y * W + x] = value;
+  });
+  return m;
+}
+
+// Chữ O: vòng dày 4 px bao quanh một khoảng nền 8 × 8 sẽ rơi ra khi cắt
+const ring = () => mask([[4, 4, 16, 16, 1], [8, 8, 8, 8, 0]]);
+
+describe('findIslands', () => {
+  it('finds background enclosed by the layer', () => {
+    const { labels, islands } = findIslands(ring(), W, W);
+    expect(islands).toEqual([{ area: 64, centroid: { x: 11.5, y: 11.5 } }]);
+    expect(labels[12 * W + 12]).toBe(1);
+    expect(labels[0]).toBe(0);
+  });
+
+  it('ignores shapes without holes and holes too small to matter', () => {
+    expect(findIslands(mask([[4, 4, 10, 10, 1]]), W, W).islands).toEqual([]);
+    expect(findIslands(mask([[4, 4, 10, 10, 1], [8, 8, 1, 1, 0]]), W, W).islands).toEqual([]);
+  });
+});
+
+describe('planBridges', () => {
+  it('ties the island to the outer sheet with spread-out bridges', () => {
+    const m = ring();
+    const { labels, islands } = findIslands(m, W, W);
+    const bridges = planBridges(m, labels, W, W, islands, OPTIONS);
+    expect(bridges).toHaveLength(2);
+    bridges.forEach(bridge => {
+      expect(bridge.width).toBe(2);
+      // Một đầu trong đảo, đầu kia ở nền bên ngoài chữ O
+      const inside = (x: number, y: number) => x > 7 && x < 16 && y > 7 && y < 16;
+      const outside = (x: number, y: number) => x < 4 || x > 19 || y < 4 || y > 19;
+      expect(inside(bridge.x1, bridge.y1) || inside(bridge.x2, bridge.y2)).toBe(true);
+      expect(outside(bridge.x1, bridge.y1) || outside(bridge.x2, bridge.y2)).toBe(true);
+    });
+    const angle = (b: typeof bridges[number]) => Math.atan2(b.y2 - b.y1, b.x2 - b.x1);
+    const diff = Math.abs(angle(bridges[0]) - angle(bridges[1])) % (2 * Math.PI);
+    expect(Math.min(diff, 2 * Math.PI - diff)).toBeGreaterThan(Math.PI / 2);
+  });
+
+  it('respects the bridge count', () => {
+    const m = ring();
+    const { labels, islands } = findIslands(m, W, W);
+    expect(planBridges(m, labels, W, W, islands, { ...OPTIONS, count: 1 })).toHaveLength(1);
+    expect(planBridges(m, labels, W, W, islands, { ...OPTIONS, count: 4 }).length).toBeGreaterThanOrEqual(3);
+  });
+});
+
+describe('bridge rendering', () => {
+  const bridge = { x1: 2, y1: 5, x2: 10, y2: 5, width: 2 };
+
+  it('clears the pixels under each bridge', () => {
+    const data = new Uint8ClampedArray(W * W * 4).fill(255);
+    applyBridgesToImageData({ width: W, height: W, data } as ImageData, [bridge]);
+    expect(data[(5 * W + 6) * 4 + 3]).toBe(0);
+    expect(data[(4 * W + 6) * 4 + 3]).toBe(0);
+    expect(data[(8 * W + 6) * 4 + 3]).toBe(255);
+    let visited = 0;
+    forEachBridgePixel([bridge], W, W, () => visited++);
+    let cleared = 0;
+    for (let i = 3; i < data.length; i += 4) if (data[i] === 0) cleared++;
+    expect(cleared).toBe(visited);
+  });
+
+  it('masks SVG content only when there are bridges', () => {
+    expect(wrapWithBridgeMask('<path/>', [], 100, 50)).toBe('<path/>');
+    const wrapped = wrapWithBridgeMask('<path/>', [bridge], 100, 50);
+    expect(wrapped).toContain('<line x1="2.00" y1="5.00" x2="10.00" y2="5.00" stroke="black" stroke-width="2"/>');
+    expect(wrapped).toContain('<g mask="url(#stencil-bridges)"><path/></g>');
+  });
+});
+
+describe('scaleBridges', () => {
+  it('scales positions and widths to the export frame', () => {
+    expect(scaleBridges([{ x1: 1, y1: 2, x2: 3, y2: 4, width: 2 }], 2.5)).toEqual([{ x1: 2.5, y1: 5, x2: 7.5, y2: 10, width: 5 }]);
+  });
+});
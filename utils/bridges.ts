@@ -0,0 +1,282 @@
+import type { RGBColor, BridgeOptions, Island, Bridge, IslandAnalysis } from '../types';
+
+export const DEFAULT_BRIDGE_OPTIONS: BridgeOptions = {
+  detectIslands: false,
+  insertBridges: false,
+  width: 4,
+  count: 2,
+};
+
+// Đảo nhỏ hơn diện tích này (px²) được bỏ qua vì không ảnh hưởng đến việc cắt
+const MIN_ISLAND_AREA = 4;
+const RAY_DIRECTIONS = 16;
+const HIGHLIGHT_SIZE = 300;
+
+/**
+ * Gán nhãn các vùng nền (không thuộc lớp) theo liên thông 4 hướng. Vùng nền không chạm biên ảnh
+ * là một "đảo": phần vật liệu sẽ rơi ra khi cắt stencil (ví dụ phần bên trong chữ O).
+ * Trả về nhãn cho từng pixel (0 cho pixel thuộc lớp và nền bên ngoài, -1 cho đảo quá nhỏ bị bỏ qua)
+ * cùng danh sách đảo (nhãn = chỉ số + 1).
+ */
+export function findIslands(mask: Uint8Array, width: number, height: number): { labels: Int32Array; islands: Island[] } {
+  const labels = new Int32Array(width * height);
+  const visited = new Uint8Array(width * height);
+  const islands: Island[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (mask[start] || visited[start]) continue;
+
+    const pixels: number[] = [];
+    let touchesBorder = false;
+    let sumX = 0;
+    let sumY = 0;
+    visited[start] = 1;
+    stack.push(start);
+    while (stack.length > 0) {
+      const p = stack.pop()!;
+      pixels.push(p);
+      const x = p % width;
+      const y = (p - x) / width;
+      sumX += x;
+      sumY += y;
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) touchesBorder = true;
+      if (x > 0 && !mask[p - 1] && !visited[p - 1]) { visited[p - 1] = 1; stack.push(p - 1); }
+      if (x < width - 1 && !mask[p + 1] && !visited[p + 1]) { visited[p + 1] = 1; stack.push(p + 1); }
+      if (y > 0 && !mask[p - width] && !visited[p - width]) { visited[p - width] = 1; stack.push(p - width); }
+      if (y < height - 1 && !mask[p + width] && !visited[p + width]) { visited[p + width] = 1; stack.push(p + width); }
+    }
+
+    if (touchesBorder) continue;
+    if (pixels.length < MIN_ISLAND_AREA) {
+      for (const p of pixels) labels[p] = -1;
+      continue;
+    }
+    islands.push({ area: pixels.length, centroid: { x: sumX / pixels.length, y: sumY / pixels.length } });
+    const label = islands.length;
+    for (const p of pixels) labels[p] = label;
+  }
+
+  return { labels, islands };
+}
+
+interface BridgeCandidate {
+  angle: number;
+  length: number;
+  target: number; // Nhãn của vùng mà cầu nối chạm tới: 0 là vật liệu bên ngoài, còn lại là một đảo khác
+  bridge: Bridge;
+}
+
+/**
+ * Bắn tia từ tâm đảo `label` theo nhiều hướng; mỗi tia thoát khỏi đảo và chạm vào phần vật liệu bên ngoài
+ * (hoặc mép ảnh) hay một đảo khác là một cầu nối khả dĩ. Tia chạm đảo quá nhỏ bị bỏ vì đảo đó không được giữ.
+ */
+function bridgeCandidates(mask: Uint8Array, labels: Int32Array, width: number, height: number, island: Island, label: number, bridgeWidth: number): BridgeCandidate[] {
+  const candidates: BridgeCandidate[] = [];
+  for (let k = 0; k < RAY_DIRECTIONS; k++) {
+    const angle = (k / RAY_DIRECTIONS) * 2 * Math.PI;
+    const dx = Math.cos(angle) * 0.5;
+    const dy = Math.sin(angle) * 0.5;
+    let x = island.centroid.x;
+    let y = island.centroid.y;
+    let exit: { x: number; y: number } | null = null;
+    let hit: { x: number; y: number; target: number } | null = null;
+
+    for (let step = 0; step < 4 * (width + height); step++) {
+      x += dx;
+      y += dy;
+      const px = Math.round(x);
+      const py = Math.round(y);
+      if (px < 0 || py < 0 || px >= width || py >= height) {
+        if (exit) hit = { x: px, y: py, target: 0 };
+        break;
+      }
+      const p = py * width + px;
+      if (labels[p] === label) {
+        exit = { x, y };
+      } else if (exit && !mask[p]) {
+        if (labels[p] >= 0) hit = { x, y, target: labels[p] };
+        break;
+      }
+    }
+
+    if (exit && hit) {
+      // Kéo dài cầu nối thêm 1px mỗi đầu để chắc chắn cắt qua toàn bộ đường biên
+      const length = Math.hypot(hit.x - exit.x, hit.y - exit.y);
+      const ux = Math.cos(angle);
+      const uy = Math.sin(angle);
+      candidates.push({
+        angle,
+        length,
+        target: hit.target,
+        bridge: { x1: exit.x - ux, y1: exit.y - uy, x2: hit.x + ux, y2: hit.y + uy, width: bridgeWidth },
+      });
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Tìm các cầu nối ngắn nhất giữ mỗi đảo với phần vật liệu bên ngoài bằng cách bắn tia từ tâm đảo
+ * theo nhiều hướng. Cầu nối chỉ được nối tới vật liệu bên ngoài hoặc tới một đảo đã được giữ: đảo không có tia
+ * nào ra ngoài được nối theo chuỗi qua các đảo khác, từng vòng một. Đảo không thể nối tới bên ngoài không có cầu nối.
+ * Các cầu nối của cùng một đảo được giữ cách nhau về góc để phân bổ đều.
+ */
+export function planBridges(
+  mask: Uint8Array,
+  labels: Int32Array,
+  width: number,
+  height: number,
+  islands: Island[],
+  options: BridgeOptions
+): Bridge[] {
+  const count = Math.max(1, Math.round(options.count));
+  const minSeparation = ((2 * Math.PI) / count) * 0.75;
+  const candidates = islands.map((island, index) => bridgeCandidates(mask, labels, width, height, island, index + 1, options.width));
+
+  const select = (available: BridgeCandidate[]): BridgeCandidate[] => {
+    const chosen: BridgeCandidate[] = [];
+    for (const candidate of [...available].sort((a, b) => a.length - b.length)) {
+      if (chosen.length >= count) break;
+      const tooClose = chosen.some(c => {
+        const diff = Math.abs(c.angle - candidate.angle) % (2 * Math.PI);
+        return Math.min(diff, 2 * Math.PI - diff) < minSeparation;
+      });
+      if (!tooClose) chosen.push(candidate);
+    }
+    return chosen;
+  };
+
+  // Nhãn của các vùng đã được giữ với bên ngoài (0 là chính vật liệu bên ngoài)
+  const anchored = new Set<number>([0]);
+  const chosen: BridgeCandidate[][] = islands.map(() => []);
+  let pending = islands.map((_, index) => index);
+  while (pending.length > 0) {
+    // Các đảo của vòng này chỉ nối tới vùng đã được giữ từ các vòng trước
+    const reachable = pending.filter(index => candidates[index].some(c => anchored.has(c.target)));
+    if (reachable.length === 0) break;
+    reachable.forEach(index => {
+      chosen[index] = select(candidates[index].filter(c => anchored.has(c.target)));
+    });
+    reachable.forEach(index => anchored.add(index + 1));
+    pending = pending.filter(index => !anchored.has(index + 1));
+  }
+
+  return chosen.flatMap(list => list.map(c => c.bridge));
+}
+
+function distanceToSegment(px: number, py: number, b: Bridge): number {
+  const dx = b.x2 - b.x1;
+  const dy = b.y2 - b.y1;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((px - b.x1) * dx + (py - b.y1) * dy) / lengthSq));
+  return Math.hypot(px - (b.x1 + t * dx), py - (b.y1 + t * dy));
+}
+
+/** Đổi tỉ lệ cầu nối, dùng khi phân tích được thực hiện ở độ phân giải thấp hơn khung xuất. */
+export function scaleBridges(bridges: Bridge[], factor: number): Bridge[] {
+  return bridges.map(b => ({
+    x1: b.x1 * factor,
+    y1: b.y1 * factor,
+    x2: b.x2 * factor,
+    y2: b.y2 * factor,
+    width: b.width * factor,
+  }));
+}
+
+/** Gọi `visit` cho mọi pixel nằm trong dải cầu nối. */
+export function forEachBridgePixel(bridges: Bridge[], width: number, height: number, visit: (p: number) => void): void {
+  for (const bridge of bridges) {
+    const half = bridge.width / 2;
+    const minX = Math.max(0, Math.floor(Math.min(bridge.x1, bridge.x2) - half));
+    const maxX = Math.min(width - 1, Math.ceil(Math.max(bridge.x1, bridge.x2) + half));
+    const minY = Math.max(0, Math.floor(Math.min(bridge.y1, bridge.y2) - half));
+    const maxY = Math.min(height - 1, Math.ceil(Math.max(bridge.y1, bridge.y2) + half));
+    for (let y = minY; y <= maxY; y++) {
+      for (let x = minX; x <= maxX; x++) {
+        if (distanceToSegment(x, y, bridge) <= half) visit(y * width + x);
+      }
+    }
+  }
+}
+
+/** Xóa các pixel nằm dưới cầu nối khỏi ảnh lớp (đặt alpha về 0). */
+export function applyBridgesToImageData(imageData: ImageData, bridges: Bridge[]): void {
+  forEachBridgePixel(bridges, imageData.width, imageData.height, p => {
+    imageData.data[p * 4 + 3] = 0;
+  });
+}
+
+/** Bọc nội dung SVG của lớp trong một mask để các dải cầu nối không bị cắt. */
+export function wrapWithBridgeMask(innerHtml: string, bridges: Bridge[], frameWidth: number, frameHeight: number): string {
+  if (bridges.length === 0) return innerHtml;
+  const strips = bridges
+    .map(b => `<line x1="${b.x1.toFixed(2)}" y1="${b.y1.toFixed(2)}" x2="${b.x2.toFixed(2)}" y2="${b.y2.toFixed(2)}" stroke="black" stroke-width="${b.width}"/>`)
+    .join('');
+  return `<defs><mask id="stencil-bridges" maskUnits="userSpaceOnUse" x="0" y="0" width="${frameWidth}" height="${frameHeight}"><rect x="0" y="0" width="${frameWidth}" height="${frameHeight}" fill="white"/>${strips}</mask></defs><g mask="url(#stencil-bridges)">${innerHtml}</g>`;
+}
+
+/** Vẽ một SVG hoàn chỉnh lên canvas và trả về mặt nạ nhị phân theo kênh alpha. */
+export function rasterizeSvgToMask(svgString: string, width: number, height: number): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) return reject(new Error('Canvas 2D context is not available.'));
+      ctx.drawImage(img, 0, 0, width, height);
+      const data = ctx.getImageData(0, 0, width, height).data;
+      const mask = new Uint8Array(width * height);
+      for (let p = 0; p < mask.length; p++) mask[p] = data[p * 4 + 3] >= 128 ? 1 : 0;
+      resolve(mask);
+    };
+    img.onerror = () => reject(new Error('Could not rasterize SVG layer.'));
+    img.src = `data:image/svg+xml;base64,${btoa(svgString)}`;
+  });
+}
+
+function renderHighlight(mask: Uint8Array, labels: Int32Array, width: number, height: number, bridges: Bridge[], color: RGBColor): string {
+  const bridgePixels = new Uint8Array(width * height);
+  forEachBridgePixel(bridges, width, height, p => { bridgePixels[p] = 1; });
+
+  const scale = Math.max(1, Math.max(width, height) / HIGHLIGHT_SIZE);
+  const outWidth = Math.max(1, Math.round(width / scale));
+  const outHeight = Math.max(1, Math.round(height / scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = outWidth;
+  canvas.height = outHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+  const out = ctx.createImageData(outWidth, outHeight);
+
+  for (let y = 0; y < outHeight; y++) {
+    for (let x = 0; x < outWidth; x++) {
+      const p = Math.min(height - 1, Math.floor(y * scale)) * width + Math.min(width - 1, Math.floor(x * scale));
+      const o = (y * outWidth + x) * 4;
+      if (bridgePixels[p] && mask[p]) {
+        out.data.set([250, 204, 21, 255], o); // Cầu nối: vàng
+      } else if (mask[p]) {
+        out.data.set([color.r, color.g, color.b, 255], o);
+      } else if (labels[p] > 0) {
+        out.data.set([239, 68, 68, 200], o); // Đảo: đỏ
+      }
+    }
+  }
+  ctx.putImageData(out, 0, 0);
+  return canvas.toDataURL('image/png');
+}
+
+/** Phân tích đảo và (tùy chọn) lập kế hoạch cầu nối cho mặt nạ của một lớp. */
+export function analyzeLayerMask(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  color: RGBColor,
+  options: BridgeOptions
+): IslandAnalysis {
+  const { labels, islands } = findIslands(mask, width, height);
+  const bridges = options.insertBridges ? planBridges(mask, labels, width, height, islands, options) : [];
+  return { islands, bridges, highlightDataUrl: renderHighlight(mask, labels, width, height, bridges, color) };
+}
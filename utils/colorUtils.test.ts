@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { colorDistance, deltaE2000, deltaE76, rgbToLab, rgbToOklab } from './colorUtils';
+
+// Các cặp kiểm tra của Sharma, Wu và Dalal (2005) cho CIEDE2000: [Lab 1, Lab 2, ΔE00]
+const SHARMA_PAIRS: [[number, number, number], [number, number, number], number][] = [
+  [[50, 2.6772, -79.7751], [50, 0, -82.7485], 2.0425],
+  [[50, 3.1571, -77.2803], [50, 0, -82.7485], 2.8615],
+  [[50, 0, 0], [50, -1, 2], 2.3669],
+  [[50, 2.49, -0.001], [50, -2.49, 0.0009], 7.1792],
+  [[50, 2.5, 0], [73, 25, -18], 27.1492],
+  [[50, 2.5, 0], [50, 3.1736, 0.5854], 1.0],
+  [[60.2574, -34.0099, 36.2677], [60.4626, -34.1751, 39.4387], 1.2644],
+  [[63.0109, -31.0961, -5.8663], [62.8187, -29.7946, -4.0864], 1.263],
+  [[22.7233, 20.0904, -46.694], [23.0331, 14.973, -42.5619], 2.0373],
+  [[2.0776, 0.0795, -1.135], [0.9033, -0.0636, -0.5514], 0.9082],
+];
+
+const lab = ([l, a, b]: [number, number, number]) => ({ l, a, b });
+
+describe('deltaE2000', () => {
+  it.each(SHARMA_PAIRS)('matches the published difference for %j and %j', (first, second, expected) => {
+    expect(deltaE2000(lab(first), lab(second))).toBeCloseTo(expected, 4);
+    expect(deltaE2000(lab(second), lab(first))).toBeCloseTo(expected, 4);
+  });
+});
+
+describe('rgbToLab', () => {
+  it('converts sRGB primaries under D65', () => {
+    const white = rgbToLab({ r: 255, g: 255, b: 255 });
+    expect(white.l).toBeCloseTo(100, 2);
+    expect(white.a).toBeCloseTo(0, 2);
+    expect(white.b).toBeCloseTo(0, 2);
+    const red = rgbToLab({ r: 255, g: 0, b: 0 });
+    expect(red.l).toBeCloseTo(53.24, 1);
+    expect(red.a).toBeCloseTo(80.09, 1);
+    expect(red.b).toBeCloseTo(67.2, 1);
+  });
+});
+
+describe('rgbToOklab', () => {
+  // Giá trị tham chiếu của Björn Ottosson (cũng dùng trong CSS Color 4)
+  it.each([
+    [{ r: 255, g: 255, b: 255 }, [1, 0, 0]],
+    [{ r: 255, g: 0, b: 0 }, [0.62796, 0.22486, 0.12585]],
+    [{ r: 0, g: 255, b: 0 }, [0.86644, -0.23389, 0.1795]],
+    [{ r: 0, g: 0, b: 255 }, [0.45201, -0.03246, -0.31153]],
+  ])('converts %j', (rgb, [l, a, b]) => {
+    const result = rgbToOklab(rgb);
+    expect(result.l).toBeCloseTo(l, 3);
+    expect(result.a).toBeCloseTo(a, 3);
+    expect(result.b).toBeCloseTo(b, 3);
+  });
+});
+
+describe('colorDistance', () => {
+  const navy = { r: 20, g: 30, b: 90 };
+  const teal = { r: 10, g: 120, b: 110 };
+
+  it('is zero for the same colour under every metric', () => {
+    (['rgb', 'cie76', 'ciede2000', 'oklab'] as const).forEach(metric => expect(colorDistance(navy, navy, metric)).toBe(0));
+  });
+
+  it('measures in the space of the chosen metric', () => {
+    expect(colorDistance(navy, teal, 'rgb')).toBeCloseTo(Math.hypot(10, 90, 20), 6);
+    expect(colorDistance(navy, teal, 'cie76')).toBeCloseTo(deltaE76(rgbToLab(navy), rgbToLab(teal)), 6);
+    expect(colorDistance(navy, teal, 'ciede2000')).toBeCloseTo(deltaE2000(rgbToLab(navy), rgbToLab(teal)), 6);
+    expect(colorDistance(navy, teal, 'oklab')).toBeCloseTo(deltaE76(rgbToOklab(navy), rgbToOklab(teal)), 6);
+  });
+});
@@ -1,5 +1,5 @@
 
-import type { RGBColor } from '../types';
+import type { RGBColor, LabColor, ColorMetric } from '../types';
 
 export function hexToRgb(hex: string): RGBColor | null {
   const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
@@ -16,11 +16,192 @@ export function rgbToHex({ r, g, b }: RGBColor): string {
   return "#" + ((1 << 24) + (r << 16) + (g << 8) + b).toString(16).slice(1).padEnd(6, '0');
 }
 
-export function colorDistance(color1: RGBColor, color2: RGBColor): number {
-  const dr = color1.r - color2.r;
-  const dg = color1.g - color2.g;
-  const db = color1.b - color2.b;
-  return Math.sqrt(dr * dr + dg * dg + db * db);
+// Hệ số quy đổi giá trị thanh trượt (0-100) sang khoảng cách thực tế của từng metric.
+// Các hệ số được chọn để giá trị 20 tương ứng với cùng một mức khác biệt thị giác (~ΔE76 20).
+const TOLERANCE_SCALE: Record<ColorMetric, number> = {
+  rgb: 2.55,
+  cie76: 1,
+  ciede2000: 0.5,
+  oklab: 0.01,
+};
+
+export const COLOR_METRIC_LABELS: Record<ColorMetric, string> = {
+  rgb: 'RGB (Euclidean)',
+  cie76: 'CIE76 (Lab)',
+  ciede2000: 'CIEDE2000',
+  oklab: 'OKLab',
+};
+
+export function toleranceToDistance(tolerance: number, metric: ColorMetric = 'rgb'): number {
+  return tolerance * TOLERANCE_SCALE[metric];
+}
+
+function srgbToLinear(channel: number): number {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+function linearToSrgb(value: number): number {
+  const c = value <= 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055;
+  return Math.round(Math.min(1, Math.max(0, c)) * 255);
+}
+
+// Điểm trắng tham chiếu D65
+const XN = 0.95047;
+const YN = 1.0;
+const ZN = 1.08883;
+const LAB_EPSILON = 216 / 24389;
+const LAB_KAPPA = 24389 / 27;
+
+export function rgbToLab({ r, g, b }: RGBColor): LabColor {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+
+  const x = (lr * 0.4124564 + lg * 0.3575761 + lb * 0.1804375) / XN;
+  const y = (lr * 0.2126729 + lg * 0.7151522 + lb * 0.072175) / YN;
+  const z = (lr * 0.0193339 + lg * 0.119192 + lb * 0.9503041) / ZN;
+
+  const f = (t: number) => (t > LAB_EPSILON ? Math.cbrt(t) : (LAB_KAPPA * t + 16) / 116);
+  const fx = f(x);
+  const fy = f(y);
+  const fz = f(z);
+
+  return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+}
+
+export function labToRgb({ l, a, b }: LabColor): RGBColor {
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+
+  const finv = (t: number) => {
+    const t3 = t * t * t;
+    return t3 > LAB_EPSILON ? t3 : (116 * t - 16) / LAB_KAPPA;
+  };
+  const x = finv(fx) * XN;
+  const y = (l > LAB_KAPPA * LAB_EPSILON ? fy * fy * fy : l / LAB_KAPPA) * YN;
+  const z = finv(fz) * ZN;
+
+  return {
+    r: linearToSrgb(x * 3.2404542 + y * -1.5371385 + z * -0.4985314),
+    g: linearToSrgb(x * -0.969266 + y * 1.8760108 + z * 0.041556),
+    b: linearToSrgb(x * 0.0556434 + y * -0.2040259 + z * 1.0572252),
+  };
+}
+
+export function rgbToOklab({ r, g, b }: RGBColor): LabColor {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+
+  return {
+    l: 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  };
+}
+
+export function deltaE76(lab1: LabColor, lab2: LabColor): number {
+  const dl = lab1.l - lab2.l;
+  const da = lab1.a - lab2.a;
+  const db = lab1.b - lab2.b;
+  return Math.sqrt(dl * dl + da * da + db * db);
+}
+
+export function deltaE2000(lab1: LabColor, lab2: LabColor): number {
+  const rad = Math.PI / 180;
+  const c1 = Math.hypot(lab1.a, lab1.b);
+  const c2 = Math.hypot(lab2.a, lab2.b);
+  const cBar7 = Math.pow((c1 + c2) / 2, 7);
+  const g = 0.5 * (1 - Math.sqrt(cBar7 / (cBar7 + Math.pow(25, 7))));
+
+  const a1p = lab1.a * (1 + g);
+  const a2p = lab2.a * (1 + g);
+  const c1p = Math.hypot(a1p, lab1.b);
+  const c2p = Math.hypot(a2p, lab2.b);
+  const hue = (bb: number, ap: number) => {
+    if (bb === 0 && ap === 0) return 0;
+    const h = Math.atan2(bb, ap) / rad;
+    return h < 0 ? h + 360 : h;
+  };
+  const h1p = hue(lab1.b, a1p);
+  const h2p = hue(lab2.b, a2p);
+
+  const dLp = lab2.l - lab1.l;
+  const dCp = c2p - c1p;
+  let dhp = 0;
+  if (c1p * c2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(c1p * c2p) * Math.sin((dhp / 2) * rad);
+
+  const lBarP = (lab1.l + lab2.l) / 2;
+  const cBarP = (c1p + c2p) / 2;
+  let hBarP = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hBarP /= 2;
+    else hBarP = h1p + h2p < 360 ? (hBarP + 360) / 2 : (hBarP - 360) / 2;
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos((hBarP - 30) * rad) +
+    0.24 * Math.cos(2 * hBarP * rad) +
+    0.32 * Math.cos((3 * hBarP + 6) * rad) -
+    0.2 * Math.cos((4 * hBarP - 63) * rad);
+  const dTheta = 30 * Math.exp(-Math.pow((hBarP - 275) / 25, 2));
+  const cBarP7 = Math.pow(cBarP, 7);
+  const rc = 2 * Math.sqrt(cBarP7 / (cBarP7 + Math.pow(25, 7)));
+  const lBarP50 = (lBarP - 50) * (lBarP - 50);
+  const sl = 1 + (0.015 * lBarP50) / Math.sqrt(20 + lBarP50);
+  const sc = 1 + 0.045 * cBarP;
+  const sh = 1 + 0.015 * cBarP * t;
+  const rt = -Math.sin(2 * dTheta * rad) * rc;
+
+  const lTerm = dLp / sl;
+  const cTerm = dCp / sc;
+  const hTerm = dHp / sh;
+  return Math.sqrt(lTerm * lTerm + cTerm * cTerm + hTerm * hTerm + rt * cTerm * hTerm);
+}
+
+// Bộ nhớ đệm cho các phép chuyển đổi không gian màu, vì các vòng lặp pixel gọi lại cùng một màu rất nhiều lần.
+const MAX_CACHE_SIZE = 1 << 18;
+const labCache = new Map<number, LabColor>();
+const oklabCache = new Map<number, LabColor>();
+
+function cachedConvert(cache: Map<number, LabColor>, color: RGBColor, convert: (c: RGBColor) => LabColor): LabColor {
+  const key = (color.r << 16) | (color.g << 8) | color.b;
+  let result = cache.get(key);
+  if (!result) {
+    if (cache.size >= MAX_CACHE_SIZE) cache.clear();
+    result = convert(color);
+    cache.set(key, result);
+  }
+  return result;
+}
+
+export function colorDistance(color1: RGBColor, color2: RGBColor, metric: ColorMetric = 'rgb'): number {
+  switch (metric) {
+    case 'cie76':
+      return deltaE76(cachedConvert(labCache, color1, rgbToLab), cachedConvert(labCache, color2, rgbToLab));
+    case 'ciede2000':
+      return deltaE2000(cachedConvert(labCache, color1, rgbToLab), cachedConvert(labCache, color2, rgbToLab));
+    case 'oklab':
+      return deltaE76(cachedConvert(oklabCache, color1, rgbToOklab), cachedConvert(oklabCache, color2, rgbToOklab));
+    default: {
+      const dr = color1.r - color2.r;
+      const dg = color1.g - color2.g;
+      const db = color1.b - color2.b;
+      return Math.sqrt(dr * dr + dg * dg + db * db);
+    }
+  }
 }
 
 export function parseColorString(colorStr: string): RGBColor | null {
@@ -0,0 +1,109 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import type { RasterColorGroup, SVGColorGroup } from '../types';
+import { regionFromLabels, splitRasterGroup, splitSvgGroup } from './connectivity';
+import { computeLabelMap } from './imageProcessor';
+
+const RED = { r: 255, g: 0, b: 0 };
+const RASTER_GROUP: RasterColorGroup = { representativeColor: RED, memberColors: [RED], totalCount: 0 };
+
+// Bản đồ nhãn từ các dòng ký tự: chữ số là chỉ số nhóm, '.' là pixel không thuộc nhóm nào
+function labelMap(rows: string[]): { labels: Int32Array; width: number; height: number } {
+  const labels = Int32Array.from(rows.join('').split(''), c => (c === '.' ? -1 : Number(c)));
+  return { labels, width: rows[0].length, height: rows.length };
+}
+
+function svgGroup(markup: string): SVGColorGroup {
+  const doc = new DOMParser().parseFromString(`<svg xmlns="http://www.w3.org/2000/svg">${markup}</svg>`, 'image/svg+xml');
+  return { representativeColor: RED, elements: Array.from(doc.documentElement.children) as SVGElement[] };
+}
+
+const pixels = (group: RasterColorGroup) => Array.from(group.region!).sort((a, b) => a - b);
+
+describe('splitRasterGroup', () => {
+  const { labels, width, height } = labelMap([
+    '00..0',
+    '00..0',
+    '...1.',
+    '0....',
+  ]);
+
+  it('splits a layer into 8-connected regions, largest first', () => {
+    const parts = splitRasterGroup(RASTER_GROUP, labels, width, height, 0, 1);
+    expect(parts.map(p => p.totalCount)).toEqual([4, 2, 1]);
+    expect(pixels(parts[0])).toEqual([0, 1, 5, 6]);
+    expect(pixels(parts[1])).toEqual([4, 9]);
+    expect(parts.every(p => p.representativeColor === RED)).toBe(true);
+  });
+
+  it('joins diagonal neighbours and drops regions below the minimum area', () => {
+    const diagonal = labelMap(['0.', '.0']);
+    expect(splitRasterGroup(RASTER_GROUP, diagonal.labels, 2, 2, 0, 1)).toHaveLength(1);
+    expect(splitRasterGroup(RASTER_GROUP, labels, width, height, 0, 2).map(p => p.totalCount)).toEqual([4, 2]);
+  });
+
+  it('merges regions back into one group', () => {
+    expect(Array.from(regionFromLabels(labels, [0, 1]))).toEqual([0, 1, 4, 5, 6, 9, 13, 15]);
+  });
+
+  it('splits into regions that together cover the layer', () => {
+    const parts = splitRasterGroup(RASTER_GROUP, labels, width, height, 0, 1);
+    const covered = parts.flatMap(pixels).sort((a, b) => a - b);
+    expect(covered).toEqual(Array.from(regionFromLabels(labels, [0])));
+    expect(parts.reduce((sum, part) => sum + part.totalCount, 0)).toBe(covered.length);
+  });
+
+  it('limits split groups to their own pixels when labelling', () => {
+    const image = { width: 3, height: 1, data: new Uint8ClampedArray([255, 0, 0, 255, 255, 0, 0, 255, 255, 0, 0, 255]) } as unknown as ImageData;
+    const left = { representativeColor: RED, region: Uint32Array.from([0]) };
+    const right = { representativeColor: RED, region: Uint32Array.from([2]) };
+    // Pixel giữa cùng màu nhưng thuộc một mảnh đã bị loại: không còn thuộc nhóm nào
+    expect(Array.from(computeLabelMap(image, [left, right], 'rgb', 10))).toEqual([0, -1, 1]);
+  });
+});
+
+describe('splitSvgGroup', () => {
+  it('separates shapes that do not touch', () => {
+    const parts = splitSvgGroup(svgGroup('<rect width="10" height="10"/><rect x="5" y="5" width="10" height="10"/><circle cx="50" cy="50" r="5"/>'), 0, 0);
+    expect(parts.map(p => p.elements.length)).toEqual([2, 1]);
+    expect(parts[1].elements[0].tagName).toBe('circle');
+  });
+
+  it('splits the subpaths of a single path', () => {
+    const [first, second] = splitSvgGroup(svgGroup('<path d="M0 0H10V10H0Z M40 0H50V10H40Z"/>'), 0, 0);
+    expect(first.elements[0].getAttribute('d')).toBe('M0 0L10 0L10 10L0 10Z');
+    expect(second.elements[0].getAttribute('d')).toBe('M40 0L50 0L50 10L40 10Z');
+  });
+
+  it('keeps holes with their outer shape', () => {
+    const parts = splitSvgGroup(svgGroup('<path d="M0 0H30V30H0Z M10 10V20H20V10Z"/>'), 0, 0);
+    expect(parts).toHaveLength(1);
+    expect(parts[0].elements[0].getAttribute('d')).toBe('M0 0H30V30H0Z M10 10V20H20V10Z');
+  });
+
+  it('applies transforms and the proximity distance', () => {
+    const markup = '<rect width="10" height="10"/><rect width="10" height="10" transform="translate(14 0)"/>';
+    expect(splitSvgGroup(svgGroup(markup), 0, 0)).toHaveLength(2);
+    expect(splitSvgGroup(svgGroup(markup), 0, 5)).toHaveLength(1);
+  });
+
+  it('joins shapes that only share an edge or meet at a corner', () => {
+    const markup = '<rect width="10" height="10"/><rect x="10" width="10" height="10"/><rect x="20" y="10" width="10" height="10"/>';
+    expect(splitSvgGroup(svgGroup(markup), 0, 0)).toHaveLength(1);
+  });
+
+  it('splits and clusters layers with many shapes', () => {
+    // 40 × 40 chấm tròn cách nhau 2: tách riêng từng chấm, hoặc nối thành một cụm khi proximity đủ lớn
+    const dots = Array.from({ length: 1600 }, (_, i) => `<circle cx="${(i % 40) * 12}" cy="${Math.floor(i / 40) * 12}" r="5"/>`).join('');
+    const separate = splitSvgGroup(svgGroup(dots), 0, 0);
+    expect(separate).toHaveLength(1600);
+    expect(separate[41].elements[0].getAttribute('cx')).toBe('12');
+    expect(splitSvgGroup(svgGroup(dots), 0, 2.5)).toHaveLength(1);
+  });
+
+  it('drops clusters smaller than the minimum area', () => {
+    const parts = splitSvgGroup(svgGroup('<rect width="10" height="10"/><rect x="50" width="2" height="2"/>'), 10, 0);
+    expect(parts).toHaveLength(1);
+    expect(parts[0].elements[0].getAttribute('width')).toBe('10');
+  });
+});
@@ -0,0 +1,258 @@
+import type { SVGColorGroup, RasterColorGroup, SplitOptions } from '../types';
+import { flattenPath, getCumulativeTransform, multiplyMatrices, overlappingPairs, parsePathData, parseTransform, pathCommandsToString, shapeToPathData, transformPathCommands } from './geometry';
+import type { Box, Matrix, PathCommand, PathPoint } from './geometry';
+
+export const DEFAULT_SPLIT_OPTIONS: SplitOptions = {
+  minAreaPercent: 0.05,
+  proximity: 0,
+};
+
+/**
+ * Tách một lớp raster thành các vùng liên thông 8 hướng theo bản đồ nhãn. Vùng nhỏ hơn minArea pixel bị loại bỏ;
+ * mỗi vùng còn lại trở thành một nhóm cùng màu, giới hạn ở đúng các pixel của nó.
+ */
+export function splitRasterGroup(group: RasterColorGroup, labels: Int32Array, width: number, height: number, groupIndex: number, minArea: number): RasterColorGroup[] {
+  const visited = new Uint8Array(labels.length);
+  const parts: RasterColorGroup[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < labels.length; start++) {
+    if (labels[start] !== groupIndex || visited[start]) continue;
+    const pixels: number[] = [];
+    visited[start] = 1;
+    stack.push(start);
+    while (stack.length > 0) {
+      const p = stack.pop()!;
+      pixels.push(p);
+      const x = p % width;
+      const y = (p - x) / width;
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= width) continue;
+          const q = ny * width + nx;
+          if (labels[q] === groupIndex && !visited[q]) {
+            visited[q] = 1;
+            stack.push(q);
+          }
+        }
+      }
+    }
+    // Vùng đã tính đến các pixel tô thủ công, nên các phần tách ra không mang theo chúng
+    if (pixels.length >= minArea) {
+      parts.push({
+        representativeColor: group.representativeColor,
+        ...(group.targetColor ? { targetColor: group.targetColor } : {}),
+        ...(group.trapOffset !== undefined ? { trapOffset: group.trapOffset } : {}),
+        ...(group.cleanup ? { cleanup: group.cleanup } : {}),
+        memberColors: group.memberColors,
+        totalCount: pixels.length,
+        region: Uint32Array.from(pixels),
+      });
+    }
+  }
+
+  return parts.sort((a, b) => b.totalCount - a.totalCount);
+}
+
+/** Các pixel đang thuộc về một trong các nhóm đã cho, dùng làm vùng của nhóm sau khi gộp. */
+export function regionFromLabels(labels: Int32Array, groupIndices: number[]): Uint32Array {
+  const wanted = new Set(groupIndices);
+  const pixels: number[] = [];
+  for (let p = 0; p < labels.length; p++) if (wanted.has(labels[p])) pixels.push(p);
+  return Uint32Array.from(pixels);
+}
+
+// Một mảnh hình học: cả phần tử, hoặc một subpath của một <path>
+interface Piece {
+  elementIndex: number;
+  commands: PathCommand[] | null; // Tọa độ gốc của subpath (chưa áp dụng transform)
+  box: Box;
+  rings: PathPoint[][]; // Đường viền đã làm phẳng (có áp dụng transform)
+  segments: Segment[]; // Các cạnh của mọi vòng, kèm khung bao
+}
+
+interface Segment {
+  a: PathPoint;
+  b: PathPoint;
+  box: Box;
+}
+
+// Sai số làm phẳng so với cạnh lớn nhất của khung bao mảnh, đủ để xét chạm nhau mà không quá nhiều đoạn
+const FLATTEN_RATIO = 0.005;
+
+function flattenedRings(commands: PathCommand[], matrix: Matrix, box: Box): PathPoint[][] {
+  const tolerance = Math.max(box.maxX - box.minX, box.maxY - box.minY) * FLATTEN_RATIO || 1;
+  return flattenPath(transformPathCommands(commands, matrix), tolerance).map(line => line.points);
+}
+
+function commandsBox(commands: PathCommand[], matrix: Matrix, box: Box | null = null): Box | null {
+  transformPathCommands(commands, matrix).forEach(cmd => {
+    if (cmd.type === 'Z') return;
+    const points = cmd.type === 'C' ? [[cmd.x1, cmd.y1], [cmd.x2, cmd.y2], [cmd.x, cmd.y]]
+      : cmd.type === 'Q' ? [[cmd.x1, cmd.y1], [cmd.x, cmd.y]]
+      : [[cmd.x, cmd.y]];
+    points.forEach(([x, y]) => {
+      if (!box) box = { minX: x, minY: y, maxX: x, maxY: y };
+      else {
+        box.minX = Math.min(box.minX, x);
+        box.minY = Math.min(box.minY, y);
+        box.maxX = Math.max(box.maxX, x);
+        box.maxY = Math.max(box.maxY, y);
+      }
+    });
+  });
+  return box;
+}
+
+function ringSegments(rings: PathPoint[][]): Segment[] {
+  return rings.flatMap(ring => ring.map((a, i) => {
+    const b = ring[(i + 1) % ring.length];
+    return { a, b, box: { minX: Math.min(a.x, b.x), minY: Math.min(a.y, b.y), maxX: Math.max(a.x, b.x), maxY: Math.max(a.y, b.y) } };
+  }));
+}
+
+function splitSubpaths(commands: PathCommand[]): PathCommand[][] {
+  const subpaths: PathCommand[][] = [];
+  commands.forEach(cmd => {
+    if (cmd.type === 'M' || subpaths.length === 0) subpaths.push([]);
+    subpaths[subpaths.length - 1].push(cmd);
+  });
+  return subpaths;
+}
+
+// Khung bao (có áp dụng transform) của phần tử; <path> được chia thành từng subpath.
+function elementPieces(el: SVGElement, elementIndex: number): Piece[] {
+  const base = parseTransform(el.getAttribute('transform'));
+  if (el.tagName.toLowerCase() === 'path') {
+    return splitSubpaths(parsePathData(el.getAttribute('d') || '')).flatMap(commands => {
+      const box = commandsBox(commands, base);
+      if (!box) return [];
+      const rings = flattenedRings(commands, base, box);
+      return [{ elementIndex, commands, box, rings, segments: ringSegments(rings) }];
+    });
+  }
+  // Hình cơ bản, hoặc nhóm (<g>) sau khi chỉnh sửa: một mảnh chung cho mọi hình bên trong
+  let box: Box | null = null;
+  const shapes: { commands: PathCommand[]; matrix: Matrix }[] = [];
+  [el, ...Array.from(el.querySelectorAll('path, rect, circle, ellipse, polygon, polyline, line'))].forEach(shape => {
+    const d = shapeToPathData(shape);
+    if (!d) return;
+    const matrix = shape === el ? base : multiplyMatrices(base, getCumulativeTransform(shape, el));
+    const commands = parsePathData(d);
+    box = commandsBox(commands, matrix, box);
+    shapes.push({ commands, matrix });
+  });
+  if (!box) return [];
+  const pieceBox: Box = box;
+  const rings = shapes.flatMap(shape => flattenedRings(shape.commands, shape.matrix, pieceBox));
+  return [{ elementIndex, commands: null, box: pieceBox, rings, segments: ringSegments(rings) }];
+}
+
+const boxesNear = (a: Box, b: Box, proximity: number) =>
+  a.minX - proximity <= b.maxX && b.minX - proximity <= a.maxX && a.minY - proximity <= b.maxY && b.minY - proximity <= a.maxY;
+
+const cross = (o: PathPoint, a: PathPoint, b: PathPoint) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+function pointSegmentDistance(p: PathPoint, a: PathPoint, b: PathPoint): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq)) : 0;
+  return Math.hypot(p.x - a.x - t * dx, p.y - a.y - t * dy);
+}
+
+function segmentDistance(a1: PathPoint, a2: PathPoint, b1: PathPoint, b2: PathPoint): number {
+  const d1 = cross(a1, a2, b1);
+  const d2 = cross(a1, a2, b2);
+  const d3 = cross(b1, b2, a1);
+  const d4 = cross(b1, b2, a2);
+  if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) return 0;
+  return Math.min(pointSegmentDistance(a1, b1, b2), pointSegmentDistance(a2, b1, b2), pointSegmentDistance(b1, a1, a2), pointSegmentDistance(b2, a1, a2));
+}
+
+// Điểm nằm trong một vòng của mảnh (theo even-odd, mỗi vòng được coi là khép kín)
+function insideRings(p: PathPoint, rings: PathPoint[][]): boolean {
+  return rings.some(ring => {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const a = ring[i];
+      const b = ring[j];
+      if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+    }
+    return inside;
+  });
+}
+
+// Hai mảnh liền nhau khi đường viền của chúng cách nhau không quá `proximity`, hoặc một mảnh nằm trong mảnh kia.
+// Chỉ các cạnh gần khung bao của mảnh kia được xét, và chỉ các cặp cạnh có khung bao gần nhau mới được đo khoảng cách.
+function piecesTouch(a: Piece, b: Piece, proximity: number): boolean {
+  const nearA = a.segments.filter(segment => boxesNear(segment.box, b.box, proximity));
+  const nearB = b.segments.filter(segment => boxesNear(segment.box, a.box, proximity));
+  const segments = [...nearA, ...nearB];
+  for (const [i, j] of overlappingPairs(segments.map(segment => segment.box), proximity)) {
+    if (i >= nearA.length || j < nearA.length) continue;
+    if (segmentDistance(segments[i].a, segments[i].b, segments[j].a, segments[j].b) <= proximity) return true;
+  }
+  const first = (rings: PathPoint[][]) => rings.find(ring => ring.length > 0)?.[0];
+  const pointA = first(a.rings);
+  const pointB = first(b.rings);
+  return (!!pointA && insideRings(pointA, b.rings)) || (!!pointB && insideRings(pointB, a.rings));
+}
+
+/**
+ * Tách một lớp SVG thành các cụm hình chồng lên nhau hoặc cách nhau không quá `proximity`, xét theo đường viền đã làm
+ * phẳng của từng hình. Lỗ bên trong một hình nằm trong đường viền của nó nên vẫn đi cùng hình. Cụm có khung bao nhỏ
+ * hơn minArea bị loại bỏ.
+ */
+export function splitSvgGroup(group: SVGColorGroup, minArea: number, proximity: number): SVGColorGroup[] {
+  const pieces = group.elements.flatMap((el, index) => elementPieces(el, index));
+  const parent = pieces.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) i = parent[i] = parent[parent[i]];
+    return i;
+  };
+  // Chỉ xét các cặp mảnh có khung bao gần nhau
+  for (const [i, j] of overlappingPairs(pieces.map(piece => piece.box), proximity)) {
+    if (find(i) !== find(j) && piecesTouch(pieces[i], pieces[j], proximity)) parent[find(i)] = find(j);
+  }
+
+  const clusters = new Map<number, Piece[]>();
+  const pieceCounts = new Array<number>(group.elements.length).fill(0);
+  pieces.forEach((piece, i) => {
+    const root = find(i);
+    const cluster = clusters.get(root);
+    if (cluster) cluster.push(piece);
+    else clusters.set(root, [piece]);
+    pieceCounts[piece.elementIndex]++;
+  });
+
+  const parts: SVGColorGroup[] = [];
+  clusters.forEach(cluster => {
+    const box = cluster.map(piece => piece.box).reduce((acc, b) => ({
+      minX: Math.min(acc.minX, b.minX), minY: Math.min(acc.minY, b.minY), maxX: Math.max(acc.maxX, b.maxX), maxY: Math.max(acc.maxY, b.maxY),
+    }));
+    if ((box.maxX - box.minX) * (box.maxY - box.minY) < minArea) return;
+
+    // Các mảnh của cụm theo phần tử; mảnh đã theo thứ tự phần tử trong lớp
+    const byElement = new Map<number, Piece[]>();
+    cluster.forEach(piece => {
+      const own = byElement.get(piece.elementIndex);
+      if (own) own.push(piece);
+      else byElement.set(piece.elementIndex, [piece]);
+    });
+    const elements: SVGElement[] = [];
+    byElement.forEach((own, index) => {
+      const clone = group.elements[index].cloneNode(true) as SVGElement;
+      // Path chỉ có một phần các subpath trong cụm: giữ lại đúng các subpath đó
+      if (own[0].commands && own.length < pieceCounts[index]) {
+        clone.setAttribute('d', pathCommandsToString(own.flatMap(piece => piece.commands!)));
+      }
+      elements.push(clone);
+    });
+    parts.push({ ...group, elements });
+  });
+  return parts;
+}
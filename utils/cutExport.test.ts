@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import type { SVGColorGroup } from '../types';
+import { buildCutFile, DEFAULT_CUT_OPTIONS } from './cutExport';
+import type { CutLayerOptions } from './cutExport';
+import { DEFAULT_REGISTRATION_OPTIONS } from './registrationMarks';
+import { resolveExportFrame } from './svgExport';
+
+// Phần tử <path> tối thiểu đủ cho việc đọc hình của lớp (không cần DOM)
+const pathElement = (attributes: Record<string, string>) =>
+  ({ tagName: 'path', style: { getPropertyValue: () => '' }, getAttribute: (name: string) => attributes[name] ?? null }) as unknown as SVGElement;
+
+const groups: SVGColorGroup[] = [
+  { representativeColor: { r: 250, g: 10, b: 0 }, elements: [pathElement({ d: 'M10 10L30 10L30 20L10 20Z', fill: '#fa0a00' })] },
+  { representativeColor: { r: 0, g: 0, b: 240 }, elements: [pathElement({ d: 'M50 5L90 5L90 45Z', fill: '#0000f0' })] },
+];
+const dimensions = { width: 100, height: 50, viewBox: '0 0 100 50' };
+// 25,4 DPI: một pixel của khung là một milimét
+const frame = resolveExportFrame({ width: 100, height: 50, unit: 'mm', dpi: 25.4, aspect: 'fit', margin: 0, background: null, scaleRaster: false }, dimensions);
+const plain: CutLayerOptions = { registrationOptions: DEFAULT_REGISTRATION_OPTIONS, bridgesFor: () => [], trapFor: () => null };
+const withMarks: CutLayerOptions = { ...plain, registrationOptions: { ...DEFAULT_REGISTRATION_OPTIONS, enabled: true } };
+
+const cutFile = (format: 'dxf' | 'hpgl' | 'pdf', indices: number[], options = plain) =>
+  buildCutFile(format, groups, indices, dimensions, frame, 25.4, DEFAULT_CUT_OPTIONS, options).text();
+
+// Các cặp (mã nhóm, giá trị) của tệp DXF
+function dxfPairs(text: string): [number, string][] {
+  const lines = text.trim().split('\n');
+  const pairs: [number, string][] = [];
+  for (let i = 0; i < lines.length; i += 2) pairs.push([parseInt(lines[i], 10), lines[i + 1]]);
+  return pairs;
+}
+
+describe('buildCutFile', () => {
+  it('writes an R12 DXF with one closed POLYLINE per outline in millimetres, y up', async () => {
+    const pairs = dxfPairs(await cutFile('dxf', [0]));
+    const value = (code: number, after: number) => pairs.slice(after).find(([c]) => c === code)?.[1];
+    expect(value(1, pairs.findIndex(([, v]) => v === '$ACADVER'))).toBe('AC1009');
+    expect(pairs.filter(([c, v]) => c === 0 && v === 'POLYLINE')).toHaveLength(1);
+    const polyline = pairs.findIndex(([, v]) => v === 'POLYLINE');
+    expect(value(8, polyline)).toBe('LAYER_1');
+    expect(value(70, polyline)).toBe('1');
+
+    const vertices: string[] = [];
+    pairs.forEach(([c, v], i) => {
+      if (c === 0 && v === 'VERTEX') vertices.push(`${pairs[i + 2][1]},${pairs[i + 3][1]}`);
+    });
+    expect(vertices.slice(0, 4)).toEqual(['10,40', '30,40', '30,30', '10,30']);
+    expect(pairs[pairs.length - 1]).toEqual([0, 'EOF']);
+    // Màu lớp là màu ACI gần nhất (đỏ)
+    const layer = pairs.findIndex(([c, v], i) => c === 2 && v === 'LAYER_1' && pairs[i - 1][1] === 'LAYER');
+    expect(value(62, layer)).toBe('1');
+  });
+
+  it('puts registration marks on their own DXF layer', async () => {
+    const pairs = dxfPairs(await cutFile('dxf', [1], withMarks));
+    const layers = pairs.filter(([c], i) => c === 8 && pairs[i - 1]?.[1] === 'POLYLINE').map(([, v]) => v);
+    expect(layers[0]).toBe('LAYER_2');
+    expect(layers.filter(name => name === 'REGISTRATION').length).toBeGreaterThan(0);
+    expect(pairs.some(([c, v]) => c === 2 && v === 'REGISTRATION')).toBe(true);
+  });
+
+  it('cuts bridges out of the vector outline without staircase edges', async () => {
+    const bridged = { ...plain, bridgesFor: () => [{ x1: 20, y1: 5, x2: 20, y2: 25, width: 2 }] };
+    const pairs = dxfPairs(await cutFile('dxf', [0], bridged));
+    const polylines = pairs.reduce<string[][]>((lines, [c, v], i) => {
+      if (c === 0 && v === 'POLYLINE') lines.push([]);
+      if (c === 0 && v === 'VERTEX') lines[lines.length - 1].push(`${pairs[i + 2][1]},${pairs[i + 3][1]}`);
+      return lines;
+    }, []);
+    // Hai nửa hình chữ nhật, mỗi nửa đúng bốn đỉnh
+    expect(polylines).toHaveLength(2);
+    expect(polylines.map(points => points.length)).toEqual([4, 4]);
+    expect(polylines.flat().sort()).toEqual(['10,30', '10,40', '19,30', '19,40', '21,30', '21,40', '30,30', '30,40']);
+  });
+
+  it('grows the outline by the trap width', async () => {
+    const trapped = { ...plain, trapFor: () => ({ width: 2, into: null }) };
+    const coords = (await cutFile('hpgl', [0], trapped)).match(/-?\d+,-?\d+/g)!.map(pair => pair.split(',').map(Number));
+    // 40 đơn vị mỗi mm: hình 10..30 × 30..40 (mm, trục y hướng lên) nở thêm 2 mm
+    expect(Math.min(...coords.map(([x]) => x))).toBe(8 * 40);
+    expect(Math.max(...coords.map(([x]) => x))).toBe(32 * 40);
+    expect(Math.max(...coords.map(([, y]) => y))).toBe(42 * 40);
+    expect(coords.length).toBeLessThan(60);
+  });
+
+  it('writes HPGL with the layer pen and closed outlines in plotter units', async () => {
+    const text = await cutFile('hpgl', [1]);
+    expect(text.startsWith('IN;SP2;')).toBe(true);
+    expect(text.trim().endsWith('PU;SP0;')).toBe(true);
+    // 40 đơn vị mỗi mm; đường bao quay lại điểm đầu
+    expect(text).toContain('PU2000,1800;PD3600,1800,3600,200,2000,1800;');
+  });
+
+  it('writes one PDF page per layer with a valid cross-reference table', async () => {
+    const text = await cutFile('pdf', [0, 1], withMarks);
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text).toContain('/Count 2');
+    expect(text.match(/\/Type \/Page /g)).toHaveLength(2);
+    expect(text).toContain('/MediaBox [0 0 283.4646 141.7323]');
+    expect(text).toContain('0 0 0 RG');
+
+    const xref = parseInt(text.slice(text.lastIndexOf('startxref') + 10), 10);
+    const entries = text.slice(xref).split('\n').slice(3).filter(line => line.endsWith(' n '));
+    entries.forEach((entry, i) => {
+      expect(text.slice(parseInt(entry, 10)).startsWith(`${i + 1} 0 obj`)).toBe(true);
+    });
+  });
+});
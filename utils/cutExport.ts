@@ -0,0 +1,312 @@
+import type { SVGColorGroup, ImageDimensions, ExportFrame, RGBColor, CutFormat, CutOptions, Bridge, RegistrationOptions } from '../types';
+import { flattenPath, multiplyMatrices, parsePathData, parseTransform, shapeToPathData, transformPathCommands } from './geometry';
+import type { PathPoint, Polyline } from './geometry';
+import { outlineStroke, strokeStyleOf } from './strokeOutline';
+import { frameMatrix } from './svgExport';
+import { layerColor } from './palette';
+import { intersectLoops, loopArea, offsetLoops, regionLoops, subtractLoops, unionLoops } from './polygonOps';
+import type { Loop } from './polygonOps';
+import type { LayerTrap } from './trapping';
+import { buildRegistrationMarkPolylines } from './registrationMarks';
+import { rgbToHex } from './colorUtils';
+
+export const DEFAULT_CUT_OPTIONS: CutOptions = {
+  tolerance: 0.05,
+  bundleFormat: 'svg',
+};
+
+export const CUT_FORMATS: Record<CutFormat, { label: string; extension: string; mimeType: string }> = {
+  dxf: { label: 'DXF', extension: 'dxf', mimeType: 'image/vnd.dxf' },
+  hpgl: { label: 'HPGL', extension: 'plt', mimeType: 'application/vnd.hp-hpgl' },
+  pdf: { label: 'PDF', extension: 'pdf', mimeType: 'application/pdf' },
+};
+
+// Số đơn vị vẽ HPGL trong một milimét
+const HPGL_UNITS_PER_MM = 40;
+// Số bút của máy vẽ; các lớp dùng lần lượt bút 1..8
+const HPGL_PENS = 8;
+
+// Lớp DXF và màu ACI của dấu canh chỉnh
+const MARK_LAYER = 'REGISTRATION';
+const MARK_ACI = 7;
+
+// Các màu chuẩn của AutoCAD (ACI) dùng làm màu lớp trong DXF R12
+const ACI_COLORS: [number, RGBColor][] = [
+  [1, { r: 255, g: 0, b: 0 }],
+  [2, { r: 255, g: 255, b: 0 }],
+  [3, { r: 0, g: 255, b: 0 }],
+  [4, { r: 0, g: 255, b: 255 }],
+  [5, { r: 0, g: 0, b: 255 }],
+  [6, { r: 255, g: 0, b: 255 }],
+  [7, { r: 0, g: 0, b: 0 }],
+  [8, { r: 128, g: 128, b: 128 }],
+  [9, { r: 192, g: 192, b: 192 }],
+];
+
+// Các hình của một lớp sau khi làm phẳng, trong khung xuất (px)
+interface Outline {
+  polylines: Polyline[];
+  evenOdd: boolean;
+}
+
+// Đường cắt của một lớp: các hình và nét của dấu canh chỉnh (px của khung xuất)
+interface CutLayer {
+  outlines: Outline[];
+  marks: Polyline[];
+}
+
+/** Phần thêm vào hình của lớp khi xuất, giống tệp SVG/PNG của lớp. */
+export interface CutLayerOptions {
+  registrationOptions: RegistrationOptions;
+  bridgesFor: (index: number) => Bridge[];
+  trapFor: (index: number) => LayerTrap | null;
+}
+
+const attributeOf = (el: SVGElement, name: string): string | null => el.style?.getPropertyValue(name) || el.getAttribute(name);
+
+/**
+ * Đường bao của mọi hình trong lớp, đã đưa vào khung xuất và làm phẳng với sai số `tolerance` (px).
+ * Nét được chuyển thành đường bao tô kín; mọi subpath của vùng tô được coi là khép kín.
+ */
+function layerOutlines(group: SVGColorGroup, dimensions: ImageDimensions | null, frame: ExportFrame, tolerance: number): Outline[] {
+  const toFrame = frameMatrix(dimensions, frame);
+  return group.elements.flatMap(el => {
+    const d = shapeToPathData(el);
+    if (!d) return [];
+    const fill = attributeOf(el, 'fill');
+    const stroke = attributeOf(el, 'stroke');
+    const isStroke = fill === 'none' && !!stroke && stroke !== 'none';
+    const geometry = isStroke ? outlineStroke(d, strokeStyleOf(el)) : d;
+    if (!geometry) return [];
+    const matrix = multiplyMatrices(toFrame, parseTransform(el.getAttribute('transform')));
+    const polylines = flattenPath(transformPathCommands(parsePathData(geometry), matrix), tolerance)
+      .filter(line => line.points.length > 2)
+      .map(line => ({ ...line, closed: true }));
+    return polylines.length > 0 ? [{ polylines, evenOdd: !isStroke && attributeOf(el, 'fill-rule') === 'evenodd' }] : [];
+  });
+}
+
+// Dải cầu nối (nét đầu bằng rộng `width` dọc theo đoạn thẳng, như trong mặt nạ của tệp SVG) dưới dạng hình chữ nhật
+function bridgeLoop({ x1, y1, x2, y2, width }: Bridge): Loop {
+  const length = Math.hypot(x2 - x1, y2 - y1);
+  const nx = (-(y2 - y1) / length) * (width / 2);
+  const ny = ((x2 - x1) / length) * (width / 2);
+  const loop = [{ x: x1 + nx, y: y1 + ny }, { x: x2 + nx, y: y2 + ny }, { x: x2 - nx, y: y2 - ny }, { x: x1 - nx, y: y1 - ny }];
+  return loopArea(loop) < 0 ? loop.reverse() : loop;
+}
+
+/**
+ * Đường bao của lớp có cầu nối hoặc phần loang, dựng từ hình học vector giống tệp SVG của lớp: vùng tô được dời biên
+ * theo độ loang (và giới hạn trong chính lớp cùng các lớp được loang vào), rồi trừ đi các dải cầu nối.
+ */
+function shapedOutlines(
+  groups: SVGColorGroup[],
+  index: number,
+  dimensions: ImageDimensions | null,
+  frame: ExportFrame,
+  bridges: Bridge[],
+  trap: LayerTrap | null,
+  tolerance: number
+): Outline[] {
+  const regionOf = (i: number) =>
+    unionLoops(...layerOutlines(groups[i], dimensions, frame, tolerance).map(outline => regionLoops(outline.polylines, outline.evenOdd)));
+  let region = regionOf(index);
+  if (trap) {
+    const spread = offsetLoops(region, trap.width, tolerance);
+    region = trap.into ? intersectLoops(spread, unionLoops(region, ...trap.into.map(regionOf))) : spread;
+  }
+  const strips = bridges.filter(bridge => bridge.width > 0 && (bridge.x1 !== bridge.x2 || bridge.y1 !== bridge.y2)).map(bridgeLoop);
+  if (strips.length > 0) region = subtractLoops(region, strips);
+  return region.length > 0 ? [{ polylines: region.map(points => ({ points, closed: true })), evenOdd: false }] : [];
+}
+
+// Tọa độ khung xuất (px ở DPI đã chọn, trục y hướng xuống) đổi sang đơn vị vật lý với trục y hướng lên
+const physicalPoint = (frame: ExportFrame, unitsPerPixel: number) => (p: PathPoint): PathPoint => ({
+  x: p.x * unitsPerPixel,
+  y: (frame.height - p.y) * unitsPerPixel,
+});
+
+const fmt = (n: number) => String(Math.round(n * 10000) / 10000);
+
+function nearestAci(color: RGBColor): number {
+  let best = 7;
+  let bestDistance = Infinity;
+  ACI_COLORS.forEach(([index, c]) => {
+    const distance = (color.r - c.r) ** 2 + (color.g - c.g) ** 2 + (color.b - c.b) ** 2;
+    if (distance < bestDistance) {
+      best = index;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+/**
+ * DXF R12 (AC1009) với mỗi đường bao là một POLYLINE (các VERTEX và SEQEND) trên lớp `layerName`,
+ * dấu canh chỉnh nằm trên lớp REGISTRATION. R12 không ghi đơn vị bản vẽ; tọa độ được ghi theo mm.
+ */
+function buildDxf({ outlines, marks }: CutLayer, frame: ExportFrame, dpi: number, layerName: string, color: RGBColor): string {
+  const toMm = physicalPoint(frame, 25.4 / dpi);
+  const size = toMm({ x: frame.width, y: 0 });
+  const layers: [string, number][] = [[layerName, nearestAci(color)], ...(marks.length > 0 ? [[MARK_LAYER, MARK_ACI] as [string, number]] : [])];
+  const lines: string[] = [];
+  const group = (code: number, value: string | number) => lines.push(String(code), String(value));
+  const point = (x: string | number, y: string | number) => {
+    group(10, x);
+    group(20, y);
+    group(30, 0);
+  };
+  const polyline = (line: Polyline, layer: string) => {
+    group(0, 'POLYLINE');
+    group(8, layer);
+    group(66, 1); // Có các VERTEX theo sau
+    point(0, 0);
+    group(70, line.closed ? 1 : 0);
+    line.points.map(toMm).forEach(p => {
+      group(0, 'VERTEX');
+      group(8, layer);
+      point(fmt(p.x), fmt(p.y));
+    });
+    group(0, 'SEQEND');
+    group(8, layer);
+  };
+
+  group(0, 'SECTION');
+  group(2, 'HEADER');
+  group(9, '$ACADVER');
+  group(1, 'AC1009');
+  group(9, '$EXTMIN');
+  point(0, 0);
+  group(9, '$EXTMAX');
+  point(fmt(size.x), fmt(size.y));
+  group(0, 'ENDSEC');
+
+  group(0, 'SECTION');
+  group(2, 'TABLES');
+  group(0, 'TABLE');
+  group(2, 'LTYPE');
+  group(70, 1);
+  group(0, 'LTYPE');
+  group(2, 'CONTINUOUS');
+  group(70, 0);
+  group(3, 'Solid line');
+  group(72, 65);
+  group(73, 0);
+  group(40, 0);
+  group(0, 'ENDTAB');
+  group(0, 'TABLE');
+  group(2, 'LAYER');
+  group(70, layers.length);
+  layers.forEach(([name, aci]) => {
+    group(0, 'LAYER');
+    group(2, name);
+    group(70, 0);
+    group(62, aci);
+    group(6, 'CONTINUOUS');
+  });
+  group(0, 'ENDTAB');
+  group(0, 'ENDSEC');
+
+  group(0, 'SECTION');
+  group(2, 'ENTITIES');
+  outlines.forEach(outline => outline.polylines.forEach(line => polyline(line, layerName)));
+  marks.forEach(line => polyline(line, MARK_LAYER));
+  group(0, 'ENDSEC');
+  group(0, 'EOF');
+  return `${lines.join('\n')}\n`;
+}
+
+/** HPGL: nhấc bút (PU) tới điểm đầu rồi hạ bút (PD) đi hết đường bao rồi các dấu canh chỉnh, dùng bút `pen`. */
+function buildHpgl({ outlines, marks }: CutLayer, frame: ExportFrame, dpi: number, pen: number): string {
+  const toUnits = physicalPoint(frame, (25.4 / dpi) * HPGL_UNITS_PER_MM);
+  const coords = (p: PathPoint) => `${Math.round(p.x)},${Math.round(p.y)}`;
+  const commands = ['IN', `SP${pen}`];
+  [...outlines.flatMap(outline => outline.polylines), ...marks].forEach(line => {
+    const points = line.points.map(toUnits);
+    if (line.closed) points.push(points[0]);
+    commands.push(`PU${coords(points[0])}`, `PD${points.slice(1).map(coords).join(',')}`);
+  });
+  commands.push('PU', 'SP0');
+  return `${commands.join(';')};\n`;
+}
+
+/**
+ * PDF vector, mỗi lớp một trang có kích thước của khung xuất: các hình được tô bằng màu sơn của lớp,
+ * dấu canh chỉnh là nét đen dày `markWidth` (px).
+ */
+function buildPdf(pages: (CutLayer & { color: RGBColor })[], frame: ExportFrame, dpi: number, markWidth: number): string {
+  const toPoints = physicalPoint(frame, 72 / dpi);
+  const size = toPoints({ x: frame.width, y: 0 });
+  const pathOps = (line: Polyline) => [
+    ...line.points.map(toPoints).map((p, i) => `${fmt(p.x)} ${fmt(p.y)} ${i === 0 ? 'm' : 'l'}`),
+    ...(line.closed ? ['h'] : []),
+  ];
+  // Đối tượng thứ i có số hiệu i + 1; 1 là Catalog, 2 là cây trang
+  const objects: string[] = ['<< /Type /Catalog /Pages 2 0 R >>', ''];
+  const kids: string[] = [];
+  pages.forEach(({ outlines, marks, color }) => {
+    const ops = [`${fmt(color.r / 255)} ${fmt(color.g / 255)} ${fmt(color.b / 255)} rg`];
+    outlines.forEach(outline => {
+      ops.push(...outline.polylines.flatMap(line => pathOps({ ...line, closed: true })));
+      ops.push(outline.evenOdd ? 'f*' : 'f');
+    });
+    if (marks.length > 0) ops.push(`0 0 0 RG ${fmt(markWidth * 72 / dpi)} w`, ...marks.flatMap(pathOps), 'S');
+    const content = ops.join('\n');
+    const contentRef = objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    const pageRef = objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${fmt(size.x)} ${fmt(size.y)}] /Resources << >> /Contents ${contentRef} 0 R >>`);
+    kids.push(`${pageRef} 0 R`);
+  });
+  objects[1] = `<< /Type /Pages /Kids [${kids.join(' ')}] /Count ${kids.length} >>`;
+
+  // Nội dung chỉ gồm ký tự ASCII nên độ dài chuỗi bằng số byte, dùng trực tiếp cho bảng xref
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')}`;
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return pdf;
+}
+
+/**
+ * Tệp đường cắt của các lớp `indices`: DXF và HPGL chứa một lớp, PDF có mỗi lớp một trang.
+ * Kích thước vật lý theo khung xuất và DPI; đường cong được làm phẳng với sai số `options.tolerance` (mm).
+ * Cầu nối, phần loang và dấu canh chỉnh của lớp được thêm như trong tệp SVG của lớp.
+ */
+export function buildCutFile(
+  format: CutFormat,
+  groups: SVGColorGroup[],
+  indices: number[],
+  dimensions: ImageDimensions | null,
+  frame: ExportFrame,
+  dpi: number,
+  options: CutOptions,
+  layerOptions: CutLayerOptions
+): Blob {
+  const tolerance = Math.max(0.001, (options.tolerance / 25.4) * dpi);
+  const { registrationOptions, bridgesFor, trapFor } = layerOptions;
+  const layerAt = (index: number): CutLayer => {
+    const bridges = bridgesFor(index);
+    const trap = trapFor(index);
+    const outlines = bridges.length > 0 || trap
+      ? shapedOutlines(groups, index, dimensions, frame, bridges, trap, tolerance)
+      : layerOutlines(groups[index], dimensions, frame, tolerance);
+    const marks = buildRegistrationMarkPolylines(registrationOptions, frame.width, frame.height, { index, hex: rgbToHex(layerColor(groups[index])) });
+    return { outlines, marks };
+  };
+  const { mimeType } = CUT_FORMATS[format];
+  if (format === 'pdf') {
+    const pages = indices.map(index => ({ ...layerAt(index), color: layerColor(groups[index]) }));
+    // Cùng độ dày nét với dấu trong tệp SVG của lớp
+    return new Blob([buildPdf(pages, frame, dpi, Math.max(1, registrationOptions.size / 24))], { type: mimeType });
+  }
+  const [index] = indices;
+  const layer = layerAt(index);
+  const data = format === 'dxf'
+    ? buildDxf(layer, frame, dpi, `LAYER_${index + 1}`, layerColor(groups[index]))
+    : buildHpgl(layer, frame, dpi, (index % HPGL_PENS) + 1);
+  return new Blob([data], { type: mimeType });
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { DitherOptions } from '../types';
+import { DEFAULT_DITHER_OPTIONS, ditherLabels, isDitherActive } from './dithering';
+
+const SIZE = 16;
+const BLACK = { r: 0, g: 0, b: 0 };
+const WHITE = { r: 255, g: 255, b: 255 };
+const options = (overrides: Partial<DitherOptions>): DitherOptions => ({ ...DEFAULT_DITHER_OPTIONS, ...overrides });
+
+// Ảnh xám đồng nhất SIZE × SIZE; mọi pixel ban đầu thuộc lớp trắng (nhãn 1)
+function flatGray(value: number) {
+  const data = new Uint8ClampedArray(SIZE * SIZE * 4);
+  for (let i = 0; i < data.length; i += 4) data.set([value, value, value, 255], i);
+  return { image: { width: SIZE, height: SIZE, data } as unknown as ImageData, labels: new Int32Array(SIZE * SIZE).fill(1) };
+}
+
+const darkShare = (labels: Int32Array) => labels.filter(label => label === 0).length / labels.length;
+
+describe('ditherLabels', () => {
+  it('does nothing when disabled', () => {
+    const { image, labels } = flatGray(128);
+    expect(isDitherActive(DEFAULT_DITHER_OPTIONS)).toBe(false);
+    expect(Array.from(ditherLabels(image, labels, [BLACK, WHITE], DEFAULT_DITHER_OPTIONS))).toEqual(Array.from(labels));
+  });
+
+  it('mixes layers in proportion to the tone', () => {
+    (['floydSteinberg', 'ordered', 'dots', 'lines'] as const).forEach(mode => {
+      const { image, labels } = flatGray(64);
+      const share = darkShare(ditherLabels(image, labels, [BLACK, WHITE], options({ mode, minDotSize: 0, angle: 0 })));
+      expect(share).toBeGreaterThan(0.6);
+      expect(share).toBeLessThan(0.9);
+    });
+  });
+
+  it('keeps flat colours flat', () => {
+    const { image, labels } = flatGray(255);
+    expect(darkShare(ditherLabels(image, labels, [BLACK, WHITE], options({ mode: 'floydSteinberg' })))).toBe(0);
+  });
+
+  it('drops dots smaller than the minimum size', () => {
+    const { image, labels } = flatGray(250);
+    const dotted = options({ mode: 'dots', cellSize: 8, minDotSize: 0 });
+    expect(darkShare(ditherLabels(image, labels, [BLACK, WHITE], dotted))).toBeGreaterThan(0);
+    expect(darkShare(ditherLabels(image, labels, [BLACK, WHITE], { ...dotted, minDotSize: 3 }))).toBe(0);
+  });
+
+  it('never assigns transparent pixels', () => {
+    const { image, labels } = flatGray(128);
+    labels.fill(-1, 0, SIZE);
+    const result = ditherLabels(image, labels, [BLACK, WHITE], options({ mode: 'ordered' }));
+    expect(Array.from(result.slice(0, SIZE))).toEqual(new Array(SIZE).fill(-1));
+  });
+
+  it('keeps pixels in their own layer when layers share a colour', () => {
+    // Lớp 2 được tách ra từ lớp trắng: pixel chọn màu trắng vẫn ở lại lớp 2
+    const { image, labels } = flatGray(200);
+    labels.fill(2);
+    const result = ditherLabels(image, labels, [BLACK, WHITE, WHITE], options({ mode: 'ordered' }));
+    expect(new Set(result)).toEqual(new Set([0, 2]));
+  });
+});
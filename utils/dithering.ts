@@ -0,0 +1,205 @@
+import type { RGBColor, DitherOptions } from '../types';
+
+export const DEFAULT_DITHER_OPTIONS: DitherOptions = {
+  mode: 'none',
+  cellSize: 8,
+  angle: 45,
+  minDotSize: 2,
+};
+
+export const isDitherActive = (options: DitherOptions): boolean => options.mode !== 'none';
+
+const luminance = ({ r, g, b }: RGBColor) => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+// Ma trận Bayer 8×8 (ngưỡng 0..63) cho dither có thứ tự
+const BAYER_8 = (() => {
+  let matrix = [0];
+  for (let size = 1; size < 8; size *= 2) {
+    const next = new Array<number>(size * size * 4);
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const value = matrix[y * size + x] * 4;
+        next[y * 2 * size + x] = value;
+        next[y * 2 * size + x + size] = value + 2;
+        next[(y + size) * 2 * size + x] = value + 3;
+        next[(y + size) * 2 * size + x + size] = value + 1;
+      }
+    }
+    matrix = next;
+  }
+  return matrix;
+})();
+
+// Diện tích phần hình tròn bán kính d (tâm ô) nằm trong ô vuông cạnh 1: chấm tròn lớn dần đến khi phủ kín ô
+function circleCoverage(d: number): number {
+  if (d <= 0.5) return Math.PI * d * d;
+  if (d >= Math.SQRT1_2) return 1;
+  return Math.PI * d * d - 4 * (d * d * Math.acos(0.5 / d) - 0.5 * Math.sqrt(d * d - 0.25));
+}
+
+/**
+ * Bảng màu không trùng lặp của các lớp. Các lớp tách ra từ cùng một màu (ví dụ khi tách theo vùng liên thông)
+ * dùng chung một mục, pixel được giữ ở lớp cũ khi màu được chọn trùng với màu lớp hiện tại.
+ */
+function buildPalette(colors: RGBColor[]) {
+  const palette: RGBColor[] = [];
+  const firstLabel: number[] = [];
+  const entryOfLabel = colors.map((color, label) => {
+    const existing = palette.findIndex(c => c.r === color.r && c.g === color.g && c.b === color.b);
+    if (existing >= 0) return existing;
+    palette.push(color);
+    firstLabel.push(label);
+    return palette.length - 1;
+  });
+  const labelFor = (current: number, entry: number) => (entryOfLabel[current] === entry ? current : firstLabel[entry]);
+  return { palette, labelFor };
+}
+
+function nearestEntry(r: number, g: number, b: number, palette: RGBColor[]): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  palette.forEach((c, index) => {
+    const distance = (r - c.r) ** 2 + (g - c.g) ** 2 + (b - c.b) ** 2;
+    if (distance < bestDistance) {
+      best = index;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+/**
+ * Hai màu gần nhất của pixel và tỉ lệ trộn: pixel được chiếu lên đoạn nối hai màu, `t` là phần của màu tối hơn
+ * (màu của chấm halftone).
+ */
+function nearestPair(r: number, g: number, b: number, palette: RGBColor[]): { light: number; dark: number; t: number } {
+  let first = 0, second = 0;
+  let firstDistance = Infinity, secondDistance = Infinity;
+  palette.forEach((c, index) => {
+    const distance = (r - c.r) ** 2 + (g - c.g) ** 2 + (b - c.b) ** 2;
+    if (distance < firstDistance) {
+      second = first;
+      secondDistance = firstDistance;
+      first = index;
+      firstDistance = distance;
+    } else if (distance < secondDistance) {
+      second = index;
+      secondDistance = distance;
+    }
+  });
+  if (secondDistance === Infinity) return { light: first, dark: first, t: 0 };
+  const [light, dark] = luminance(palette[first]) >= luminance(palette[second]) ? [first, second] : [second, first];
+  const a = palette[light], d = palette[dark];
+  const dr = d.r - a.r, dg = d.g - a.g, db = d.b - a.b;
+  const lengthSq = dr * dr + dg * dg + db * db;
+  const t = lengthSq === 0 ? 0 : ((r - a.r) * dr + (g - a.g) * dg + (b - a.b) * db) / lengthSq;
+  return { light, dark, t: Math.min(1, Math.max(0, t)) };
+}
+
+// Khuếch tán sai số Floyd–Steinberg, quét zigzag; sai số chỉ truyền sang các pixel thuộc một lớp
+function floydSteinberg(imageData: ImageData, labels: Int32Array, palette: RGBColor[], assign: (p: number, entry: number) => void, onRow: (y: number) => void) {
+  const { width, height, data } = imageData;
+  const work = new Float32Array(labels.length * 3);
+  for (let p = 0; p < labels.length; p++) {
+    work[p * 3] = data[p * 4];
+    work[p * 3 + 1] = data[p * 4 + 1];
+    work[p * 3 + 2] = data[p * 4 + 2];
+  }
+  const spread = (x: number, y: number, er: number, eg: number, eb: number, weight: number) => {
+    if (x < 0 || x >= width || y >= height) return;
+    const q = y * width + x;
+    if (labels[q] < 0) return;
+    work[q * 3] += er * weight;
+    work[q * 3 + 1] += eg * weight;
+    work[q * 3 + 2] += eb * weight;
+  };
+  for (let y = 0; y < height; y++) {
+    const dir = y % 2 === 0 ? 1 : -1;
+    for (let i = 0; i < width; i++) {
+      const x = dir === 1 ? i : width - 1 - i;
+      const p = y * width + x;
+      if (labels[p] < 0) continue;
+      const r = work[p * 3], g = work[p * 3 + 1], b = work[p * 3 + 2];
+      const entry = nearestEntry(r, g, b, palette);
+      assign(p, entry);
+      const c = palette[entry];
+      const er = r - c.r, eg = g - c.g, eb = b - c.b;
+      spread(x + dir, y, er, eg, eb, 7 / 16);
+      spread(x - dir, y + 1, er, eg, eb, 3 / 16);
+      spread(x, y + 1, er, eg, eb, 5 / 16);
+      spread(x + dir, y + 1, er, eg, eb, 1 / 16);
+    }
+    onRow(y);
+  }
+}
+
+/**
+ * Dựng lại chuyển sắc của ảnh bằng các lớp màu phẳng. Pixel trong suốt (-1) giữ nguyên; các pixel khác được
+ * gán lại cho lớp có màu (`colors`, theo nhãn) do thuật toán dither hoặc lưới halftone chọn.
+ */
+export function ditherLabels(
+  imageData: ImageData,
+  source: Int32Array,
+  colors: RGBColor[],
+  options: DitherOptions,
+  onProgress?: (progress: number) => void
+): Int32Array {
+  const labels = source.slice();
+  if (!isDitherActive(options) || colors.length === 0) return labels;
+  const { width, height, data } = imageData;
+  const { palette, labelFor } = buildPalette(colors);
+  const assign = (p: number, entry: number) => {
+    labels[p] = labelFor(labels[p], entry);
+  };
+  const onRow = (y: number) => {
+    if (onProgress && y % 32 === 0) onProgress(y / height);
+  };
+
+  if (options.mode === 'floydSteinberg') {
+    floydSteinberg(imageData, labels, palette, assign, onRow);
+    onProgress?.(1);
+    return labels;
+  }
+
+  const cell = Math.max(2, options.cellSize);
+  const minDot = Math.max(0, options.minDotSize);
+  const angle = (options.angle * Math.PI) / 180;
+  const cos = Math.cos(angle), sin = Math.sin(angle);
+  // Tỉ lệ phủ mà chấm (hoặc nét) đủ lớn để cắt được; ngoài khoảng này ô được tô phẳng một màu
+  const minCoverage = options.mode === 'dots' ? Math.PI * (minDot / cell / 2) ** 2 : minDot / cell;
+
+  const threshold = (x: number, y: number): number => {
+    if (options.mode === 'ordered') return (BAYER_8[(y % 8) * 8 + (x % 8)] + 0.5) / 64;
+    const u = ((x + 0.5) * cos + (y + 0.5) * sin) / cell;
+    const v = (-(x + 0.5) * sin + (y + 0.5) * cos) / cell;
+    const fv = v - Math.floor(v) - 0.5;
+    if (options.mode === 'lines') return 2 * Math.abs(fv);
+    const fu = u - Math.floor(u) - 0.5;
+    return circleCoverage(Math.hypot(fu, fv));
+  };
+
+  // Ảnh thường lặp lại cùng một màu rất nhiều lần, nên ghi nhớ cặp màu theo màu pixel
+  const pairByColor = new Map<number, { light: number; dark: number; t: number }>();
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      if (labels[p] < 0) continue;
+      const i = p * 4;
+      const key = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+      let pair = pairByColor.get(key);
+      if (!pair) {
+        pair = nearestPair(data[i], data[i + 1], data[i + 2], palette);
+        pairByColor.set(key, pair);
+      }
+      let { t } = pair;
+      if (options.mode !== 'ordered') {
+        if (t < minCoverage) t = 0;
+        else if (1 - t < minCoverage) t = 1;
+      }
+      assign(p, t > 0 && t >= threshold(x, y) ? pair.dark : pair.light);
+    }
+    onRow(y);
+  }
+  onProgress?.(1);
+  return labels;
+}
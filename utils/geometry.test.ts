@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import type { Matrix, PathCommand } from './geometry';
+import { applyMatrix, overlappingPairs, parsePathData, parseTransform, pathCommandsToString, shapeToPathData, transformPathCommands } from './geometry';
+
+const expectMatrix = (actual: Matrix, expected: Matrix) => actual.forEach((v, i) => expect(v).toBeCloseTo(expected[i], 9));
+
+// Phần tử giả chỉ có tagName và getAttribute, đủ cho shapeToPathData
+const element = (tagName: string, attributes: Record<string, string | number>) =>
+  ({ tagName, getAttribute: (name: string) => (name in attributes ? String(attributes[name]) : null) }) as unknown as Element;
+
+describe('parseTransform', () => {
+  it('parses each transform function', () => {
+    expectMatrix(parseTransform('translate(10 20)'), [1, 0, 0, 1, 10, 20]);
+    expectMatrix(parseTransform('scale(2)'), [2, 0, 0, 2, 0, 0]);
+    expectMatrix(parseTransform('scale(2, 3)'), [2, 0, 0, 3, 0, 0]);
+    expectMatrix(parseTransform('rotate(90)'), [0, 1, -1, 0, 0, 0]);
+    expectMatrix(parseTransform('skewX(45)'), [1, 0, 1, 1, 0, 0]);
+    expectMatrix(parseTransform('matrix(1,2,3,4,5,6)'), [1, 2, 3, 4, 5, 6]);
+    expectMatrix(parseTransform(null), [1, 0, 0, 1, 0, 0]);
+  });
+
+  it('rotates around the given centre', () => {
+    const p = applyMatrix(parseTransform('rotate(180 10 10)'), 0, 0);
+    expect(p.x).toBeCloseTo(20);
+    expect(p.y).toBeCloseTo(20);
+  });
+
+  it('composes functions from left to right', () => {
+    // translate áp dụng sau scale: điểm (1, 1) → (2, 2) → (12, 2)
+    const p = applyMatrix(parseTransform('translate(10,0) scale(2)'), 1, 1);
+    expect(p).toEqual({ x: 12, y: 2 });
+  });
+});
+
+describe('parsePathData', () => {
+  it('normalises relative and shorthand commands to absolute ones', () => {
+    expect(pathCommandsToString(parsePathData('m10 10 h5 v5 l-5 0 z'))).toBe('M10 10L15 10L15 15L10 15Z');
+    expect(pathCommandsToString(parsePathData('M0 0C0 10 10 10 10 0S20 -10 20 0'))).toBe('M0 0C0 10 10 10 10 0C10 -10 20 -10 20 0');
+    expect(pathCommandsToString(parsePathData('M0 0Q5 10 10 0T20 0'))).toBe('M0 0Q5 10 10 0Q15 -10 20 0');
+  });
+
+  it('reads compact number syntax', () => {
+    expect(pathCommandsToString(parsePathData('M.5.5L-1-1 1e1 2'))).toBe('M0.5 0.5L-1 -1L10 2');
+  });
+
+  it('turns arcs into cubic curves ending at the arc end point', () => {
+    const commands = parsePathData('M0 0A10 10 0 0 1 20 0');
+    expect(commands.slice(1).every(c => c.type === 'C')).toBe(true);
+    const last = commands[commands.length - 1] as Extract<PathCommand, { type: 'C' }>;
+    expect(last.x).toBeCloseTo(20);
+    expect(last.y).toBeCloseTo(0);
+    // Nửa đường tròn bán kính 10 theo chiều dương đi qua (10, -10)
+    const mid = commands[1] as Extract<PathCommand, { type: 'C' }>;
+    expect(mid.x).toBeCloseTo(10);
+    expect(Math.abs(mid.y)).toBeCloseTo(10);
+  });
+
+  it('keeps the valid part of broken path data', () => {
+    expect(pathCommandsToString(parsePathData('M0 0L10 10L5'))).toBe('M0 0L10 10');
+  });
+});
+
+describe('transformPathCommands', () => {
+  it('applies the matrix to every point, control points included', () => {
+    const moved = transformPathCommands(parsePathData('M0 0C1 2 3 4 5 6Z'), [2, 0, 0, 2, 10, 0]);
+    expect(pathCommandsToString(moved)).toBe('M10 0C12 4 16 8 20 12Z');
+  });
+
+  it('returns the same commands for the identity', () => {
+    const commands = parsePathData('M0 0L1 1');
+    expect(transformPathCommands(commands, [1, 0, 0, 1, 0, 0])).toBe(commands);
+  });
+});
+
+describe('shapeToPathData', () => {
+  it('converts basic shapes', () => {
+    expect(shapeToPathData(element('rect', { x: 1, y: 2, width: 10, height: 5 }))).toBe('M1 2H11V7H1Z');
+    expect(shapeToPathData(element('polygon', { points: '0,0 10,0 5,5' }))).toBe('M0 0L10 0L5 5Z');
+    expect(shapeToPathData(element('polyline', { points: '0 0 10 0' }))).toBe('M0 0L10 0');
+    expect(shapeToPathData(element('line', { x1: 1, y1: 2, x2: 3, y2: 4 }))).toBe('M1 2L3 4');
+    expect(shapeToPathData(element('circle', { cx: 5, cy: 5, r: 5 }))).toBe('M0 5A5 5 0 1 0 10 5A5 5 0 1 0 0 5Z');
+  });
+
+  it('clamps rounded corners and skips empty shapes', () => {
+    const d = shapeToPathData(element('rect', { width: 10, height: 4, rx: 5 }));
+    expect(d).toContain('A5 2 0 0 1');
+    expect(shapeToPathData(element('rect', { width: 0, height: 4 }))).toBeNull();
+    expect(shapeToPathData(element('circle', { r: 0 }))).toBeNull();
+    expect(shapeToPathData(element('text', {}))).toBeNull();
+  });
+});
+
+describe('overlappingPairs', () => {
+  const box = (minX: number, minY: number, maxX: number, maxY: number) => ({ minX, minY, maxX, maxY });
+
+  it('finds boxes that overlap or lie within the margin', () => {
+    const boxes = [box(0, 0, 10, 10), box(20, 0, 30, 10), box(5, 5, 15, 15), box(12, 30, 18, 40)];
+    expect(overlappingPairs(boxes)).toEqual([[0, 2]]);
+    const near = overlappingPairs(boxes, 5).map(pair => pair.join('-')).sort();
+    expect(near).toEqual(['0-2', '1-2']);
+  });
+
+  it('matches the pairwise comparison', () => {
+    // Lưới hộp giả ngẫu nhiên, cố định để kết quả lặp lại được
+    let seed = 1;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    const boxes = Array.from({ length: 200 }, () => {
+      const x = random() * 100;
+      const y = random() * 100;
+      return box(x, y, x + random() * 8, y + random() * 8);
+    });
+    const expected: string[] = [];
+    boxes.forEach((a, i) => boxes.forEach((b, j) => {
+      if (i < j && a.minX - 1 <= b.maxX && b.minX - 1 <= a.maxX && a.minY - 1 <= b.maxY && b.minY - 1 <= a.maxY) expected.push(`${i}-${j}`);
+    }));
+    expect(overlappingPairs(boxes, 1).map(pair => pair.join('-')).sort()).toEqual(expected.sort());
+  });
+});
@@ -0,0 +1,576 @@
+// Ma trận affine SVG [a, b, c, d, e, f] tương ứng với matrix(a b c d e f)
+export type Matrix = [number, number, number, number, number, number];
+
+export interface PathPoint {
+  x: number;
+  y: number;
+}
+
+// Lệnh path đã chuẩn hóa: tọa độ tuyệt đối, H/V quy về L, S/T quy về C/Q, cung tròn quy về Bézier bậc ba.
+export type PathCommand =
+  | { type: 'M'; x: number; y: number }
+  | { type: 'L'; x: number; y: number }
+  | { type: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { type: 'Q'; x1: number; y1: number; x: number; y: number }
+  | { type: 'Z' };
+
+export const IDENTITY_MATRIX: Matrix = [1, 0, 0, 1, 0, 0];
+
+export function multiplyMatrices(m1: Matrix, m2: Matrix): Matrix {
+  const [a1, b1, c1, d1, e1, f1] = m1;
+  const [a2, b2, c2, d2, e2, f2] = m2;
+  return [
+    a1 * a2 + c1 * b2,
+    b1 * a2 + d1 * b2,
+    a1 * c2 + c1 * d2,
+    b1 * c2 + d1 * d2,
+    a1 * e2 + c1 * f2 + e1,
+    b1 * e2 + d1 * f2 + f1,
+  ];
+}
+
+export function applyMatrix(m: Matrix, x: number, y: number): PathPoint {
+  return { x: m[0] * x + m[2] * y + m[4], y: m[1] * x + m[3] * y + m[5] };
+}
+
+/** Ma trận nghịch đảo (ma trận suy biến cho kết quả là ma trận đơn vị). */
+export function invertMatrix(m: Matrix): Matrix {
+  const [a, b, c, d, e, f] = m;
+  const det = a * d - b * c;
+  if (Math.abs(det) < 1e-12) return IDENTITY_MATRIX;
+  return [d / det, -b / det, -c / det, a / det, (c * f - d * e) / det, (b * e - a * f) / det];
+}
+
+export function isIdentityMatrix(m: Matrix): boolean {
+  return m.every((v, i) => Math.abs(v - IDENTITY_MATRIX[i]) < 1e-12);
+}
+
+export function matrixToString(m: Matrix): string {
+  return `matrix(${m.map(v => +v.toFixed(6)).join(' ')})`;
+}
+
+/** Phân tích thuộc tính `transform`, ghép các phép biến đổi theo thứ tự từ trái sang phải. */
+export function parseTransform(transform: string | null): Matrix {
+  let result: Matrix = IDENTITY_MATRIX;
+  if (!transform) return result;
+
+  const pattern = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(transform)) !== null) {
+    const args = (match[2].match(/[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g) || []).map(parseFloat);
+    let m: Matrix = IDENTITY_MATRIX;
+    switch (match[1]) {
+      case 'matrix':
+        if (args.length === 6) m = args as Matrix;
+        break;
+      case 'translate':
+        m = [1, 0, 0, 1, args[0] || 0, args[1] || 0];
+        break;
+      case 'scale':
+        m = [args[0] ?? 1, 0, 0, args[1] ?? args[0] ?? 1, 0, 0];
+        break;
+      case 'rotate': {
+        const angle = ((args[0] || 0) * Math.PI) / 180;
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        m = [cos, sin, -sin, cos, 0, 0];
+        if (args.length >= 3) {
+          const [, cx, cy] = args;
+          m = multiplyMatrices(multiplyMatrices([1, 0, 0, 1, cx, cy], m), [1, 0, 0, 1, -cx, -cy]);
+        }
+        break;
+      }
+      case 'skewX':
+        m = [1, 0, Math.tan(((args[0] || 0) * Math.PI) / 180), 1, 0, 0];
+        break;
+      case 'skewY':
+        m = [1, Math.tan(((args[0] || 0) * Math.PI) / 180), 0, 1, 0, 0];
+        break;
+    }
+    result = multiplyMatrices(result, m);
+  }
+  return result;
+}
+
+/**
+ * Ghép các thuộc tính `transform` của phần tử và mọi tổ tiên của nó (đến `root`, không bao gồm root).
+ * Cần gọi trước khi sao chép phần tử ra khỏi tài liệu gốc, vì bản sao mất các thẻ <g> cha.
+ */
+export function getCumulativeTransform(el: Element, root: Element): Matrix {
+  let matrix: Matrix = IDENTITY_MATRIX;
+  let node: Element | null = el;
+  while (node && node !== root) {
+    matrix = multiplyMatrices(parseTransform(node.getAttribute('transform')), matrix);
+    node = node.parentElement;
+  }
+  return matrix;
+}
+
+// Bộ đọc dữ liệu path theo con trỏ, xử lý được các cờ của cung tròn viết liền nhau (ví dụ "a1 1 0 011 1").
+class PathScanner {
+  private index = 0;
+
+  constructor(private readonly text: string) {}
+
+  private skipSeparators(): void {
+    while (this.index < this.text.length && /[\s,]/.test(this.text[this.index])) this.index++;
+  }
+
+  atEnd(): boolean {
+    this.skipSeparators();
+    return this.index >= this.text.length;
+  }
+
+  peekCommand(): string | null {
+    this.skipSeparators();
+    const ch = this.text[this.index];
+    return ch && /[MmZzLlHhVvCcSsQqTtAa]/.test(ch) ? ch : null;
+  }
+
+  readCommand(): string {
+    const command = this.peekCommand();
+    if (!command) throw new Error(`Unexpected path data at position ${this.index}.`);
+    this.index++;
+    return command;
+  }
+
+  readNumber(): number {
+    this.skipSeparators();
+    const match = /^[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/.exec(this.text.slice(this.index, this.index + 64));
+    if (!match) throw new Error(`Expected a number at position ${this.index}.`);
+    this.index += match[0].length;
+    return parseFloat(match[0]);
+  }
+
+  readFlag(): number {
+    this.skipSeparators();
+    const ch = this.text[this.index];
+    if (ch !== '0' && ch !== '1') throw new Error(`Expected an arc flag at position ${this.index}.`);
+    this.index++;
+    return ch === '1' ? 1 : 0;
+  }
+}
+
+/** Chuyển một cung elip (tham số điểm đầu/cuối theo đặc tả SVG) thành các đoạn Bézier bậc ba. */
+function arcToCubics(
+  x1: number, y1: number, rx: number, ry: number, rotation: number,
+  largeArc: number, sweep: number, x2: number, y2: number
+): PathCommand[] {
+  if (rx === 0 || ry === 0) return [{ type: 'L', x: x2, y: y2 }];
+  if (x1 === x2 && y1 === y2) return [];
+
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  const phi = (rotation * Math.PI) / 180;
+  const cosPhi = Math.cos(phi);
+  const sinPhi = Math.sin(phi);
+
+  const dx = (x1 - x2) / 2;
+  const dy = (y1 - y2) / 2;
+  const x1p = cosPhi * dx + sinPhi * dy;
+  const y1p = -sinPhi * dx + cosPhi * dy;
+
+  // Phóng to bán kính nếu không đủ để nối hai điểm
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  let coef = Math.sqrt(Math.max(0, numerator / denominator));
+  if (largeArc === sweep) coef = -coef;
+  const cxp = (coef * rx * y1p) / ry;
+  const cyp = (-coef * ry * x1p) / rx;
+  const cx = cosPhi * cxp - sinPhi * cyp + (x1 + x2) / 2;
+  const cy = sinPhi * cxp + cosPhi * cyp + (y1 + y2) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) => {
+    const sign = ux * vy - uy * vx < 0 ? -1 : 1;
+    const dot = (ux * vx + uy * vy) / (Math.hypot(ux, uy) * Math.hypot(vx, vy));
+    return sign * Math.acos(Math.max(-1, Math.min(1, dot)));
+  };
+  const theta1 = angle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let deltaTheta = angle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && deltaTheta > 0) deltaTheta -= 2 * Math.PI;
+  else if (sweep && deltaTheta < 0) deltaTheta += 2 * Math.PI;
+
+  const segmentCount = Math.max(1, Math.ceil(Math.abs(deltaTheta) / (Math.PI / 2)));
+  const delta = deltaTheta / segmentCount;
+  const t = (4 / 3) * Math.tan(delta / 4);
+  const point = (theta: number) => ({
+    x: cx + rx * Math.cos(theta) * cosPhi - ry * Math.sin(theta) * sinPhi,
+    y: cy + rx * Math.cos(theta) * sinPhi + ry * Math.sin(theta) * cosPhi,
+  });
+  const derivative = (theta: number) => ({
+    x: -rx * Math.sin(theta) * cosPhi - ry * Math.cos(theta) * sinPhi,
+    y: -rx * Math.sin(theta) * sinPhi + ry * Math.cos(theta) * cosPhi,
+  });
+
+  const commands: PathCommand[] = [];
+  for (let i = 0; i < segmentCount; i++) {
+    const a = theta1 + i * delta;
+    const b = a + delta;
+    const p0 = point(a);
+    const p3 = i === segmentCount - 1 ? { x: x2, y: y2 } : point(b);
+    const d0 = derivative(a);
+    const d1 = derivative(b);
+    commands.push({
+      type: 'C',
+      x1: p0.x + t * d0.x,
+      y1: p0.y + t * d0.y,
+      x2: p3.x - t * d1.x,
+      y2: p3.y - t * d1.y,
+      x: p3.x,
+      y: p3.y,
+    });
+  }
+  return commands;
+}
+
+/**
+ * Phân tích dữ liệu path thành các lệnh tuyệt đối đã chuẩn hóa. Giống trình duyệt, khi gặp lỗi
+ * cú pháp thì giữ lại phần path hợp lệ phía trước.
+ */
+export function parsePathData(d: string): PathCommand[] {
+  const commands: PathCommand[] = [];
+  try {
+    readPathData(d, commands);
+  } catch (err) {
+    console.warn('Invalid path data, rendering up to the error:', err);
+  }
+  return commands;
+}
+
+function readPathData(d: string, commands: PathCommand[]): void {
+  const scanner = new PathScanner(d);
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  // Điểm điều khiển cuối cùng, dùng để phản chiếu cho S/T
+  let lastCubic: PathPoint | null = null;
+  let lastQuad: PathPoint | null = null;
+  let command = '';
+
+  while (!scanner.atEnd()) {
+    const explicit = scanner.peekCommand();
+    if (explicit) {
+      command = scanner.readCommand();
+    } else if (!command || command === 'Z' || command === 'z') {
+      throw new Error('Path data has numbers without a command.');
+    }
+    // Các cặp tọa độ lặp lại sau M/m được hiểu là L/l
+    else if (command === 'M') command = 'L';
+    else if (command === 'm') command = 'l';
+
+    const relative = command === command.toLowerCase();
+    const ox = relative ? x : 0;
+    const oy = relative ? y : 0;
+    let nextCubic: PathPoint | null = null;
+    let nextQuad: PathPoint | null = null;
+
+    switch (command.toUpperCase()) {
+      case 'M':
+        x = ox + scanner.readNumber();
+        y = oy + scanner.readNumber();
+        startX = x;
+        startY = y;
+        commands.push({ type: 'M', x, y });
+        break;
+      case 'L':
+        x = ox + scanner.readNumber();
+        y = oy + scanner.readNumber();
+        commands.push({ type: 'L', x, y });
+        break;
+      case 'H':
+        x = ox + scanner.readNumber();
+        commands.push({ type: 'L', x, y });
+        break;
+      case 'V':
+        y = oy + scanner.readNumber();
+        commands.push({ type: 'L', x, y });
+        break;
+      case 'C': {
+        const x1 = ox + scanner.readNumber();
+        const y1 = oy + scanner.readNumber();
+        const x2 = ox + scanner.readNumber();
+        const y2 = oy + scanner.readNumber();
+        x = ox + scanner.readNumber();
+        y = oy + scanner.readNumber();
+        commands.push({ type: 'C', x1, y1, x2, y2, x, y });
+        nextCubic = { x: x2, y: y2 };
+        break;
+      }
+      case 'S': {
+        const x1 = lastCubic ? 2 * x - lastCubic.x : x;
+        const y1 = lastCubic ? 2 * y - lastCubic.y : y;
+        const x2 = ox + scanner.readNumber();
+        const y2 = oy + scanner.readNumber();
+        x = ox + scanner.readNumber();
+        y = oy + scanner.readNumber();
+        commands.push({ type: 'C', x1, y1, x2, y2, x, y });
+        nextCubic = { x: x2, y: y2 };
+        break;
+      }
+      case 'Q': {
+        const x1 = ox + scanner.readNumber();
+        const y1 = oy + scanner.readNumber();
+        x = ox + scanner.readNumber();
+        y = oy + scanner.readNumber();
+        commands.push({ type: 'Q', x1, y1, x, y });
+        nextQuad = { x: x1, y: y1 };
+        break;
+      }
+      case 'T': {
+        const x1 = lastQuad ? 2 * x - lastQuad.x : x;
+        const y1 = lastQuad ? 2 * y - lastQuad.y : y;
+        x = ox + scanner.readNumber();
+        y = oy + scanner.readNumber();
+        commands.push({ type: 'Q', x1, y1, x, y });
+        nextQuad = { x: x1, y: y1 };
+        break;
+      }
+      case 'A': {
+        const rx = scanner.readNumber();
+        const ry = scanner.readNumber();
+        const rotation = scanner.readNumber();
+        const largeArc = scanner.readFlag();
+        const sweep = scanner.readFlag();
+        const ex = ox + scanner.readNumber();
+        const ey = oy + scanner.readNumber();
+        commands.push(...arcToCubics(x, y, rx, ry, rotation, largeArc, sweep, ex, ey));
+        x = ex;
+        y = ey;
+        break;
+      }
+      case 'Z':
+        commands.push({ type: 'Z' });
+        x = startX;
+        y = startY;
+        break;
+    }
+    lastCubic = nextCubic;
+    lastQuad = nextQuad;
+  }
+}
+
+export function transformPathCommands(commands: PathCommand[], m: Matrix): PathCommand[] {
+  if (isIdentityMatrix(m)) return commands;
+  return commands.map(cmd => {
+    switch (cmd.type) {
+      case 'M':
+      case 'L': {
+        const p = applyMatrix(m, cmd.x, cmd.y);
+        return { type: cmd.type, x: p.x, y: p.y };
+      }
+      case 'C': {
+        const p1 = applyMatrix(m, cmd.x1, cmd.y1);
+        const p2 = applyMatrix(m, cmd.x2, cmd.y2);
+        const p = applyMatrix(m, cmd.x, cmd.y);
+        return { type: 'C', x1: p1.x, y1: p1.y, x2: p2.x, y2: p2.y, x: p.x, y: p.y };
+      }
+      case 'Q': {
+        const p1 = applyMatrix(m, cmd.x1, cmd.y1);
+        const p = applyMatrix(m, cmd.x, cmd.y);
+        return { type: 'Q', x1: p1.x, y1: p1.y, x: p.x, y: p.y };
+      }
+      default:
+        return cmd;
+    }
+  });
+}
+
+const fmt = (n: number) => String(+n.toFixed(3));
+
+export function pathCommandsToString(commands: PathCommand[]): string {
+  return commands.map(cmd => {
+    switch (cmd.type) {
+      case 'M':
+      case 'L':
+        return `${cmd.type}${fmt(cmd.x)} ${fmt(cmd.y)}`;
+      case 'C':
+        return `C${fmt(cmd.x1)} ${fmt(cmd.y1)} ${fmt(cmd.x2)} ${fmt(cmd.y2)} ${fmt(cmd.x)} ${fmt(cmd.y)}`;
+      case 'Q':
+        return `Q${fmt(cmd.x1)} ${fmt(cmd.y1)} ${fmt(cmd.x)} ${fmt(cmd.y)}`;
+      default:
+        return 'Z';
+    }
+  }).join('');
+}
+
+const num = (el: Element, name: string) => {
+  const value = parseFloat(el.getAttribute(name) || '');
+  return isNaN(value) ? 0 : value;
+};
+
+/** Chuyển một hình cơ bản (rect, circle, ellipse, polygon, polyline, line) hoặc path thành dữ liệu path. */
+export function shapeToPathData(el: Element): string | null {
+  switch (el.tagName.toLowerCase()) {
+    case 'path':
+      return el.getAttribute('d');
+    case 'rect': {
+      const x = num(el, 'x');
+      const y = num(el, 'y');
+      const w = num(el, 'width');
+      const h = num(el, 'height');
+      if (w <= 0 || h <= 0) return null;
+      const rxAttr = el.getAttribute('rx');
+      const ryAttr = el.getAttribute('ry');
+      let rx = rxAttr !== null ? num(el, 'rx') : ryAttr !== null ? num(el, 'ry') : 0;
+      let ry = ryAttr !== null ? num(el, 'ry') : rx;
+      rx = Math.min(Math.max(0, rx), w / 2);
+      ry = Math.min(Math.max(0, ry), h / 2);
+      if (rx === 0 || ry === 0) return `M${x} ${y}H${x + w}V${y + h}H${x}Z`;
+      return `M${x + rx} ${y}H${x + w - rx}A${rx} ${ry} 0 0 1 ${x + w} ${y + ry}V${y + h - ry}` +
+        `A${rx} ${ry} 0 0 1 ${x + w - rx} ${y + h}H${x + rx}A${rx} ${ry} 0 0 1 ${x} ${y + h - ry}` +
+        `V${y + ry}A${rx} ${ry} 0 0 1 ${x + rx} ${y}Z`;
+    }
+    case 'circle':
+    case 'ellipse': {
+      const cx = num(el, 'cx');
+      const cy = num(el, 'cy');
+      const rx = el.tagName.toLowerCase() === 'circle' ? num(el, 'r') : num(el, 'rx');
+      const ry = el.tagName.toLowerCase() === 'circle' ? rx : num(el, 'ry');
+      if (rx <= 0 || ry <= 0) return null;
+      return `M${cx - rx} ${cy}A${rx} ${ry} 0 1 0 ${cx + rx} ${cy}A${rx} ${ry} 0 1 0 ${cx - rx} ${cy}Z`;
+    }
+    case 'polygon':
+    case 'polyline': {
+      const points = (el.getAttribute('points') || '').trim().split(/[\s,]+/).map(parseFloat).filter(n => !isNaN(n));
+      if (points.length < 4) return null;
+      let d = `M${points[0]} ${points[1]}`;
+      for (let i = 2; i + 1 < points.length; i += 2) d += `L${points[i]} ${points[i + 1]}`;
+      return el.tagName.toLowerCase() === 'polygon' ? `${d}Z` : d;
+    }
+    case 'line':
+      return `M${num(el, 'x1')} ${num(el, 'y1')}L${num(el, 'x2')} ${num(el, 'y2')}`;
+    default:
+      return null;
+  }
+}
+
+export interface Polyline {
+  points: PathPoint[];
+  closed: boolean;
+}
+
+// Số đoạn tối đa khi làm phẳng một đường cong Bézier
+const MAX_CURVE_SEGMENTS = 128;
+const FLATTEN_EPSILON = 1e-9;
+
+const pointDistance = (a: PathPoint, b: PathPoint) => Math.hypot(b.x - a.x, b.y - a.y);
+
+/**
+ * Làm phẳng các lệnh path thành các đường gấp khúc. Số đoạn của mỗi đường cong được chọn theo
+ * công thức Wang để sai số không vượt quá `tolerance`.
+ */
+export function flattenPath(commands: PathCommand[], tolerance: number): Polyline[] {
+  const polylines: Polyline[] = [];
+  let current: PathPoint[] = [];
+  let hasSegment = false;
+  let start: PathPoint = { x: 0, y: 0 };
+  let pos: PathPoint = { x: 0, y: 0 };
+
+  const flush = (closed: boolean) => {
+    // Một lệnh M đứng riêng không được vẽ, nhưng một subpath dài bằng 0 vẫn có đầu nét
+    if (hasSegment) polylines.push({ points: current, closed });
+    current = [];
+    hasSegment = false;
+  };
+
+  for (const cmd of commands) {
+    switch (cmd.type) {
+      case 'M':
+        flush(false);
+        pos = start = { x: cmd.x, y: cmd.y };
+        current = [pos];
+        break;
+      case 'L':
+        pos = { x: cmd.x, y: cmd.y };
+        current.push(pos);
+        hasSegment = true;
+        break;
+      case 'C': {
+        const p0 = pos;
+        const ddx = Math.max(Math.abs(p0.x - 2 * cmd.x1 + cmd.x2), Math.abs(cmd.x1 - 2 * cmd.x2 + cmd.x));
+        const ddy = Math.max(Math.abs(p0.y - 2 * cmd.y1 + cmd.y2), Math.abs(cmd.y1 - 2 * cmd.y2 + cmd.y));
+        const steps = Math.min(MAX_CURVE_SEGMENTS, Math.max(1, Math.ceil(Math.sqrt((0.75 * Math.hypot(ddx, ddy)) / tolerance))));
+        for (let i = 1; i <= steps; i++) {
+          const t = i / steps;
+          const mt = 1 - t;
+          current.push({
+            x: mt * mt * mt * p0.x + 3 * mt * mt * t * cmd.x1 + 3 * mt * t * t * cmd.x2 + t * t * t * cmd.x,
+            y: mt * mt * mt * p0.y + 3 * mt * mt * t * cmd.y1 + 3 * mt * t * t * cmd.y2 + t * t * t * cmd.y,
+          });
+        }
+        pos = { x: cmd.x, y: cmd.y };
+        hasSegment = true;
+        break;
+      }
+      case 'Q': {
+        const p0 = pos;
+        const dd = Math.hypot(p0.x - 2 * cmd.x1 + cmd.x, p0.y - 2 * cmd.y1 + cmd.y);
+        const steps = Math.min(MAX_CURVE_SEGMENTS, Math.max(1, Math.ceil(Math.sqrt((0.25 * dd) / tolerance))));
+        for (let i = 1; i <= steps; i++) {
+          const t = i / steps;
+          const mt = 1 - t;
+          current.push({
+            x: mt * mt * p0.x + 2 * mt * t * cmd.x1 + t * t * cmd.x,
+            y: mt * mt * p0.y + 2 * mt * t * cmd.y1 + t * t * cmd.y,
+          });
+        }
+        pos = { x: cmd.x, y: cmd.y };
+        hasSegment = true;
+        break;
+      }
+      case 'Z':
+        hasSegment = true;
+        flush(true);
+        pos = start;
+        current = [start];
+        break;
+    }
+  }
+  flush(false);
+
+  // Bỏ các điểm trùng liên tiếp để mọi đoạn đều có hướng xác định
+  return polylines.map(line => {
+    const points = line.points.filter((p, i) => i === 0 || pointDistance(p, line.points[i - 1]) > FLATTEN_EPSILON);
+    if (line.closed && points.length > 1 && pointDistance(points[0], points[points.length - 1]) <= FLATTEN_EPSILON) points.pop();
+    return { points, closed: line.closed };
+  });
+}
+
+export interface Box {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * Các cặp hộp (i < j) chồng lên nhau hoặc cách nhau không quá `margin`, tìm bằng cách quét theo trục x
+ * (sweep and prune): mỗi hộp chỉ được so với các hộp có khoảng x còn giao với nó.
+ */
+export function overlappingPairs(boxes: Box[], margin = 0): [number, number][] {
+  const order = boxes.map((_, i) => i).sort((i, j) => boxes[i].minX - boxes[j].minX);
+  const pairs: [number, number][] = [];
+  const active: number[] = [];
+  for (const i of order) {
+    const box = boxes[i];
+    let kept = 0;
+    for (const j of active) {
+      if (boxes[j].maxX + margin < box.minX) continue;
+      active[kept++] = j;
+      if (boxes[j].minY - margin <= box.maxY && box.minY - margin <= boxes[j].maxY) pairs.push(i < j ? [i, j] : [j, i]);
+    }
+    active.length = kept;
+    active.push(i);
+  }
+  return pairs;
+}
+
+// Các thuộc tính hình học không còn ý nghĩa sau khi hình được chuyển thành path
+export const GEOMETRY_ATTRIBUTES = ['d', 'x', 'y', 'width', 'height', 'rx', 'ry', 'cx', 'cy', 'r', 'points', 'x1', 'y1', 'x2', 'y2', 'transform'];
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import type { HistorySnapshot } from '../types';
+import { EMPTY_HISTORY, recordHistory, redoHistory, undoHistory } from './history';
+
+const snapshot = (tolerance: number): HistorySnapshot => ({ colorGroups: [], tolerance });
+
+describe('history', () => {
+  it('undoes and redoes operations in order', () => {
+    let history = recordHistory(EMPTY_HISTORY, 'tolerance', snapshot(1), snapshot(2));
+    history = recordHistory(history, 'tolerance', snapshot(2), snapshot(3));
+
+    const undone = undoHistory(history)!;
+    expect(undone.snapshot.tolerance).toBe(2);
+    const undoneTwice = undoHistory(undone.history)!;
+    expect(undoneTwice.snapshot.tolerance).toBe(1);
+    expect(undoHistory(undoneTwice.history)).toBeNull();
+
+    const redone = redoHistory(undoneTwice.history)!;
+    expect(redone.snapshot.tolerance).toBe(2);
+    expect(redoHistory(redone.history)!.snapshot.tolerance).toBe(3);
+  });
+
+  it('reports which action is undone', () => {
+    const history = recordHistory(EMPTY_HISTORY, 'merge', snapshot(1), snapshot(1));
+    expect(undoHistory(history)!.entry.action).toBe('merge');
+  });
+
+  it('drops the redo branch when a new operation is recorded', () => {
+    let history = recordHistory(EMPTY_HISTORY, 'delete', snapshot(1), snapshot(2));
+    history = undoHistory(history)!.history;
+    expect(history.future).toHaveLength(1);
+    history = recordHistory(history, 'edit', snapshot(1), snapshot(5));
+    expect(history.future).toEqual([]);
+    expect(redoHistory(history)).toBeNull();
+  });
+
+  it('keeps only the most recent operations', () => {
+    let history = EMPTY_HISTORY;
+    for (let i = 0; i < 150; i++) history = recordHistory(history, 'edit', snapshot(i), snapshot(i + 1));
+    expect(history.past).toHaveLength(100);
+    expect(history.past[0].before.tolerance).toBe(50);
+  });
+});
@@ -0,0 +1,46 @@
+import type { History, HistoryAction, HistoryEntry, HistorySnapshot } from '../types';
+
+// Số thao tác tối đa được giữ lại để hoàn tác
+const MAX_HISTORY = 100;
+
+export const EMPTY_HISTORY: History = { past: [], future: [] };
+
+export const HISTORY_ACTION_LABELS: Record<HistoryAction, string> = {
+  delete: 'Delete',
+  reorder: 'Reorder',
+  merge: 'Merge',
+  split: 'Split',
+  reassign: 'Reassign',
+  edit: 'Edit',
+  recolor: 'Recolor',
+  trap: 'Bleed Change',
+  cleanup: 'Cleanup Change',
+  tolerance: 'Tolerance Change',
+};
+
+/** Ghi một thao tác mới; các thao tác đã hoàn tác (redo) bị bỏ đi như mọi trình soạn thảo. */
+export function recordHistory(history: History, action: HistoryAction, before: HistorySnapshot, after: HistorySnapshot): History {
+  const entry: HistoryEntry = { action, before, after };
+  return { past: [...history.past, entry].slice(-MAX_HISTORY), future: [] };
+}
+
+/** Hoàn tác thao tác gần nhất. Trả về lịch sử mới và trạng thái cần khôi phục. */
+export function undoHistory(history: History): { history: History; entry: HistoryEntry; snapshot: HistorySnapshot } | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [...history.future, entry] },
+    entry,
+    snapshot: entry.before,
+  };
+}
+
+export function redoHistory(history: History): { history: History; entry: HistoryEntry; snapshot: HistorySnapshot } | null {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return {
+    history: { past: [...history.past, entry], future: history.future.slice(0, -1) },
+    entry,
+    snapshot: entry.after,
+  };
+}
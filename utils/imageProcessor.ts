@@ -1,9 +1,41 @@
-import type { RGBColor, SVGPathData, SVGColorGroup, RasterColorGroup, ImageDimensions } from '../types';
-import { colorDistance, parseColorString } from './colorUtils';
+import type { RGBColor, SVGPathData, SVGColorGroup, RasterColorGroup, ImageDimensions, ColorMetric, SvgPaintOptions } from '../types';
+import type { LabelGroup } from './rasterProtocol';
+import { colorDistance, parseColorString, rgbToHex, toleranceToDistance } from './colorUtils';
+import { kMeansQuantize } from './quantizer';
+import { getCumulativeTransform, isIdentityMatrix, matrixToString, shapeToPathData } from './geometry';
+import { outlineStroke, strokeStyleFromComputed } from './strokeOutline';
+import {
+  collectReferencedDefs,
+  expandUseElements,
+  extractUrlId,
+  mergeDefs,
+  resolvePaintServerColor,
+  DEFAULT_SVG_PAINT_OPTIONS,
+  NON_RENDERED_CONTAINERS,
+} from './svgDefs';
+
+const STROKE_STYLE_PROPERTIES = ['stroke', 'stroke-width', 'stroke-linejoin', 'stroke-linecap', 'stroke-miterlimit', 'stroke-dasharray', 'stroke-dashoffset'];
+
+/**
+ * Chuyển clip-path/mask của thẻ cha gần nhất sang bản sao. Chỉ an toàn khi giữa thẻ cha đó và phần tử
+ * không có phép biến đổi nào, vì clip-path được tính trong hệ tọa độ của phần tử tham chiếu đến nó.
+ */
+function inheritClipAndMask(el: Element, root: Element, clone: SVGElement): void {
+  for (const name of ['clip-path', 'mask']) {
+    if (clone.getAttribute(name)) continue;
+    let ancestor = el.parentElement;
+    while (ancestor && ancestor !== root && !ancestor.getAttribute(name)) ancestor = ancestor.parentElement;
+    if (ancestor && ancestor !== root && isIdentityMatrix(getCumulativeTransform(el, ancestor))) {
+      clone.setAttribute(name, ancestor.getAttribute(name)!);
+    }
+  }
+}
 
 export function processSVG(
   svgText: string,
-  tolerance: number
+  tolerance: number,
+  metric: ColorMetric = 'rgb',
+  paintOptions: SvgPaintOptions = DEFAULT_SVG_PAINT_OPTIONS
 ): { groups: SVGColorGroup[]; dimensions: ImageDimensions } {
   const parser = new DOMParser();
   const doc = parser.parseFromString(svgText, 'image/svg+xml');
@@ -18,6 +50,9 @@ export function processSVG(
   hiddenDiv.style.overflow = 'hidden';
   document.body.appendChild(hiddenDiv);
   hiddenDiv.appendChild(svgElement);
+
+  // Mở rộng <use>/<symbol> thành các phần tử thật để chúng được gom nhóm như mọi hình khác.
+  expandUseElements(svgElement);
   
   const viewBox = svgElement.getAttribute('viewBox');
   let width = svgElement.width.baseVal.value;
@@ -38,123 +73,325 @@ export function processSVG(
   // Chọn tất cả các phần tử định hình. Các style được tính toán của chúng sẽ phản ánh bất kỳ thuộc tính kế thừa nào.
   const elements = svgElement.querySelectorAll('path, rect, circle, ellipse, polygon, polyline, line');
 
-  elements.forEach(el => {
-    const style = window.getComputedStyle(el);
-    let fill = parseColorString(style.fill);
-    const isWhite = fill && fill.r === 255 && fill.g === 255 && fill.b === 255;
+  // Hoàn tất một bản sao: ghép transform của các thẻ cha, giữ clip-path/mask và thu thập các định nghĩa liên quan.
+  const finishClone = (el: Element, clonedElement: SVGElement, color: RGBColor): SVGPathData => {
+    // Bản sao mất các thẻ <g> cha, nên ghép sẵn transform của chúng vào chính phần tử.
+    const cumulativeTransform = getCumulativeTransform(el, svgElement);
+    if (isIdentityMatrix(cumulativeTransform)) {
+      clonedElement.removeAttribute('transform');
+    } else {
+      clonedElement.setAttribute('transform', matrixToString(cumulativeTransform));
+    }
+
+    inheritClipAndMask(el, svgElement, clonedElement);
 
-    if (isWhite) {
-      fill = { r: 247, g: 247, b: 247 }; // Corresponds to #F7F7F7
+    const defs = new Map<string, SVGElement>();
+    collectReferencedDefs(clonedElement, svgElement, defs);
+    return { color, element: clonedElement, defs: Array.from(defs.values()) };
+  };
+
+  // Màu tô dạng url(#id) (gradient, pattern) được quy về một màu đại diện để gom nhóm.
+  // Màu trắng được thay bằng #F7F7F7 để vẫn nhìn thấy trên nền trắng.
+  const resolvePaint = (value: string): { color: RGBColor | null; paint: string } => {
+    const paintServerId = extractUrlId(value);
+    let color = paintServerId ? resolvePaintServerColor(paintServerId, svgElement, paintOptions) : parseColorString(value);
+    if (color && color.r === 255 && color.g === 255 && color.b === 255) {
+      color = { r: 247, g: 247, b: 247 }; // Corresponds to #F7F7F7
     }
+    const paint = paintServerId && !paintOptions.flattenGradients ? `url(#${paintServerId})` : color ? rgbToHex(color) : 'none';
+    return { color, paint };
+  };
+
+  const strokePaths: SVGPathData[] = [];
+
+  elements.forEach(el => {
+    // Hình nằm trong <defs>, <clipPath>, <mask>... không được vẽ trực tiếp
+    if (el.parentElement?.closest(NON_RENDERED_CONTAINERS)) return;
+
+    const style = window.getComputedStyle(el);
+    const { color: fill, paint: fillPaint } = resolvePaint(style.fill);
     
     // Một thuộc tính opacity không xác định sẽ mặc định là 1. Điều này xử lý đúng opacity="0".
     const fillOpacity = isNaN(parseFloat(style.fillOpacity)) ? 1 : parseFloat(style.fillOpacity);
     
-    // Chỉ xử lý các phần tử có màu tô hiển thị. Các đường viền (stroke) bị bỏ qua theo yêu cầu.
     if (fill && fillOpacity > 0) {
       const clonedElement = el.cloneNode(true) as SVGElement;
       
-      // If the original color was white, explicitly set the new fill color on the clone.
-      if (isWhite) {
-        clonedElement.setAttribute('fill', '#F7F7F7');
-      }
+      // Ghi màu tô đã tính toán lên bản sao, vì bản sao mất các style kế thừa từ thẻ cha và CSS.
+      clonedElement.setAttribute('fill', fillPaint);
+      clonedElement.style.removeProperty('fill');
       
-      // Theo yêu cầu, đảm bảo tất cả các đường viền được loại bỏ khỏi các lớp đầu ra.
+      // Nét được xử lý riêng bên dưới theo chế độ đã chọn; bản sao phần tô không mang nét.
       clonedElement.setAttribute('stroke', 'none');
-      
-      paths.push({ color: fill, element: clonedElement });
+      clonedElement.style.removeProperty('stroke');
+
+      paths.push(finishClone(el, clonedElement, fill));
     }
+
+    if (paintOptions.strokeMode === 'ignore') return;
+
+    const { color: stroke, paint: strokePaint } = resolvePaint(style.stroke);
+    const strokeOpacity = isNaN(parseFloat(style.strokeOpacity)) ? 1 : parseFloat(style.strokeOpacity);
+    const strokeStyle = strokeStyleFromComputed(style);
+    if (!stroke || strokeOpacity <= 0 || strokeStyle.width <= 0) return;
+
+    if (paintOptions.strokeMode === 'separate') {
+      // Giữ nguyên nét (kèm mọi thuộc tính đã tính toán) và gom thành các lớp riêng theo màu nét.
+      const clonedElement = el.cloneNode(true) as SVGElement;
+      STROKE_STYLE_PROPERTIES.forEach(name => clonedElement.style.removeProperty(name));
+      clonedElement.setAttribute('fill', 'none');
+      clonedElement.setAttribute('stroke', strokePaint);
+      clonedElement.setAttribute('stroke-width', String(strokeStyle.width));
+      clonedElement.setAttribute('stroke-linejoin', strokeStyle.lineJoin);
+      clonedElement.setAttribute('stroke-linecap', strokeStyle.lineCap);
+      clonedElement.setAttribute('stroke-miterlimit', String(strokeStyle.miterLimit));
+      clonedElement.setAttribute('stroke-dasharray', strokeStyle.dashArray.length > 0 ? strokeStyle.dashArray.join(' ') : 'none');
+      clonedElement.setAttribute('stroke-dashoffset', String(strokeStyle.dashOffset));
+      strokePaths.push(finishClone(el, clonedElement, stroke));
+      return;
+    }
+
+    // Chế độ 'outline': nét được chuyển thành đường bao tô kín và gom nhóm cùng các phần tô.
+    const d = shapeToPathData(el);
+    const outline = d ? outlineStroke(d, strokeStyle) : '';
+    if (!outline) return;
+    const outlinePath = document.createElementNS('http://www.w3.org/2000/svg', 'path');
+    outlinePath.setAttribute('d', outline);
+    outlinePath.setAttribute('fill', strokePaint);
+    outlinePath.setAttribute('fill-rule', 'nonzero');
+    outlinePath.setAttribute('stroke', 'none');
+    ['clip-path', 'mask'].forEach(name => {
+      const value = el.getAttribute(name);
+      if (value) outlinePath.setAttribute(name, value);
+    });
+    paths.push(finishClone(el, outlinePath, stroke));
   });
 
   document.body.removeChild(hiddenDiv);
   
-  const groups: SVGColorGroup[] = [];
-  const maxDist = tolerance * 2.55; // Điều chỉnh dung sai thành khoảng cách màu thực tế
+  const maxDist = toleranceToDistance(tolerance, metric); // Điều chỉnh dung sai thành khoảng cách màu thực tế
+
+  const groupPaths = (pathList: SVGPathData[]): SVGColorGroup[] => {
+    const groups: SVGColorGroup[] = [];
+    pathList.forEach(path => {
+      let placed = false;
+      for (const group of groups) {
+        if (colorDistance(path.color, group.representativeColor, metric) < maxDist) {
+          group.elements.push(path.element);
+          group.defs = mergeDefs(group.defs, path.defs);
+          placed = true;
+          break;
+        }
+      }
+      if (!placed) {
+        groups.push({
+          representativeColor: path.color,
+          elements: [path.element],
+          defs: path.defs,
+        });
+      }
+    });
+    return groups;
+  };
+
+  // Các lớp nét (chế độ 'separate') được gom riêng và xếp sau các lớp tô.
+  const groups = [...groupPaths(paths), ...groupPaths(strokePaths)];
 
-  paths.forEach(path => {
+  // Thứ tự của các nhóm được xác định bởi thứ tự xuất hiện màu trong tài liệu SVG.
+  // Không còn sắp xếp theo sự chiếm ưu thế.
+
+  return { groups, dimensions };
+}
+
+function groupByTolerance(
+  sortedColors: { color: RGBColor; count: number }[],
+  maxDist: number,
+  metric: ColorMetric
+): RasterColorGroup[] {
+  const groups: RasterColorGroup[] = [];
+
+  sortedColors.forEach((colorData) => {
     let placed = false;
     for (const group of groups) {
-      if (colorDistance(path.color, group.representativeColor) < maxDist) {
-        group.elements.push(path.element);
+      if (colorDistance(colorData.color, group.representativeColor, metric) < maxDist) {
+        group.memberColors.push(colorData.color);
+        group.totalCount += colorData.count;
         placed = true;
         break;
       }
     }
     if (!placed) {
       groups.push({
-        representativeColor: path.color,
-        elements: [path.element],
+        representativeColor: colorData.color,
+        memberColors: [colorData.color],
+        totalCount: colorData.count,
       });
     }
   });
 
-  // Thứ tự của các nhóm được xác định bởi thứ tự xuất hiện màu trong tài liệu SVG.
-  // Không còn sắp xếp theo sự chiếm ưu thế.
-
-  return { groups, dimensions };
+  // Sắp xếp các nhóm cuối cùng theo sự chiếm ưu thế (tổng số pixel)
+  return groups.sort((a, b) => b.totalCount - a.totalCount);
 }
 
-export function processRaster(
-  imageDataUrl: string,
-  tolerance: number
-): Promise<{ groups: RasterColorGroup[]; originalImageData: ImageData, dimensions: ImageDimensions }> {
-  return new Promise((resolve) => {
+/** Giải mã ảnh (data URL) thành ImageData ở độ phân giải gốc. */
+export function loadImageData(imageDataUrl: string): Promise<ImageData> {
+  return new Promise((resolve, reject) => {
     const img = new Image();
     img.onload = () => {
       const canvas = document.createElement('canvas');
       const ctx = canvas.getContext('2d', { willReadFrequently: true });
-      if (!ctx) return;
+      if (!ctx) return reject(new Error('Canvas 2D context is not available.'));
 
       canvas.width = img.width;
       canvas.height = img.height;
       ctx.drawImage(img, 0, 0);
+      resolve(ctx.getImageData(0, 0, img.width, img.height));
+    };
+    img.onerror = () => reject(new Error('Could not decode image.'));
+    img.src = imageDataUrl;
+  });
+}
 
-      const imageData = ctx.getImageData(0, 0, img.width, img.height);
-      const data = imageData.data;
-      const colorMap: { [key: string]: { color: RGBColor; count: number } } = {};
-      
-      // Lấy mẫu pixel để tăng hiệu suất
-      const sampleRate = Math.max(1, Math.floor(Math.sqrt(data.length / 4) / 1000));
-
-      for (let i = 0; i < data.length; i += 4 * sampleRate) {
-        if (data[i + 3] < 128) continue; // Bỏ qua các pixel trong suốt
-        const color = { r: data[i], g: data[i + 1], b: data[i + 2] };
-        const key = `${color.r},${color.g},${color.b}`;
-        if (!colorMap[key]) {
-          colorMap[key] = { color, count: 0 };
+/** Chuyển ImageData thành data URL PNG để hiển thị. */
+export function imageDataToDataUrl(imageData: ImageData): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = imageData.width;
+  canvas.height = imageData.height;
+  canvas.getContext('2d')?.putImageData(imageData, 0, 0);
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * Gom nhóm màu của một ảnh đã giải mã. Không dùng DOM nên chạy được cả trong Web Worker.
+ */
+export function analyzeImageData(
+  imageData: ImageData,
+  tolerance: number,
+  metric: ColorMetric = 'rgb',
+  targetColorCount: number | null = null
+): RasterColorGroup[] {
+  const data = imageData.data;
+  const colorMap: { [key: string]: { color: RGBColor; count: number } } = {};
+  
+  // Lấy mẫu pixel để tăng hiệu suất
+  const sampleRate = Math.max(1, Math.floor(Math.sqrt(data.length / 4) / 1000));
+
+  for (let i = 0; i < data.length; i += 4 * sampleRate) {
+    if (data[i + 3] < 128) continue; // Bỏ qua các pixel trong suốt
+    const color = { r: data[i], g: data[i + 1], b: data[i + 2] };
+    const key = `${color.r},${color.g},${color.b}`;
+    if (!colorMap[key]) {
+      colorMap[key] = { color, count: 0 };
+    }
+    colorMap[key].count++;
+  }
+
+  const sortedColors = Object.values(colorMap).sort((a, b) => b.count - a.count);
+
+  // Chế độ số lớp cố định: dùng bộ lượng tử hóa k-means++ thay cho phép gom nhóm tham lam theo dung sai.
+  return targetColorCount
+    ? kMeansQuantize(sortedColors, targetColorCount, metric)
+    : groupByTolerance(sortedColors, toleranceToDistance(tolerance, metric), metric);
+}
+
+export async function processRaster(
+  imageDataUrl: string,
+  tolerance: number,
+  metric: ColorMetric = 'rgb',
+  targetColorCount: number | null = null
+): Promise<{ groups: RasterColorGroup[]; originalImageData: ImageData, dimensions: ImageDimensions }> {
+  const imageData = await loadImageData(imageDataUrl);
+  const groups = analyzeImageData(imageData, tolerance, metric, targetColorCount);
+  const { width, height } = imageData;
+  return { groups, originalImageData: imageData, dimensions: { width, height, viewBox: `0 0 ${width} ${height}` } };
+}
+
+/**
+ * Gán mỗi pixel cho nhóm có màu đại diện gần nhất. Trả về -1 cho pixel trong suốt
+ * hoặc nằm ngoài khoảng cách tối đa. Nhóm có vùng (region) chỉ nhận đúng các pixel trong vùng của nó;
+ * sau cùng áp dụng các pixel được tô thủ công (loại khỏi nhóm, rồi gán vào nhóm).
+ */
+export function computeLabelMap(
+  imageData: ImageData,
+  groups: LabelGroup[],
+  metric: ColorMetric,
+  maxDistance: number,
+  onProgress?: (fraction: number) => void
+): Int32Array {
+  const data = imageData.data;
+  const labels = new Int32Array(imageData.width * imageData.height).fill(-1);
+  const progressStep = Math.max(1, Math.floor(labels.length / 50));
+  // Ảnh thường lặp lại cùng một màu rất nhiều lần, nên ghi nhớ kết quả theo màu
+  const nearestByColor = new Map<number, number>();
+
+  for (let p = 0, i = 0; p < labels.length; p++, i += 4) {
+    if (onProgress && p % progressStep === 0) onProgress(p / labels.length);
+    if (data[i + 3] < 128) continue;
+    const key = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+    let label = nearestByColor.get(key);
+    if (label === undefined) {
+      const pixelColor = { r: data[i], g: data[i + 1], b: data[i + 2] };
+      let minDistance = Infinity;
+      label = -1;
+      for (let j = 0; j < groups.length; j++) {
+        const dist = colorDistance(pixelColor, groups[j].representativeColor, metric);
+        if (dist < minDistance) {
+          minDistance = dist;
+          label = j;
         }
-        colorMap[key].count++;
       }
+      if (minDistance >= maxDistance) label = -1;
+      nearestByColor.set(key, label);
+    }
+    labels[p] = label;
+  }
 
-      const sortedColors = Object.values(colorMap).sort((a, b) => b.count - a.count);
+  if (groups.some(g => g.region)) {
+    const claimed = new Int32Array(labels.length).fill(-1);
+    groups.forEach((g, j) => g.region?.forEach(p => { claimed[p] = j; }));
+    for (let p = 0; p < labels.length; p++) {
+      if (claimed[p] >= 0) labels[p] = claimed[p];
+      // Pixel gần màu của một nhóm có vùng nhưng nằm ngoài mọi vùng (ví dụ mảnh quá nhỏ đã bị loại khi tách)
+      else if (labels[p] >= 0 && groups[labels[p]].region) labels[p] = -1;
+    }
+  }
 
-      const groups: RasterColorGroup[] = [];
-      const maxDist = tolerance * 2.55;
+  groups.forEach((g, j) => g.excludedPixels?.forEach(p => {
+    if (labels[p] === j) labels[p] = -1;
+  }));
+  groups.forEach((g, j) => g.claimedPixels?.forEach(p => {
+    labels[p] = j;
+  }));
+  return labels;
+}
 
-      sortedColors.forEach((colorData) => {
-        let placed = false;
-        for (const group of groups) {
-          if (colorDistance(colorData.color, group.representativeColor) < maxDist) {
-            group.memberColors.push(colorData.color);
-            group.totalCount += colorData.count;
-            placed = true;
-            break;
-          }
-        }
-        if (!placed) {
-          groups.push({
-            representativeColor: colorData.color,
-            memberColors: [colorData.color],
-            totalCount: colorData.count,
-          });
-        }
-      });
-      
-      // Sắp xếp các nhóm cuối cùng theo sự chiếm ưu thế (tổng số pixel)
-      groups.sort((a, b) => b.totalCount - a.totalCount);
+/** Ảnh xem trước ghép lại: mỗi pixel được tô bằng màu đại diện của nhóm mà nó thuộc về. */
+export function renderLabelPreview(labels: Int32Array, colors: RGBColor[]): Uint8ClampedArray {
+  const out = new Uint8ClampedArray(labels.length * 4);
+  for (let p = 0, i = 0; p < labels.length; p++, i += 4) {
+    const color = colors[labels[p]];
+    if (!color) continue;
+    out[i] = color.r;
+    out[i + 1] = color.g;
+    out[i + 2] = color.b;
+    out[i + 3] = 255;
+  }
+  return out;
+}
 
-      resolve({ groups, originalImageData: imageData, dimensions: { width: img.width, height: img.height, viewBox: `0 0 ${img.width} ${img.height}` } });
-    };
-    img.src = imageDataUrl;
-  });
+/**
+ * Ảnh của một lớp: giữ nguyên màu gốc của các pixel thuộc nhóm (hoặc tô bằng màu `fill` khi lớp đã được đổi màu),
+ * phần còn lại trong suốt.
+ */
+export function renderLabelLayer(imageData: ImageData, labels: Int32Array, groupIndex: number, fill?: RGBColor): Uint8ClampedArray {
+  const data = imageData.data;
+  const out = new Uint8ClampedArray(data.length);
+  for (let p = 0, i = 0; p < labels.length; p++, i += 4) {
+    if (labels[p] !== groupIndex) continue;
+    out[i] = fill ? fill.r : data[i];
+    out[i + 1] = fill ? fill.g : data[i + 1];
+    out[i + 2] = fill ? fill.b : data[i + 2];
+    out[i + 3] = data[i + 3];
+  }
+  return out;
 }
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import type { CleanupOptions } from '../types';
+import { cleanupLabels, DEFAULT_CLEANUP_OPTIONS, isCleanupActive, layerCleanupOptions } from './labelCleanup';
+
+const SIZE = 12;
+const OFF: CleanupOptions = { enabled: true, minRegionSize: 0, morphologyRadius: 0, holeSize: 0, smoothing: 0 };
+
+// Bản đồ nhãn SIZE × SIZE của lớp 0, với các khối chữ nhật [x, y, w, h, nhãn] vẽ lần lượt lên trên
+function labelMap(blocks: [number, number, number, number, number][]): Int32Array {
+  const labels = new Int32Array(SIZE * SIZE);
+  blocks.forEach(([x0, y0, w, h, label]) => {
+    for (let y = y0; y < y0 + h; y++) for (let x = x0; x < x0 + w; x++) labels[y * SIZE + x] = label;
+  });
+  return labels;
+}
+
+const count = (labels: Int32Array, label: number) => labels.filter(value => value === label).length;
+
+describe('isCleanupActive', () => {
+  it('needs cleanup enabled and at least one step, globally or on a layer', () => {
+    expect(isCleanupActive(DEFAULT_CLEANUP_OPTIONS)).toBe(false);
+    expect(isCleanupActive({ ...DEFAULT_CLEANUP_OPTIONS, enabled: true })).toBe(true);
+    expect(isCleanupActive(OFF)).toBe(false);
+    expect(isCleanupActive(OFF, [null, { smoothing: 1 }])).toBe(true);
+    expect(isCleanupActive({ ...OFF, enabled: false }, [{ smoothing: 1 }])).toBe(false);
+  });
+
+  it('merges a layer override over the global options', () => {
+    expect(layerCleanupOptions(OFF, { holeSize: 5 })).toEqual({ ...OFF, holeSize: 5 });
+    expect(layerCleanupOptions(OFF, null)).toBe(OFF);
+  });
+});
+
+describe('cleanupLabels', () => {
+  it('merges specks into the surrounding layer without touching the source', () => {
+    const source = labelMap([[0, 0, 6, SIZE, 1], [8, 8, 2, 2, 1]]);
+    const labels = cleanupLabels(source, SIZE, SIZE, { ...OFF, minRegionSize: 16 });
+    expect(count(labels, 1)).toBe(6 * SIZE);
+    expect(count(source, 1)).toBe(6 * SIZE + 4);
+  });
+
+  it('uses the speck size of the layer each speck belongs to', () => {
+    const source = labelMap([[0, 0, 6, SIZE, 1], [8, 8, 2, 2, 1], [8, 1, 2, 2, 2]]);
+    const labels = cleanupLabels(source, SIZE, SIZE, { ...OFF, minRegionSize: 16 }, [null, { minRegionSize: 0 }]);
+    expect(count(labels, 1)).toBe(6 * SIZE + 4);
+    expect(count(labels, 2)).toBe(0);
+  });
+
+  it('fills holes by the hole size of the surrounding layer', () => {
+    const source = labelMap([[2, 2, 8, 8, 1], [5, 5, 2, 2, 2]]);
+    expect(count(cleanupLabels(source, SIZE, SIZE, { ...OFF, holeSize: 8 }), 1)).toBe(64);
+    expect(count(cleanupLabels(source, SIZE, SIZE, { ...OFF, holeSize: 8 }, [null, { holeSize: 0 }]), 2)).toBe(4);
+    expect(count(cleanupLabels(source, SIZE, SIZE, OFF, [null, { holeSize: 8 }]), 1)).toBe(64);
+  });
+
+  it('opens away lines thinner than the radius', () => {
+    const source = labelMap([[0, 3, SIZE, 1, 1], [0, 7, SIZE, 5, 2]]);
+    const labels = cleanupLabels(source, SIZE, SIZE, { ...OFF, morphologyRadius: 1 });
+    expect(count(labels, 1)).toBe(0);
+    expect(count(labels, 2)).toBe(5 * SIZE);
+  });
+
+  it('smooths isolated pixels and never assigns transparent pixels', () => {
+    const source = labelMap([[4, 4, 1, 1, 1], [0, 0, SIZE, 1, -1]]);
+    const progress: number[] = [];
+    const labels = cleanupLabels(source, SIZE, SIZE, { ...OFF, smoothing: 1 }, [], value => progress.push(value));
+    expect(count(labels, 1)).toBe(0);
+    expect(count(labels, -1)).toBe(SIZE);
+    expect(progress).toEqual([0.25, 0.5, 0.75, 1]);
+  });
+});
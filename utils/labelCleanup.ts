@@ -0,0 +1,220 @@
+import type { CleanupOptions, CleanupOverride } from '../types';
+
+export const DEFAULT_CLEANUP_OPTIONS: CleanupOptions = {
+  enabled: false,
+  minRegionSize: 16,
+  morphologyRadius: 0,
+  holeSize: 0,
+  smoothing: 0,
+};
+
+// Nhãn tạm của các pixel bị bỏ khỏi lớp khi mở, chờ được gán lại cho lớp gần nhất
+const ORPHAN = -2;
+
+const hasCleanupStep = (options: CleanupOptions): boolean =>
+  options.minRegionSize > 1 || options.morphologyRadius > 0 || options.holeSize > 0 || options.smoothing > 0;
+
+/** Thiết lập làm sạch của một lớp: thiết lập chung, thay bằng các giá trị riêng của lớp (nếu có). */
+export const layerCleanupOptions = (options: CleanupOptions, override: CleanupOverride | null | undefined): CleanupOptions =>
+  override ? { ...options, ...override } : options;
+
+export const isCleanupActive = (options: CleanupOptions, overrides: (CleanupOverride | null)[] = []): boolean =>
+  options.enabled && (hasCleanupStep(options) || overrides.some(override => override && hasCleanupStep(layerCleanupOptions(options, override))));
+
+interface Component {
+  label: number;
+  pixels: number[];
+  touchesEdge: boolean;
+  neighbours: Map<number, number>; // Nhãn của các pixel kề bên ngoài vùng → số lần gặp
+}
+
+/**
+ * Duyệt các vùng liên thông 8 hướng của mọi lớp; `pick` trả về nhãn mới cho cả vùng (hoặc null để giữ nguyên).
+ * Vùng được gán lại ngay nên các vùng duyệt sau nhìn thấy nhãn mới.
+ */
+function relabelComponents(labels: Int32Array, width: number, height: number, pick: (component: Component) => number | null) {
+  const visited = new Uint8Array(labels.length);
+  const stack: number[] = [];
+  for (let start = 0; start < labels.length; start++) {
+    const label = labels[start];
+    if (visited[start] || label < 0) continue;
+    const component: Component = { label, pixels: [], touchesEdge: false, neighbours: new Map() };
+    visited[start] = 1;
+    stack.push(start);
+    while (stack.length > 0) {
+      const p = stack.pop()!;
+      component.pixels.push(p);
+      const x = p % width;
+      const y = (p - x) / width;
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) component.touchesEdge = true;
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= width) continue;
+          const q = ny * width + nx;
+          if (labels[q] !== label) {
+            component.neighbours.set(labels[q], (component.neighbours.get(labels[q]) ?? 0) + 1);
+          } else if (!visited[q]) {
+            visited[q] = 1;
+            stack.push(q);
+          }
+        }
+      }
+    }
+    const next = pick(component);
+    if (next !== null && next !== label) component.pixels.forEach(p => (labels[p] = next));
+  }
+}
+
+// Lớp xuất hiện nhiều nhất quanh vùng (bỏ qua pixel trong suốt)
+function majorityNeighbour(neighbours: Map<number, number>): number | null {
+  let best: number | null = null;
+  let bestCount = 0;
+  neighbours.forEach((count, label) => {
+    if (label >= 0 && count > bestCount) {
+      best = label;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+/**
+ * Co hoặc giãn mặt nạ nhị phân bằng phần tử cấu trúc vuông cạnh 2r+1 (tách thành hai lượt ngang và dọc).
+ * Khi co, phần ngoài ảnh được coi là thuộc mặt nạ để các hình chạm mép không bị ăn vào.
+ */
+export function morphMask(mask: Uint8Array, width: number, height: number, radius: number, erode: boolean): Uint8Array {
+  const pass = (source: Uint8Array, length: number, lines: number, index: (line: number, i: number) => number): Uint8Array => {
+    const out = new Uint8Array(source.length);
+    const outside = erode ? 1 : 0;
+    for (let line = 0; line < lines; line++) {
+      // Số pixel thuộc mặt nạ trong cửa sổ [i - r, i + r]
+      let count = 0;
+      for (let i = -radius; i <= radius; i++) count += i < 0 || i >= length ? outside : source[index(line, i)];
+      for (let i = 0; i < length; i++) {
+        const p = index(line, i);
+        out[p] = erode ? (count === 2 * radius + 1 ? 1 : 0) : (count > 0 ? 1 : 0);
+        const leaving = i - radius;
+        const entering = i + radius + 1;
+        count -= leaving < 0 ? outside : source[index(line, leaving)];
+        count += entering >= length ? outside : source[index(line, entering)];
+      }
+    }
+    return out;
+  };
+  const horizontal = pass(mask, width, height, (y, x) => y * width + x);
+  return pass(horizontal, height, width, (x, y) => y * width + x);
+}
+
+// Mở (bỏ các chi tiết mảnh hơn phần tử cấu trúc) rồi đóng (lấp khe hẹp) từng lớp, mỗi lớp theo bán kính của nó
+function openClose(labels: Int32Array, width: number, height: number, radii: number[]) {
+  const original = labels.slice();
+  const mask = new Uint8Array(labels.length);
+  for (let layer = 0; layer < radii.length; layer++) {
+    const radius = radii[layer];
+    if (radius <= 0) continue;
+    for (let p = 0; p < labels.length; p++) mask[p] = original[p] === layer ? 1 : 0;
+    const opened = morphMask(morphMask(mask, width, height, radius, true), width, height, radius, false);
+    for (let p = 0; p < labels.length; p++) if (mask[p] && !opened[p]) labels[p] = ORPHAN;
+  }
+  // Sau khi mở, khe mà phép đóng lấp được chỉ còn pixel bị bỏ (ORPHAN), nên các lớp không lấn nhau
+  for (let layer = 0; layer < radii.length; layer++) {
+    const radius = radii[layer];
+    if (radius <= 0) continue;
+    for (let p = 0; p < labels.length; p++) mask[p] = labels[p] === layer ? 1 : 0;
+    const closed = morphMask(morphMask(mask, width, height, radius, false), width, height, radius, true);
+    for (let p = 0; p < labels.length; p++) if (closed[p] && labels[p] === ORPHAN) labels[p] = layer;
+  }
+
+  // Các pixel còn lại thuộc về lớp gần nhất (loang từ mọi pixel đã có lớp)
+  const queue = new Int32Array(labels.length);
+  let head = 0;
+  let tail = 0;
+  for (let p = 0; p < labels.length; p++) if (labels[p] >= 0) queue[tail++] = p;
+  while (head < tail) {
+    const p = queue[head++];
+    const x = p % width;
+    const neighbours = [x > 0 ? p - 1 : -1, x < width - 1 ? p + 1 : -1, p - width, p + width];
+    for (const q of neighbours) {
+      if (q < 0 || q >= labels.length || labels[q] !== ORPHAN) continue;
+      labels[q] = labels[p];
+      queue[tail++] = q;
+    }
+  }
+  // Vùng bị bỏ không chạm lớp nào (chỉ giáp nền trong suốt) giữ lớp cũ
+  for (let p = 0; p < labels.length; p++) if (labels[p] === ORPHAN) labels[p] = original[p];
+}
+
+// Lọc đa số: mỗi pixel nhận lớp phổ biến nhất trong cửa sổ vuông có bán kính của lớp hiện tại (hòa thì giữ nguyên)
+function majorityFilter(labels: Int32Array, width: number, height: number, radii: number[]) {
+  const source = labels.slice();
+  const counts = new Int32Array(radii.length);
+  const seen: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const current = source[p];
+      if (current < 0) continue;
+      const radius = radii[current];
+      if (radius <= 0) continue;
+      for (let ny = Math.max(0, y - radius); ny <= Math.min(height - 1, y + radius); ny++) {
+        for (let nx = Math.max(0, x - radius); nx <= Math.min(width - 1, x + radius); nx++) {
+          const label = source[ny * width + nx];
+          if (label < 0) continue;
+          if (counts[label]++ === 0) seen.push(label);
+        }
+      }
+      let best = current;
+      seen.forEach(label => {
+        if (counts[label] > counts[best]) best = label;
+      });
+      labels[p] = best;
+      seen.forEach(label => (counts[label] = 0));
+      seen.length = 0;
+    }
+  }
+}
+
+/**
+ * Làm sạch bản đồ nhãn: bỏ đốm nhỏ, mở/đóng, lấp lỗ rồi làm mượt viền. Pixel trong suốt (-1) không bao giờ
+ * được gán lớp, nên hình dạng ngoài của ảnh được giữ nguyên. `overrides` (theo nhãn) thay thiết lập chung
+ * cho từng lớp: đốm và lỗ được xét theo lớp của vùng và lớp bao quanh nó.
+ */
+export function cleanupLabels(
+  source: Int32Array,
+  width: number,
+  height: number,
+  options: CleanupOptions,
+  overrides: (CleanupOverride | null)[] = [],
+  onProgress?: (progress: number) => void
+): Int32Array {
+  const labels = source.slice();
+  if (!isCleanupActive(options, overrides)) return labels;
+  const layerCount = labels.reduce((max, label) => Math.max(max, label + 1), 0);
+  const layers = Array.from({ length: layerCount }, (_, layer) => layerCleanupOptions(options, overrides[layer]));
+
+  if (layers.some(layer => layer.minRegionSize > 1)) {
+    relabelComponents(labels, width, height, component =>
+      component.pixels.length < layers[component.label].minRegionSize ? majorityNeighbour(component.neighbours) : null
+    );
+  }
+  onProgress?.(0.25);
+  const radii = layers.map(layer => layer.morphologyRadius);
+  if (radii.some(radius => radius > 0)) openClose(labels, width, height, radii);
+  onProgress?.(0.5);
+  if (layers.some(layer => layer.holeSize > 0)) {
+    // Lỗ: vùng không chạm mép ảnh và chỉ giáp một lớp duy nhất; kích thước lỗ được lấp là của lớp bao quanh
+    relabelComponents(labels, width, height, component => {
+      if (component.touchesEdge || component.neighbours.size !== 1) return null;
+      const [surrounding] = component.neighbours.keys();
+      return surrounding >= 0 && component.pixels.length < layers[surrounding].holeSize ? surrounding : null;
+    });
+  }
+  onProgress?.(0.75);
+  const smoothing = layers.map(layer => layer.smoothing);
+  if (smoothing.some(radius => radius > 0)) majorityFilter(labels, width, height, smoothing);
+  onProgress?.(1);
+  return labels;
+}
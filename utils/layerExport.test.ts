@@ -0,0 +1,121 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import type { CutOptions, RasterColorGroup, SVGColorGroup } from '../types';
+import { DEFAULT_CUT_OPTIONS } from './cutExport';
+import { addLayerBundle, buildLayeredSvg, buildLayerManifest, layerPixelCounts } from './layerExport';
+import type { RasterPipeline } from './rasterPipeline';
+import { DEFAULT_REGISTRATION_OPTIONS } from './registrationMarks';
+import { DEFAULT_EXPORT_FRAME } from './svgExport';
+import { DEFAULT_TILE_OPTIONS } from './tiling';
+import type { ZipFolder } from './zip';
+
+const raster = (gray: number, extra: Partial<RasterColorGroup> = {}): RasterColorGroup =>
+  ({ representativeColor: { r: gray, g: gray, b: gray }, memberColors: [], totalCount: 0, ...extra });
+
+function svgGroup(fill: string): SVGColorGroup {
+  const doc = new DOMParser().parseFromString(`<svg xmlns="http://www.w3.org/2000/svg"><rect width="5" height="5" fill="${fill}"/></svg>`, 'image/svg+xml');
+  return { representativeColor: { r: 255, g: 0, b: 0 }, elements: Array.from(doc.documentElement.children) as SVGElement[] };
+}
+
+describe('buildLayerManifest', () => {
+  it('lists layers in spray order with colour and coverage', () => {
+    const groups = [raster(0, { targetColor: { color: { r: 255, g: 0, b: 0 }, name: 'Signal Red' } }), raster(255)];
+    const manifest = JSON.parse(buildLayerManifest('photo.png', groups, index => `${index + 1}.png`, 'thumb.png', { width: 2, height: 2 }, [3, 1]));
+    expect(manifest).toEqual({
+      source: 'photo.png',
+      width: 2,
+      height: 2,
+      thumbnail: 'thumb.png',
+      layers: [
+        { order: 1, file: '1.png', hex: '#ff0000', paint: 'Signal Red', pixels: 3, coverage: 0.75 },
+        { order: 2, file: '2.png', hex: '#ffffff', pixels: 1, coverage: 0.25 },
+      ],
+    });
+  });
+
+  it('leaves out pixel counts for vector layers', () => {
+    const manifest = JSON.parse(buildLayerManifest('logo.svg', [raster(0)], index => `${index + 1}.svg`, 'thumb.svg', { width: 10, height: 10 }, null));
+    expect(manifest.layers).toEqual([{ order: 1, file: '1.svg', hex: '#000000' }]);
+  });
+});
+
+describe('layerPixelCounts', () => {
+  const labels = Int32Array.from([0, 0, 1, -1]); // Ảnh 2 × 2
+
+  it('counts label pixels at the source resolution', () => {
+    expect(layerPixelCounts(labels, 2, 2)).toEqual([2, 1]);
+  });
+
+  it('counts the pixels of the layer scaled into the frame', () => {
+    // Phóng gấp 3 và lệch 1 px trong khung 8 × 8: mỗi pixel nhãn thành 9 pixel
+    const frame = { ...DEFAULT_EXPORT_FRAME, width: 8, height: 8, scale: 3, translateX: 1, translateY: 1 };
+    expect(layerPixelCounts(labels, 2, 2, frame)).toEqual([18, 9]);
+    // Phần bị cắt khỏi khung không được đếm
+    expect(layerPixelCounts(labels, 2, 2, { ...frame, width: 4, translateX: -2 })).toEqual([12, 3]);
+  });
+});
+
+describe('addLayerBundle', () => {
+  const bundle = async (bundleFormat: CutOptions['bundleFormat'], tileOptions = DEFAULT_TILE_OPTIONS) => {
+    const files = new Map<string, unknown>();
+    const folder: ZipFolder = {
+      file(name, data) {
+        files.set(name, data);
+        return this;
+      },
+      folder: () => folder,
+    };
+    await addLayerBundle(
+      folder,
+      { name: 'logo.svg', groups: [svgGroup('#ff0000'), svgGroup('#00ff00')], isSvgSource: true, dimensions: null, imageData: null, labelMap: null },
+      {
+        frame: DEFAULT_EXPORT_FRAME,
+        registrationOptions: DEFAULT_REGISTRATION_OPTIONS,
+        bridgesFor: () => [],
+        trapFor: () => null,
+        cutOptions: { ...DEFAULT_CUT_OPTIONS, bundleFormat },
+        tileOptions,
+        dpi: 96,
+        scaleRaster: false,
+      },
+      {} as RasterPipeline
+    );
+    return files;
+  };
+
+  it('writes the thumbnail, one file per layer and the manifest', async () => {
+    const files = await bundle('svg');
+    expect([...files.keys()]).toEqual(['thumb.svg', '1.svg', '2.svg', 'manifest.json']);
+    expect(files.get('thumb.svg')).toContain('#00ff00');
+    expect(files.get('1.svg')).not.toContain('#00ff00');
+    expect(JSON.parse(files.get('manifest.json') as string).layers).toHaveLength(2);
+  });
+
+  it('writes vector layers in the chosen cut format', async () => {
+    expect([...(await bundle('dxf')).keys()]).toEqual(['thumb.svg', '1.dxf', '2.dxf', 'manifest.json']);
+    const pdf = await bundle('pdf');
+    expect([...pdf.keys()]).toEqual(['thumb.svg', 'layers.pdf', 'manifest.json']);
+    expect(JSON.parse(pdf.get('manifest.json') as string).layers[1].file).toBe('layers.pdf#page=2');
+  });
+
+  it('adds the tiles of each layer and the tile grid to the manifest', async () => {
+    // Khung 600 px ở 96 DPI (~159 mm) cần 2 × 2 tấm 100 × 150 mm
+    const files = await bundle('svg', { ...DEFAULT_TILE_OPTIONS, enabled: true, sheet: 'custom', width: 100, height: 150 });
+    const manifest = JSON.parse(files.get('manifest.json') as string);
+    expect(manifest.tiles).toMatchObject({ rows: 2, columns: 2 });
+    expect(manifest.layers[0].tiles).toBe('tiles/layer-1/');
+    expect(files.get('r1-c1.svg')).toContain('<svg');
+  });
+});
+
+describe('buildLayeredSvg', () => {
+  it('puts each layer in its own labelled Inkscape layer, in spray order', () => {
+    const groups = [svgGroup('#ff0000'), { ...svgGroup('#00ff00'), targetColor: { color: { r: 0, g: 0, b: 255 } } }];
+    const svg = buildLayeredSvg(groups, null, DEFAULT_EXPORT_FRAME);
+    expect(svg).toContain('xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape"');
+    const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+    const layers = Array.from(doc.querySelectorAll('g[id^="layer-"]'));
+    expect(layers.map(layer => layer.getAttribute('inkscape:label'))).toEqual(['#ff0000', '#0000ff']);
+    expect(layers[1].querySelector('path')!.getAttribute('fill')).toBe('#0000ff');
+  });
+});
@@ -0,0 +1,325 @@
+import type { SVGColorGroup, RasterColorGroup, ImageDimensions, ExportFrame, Bridge, RegistrationOptions, CutOptions, LayeredRasterFormat, TileOptions } from '../types';
+import { applyBridgesToImageData, wrapWithBridgeMask } from './bridges';
+import { buildRegistrationMarksSvg, drawRegistrationMarks } from './registrationMarks';
+import { createFinalSvgString, transformSvgGroups, transformSvgLayers } from './svgExport';
+import { rgbToHex } from './colorUtils';
+import { layerColor } from './palette';
+import { spreadRasterLayer, trappedLayerHtml } from './trapping';
+import type { LayerTrap } from './trapping';
+import type { LabelMap, RasterPipeline } from './rasterPipeline';
+import type { ZipFolder } from './zip';
+import { buildCutFile, CUT_FORMATS } from './cutExport';
+import type { CutLayerOptions } from './cutExport';
+import { encodePsd } from './psd';
+import { encodeTiff } from './tiff';
+import { buildTileSvg, renderTileCanvas, tileFileName, tileFolder, tileLayout } from './tiling';
+import type { TileLayout } from './tiling';
+
+const INKSCAPE_NAMESPACE = ' xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape"';
+
+// Nội dung (bên trong thẻ <svg>) của lớp `index` trong khung xuất, kèm phần loang, cầu nối và dấu canh chỉnh
+function buildLayerContent(
+  groups: SVGColorGroup[],
+  index: number,
+  dimensions: ImageDimensions | null,
+  frame: ExportFrame,
+  bridges: Bridge[],
+  registrationOptions: RegistrationOptions,
+  trap: LayerTrap | null
+): string {
+  const { width, height } = frame;
+  const group = groups[index];
+  const contentHtml = trap ? trappedLayerHtml(groups, index, dimensions, frame, trap) : transformSvgGroups([group], dimensions, frame);
+  const layerHtml = wrapWithBridgeMask(contentHtml, bridges, width, height);
+  return layerHtml + buildRegistrationMarksSvg(registrationOptions, width, height, { index, hex: rgbToHex(layerColor(group)) });
+}
+
+/** Tạo tệp SVG của lớp `index` trong khung xuất, kèm phần loang, cầu nối và dấu canh chỉnh. */
+export function buildLayerSvg(
+  groups: SVGColorGroup[],
+  index: number,
+  dimensions: ImageDimensions | null,
+  frame: ExportFrame,
+  bridges: Bridge[],
+  registrationOptions: RegistrationOptions,
+  trap: LayerTrap | null = null
+): string {
+  return createFinalSvgString(buildLayerContent(groups, index, dimensions, frame, bridges, registrationOptions, trap), frame);
+}
+
+/** Ảnh thu nhỏ ghép tất cả các lớp (nền trắng nếu khung xuất trong suốt). */
+export function buildThumbnailSvg(groups: SVGColorGroup[], dimensions: ImageDimensions | null, frame: ExportFrame): string {
+  return createFinalSvgString(transformSvgGroups(groups, dimensions, frame), { ...frame, background: frame.background ?? 'white' });
+}
+
+/**
+ * Một tệp SVG chứa mọi lớp theo thứ tự phun, mỗi nhóm màu là một layer của Inkscape (Illustrator đọc các thẻ <g> có id
+ * thành layer) mang nhãn là mã màu sơn.
+ */
+export function buildLayeredSvg(groups: SVGColorGroup[], dimensions: ImageDimensions | null, frame: ExportFrame): string {
+  const content = transformSvgLayers(groups, dimensions, frame, (html, index) =>
+    `<g id="layer-${index + 1}" inkscape:groupmode="layer" inkscape:label="${rgbToHex(layerColor(groups[index]))}">${html}</g>`
+  );
+  return createFinalSvgString(content, frame, INKSCAPE_NAMESPACE);
+}
+
+// Canvas của ảnh lớp ở độ phân giải gốc
+function imageDataToCanvas(layer: ImageData): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = layer.width;
+  canvas.height = layer.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available.');
+  ctx.putImageData(layer, 0, 0);
+  return canvas;
+}
+
+// Đặt ảnh lớp ở độ phân giải gốc vào khung xuất (phóng theo pixel gần nhất để viền lớp không bị nhòe)
+function drawIntoFrame(layer: ImageData, frame: ExportFrame): HTMLCanvasElement {
+  const source = imageDataToCanvas(layer);
+  const canvas = document.createElement('canvas');
+  canvas.width = frame.width;
+  canvas.height = frame.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available.');
+  if (frame.background) {
+    ctx.fillStyle = frame.background;
+    ctx.fillRect(0, 0, frame.width, frame.height);
+  }
+  ctx.imageSmoothingEnabled = false;
+  ctx.setTransform(frame.scale, 0, 0, frame.scale, frame.translateX, frame.translateY);
+  ctx.drawImage(source, 0, 0);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  return canvas;
+}
+
+/**
+ * Vẽ một lớp raster (theo bản đồ nhãn trong Worker) ở độ phân giải gốc, hoặc phóng vào `frame` khi được truyền.
+ * Loang và cầu nối luôn được áp dụng ở độ phân giải gốc; dấu canh chỉnh được vẽ theo kích thước của ảnh kết quả.
+ */
+export async function renderRasterLayer(
+  pipeline: RasterPipeline,
+  imageData: ImageData,
+  groups: (SVGColorGroup | RasterColorGroup)[],
+  index: number,
+  labelMap: LabelMap,
+  frame: ExportFrame | null,
+  bridges: Bridge[],
+  registrationOptions: RegistrationOptions,
+  trap: LayerTrap | null = null
+): Promise<HTMLCanvasElement> {
+  const { width, height } = imageData;
+  const pixels = await pipeline.render(imageData, groups.map(layerColor), index, labelMap, groups[index].targetColor?.color);
+  const layerImageData = new ImageData(pixels, width, height);
+  // Độ loang tính theo pixel của ảnh kết quả
+  if (trap) spreadRasterLayer(layerImageData, labelMap.labels, index, { ...trap, width: trap.width / (frame?.scale ?? 1) }, layerColor(groups[index]));
+  applyBridgesToImageData(layerImageData, bridges);
+  const canvas = frame ? drawIntoFrame(layerImageData, frame) : imageDataToCanvas(layerImageData);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available.');
+  drawRegistrationMarks(ctx, registrationOptions, canvas.width, canvas.height, { index, hex: rgbToHex(layerColor(groups[index])) });
+  return canvas;
+}
+
+/** Ảnh ghép các lớp raster như ảnh xem trước (mỗi pixel tô màu lớp của nó), trên nền trắng. */
+export async function renderRasterThumbnail(
+  pipeline: RasterPipeline,
+  imageData: ImageData,
+  groups: (SVGColorGroup | RasterColorGroup)[],
+  labelMap: LabelMap
+): Promise<HTMLCanvasElement> {
+  const { width, height } = imageData;
+  const pixels = await pipeline.render(imageData, groups.map(layerColor), null, labelMap);
+  const layer = document.createElement('canvas');
+  layer.width = width;
+  layer.height = height;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const layerCtx = layer.getContext('2d');
+  const ctx = canvas.getContext('2d');
+  if (!layerCtx || !ctx) throw new Error('Canvas 2D context is not available.');
+  layerCtx.putImageData(new ImageData(pixels, width, height), 0, 0);
+  ctx.fillStyle = 'white';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(layer, 0, 0);
+  return canvas;
+}
+
+/**
+ * Tài liệu PSD hoặc TIFF nhiều trang ở độ phân giải gốc, hoặc theo kích thước `frame` khi được truyền, mỗi nhóm màu một
+ * lớp trong suốt (mặt nạ của nhóm theo bản đồ nhãn), theo thứ tự phun với lớp đầu tiên ở dưới cùng.
+ */
+export function buildLayeredRaster(
+  format: LayeredRasterFormat,
+  pipeline: RasterPipeline,
+  imageData: ImageData,
+  groups: (SVGColorGroup | RasterColorGroup)[],
+  labelMap: LabelMap,
+  frame: ExportFrame | null,
+  dpi: number
+): Promise<Blob> {
+  const colors = groups.map(layerColor);
+  const { width, height } = frame ?? imageData;
+  const layerAt = async (index: number) => {
+    const pixels = await pipeline.render(imageData, colors, index, labelMap, groups[index].targetColor?.color);
+    if (!frame) return { name: rgbToHex(colors[index]), pixels };
+    const canvas = drawIntoFrame(new ImageData(pixels, imageData.width, imageData.height), { ...frame, background: null });
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is not available.');
+    return { name: rgbToHex(colors[index]), pixels: ctx.getImageData(0, 0, width, height).data };
+  };
+  const encode = format === 'psd' ? encodePsd : encodeTiff;
+  return encode(width, height, groups.length, layerAt, dpi);
+}
+
+interface ManifestLayer {
+  order: number; // Thứ tự phun, bắt đầu từ 1
+  file: string;
+  hex: string;
+  paint?: string;
+  pixels?: number; // Chỉ có với lớp raster
+  coverage?: number; // Tỉ lệ diện tích tệp lớp mà lớp phủ (0..1)
+  tiles?: string; // Thư mục chứa các tấm của lớp khi xuất chia tấm
+}
+
+// Lưới tấm trong manifest, kích thước theo mm
+function tilingSummary(layout: TileLayout) {
+  const mm = (px: number) => Math.round((px / layout.pxPerMm) * 10) / 10;
+  return { rows: layout.rows, columns: layout.columns, sheetWidthMm: mm(layout.tileWidth), sheetHeightMm: mm(layout.tileHeight), overlapMm: mm(layout.overlap) };
+}
+
+/**
+ * Số pixel của từng lớp trong tệp lớp: đếm trên bản đồ nhãn (rộng `width`), hoặc trên ảnh đã phóng vào `frame` (lấy
+ * pixel gần nhất như khi vẽ) để khớp với PNG được ghi.
+ */
+export function layerPixelCounts(labels: Int32Array, width: number, groupCount: number, frame: ExportFrame | null = null): number[] {
+  const counts = new Array<number>(groupCount).fill(0);
+  if (!frame) {
+    labels.forEach(label => {
+      if (label >= 0) counts[label]++;
+    });
+    return counts;
+  }
+  const height = labels.length / width;
+  // Cột nguồn ứng với mỗi cột của khung, tính một lần
+  const columns = Int32Array.from({ length: frame.width }, (_, x) => Math.floor((x + 0.5 - frame.translateX) / frame.scale));
+  for (let y = 0; y < frame.height; y++) {
+    const sy = Math.floor((y + 0.5 - frame.translateY) / frame.scale);
+    if (sy < 0 || sy >= height) continue;
+    for (let x = 0; x < frame.width; x++) {
+      const sx = columns[x];
+      if (sx < 0 || sx >= width) continue;
+      const label = labels[sy * width + sx];
+      if (label >= 0) counts[label]++;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Nội dung manifest.json của một bộ lớp: thứ tự, màu và độ phủ của từng lớp. `size` là kích thước tệp lớp và `pixels`
+ * là số pixel của từng lớp trong tệp đó (xem `layerPixelCounts`).
+ */
+export function buildLayerManifest(
+  name: string,
+  groups: (SVGColorGroup | RasterColorGroup)[],
+  fileFor: (index: number) => string,
+  thumbnail: string,
+  size: { width: number; height: number },
+  pixels: number[] | null,
+  tiling: TileLayout | null = null
+): string {
+  const area = size.width * size.height;
+  const layers: ManifestLayer[] = groups.map((group, index) => ({
+    order: index + 1,
+    file: fileFor(index),
+    hex: rgbToHex(layerColor(group)),
+    ...(group.targetColor?.name ? { paint: group.targetColor.name } : {}),
+    ...(pixels ? { pixels: pixels[index], coverage: area > 0 ? Math.round((pixels[index] / area) * 10000) / 10000 : 0 } : {}),
+    ...(tiling ? { tiles: `${tileFolder(index)}/` } : {}),
+  }));
+  const tiles = tiling ? { tiles: tilingSummary(tiling) } : {};
+  return JSON.stringify({ source: name, width: size.width, height: size.height, thumbnail, ...tiles, layers }, null, 2);
+}
+
+export interface LayerBundleSource {
+  name: string;
+  groups: (SVGColorGroup | RasterColorGroup)[];
+  isSvgSource: boolean;
+  dimensions: ImageDimensions | null;
+  imageData: ImageData | null;
+  labelMap: LabelMap | null; // Bản đồ nhãn đã làm sạch/dither dùng để xuất lớp raster
+}
+
+export interface LayerBundleOptions extends CutLayerOptions {
+  frame: ExportFrame;
+  cutOptions: CutOptions; // Định dạng tệp lớp của nguồn SVG và sai số làm phẳng cho tệp cắt
+  tileOptions: TileOptions;
+  dpi: number;
+  scaleRaster: boolean; // Phóng PNG của nguồn raster vào khung xuất thay vì giữ độ phân giải gốc
+}
+
+/**
+ * Ghi ảnh thu nhỏ, từng lớp (SVG/DXF/HPGL trong khung xuất hoặc một PDF nhiều trang, PNG ở độ phân giải gốc hoặc
+ * trong khung xuất với nguồn raster) và manifest.json vào một thư mục ZIP. Khi xuất chia tấm, các tấm của mỗi lớp
+ * (SVG hoặc PNG) được ghi vào tiles/layer-N/.
+ */
+export async function addLayerBundle(folder: ZipFolder, source: LayerBundleSource, options: LayerBundleOptions, pipeline: RasterPipeline): Promise<void> {
+  const { frame, registrationOptions, bridgesFor, trapFor, cutOptions, tileOptions, dpi, scaleRaster } = options;
+  const label = (index: number) => ({ index, hex: rgbToHex(layerColor(source.groups[index])) });
+  if (source.isSvgSource) {
+    const groups = source.groups as SVGColorGroup[];
+    const { dimensions } = source;
+    const format = cutOptions.bundleFormat;
+    folder.file('thumb.svg', buildThumbnailSvg(groups, dimensions, frame));
+    let fileFor = (index: number) => `${index + 1}.svg`;
+    if (format === 'svg') {
+      groups.forEach((_, index) => {
+        folder.file(fileFor(index), buildLayerSvg(groups, index, dimensions, frame, bridgesFor(index), registrationOptions, trapFor(index)));
+      });
+    } else if (format === 'pdf') {
+      // PDF gom tất cả các lớp vào một tệp, mỗi lớp một trang
+      fileFor = index => `layers.pdf#page=${index + 1}`;
+      folder.file('layers.pdf', buildCutFile('pdf', groups, groups.map((_, index) => index), dimensions, frame, dpi, cutOptions, options));
+    } else {
+      fileFor = index => `${index + 1}.${CUT_FORMATS[format].extension}`;
+      groups.forEach((_, index) => {
+        folder.file(fileFor(index), buildCutFile(format, groups, [index], dimensions, frame, dpi, cutOptions, options));
+      });
+    }
+    const tiling = tileOptions.enabled ? tileLayout(frame.width, frame.height, dpi, tileOptions) : null;
+    if (tiling) {
+      groups.forEach((_, index) => {
+        const content = buildLayerContent(groups, index, dimensions, frame, bridgesFor(index), registrationOptions, trapFor(index));
+        const tileDir = folder.folder(tileFolder(index));
+        tiling.tiles.forEach(tile => tileDir.file(tileFileName(tile, 'svg'), buildTileSvg(content, frame, tiling, tile, label(index))));
+      });
+    }
+    folder.file('manifest.json', buildLayerManifest(source.name, groups, fileFor, 'thumb.svg', frame, null, tiling));
+  } else if (source.imageData && source.labelMap) {
+    const { imageData, labelMap, groups } = source;
+    const rasterFrame = scaleRaster ? frame : null;
+    const size = rasterFrame ?? imageData;
+    const tiling = tileOptions.enabled ? tileLayout(size.width, size.height, dpi, tileOptions) : null;
+    // PNG đã được nén nên được lưu nguyên trong ZIP
+    folder.file('thumb.png', await canvasToBlob(await renderRasterThumbnail(pipeline, imageData, groups, labelMap)), { compression: 'store' });
+    for (let index = 0; index < groups.length; index++) {
+      const canvas = await renderRasterLayer(pipeline, imageData, groups, index, labelMap, rasterFrame, bridgesFor(index), registrationOptions, trapFor(index));
+      folder.file(`${index + 1}.png`, await canvasToBlob(canvas), { compression: 'store' });
+      if (!tiling) continue;
+      const tileDir = folder.folder(tileFolder(index));
+      for (const tile of tiling.tiles) {
+        tileDir.file(tileFileName(tile, 'png'), await canvasToBlob(renderTileCanvas(canvas, tiling, tile, label(index))), { compression: 'store' });
+      }
+    }
+    const pixels = layerPixelCounts(labelMap.labels, imageData.width, groups.length, rasterFrame);
+    folder.file('manifest.json', buildLayerManifest(source.name, groups, index => `${index + 1}.png`, 'thumb.png', size, pixels, tiling));
+  }
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type = 'image/png'): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the image.'))), type);
+  });
+}
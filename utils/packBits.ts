@@ -0,0 +1,28 @@
+/** Kích thước tối đa của `length` byte sau khi nén PackBits (mỗi đoạn 128 byte thêm một byte đầu). */
+export const packBitsBound = (length: number) => length + Math.ceil(length / 128);
+
+/**
+ * Nén PackBits (dùng cho RLE của PSD và TIFF) các byte [start, end) của `source` vào `out` từ vị trí `pos`.
+ * Trả về vị trí kết thúc trong `out`.
+ */
+export function packBits(source: Uint8Array, start: number, end: number, out: Uint8Array, pos: number): number {
+  let i = start;
+  while (i < end) {
+    let run = 1;
+    while (i + run < end && run < 128 && source[i + run] === source[i]) run++;
+    if (run > 1) {
+      // Đoạn lặp: byte đầu là 1 - độ dài (số âm)
+      out[pos++] = 257 - run;
+      out[pos++] = source[i];
+      i += run;
+      continue;
+    }
+    // Đoạn nguyên văn kéo dài tới khi gặp ba byte giống nhau
+    const literalStart = i++;
+    while (i < end && i - literalStart < 128 && !(i + 2 < end && source[i] === source[i + 1] && source[i] === source[i + 2])) i++;
+    out[pos++] = i - literalStart - 1;
+    out.set(source.subarray(literalStart, i), pos);
+    pos += i - literalStart;
+  }
+  return pos;
+}
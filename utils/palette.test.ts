@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { nearestPaintColor, parsePaletteFile } from './palette';
+
+const parse = (name: string, content: BlobPart) => parsePaletteFile(new File([content], name));
+
+// Tệp ASE (big-endian) gồm một nhóm bao quanh các màu [tên, mô hình, giá trị]
+function aseFile(swatches: [string, string, number[]][]): Uint8Array {
+  const blocks: number[][] = [];
+  const u16 = (value: number) => [value >> 8, value & 0xff];
+  const u32 = (value: number) => [...u16(value >>> 16), ...u16(value & 0xffff)];
+  const f32 = (value: number) => {
+    const view = new DataView(new ArrayBuffer(4));
+    view.setFloat32(0, value);
+    return Array.from(new Uint8Array(view.buffer));
+  };
+  const block = (type: number, body: number[]) => blocks.push([...u16(type), ...u32(body.length), ...body]);
+  block(0xc001, [...u16(0)]);
+  swatches.forEach(([name, model, values]) => {
+    const label = [...name].flatMap(ch => u16(ch.charCodeAt(0)));
+    const body = [...u16(name.length + 1), ...label, 0, 0, ...[...model.padEnd(4)].map(ch => ch.charCodeAt(0)), ...values.flatMap(f32), ...u16(2)];
+    block(0x0001, body);
+  });
+  block(0xc002, []);
+  return Uint8Array.from([...'ASEF'].map(ch => ch.charCodeAt(0)).concat(u16(1), u16(0), u32(blocks.length), blocks.flat()));
+}
+
+describe('parsePaletteFile', () => {
+  it('reads GIMP palettes with their name and colour labels', async () => {
+    const palette = await parse('spray.gpl', 'GIMP Palette\nName: Street Colors\nColumns: 4\n#\n255   0   0 Red\n  0 128 255 Untitled\n300 12 7\n');
+    expect(palette).toEqual({
+      name: 'Street Colors',
+      colors: [
+        { color: { r: 255, g: 0, b: 0 }, name: 'Red' },
+        { color: { r: 0, g: 128, b: 255 } },
+        { color: { r: 255, g: 12, b: 7 } },
+      ],
+    });
+  });
+
+  it('reads hex lists and keeps the rest of the line as the name', async () => {
+    const palette = await parse('cans.txt', 'RV-3020 Vivid Red #E3001B\n#fff\nRV-102 Bad\n00ff00, 0000ff\n');
+    expect(palette.name).toBe('cans');
+    expect(palette.colors).toEqual([
+      { color: { r: 0xe3, g: 0x00, b: 0x1b }, name: 'RV-3020 Vivid Red' },
+      { color: { r: 255, g: 255, b: 255 } },
+      { color: { r: 0, g: 255, b: 0 } },
+      { color: { r: 0, g: 0, b: 255 } },
+    ]);
+  });
+
+  it('reads JSON arrays and objects with hex or RGB entries', async () => {
+    const palette = await parse('brand.json', JSON.stringify({
+      name: 'Brand',
+      colors: ['#123456', { name: 'Sky', hex: '87ceeb' }, { name: 'Warm', r: 300, g: 100.4, b: -2 }, { name: 'Broken' }],
+    }));
+    expect(palette).toEqual({
+      name: 'Brand',
+      colors: [
+        { color: { r: 0x12, g: 0x34, b: 0x56 } },
+        { color: { r: 0x87, g: 0xce, b: 0xeb }, name: 'Sky' },
+        { color: { r: 255, g: 100, b: 0 }, name: 'Warm' },
+      ],
+    });
+    expect((await parse('list.json', '["#000", "ffffff"]')).colors).toHaveLength(2);
+  });
+
+  it('reads RGB, CMYK and gray swatches from Adobe Swatch Exchange files', async () => {
+    const palette = await parse('paints.ase', aseFile([
+      ['Blue', 'RGB', [0, 0, 1]],
+      ['Red', 'CMYK', [0, 1, 1, 0]],
+      ['Mid', 'Gray', [0.5]],
+    ]) as BlobPart);
+    expect(palette).toEqual({
+      name: 'paints',
+      colors: [
+        { color: { r: 0, g: 0, b: 255 }, name: 'Blue' },
+        { color: { r: 255, g: 0, b: 0 }, name: 'Red' },
+        { color: { r: 128, g: 128, b: 128 }, name: 'Mid' },
+      ],
+    });
+  });
+
+  it('rejects files without colours', async () => {
+    await expect(parse('empty.txt', 'no colours here')).rejects.toThrow('No colors');
+    await expect(parse('bad.ase', 'ASEX')).rejects.toThrow('Adobe Swatch Exchange');
+  });
+});
+
+describe('nearestPaintColor', () => {
+  it('picks the closest paint under the chosen metric', () => {
+    const palette = { name: 'p', colors: [{ color: { r: 0, g: 0, b: 0 }, name: 'Black' }, { color: { r: 250, g: 20, b: 20 }, name: 'Red' }] };
+    expect(nearestPaintColor({ r: 200, g: 40, b: 30 }, palette, 'ciede2000').name).toBe('Red');
+    expect(nearestPaintColor({ r: 30, g: 30, b: 30 }, palette, 'rgb').name).toBe('Black');
+  });
+});
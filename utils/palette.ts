@@ -0,0 +1,140 @@
+import type { RGBColor, ColorMetric, PaintColor, Palette, SVGColorGroup, RasterColorGroup } from '../types';
+import { colorDistance, hexToRgb, labToRgb } from './colorUtils';
+
+/** Màu dùng để xem trước và xuất một lớp: màu sơn đã chọn, hoặc màu đại diện nếu chưa đổi màu. */
+export const layerColor = (group: SVGColorGroup | RasterColorGroup): RGBColor => group.targetColor?.color ?? group.representativeColor;
+
+const clampChannel = (value: number) => Math.round(Math.min(255, Math.max(0, value)));
+
+const parseHex = (hex: string): RGBColor | null =>
+  hexToRgb(hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex);
+
+// Tệp .gpl của GIMP/Inkscape: mỗi dòng "R G B Tên"
+function parseGpl(text: string, fallbackName: string): Palette {
+  let name = fallbackName;
+  const colors: PaintColor[] = [];
+  text.split(/\r?\n/).forEach(line => {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('Name:')) name = trimmed.slice(5).trim() || name;
+    const match = /^(\d{1,3})\s+(\d{1,3})\s+(\d{1,3})\s*(.*)$/.exec(trimmed);
+    if (!match) return;
+    const label = match[4].trim();
+    colors.push({
+      color: { r: clampChannel(+match[1]), g: clampChannel(+match[2]), b: clampChannel(+match[3]) },
+      ...(label && label.toLowerCase() !== 'untitled' ? { name: label } : {}),
+    });
+  });
+  return { name, colors };
+}
+
+// Danh sách mã hex, mỗi dòng một màu, phần chữ còn lại trên dòng được dùng làm tên (ví dụ "RV-3020 Vivid Red #E3001B")
+function parseHexList(text: string, name: string): Palette {
+  const colors: PaintColor[] = [];
+  text.split(/\r?\n/).forEach(line => {
+    // Mã 3 chữ số phải có dấu #, để không nhầm với mã số hay chữ trong tên màu (ví dụ "RV-102", "Bad")
+    const matches = Array.from(line.matchAll(/#([0-9a-f]{6}|[0-9a-f]{3})\b|(?<![^\s,;])([0-9a-f]{6})(?![^\s,;])/gi));
+    matches.forEach(match => {
+      const color = parseHex(match[1] ?? match[2]);
+      if (!color) return;
+      const label = matches.length === 1 ? line.replace(match[0], '').replace(/^[\s,;:\-–]+|[\s,;:\-–]+$/g, '') : '';
+      colors.push({ color, ...(label ? { name: label } : {}) });
+    });
+  });
+  return { name, colors };
+}
+
+// JSON: mảng mã hex, mảng { name, hex } / { name, r, g, b }, hoặc { name, colors: [...] }
+function parseJsonPalette(text: string, fallbackName: string): Palette {
+  const data = JSON.parse(text);
+  const entries: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.colors) ? data.colors : [];
+  const colors: PaintColor[] = [];
+  entries.forEach(entry => {
+    if (typeof entry === 'string') {
+      const color = parseHex(entry.replace('#', ''));
+      if (color) colors.push({ color });
+      return;
+    }
+    if (!entry || typeof entry !== 'object') return;
+    const item = entry as Record<string, unknown>;
+    const hex = [item.hex, item.color, item.value].find((v): v is string => typeof v === 'string');
+    const color = hex
+      ? parseHex(hex.replace('#', ''))
+      : typeof item.r === 'number' && typeof item.g === 'number' && typeof item.b === 'number'
+        ? { r: clampChannel(item.r), g: clampChannel(item.g), b: clampChannel(item.b) }
+        : null;
+    if (color) colors.push({ color, ...(typeof item.name === 'string' && item.name ? { name: item.name } : {}) });
+  });
+  return { name: typeof data?.name === 'string' ? data.name : fallbackName, colors };
+}
+
+// Adobe Swatch Exchange (.ase): tệp nhị phân big-endian gồm các khối màu có tên UTF-16
+function parseAse(buffer: ArrayBuffer, name: string): Palette {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 12 || String.fromCharCode(view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3)) !== 'ASEF') {
+    throw new Error('Not a valid Adobe Swatch Exchange file.');
+  }
+  const blockCount = view.getUint32(8);
+  const colors: PaintColor[] = [];
+  let offset = 12;
+  for (let block = 0; block < blockCount && offset + 6 <= buffer.byteLength; block++) {
+    const type = view.getUint16(offset);
+    const length = view.getUint32(offset + 2);
+    const start = offset + 6;
+    offset = start + length;
+    if (type !== 0x0001) continue; // Bỏ qua khối mở/đóng nhóm
+
+    const nameLength = view.getUint16(start);
+    let label = '';
+    for (let i = 0; i < nameLength; i++) {
+      const code = view.getUint16(start + 2 + i * 2);
+      if (code) label += String.fromCharCode(code);
+    }
+    const modelOffset = start + 2 + nameLength * 2;
+    const model = String.fromCharCode(...[0, 1, 2, 3].map(i => view.getUint8(modelOffset + i))).trim();
+    const value = (i: number) => view.getFloat32(modelOffset + 4 + i * 4);
+    let color: RGBColor | null = null;
+    if (model === 'RGB') {
+      color = { r: clampChannel(value(0) * 255), g: clampChannel(value(1) * 255), b: clampChannel(value(2) * 255) };
+    } else if (model === 'CMYK') {
+      const k = 1 - value(3);
+      color = { r: clampChannel(255 * (1 - value(0)) * k), g: clampChannel(255 * (1 - value(1)) * k), b: clampChannel(255 * (1 - value(2)) * k) };
+    } else if (model === 'Gray') {
+      const gray = clampChannel(value(0) * 255);
+      color = { r: gray, g: gray, b: gray };
+    } else if (model === 'LAB') {
+      color = labToRgb({ l: value(0) * 100, a: value(1), b: value(2) });
+    }
+    if (color) colors.push({ color, ...(label ? { name: label } : {}) });
+  }
+  return { name, colors };
+}
+
+/** Đọc bảng màu từ tệp GPL, ASE, JSON hoặc danh sách mã hex. */
+export async function parsePaletteFile(file: File): Promise<Palette> {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  const baseName = file.name.replace(/\.[^.]+$/, '') || 'Palette';
+  let palette: Palette;
+  if (extension === 'ase') {
+    palette = parseAse(await file.arrayBuffer(), baseName);
+  } else {
+    const text = await file.text();
+    if (extension === 'gpl' || text.startsWith('GIMP Palette')) palette = parseGpl(text, baseName);
+    else if (extension === 'json') palette = parseJsonPalette(text, baseName);
+    else palette = parseHexList(text, baseName);
+  }
+  if (palette.colors.length === 0) throw new Error('No colors were found in the palette file.');
+  return palette;
+}
+
+export function nearestPaintColor(color: RGBColor, palette: Palette, metric: ColorMetric): PaintColor {
+  let best = palette.colors[0];
+  let bestDistance = Infinity;
+  palette.colors.forEach(paint => {
+    const distance = colorDistance(color, paint.color, metric);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = paint;
+    }
+  });
+  return best;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { PathPoint } from './geometry';
+import { intersectLoops, loopArea, offsetLoops, regionLoops, subtractLoops, unionLoops } from './polygonOps';
+import type { Loop } from './polygonOps';
+
+const square = (x: number, y: number, size: number): PathPoint[] =>
+  [{ x, y }, { x: x + size, y }, { x: x + size, y: y + size }, { x, y: y + size }];
+
+const totalArea = (loops: Loop[]) => loops.reduce((sum, loop) => sum + loopArea(loop), 0);
+
+const bounds = (loops: Loop[]) => {
+  const points = loops.flat();
+  return {
+    minX: Math.min(...points.map(p => p.x)),
+    minY: Math.min(...points.map(p => p.y)),
+    maxX: Math.max(...points.map(p => p.x)),
+    maxY: Math.max(...points.map(p => p.y)),
+  };
+};
+
+describe('regionLoops', () => {
+  it('orients outer rings and holes by the fill rule', () => {
+    const rings = [square(0, 0, 10), square(3, 3, 4)];
+    const evenOdd = regionLoops(rings.map(points => ({ points, closed: true })), true);
+    expect(evenOdd).toHaveLength(2);
+    expect(totalArea(evenOdd)).toBeCloseTo(100 - 16);
+    // Cùng chiều với nonzero: lỗ bị lấp
+    expect(totalArea(regionLoops(rings.map(points => ({ points, closed: true })), false))).toBeCloseTo(100);
+  });
+});
+
+describe('offsetLoops', () => {
+  it('grows a square by the distance with rounded corners', () => {
+    const grown = offsetLoops([square(0, 0, 10)], 2, 0.01);
+    expect(grown).toHaveLength(1);
+    const box = bounds(grown);
+    expect(box.minX).toBeCloseTo(-2);
+    expect(box.maxY).toBeCloseTo(12);
+    expect(totalArea(grown)).toBeCloseTo(100 + 4 * 20 + Math.PI * 4, 0);
+    // Mọi điểm của đường bao cách hình vuông đúng 2
+    grown[0].forEach(p => {
+      const dx = Math.max(0 - p.x, 0, p.x - 10);
+      const dy = Math.max(0 - p.y, 0, p.y - 10);
+      expect(Math.hypot(dx, dy)).toBeCloseTo(2, 3);
+    });
+  });
+
+  it('shrinks a square and removes what is thinner than twice the distance', () => {
+    const shrunk = offsetLoops([square(0, 0, 10)], -2, 0.01);
+    expect(bounds(shrunk)).toEqual({ minX: 2, minY: 2, maxX: 8, maxY: 8 });
+    expect(totalArea(shrunk)).toBeCloseTo(36);
+    expect(offsetLoops([square(0, 0, 3)], -2, 0.01)).toEqual([]);
+  });
+
+  it('fills notches and holes narrower than twice the distance', () => {
+    // Chữ U có rãnh rộng 2
+    const u = [{ x: 0, y: 0 }, { x: 4, y: 0 }, { x: 4, y: 8 }, { x: 6, y: 8 }, { x: 6, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }];
+    const grown = offsetLoops([u], 1.5, 0.01);
+    expect(grown).toHaveLength(1);
+    expect(totalArea(grown)).toBeGreaterThan(13 * 13 - 4);
+
+    const ring = regionLoops([square(0, 0, 10), square(4, 4, 2)].map(points => ({ points, closed: true })), true);
+    expect(offsetLoops(ring, 1.5, 0.01)).toHaveLength(1);
+  });
+});
+
+describe('boolean operations', () => {
+  it('unions, subtracts and intersects overlapping squares', () => {
+    const a = [square(0, 0, 10)];
+    const b = [square(5, 5, 10)];
+    expect(totalArea(unionLoops(a, b))).toBeCloseTo(175);
+    expect(totalArea(subtractLoops(a, b))).toBeCloseTo(75);
+    expect(totalArea(intersectLoops(a, b))).toBeCloseTo(25);
+    expect(subtractLoops(a, b)[0]).toHaveLength(6);
+  });
+
+  it('cuts a strip across a square into two pieces', () => {
+    const strip = [[{ x: -1, y: 4 }, { x: 11, y: 4 }, { x: 11, y: 6 }, { x: -1, y: 6 }]];
+    const pieces = subtractLoops([square(0, 0, 10)], strip);
+    expect(pieces).toHaveLength(2);
+    pieces.forEach(piece => expect(piece).toHaveLength(4));
+    expect(totalArea(pieces)).toBeCloseTo(80);
+  });
+});
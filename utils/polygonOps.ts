@@ -0,0 +1,224 @@
+import type { Box, PathPoint, Polyline } from './geometry';
+import { overlappingPairs } from './geometry';
+
+/**
+ * Một vòng khép kín của vùng phẳng, đã định hướng để phần bên trong nằm bên trái chiều đi
+ * (diện tích có dấu dương): vòng ngoài và lỗ ngược chiều nhau.
+ */
+export type Loop = PathPoint[];
+
+interface Edge {
+  a: PathPoint;
+  b: PathPoint;
+  operand: number;
+}
+
+const EPSILON = 1e-9;
+
+const cross = (o: PathPoint, a: PathPoint, b: PathPoint) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+export function loopArea(loop: Loop): number {
+  let area = 0;
+  for (let i = 0, j = loop.length - 1; i < loop.length; j = i++) area += loop[j].x * loop[i].y - loop[i].x * loop[j].y;
+  return area / 2;
+}
+
+const edgeBox = ({ a, b }: Edge): Box => ({ minX: Math.min(a.x, b.x), minY: Math.min(a.y, b.y), maxX: Math.max(a.x, b.x), maxY: Math.max(a.y, b.y) });
+
+// Chỉ mục theo dải ngang để tính số vòng quấn (winding number) mà không phải duyệt mọi cạnh
+function windingIndex(edges: Edge[], operands: number) {
+  let minY = Infinity;
+  let maxY = -Infinity;
+  edges.forEach(({ a, b }) => {
+    minY = Math.min(minY, a.y, b.y);
+    maxY = Math.max(maxY, a.y, b.y);
+  });
+  const bandCount = Math.max(1, Math.ceil(Math.sqrt(edges.length)));
+  const bandHeight = Math.max(EPSILON, (maxY - minY) / bandCount);
+  const bandOf = (y: number) => Math.min(bandCount - 1, Math.max(0, Math.floor((y - minY) / bandHeight)));
+  const bands: Edge[][] = Array.from({ length: bandCount }, () => []);
+  edges.forEach(edge => {
+    for (let band = bandOf(Math.min(edge.a.y, edge.b.y)); band <= bandOf(Math.max(edge.a.y, edge.b.y)); band++) bands[band].push(edge);
+  });
+  return (p: PathPoint): number[] => {
+    const windings = new Array<number>(operands).fill(0);
+    if (p.y < minY || p.y > maxY) return windings;
+    for (const { a, b, operand } of bands[bandOf(p.y)]) {
+      if (a.y <= p.y) {
+        if (b.y > p.y && cross(a, b, p) > 0) windings[operand]++;
+      } else if (b.y <= p.y && cross(a, b, p) < 0) {
+        windings[operand]--;
+      }
+    }
+    return windings;
+  };
+}
+
+// Bỏ các đỉnh thẳng hàng với hai đỉnh kề (điểm chia cạnh tại giao điểm)
+function dropCollinear(loop: Loop): Loop {
+  const result = loop.filter((p, i) => {
+    const prev = loop[(i - 1 + loop.length) % loop.length];
+    const next = loop[(i + 1) % loop.length];
+    const length = Math.hypot(next.x - prev.x, next.y - prev.y);
+    return length <= EPSILON || Math.abs(cross(prev, p, next)) / length > 1e-7;
+  });
+  return result.length >= 3 ? result : [];
+}
+
+/**
+ * Vùng được tạo từ nhiều toán hạng (mỗi toán hạng là một tập vòng khép kín, chiều tùy ý): `inside` nhận số vòng quấn
+ * của từng toán hạng tại một điểm và cho biết điểm đó có thuộc vùng kết quả không. Các cạnh được chia tại mọi giao
+ * điểm; một đoạn là biên của kết quả khi đúng một phía của nó thuộc vùng. Kết quả là các vòng đã định hướng.
+ */
+export function combineLoops(operands: PathPoint[][][], inside: (windings: number[]) => boolean): Loop[] {
+  const edges: Edge[] = [];
+  operands.forEach((loops, operand) => loops.forEach(loop => {
+    loop.forEach((a, i) => {
+      const b = loop[(i + 1) % loop.length];
+      if (Math.hypot(b.x - a.x, b.y - a.y) > EPSILON) edges.push({ a, b, operand });
+    });
+  }));
+  if (edges.length === 0) return [];
+
+  // Giao điểm giữa các cạnh, tìm trong các cặp có khung bao chồng nhau
+  const splits: { t: number; p: PathPoint }[][] = edges.map(() => []);
+  for (const [i, j] of overlappingPairs(edges.map(edgeBox))) {
+    const e = edges[i];
+    const f = edges[j];
+    if (e.a === f.a || e.a === f.b || e.b === f.a || e.b === f.b) continue;
+    const rx = e.b.x - e.a.x;
+    const ry = e.b.y - e.a.y;
+    const sx = f.b.x - f.a.x;
+    const sy = f.b.y - f.a.y;
+    const denominator = rx * sy - ry * sx;
+    if (Math.abs(denominator) < EPSILON) continue;
+    const t = ((f.a.x - e.a.x) * sy - (f.a.y - e.a.y) * sx) / denominator;
+    const u = ((f.a.x - e.a.x) * ry - (f.a.y - e.a.y) * rx) / denominator;
+    if (t < -EPSILON || t > 1 + EPSILON || u < -EPSILON || u > 1 + EPSILON) continue;
+    // Giao tại đầu mút thì dùng chính đỉnh đó để hai đoạn nối liền nhau
+    const p = t <= EPSILON ? e.a : t >= 1 - EPSILON ? e.b : u <= EPSILON ? f.a : u >= 1 - EPSILON ? f.b : { x: e.a.x + t * rx, y: e.a.y + t * ry };
+    if (t > EPSILON && t < 1 - EPSILON) splits[i].push({ t, p });
+    if (u > EPSILON && u < 1 - EPSILON) splits[j].push({ t: u, p });
+  }
+
+  // Khoảng lệch tương đối với độ lớn tọa độ để không chìm trong sai số làm tròn
+  const extent = edges.reduce((max, { a }) => Math.max(max, Math.abs(a.x), Math.abs(a.y)), 1);
+  const offset = extent * 1e-7;
+  const windingAt = windingIndex(edges, operands.length);
+  const key = (p: PathPoint) => `${Math.round(p.x * 1e6)},${Math.round(p.y * 1e6)}`;
+  const starts = new Map<string, [PathPoint, PathPoint][]>();
+  edges.forEach((edge, i) => {
+    const points = [edge.a, ...splits[i].sort((s1, s2) => s1.t - s2.t).map(split => split.p), edge.b];
+    for (let k = 1; k < points.length; k++) {
+      const a = points[k - 1];
+      const b = points[k];
+      const length = Math.hypot(b.x - a.x, b.y - a.y);
+      if (length <= EPSILON) continue;
+      // Xét hai điểm sát hai bên trung điểm của đoạn
+      const nx = (-(b.y - a.y) / length) * offset;
+      const ny = ((b.x - a.x) / length) * offset;
+      const mx = (a.x + b.x) / 2;
+      const my = (a.y + b.y) / 2;
+      const left = inside(windingAt({ x: mx + nx, y: my + ny }));
+      const right = inside(windingAt({ x: mx - nx, y: my - ny }));
+      if (left === right) continue;
+      const piece: [PathPoint, PathPoint] = left ? [a, b] : [b, a];
+      const list = starts.get(key(piece[0]));
+      if (list) list.push(piece);
+      else starts.set(key(piece[0]), [piece]);
+    }
+  });
+
+  // Nối các đoạn biên thành vòng
+  const loops: Loop[] = [];
+  for (const list of starts.values()) {
+    while (list.length > 0) {
+      const [first] = list.splice(0, 1);
+      const loop: Loop = [first[0]];
+      const startKey = key(first[0]);
+      let current = first;
+      while (key(current[1]) !== startKey) {
+        loop.push(current[1]);
+        const next = starts.get(key(current[1]));
+        if (!next || next.length === 0) break;
+        [current] = next.splice(0, 1);
+      }
+      const cleaned = dropCollinear(loop);
+      if (cleaned.length > 0 && Math.abs(loopArea(cleaned)) > EPSILON) loops.push(cleaned);
+    }
+  }
+  return loops;
+}
+
+/** Vùng tô của các đường đã làm phẳng (mọi subpath được coi là khép kín) theo quy tắc nonzero hoặc even-odd. */
+export function regionLoops(polylines: Polyline[], evenOdd: boolean): Loop[] {
+  const loops = polylines.map(line => line.points).filter(points => points.length > 2);
+  return combineLoops([loops], ([winding]) => (evenOdd ? winding % 2 !== 0 : winding !== 0));
+}
+
+/** Hợp của nhiều vùng. */
+export const unionLoops = (...regions: Loop[][]): Loop[] => combineLoops(regions, windings => windings.some(w => w > 0));
+
+/** Phần của `region` nằm ngoài `cutter`. */
+export const subtractLoops = (region: Loop[], cutter: Loop[]): Loop[] => combineLoops([region, cutter], ([a, b]) => a > 0 && b <= 0);
+
+/** Phần chung của hai vùng. */
+export const intersectLoops = (region: Loop[], other: Loop[]): Loop[] => combineLoops([region, other], ([a, b]) => a > 0 && b > 0);
+
+/**
+ * Đường dời thô của một vòng: mỗi cạnh được dời `distance` sang phải (ra ngoài vùng; âm là vào trong). Ở đỉnh mà hai
+ * cạnh dời tách xa nhau, một cung tròn quanh đỉnh lấp khoảng hở; ở đỉnh mà chúng chồng lên nhau, đường đi qua chính
+ * đỉnh đó. Các nút và vòng ngược chiều sinh ra được loại bỏ khi lấy vùng có số vòng quấn dương.
+ */
+function rawOffset(loop: Loop, distance: number, tolerance: number): PathPoint[] {
+  const radius = Math.abs(distance);
+  // Bước góc để dây cung không lệch khỏi cung tròn quá `tolerance`
+  const step = 2 * Math.acos(Math.max(-1, 1 - Math.min(tolerance, radius) / radius));
+  const result: PathPoint[] = [];
+  const count = loop.length;
+  const normals = loop.map((a, i) => {
+    const b = loop[(i + 1) % count];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    return { x: ((b.y - a.y) / length) * distance, y: (-(b.x - a.x) / length) * distance };
+  });
+  loop.forEach((v, i) => {
+    const n1 = normals[(i - 1 + count) % count];
+    const n2 = normals[i];
+    const from = { x: v.x + n1.x, y: v.y + n1.y };
+    const to = { x: v.x + n2.x, y: v.y + n2.y };
+    // sin và cos của góc rẽ; rẽ trái (góc lồi của vùng) khi sin > 0
+    const turn = (n1.x * n2.y - n1.y * n2.x) / (radius * radius);
+    const dot = (n1.x * n2.x + n1.y * n2.y) / (radius * radius);
+    result.push(from);
+    if (turn * Math.sign(distance) > EPSILON || (Math.abs(turn) <= EPSILON && dot < 0)) {
+      const start = Math.atan2(n1.y, n1.x);
+      let delta = Math.atan2(n2.y, n2.x) - start;
+      if (delta > Math.PI) delta -= 2 * Math.PI;
+      if (delta < -Math.PI) delta += 2 * Math.PI;
+      const steps = Math.ceil(Math.abs(delta) / step);
+      for (let k = 1; k < steps; k++) {
+        const angle = start + (delta * k) / steps;
+        result.push({ x: v.x + Math.cos(angle) * radius, y: v.y + Math.sin(angle) * radius });
+      }
+    } else if (Math.abs(turn) > EPSILON) {
+      result.push(v);
+    }
+    result.push(to);
+  });
+  return result;
+}
+
+/**
+ * Dời biên của một vùng đi `distance` (dương: nở ra, âm: co vào), bo tròn ở các góc lồi khi nở và góc lõm khi co.
+ * Cung tròn được chia đoạn với sai số `tolerance`.
+ */
+export function offsetLoops(loops: Loop[], distance: number, tolerance: number): Loop[] {
+  if (Math.abs(distance) <= EPSILON) return loops;
+  const raw = loops.filter(loop => loop.length > 2).map(loop => rawOffset(loop, distance, Math.max(tolerance, EPSILON)));
+  return combineLoops([raw], ([winding]) => winding > 0);
+}
+
+const fmt = (n: number) => String(Math.round(n * 1000) / 1000);
+
+export const loopsToPathData = (loops: Loop[]): string =>
+  loops.map(loop => `M${loop.map(p => `${fmt(p.x)} ${fmt(p.y)}`).join('L')}Z`).join('');
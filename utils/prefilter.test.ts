@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { PrefilterOptions } from '../types';
+import { DEFAULT_PREFILTER_OPTIONS, isPrefilterActive, prefilterImageData } from './prefilter';
+
+const options = (overrides: Partial<PrefilterOptions>): PrefilterOptions => ({ ...DEFAULT_PREFILTER_OPTIONS, ...overrides });
+
+// Ảnh xám width × height từ các giá trị độ sáng, alpha 200
+function grayImage(values: number[], width = values.length): ImageData {
+  const data = new Uint8ClampedArray(values.length * 4);
+  values.forEach((v, p) => data.set([v, v, v, 200], p * 4));
+  return { width, height: values.length / width, data } as unknown as ImageData;
+}
+
+const channel = (data: Uint8ClampedArray) => Array.from(data.filter((_, i) => i % 4 === 0));
+
+// Nửa trái tối, nửa phải sáng, với một pixel nhiễu ở mỗi nửa
+const EDGE = [
+  20, 20, 20, 220, 220, 220,
+  20, 90, 20, 220, 150, 220,
+  20, 20, 20, 220, 220, 220,
+];
+
+describe('isPrefilterActive', () => {
+  it('is active with a filter or a tone adjustment', () => {
+    expect(isPrefilterActive(DEFAULT_PREFILTER_OPTIONS)).toBe(false);
+    expect(isPrefilterActive(options({ mode: 'median' }))).toBe(true);
+    expect(isPrefilterActive(options({ contrast: 10 }))).toBe(true);
+    expect(isPrefilterActive(options({ whitePoint: 240 }))).toBe(true);
+  });
+});
+
+describe('prefilterImageData', () => {
+  it('returns a copy when nothing is enabled', () => {
+    const image = grayImage(EDGE, 6);
+    const out = prefilterImageData(image, DEFAULT_PREFILTER_OPTIONS);
+    expect(out).not.toBe(image.data);
+    expect(Array.from(out)).toEqual(Array.from(image.data));
+  });
+
+  it('removes noise with the median filter while keeping the edge', () => {
+    const out = channel(prefilterImageData(grayImage(EDGE, 6), options({ mode: 'median', radius: 1 })));
+    expect(out[7]).toBe(20);
+    expect(out[10]).toBe(220);
+    expect([out[0], out[1], out[4], out[5]]).toEqual([20, 20, 220, 220]);
+  });
+
+  it('smooths noise but not the edge with the edge-preserving filters', () => {
+    (['bilateral', 'meanShift'] as const).forEach(mode => {
+      const out = channel(prefilterImageData(grayImage(EDGE, 6), options({ mode, radius: 1, strength: 60 })));
+      expect(out[7]).toBeLessThan(80);
+      expect(out[10]).toBeGreaterThan(160);
+      expect(out[2]).toBeLessThan(60);
+      expect(out[3]).toBeGreaterThan(180);
+    });
+  });
+
+  it('posterizes to the given number of levels', () => {
+    const out = channel(prefilterImageData(grayImage([0, 60, 100, 200, 255]), options({ mode: 'posterize', levels: 3 })));
+    expect(out).toEqual([0, 0, 128, 255, 255]);
+  });
+
+  it('stretches levels and applies brightness', () => {
+    expect(channel(prefilterImageData(grayImage([50, 150, 250]), options({ blackPoint: 50, whitePoint: 150 })))).toEqual([0, 255, 255]);
+    expect(channel(prefilterImageData(grayImage([0, 100]), options({ brightness: 10 })))).toEqual([26, 126]);
+  });
+
+  it('keeps alpha and reports progress', () => {
+    const progress: number[] = [];
+    const out = prefilterImageData(grayImage(EDGE, 6), options({ mode: 'median', contrast: 50 }), p => progress.push(p));
+    expect(out.filter((_, i) => i % 4 === 3).every(a => a === 200)).toBe(true);
+    expect(progress[progress.length - 1]).toBe(1);
+  });
+});
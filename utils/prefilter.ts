@@ -0,0 +1,190 @@
+import type { PrefilterOptions } from '../types';
+
+export const DEFAULT_PREFILTER_OPTIONS: PrefilterOptions = {
+  mode: 'none',
+  radius: 2,
+  strength: 20,
+  levels: 6,
+  brightness: 0,
+  contrast: 0,
+  blackPoint: 0,
+  whitePoint: 255,
+};
+
+// Số lần lặp tối đa của mean-shift cho mỗi pixel
+const MEAN_SHIFT_ITERATIONS = 5;
+
+const hasToneAdjustment = (options: PrefilterOptions) =>
+  options.brightness !== 0 || options.contrast !== 0 || options.blackPoint > 0 || options.whitePoint < 255;
+
+export const isPrefilterActive = (options: PrefilterOptions): boolean => options.mode !== 'none' || hasToneAdjustment(options);
+
+// Bảng tra levels → độ sáng → tương phản cho một kênh
+function toneCurve({ brightness, contrast, blackPoint, whitePoint }: PrefilterOptions): Uint8ClampedArray {
+  const lut = new Uint8ClampedArray(256);
+  const range = Math.max(1, whitePoint - blackPoint);
+  const c = contrast * 2.55;
+  const factor = (259 * (c + 255)) / (255 * (259 - c));
+  for (let v = 0; v < 256; v++) {
+    const leveled = ((v - blackPoint) / range) * 255;
+    lut[v] = factor * (leveled + brightness * 2.55 - 128) + 128;
+  }
+  return lut;
+}
+
+/**
+ * Lọc trung vị từng kênh theo thuật toán Huang: biểu đồ tần suất của cửa sổ được trượt dọc mỗi hàng,
+ * trung vị được dịch dần thay vì tìm lại từ đầu.
+ */
+function medianFilter(src: Uint8ClampedArray, out: Uint8ClampedArray, width: number, height: number, radius: number, onRow: (y: number) => void) {
+  const histogram = new Int32Array(256);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height - 1, y + radius);
+    for (let channel = 0; channel < 3; channel++) {
+      histogram.fill(0);
+      let total = 0;
+      const addColumn = (x: number, sign: number) => {
+        for (let ny = y0; ny <= y1; ny++) histogram[src[(ny * width + x) * 4 + channel]] += sign;
+        total += sign * (y1 - y0 + 1);
+      };
+      for (let x = 0; x <= Math.min(width - 1, radius); x++) addColumn(x, 1);
+      for (let x = 0; x < width; x++) {
+        if (x > 0) {
+          if (x + radius < width) addColumn(x + radius, 1);
+          if (x - radius - 1 >= 0) addColumn(x - radius - 1, -1);
+        }
+        const half = total >> 1;
+        let sum = 0;
+        let median = 0;
+        while (median < 255 && sum + histogram[median] <= half) sum += histogram[median++];
+        out[(y * width + x) * 4 + channel] = median;
+      }
+    }
+    onRow(y);
+  }
+}
+
+// Lọc song phương: trung bình có trọng số theo khoảng cách không gian và độ khác màu, nên cạnh được giữ lại
+function bilateralFilter(src: Uint8ClampedArray, out: Uint8ClampedArray, width: number, height: number, radius: number, strength: number, onRow: (y: number) => void) {
+  const sigmaSpace = Math.max(1, radius / 2);
+  const sigmaRange = Math.max(1, strength * 2.55);
+  const spatial = new Float64Array((2 * radius + 1) ** 2);
+  for (let dy = -radius, k = 0; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++, k++) spatial[k] = Math.exp(-(dx * dx + dy * dy) / (2 * sigmaSpace * sigmaSpace));
+  }
+  // Trọng số màu theo bình phương khoảng cách RGB
+  const rangeWeight = new Float64Array(3 * 255 * 255 + 1);
+  for (let d = 0; d < rangeWeight.length; d++) rangeWeight[d] = Math.exp(-d / (2 * sigmaRange * sigmaRange));
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const r = src[i], g = src[i + 1], b = src[i + 2];
+      let sumR = 0, sumG = 0, sumB = 0, sumWeight = 0;
+      for (let dy = -radius, k = 0; dy <= radius; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) {
+          k += 2 * radius + 1;
+          continue;
+        }
+        for (let dx = -radius; dx <= radius; dx++, k++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= width) continue;
+          const j = (ny * width + nx) * 4;
+          const dr = src[j] - r, dg = src[j + 1] - g, db = src[j + 2] - b;
+          const weight = spatial[k] * rangeWeight[dr * dr + dg * dg + db * db];
+          sumR += src[j] * weight;
+          sumG += src[j + 1] * weight;
+          sumB += src[j + 2] * weight;
+          sumWeight += weight;
+        }
+      }
+      out[i] = sumR / sumWeight;
+      out[i + 1] = sumG / sumWeight;
+      out[i + 2] = sumB / sumWeight;
+    }
+    onRow(y);
+  }
+}
+
+// Mean-shift trong không gian màu: mỗi pixel dịch dần về trung bình của các pixel lân cận có màu gần nó
+function meanShiftFilter(src: Uint8ClampedArray, out: Uint8ClampedArray, width: number, height: number, radius: number, strength: number, onRow: (y: number) => void) {
+  const colorRadius = Math.max(1, strength * 2.55);
+  const colorRadiusSq = colorRadius * colorRadius;
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height - 1, y + radius);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(width - 1, x + radius);
+      const i = (y * width + x) * 4;
+      let r = src[i], g = src[i + 1], b = src[i + 2];
+      for (let iteration = 0; iteration < MEAN_SHIFT_ITERATIONS; iteration++) {
+        let sumR = 0, sumG = 0, sumB = 0, count = 0;
+        for (let ny = y0; ny <= y1; ny++) {
+          for (let nx = x0; nx <= x1; nx++) {
+            const j = (ny * width + nx) * 4;
+            const dr = src[j] - r, dg = src[j + 1] - g, db = src[j + 2] - b;
+            if (dr * dr + dg * dg + db * db > colorRadiusSq) continue;
+            sumR += src[j];
+            sumG += src[j + 1];
+            sumB += src[j + 2];
+            count++;
+          }
+        }
+        const nextR = sumR / count, nextG = sumG / count, nextB = sumB / count;
+        const shift = Math.abs(nextR - r) + Math.abs(nextG - g) + Math.abs(nextB - b);
+        r = nextR;
+        g = nextG;
+        b = nextB;
+        if (shift < 1) break;
+      }
+      out[i] = r;
+      out[i + 1] = g;
+      out[i + 2] = b;
+    }
+    onRow(y);
+  }
+}
+
+function posterize(data: Uint8ClampedArray, levels: number) {
+  const steps = Math.max(1, Math.round(levels) - 1);
+  for (let i = 0; i < data.length; i += 4) {
+    for (let channel = 0; channel < 3; channel++) data[i + channel] = (Math.round((data[i + channel] / 255) * steps) * 255) / steps;
+  }
+}
+
+/**
+ * Tiền xử lý ảnh trước khi gom nhóm: lọc nhiễu (giữ cạnh) rồi chỉnh tông. Kênh alpha giữ nguyên.
+ * Không dùng DOM nên chạy được trong Web Worker.
+ */
+export function prefilterImageData(
+  imageData: ImageData,
+  options: PrefilterOptions,
+  onProgress?: (progress: number) => void
+): Uint8ClampedArray {
+  const { width, height } = imageData;
+  const src = imageData.data;
+  const out = new Uint8ClampedArray(src);
+  const radius = Math.max(1, Math.round(options.radius));
+  const onRow = (y: number) => {
+    if (onProgress && y % 32 === 0) onProgress(y / height);
+  };
+
+  if (options.mode === 'median') medianFilter(src, out, width, height, radius, onRow);
+  else if (options.mode === 'bilateral') bilateralFilter(src, out, width, height, radius, options.strength, onRow);
+  else if (options.mode === 'meanShift') meanShiftFilter(src, out, width, height, radius, options.strength, onRow);
+  else if (options.mode === 'posterize') posterize(out, options.levels);
+
+  if (hasToneAdjustment(options)) {
+    const lut = toneCurve(options);
+    for (let i = 0; i < out.length; i += 4) {
+      out[i] = lut[out[i]];
+      out[i + 1] = lut[out[i + 1]];
+      out[i + 2] = lut[out[i + 2]];
+    }
+  }
+  onProgress?.(1);
+  return out;
+}
@@ -0,0 +1,133 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import type { ProjectSettings, RasterColorGroup, SVGColorGroup } from '../types';
+import { DEFAULT_BRIDGE_OPTIONS } from './bridges';
+import { DEFAULT_CUT_OPTIONS } from './cutExport';
+import { DEFAULT_DITHER_OPTIONS } from './dithering';
+import { DEFAULT_CLEANUP_OPTIONS } from './labelCleanup';
+import { DEFAULT_PREFILTER_OPTIONS } from './prefilter';
+import { createProject, deserializeGroups, migrateProject, parseProject, serializeGroups } from './project';
+import { DEFAULT_REGISTRATION_OPTIONS } from './registrationMarks';
+import { DEFAULT_SVG_PAINT_OPTIONS } from './svgDefs';
+import { DEFAULT_EXPORT_SETTINGS } from './svgExport';
+import { DEFAULT_TILE_OPTIONS } from './tiling';
+import { DEFAULT_TRACE_OPTIONS } from './tracer';
+import { DEFAULT_TRAP_OPTIONS } from './trapping';
+
+const SETTINGS: ProjectSettings = {
+  tolerance: 20,
+  colorMetric: 'ciede2000',
+  groupingMode: 'count',
+  targetColorCount: 4,
+  vectorizeRaster: true,
+  traceOptions: DEFAULT_TRACE_OPTIONS,
+  bridgeOptions: { ...DEFAULT_BRIDGE_OPTIONS, insertBridges: true },
+  registrationOptions: DEFAULT_REGISTRATION_OPTIONS,
+  exportSettings: { ...DEFAULT_EXPORT_SETTINGS, unit: 'mm', dpi: 300 },
+  svgPaintOptions: DEFAULT_SVG_PAINT_OPTIONS,
+  cleanupOptions: DEFAULT_CLEANUP_OPTIONS,
+  trapOptions: DEFAULT_TRAP_OPTIONS,
+  prefilterOptions: DEFAULT_PREFILTER_OPTIONS,
+  ditherOptions: DEFAULT_DITHER_OPTIONS,
+  cutOptions: DEFAULT_CUT_OPTIONS,
+  tileOptions: DEFAULT_TILE_OPTIONS,
+};
+
+function svgElements(markup: string): SVGElement[] {
+  const doc = new DOMParser().parseFromString(`<svg xmlns="http://www.w3.org/2000/svg">${markup}</svg>`, 'image/svg+xml');
+  return Array.from(doc.documentElement.children) as SVGElement[];
+}
+
+const newProject = () => createProject({
+  source: { name: 'logo.svg', type: 'image/svg+xml', content: '<svg/>' },
+  settings: SETTINGS,
+  dimensions: { width: 100, height: 50, viewBox: '0 0 100 50' },
+  isSvgSource: true,
+  groups: [],
+});
+
+describe('project files', () => {
+  it('round-trips SVG and raster layers', () => {
+    const [gradient] = svgElements('<linearGradient id="g"><stop offset="0" stop-color="red"/></linearGradient>');
+    const svgGroup: SVGColorGroup = {
+      representativeColor: { r: 255, g: 0, b: 0 },
+      elements: svgElements('<path d="M0 0H10V10Z" fill="url(#g)"/><circle r="3" fill="red"/>'),
+      defs: [gradient],
+    };
+    const rasterGroup: RasterColorGroup = {
+      representativeColor: { r: 0, g: 0, b: 255 },
+      memberColors: [{ r: 0, g: 0, b: 250 }, { r: 0, g: 0, b: 255 }],
+      totalCount: 42,
+    };
+
+    const text = JSON.stringify({ ...newProject(), groups: serializeGroups([svgGroup, rasterGroup]) });
+    const project = parseProject(text);
+    expect(project.settings).toEqual(SETTINGS);
+    expect(project.dimensions).toEqual({ width: 100, height: 50, viewBox: '0 0 100 50' });
+
+    const [svg, raster] = deserializeGroups(project.groups) as [SVGColorGroup, RasterColorGroup];
+    expect(svg.representativeColor).toEqual(svgGroup.representativeColor);
+    expect(svg.elements.map(el => el.outerHTML)).toEqual(svgGroup.elements.map(el => el.outerHTML));
+    expect(svg.defs!.map(el => el.getAttribute('id'))).toEqual(['g']);
+    expect(raster).toEqual(rasterGroup);
+  });
+
+  it('keeps the pixel sets of split and hand-edited raster layers', () => {
+    const region = Uint32Array.from([0, 5, 70000, 4294967295]);
+    const claimedPixels = Uint32Array.from([9]);
+    const excludedPixels = Uint32Array.from([1, 2]);
+    const [group] = deserializeGroups(serializeGroups([
+      { representativeColor: { r: 1, g: 2, b: 3 }, memberColors: [], totalCount: 4, region, claimedPixels, excludedPixels },
+    ])) as RasterColorGroup[];
+    expect(Array.from(group.region!)).toEqual(Array.from(region));
+    expect(Array.from(group.claimedPixels!)).toEqual([9]);
+    expect(Array.from(group.excludedPixels!)).toEqual([1, 2]);
+  });
+
+  it('keeps the paint colour, trap offset and cleanup override chosen for a layer', () => {
+    const targetColor = { color: { r: 10, g: 20, b: 30 }, name: 'Sky Blue' };
+    const cleanup = { holeSize: 0, smoothing: 2 };
+    const [group] = deserializeGroups(serializeGroups([{ representativeColor: { r: 1, g: 2, b: 3 }, targetColor, trapOffset: 0, cleanup, memberColors: [], totalCount: 1 }]));
+    expect(group.targetColor).toEqual(targetColor);
+    expect(group.trapOffset).toBe(0);
+    expect((group as RasterColorGroup).cleanup).toEqual(cleanup);
+  });
+
+  it('stamps the format, version and save time', () => {
+    const project = newProject();
+    expect(project.format).toBe('stencil-project');
+    expect(project.version).toBe(2);
+    expect(Number.isNaN(Date.parse(project.savedAt))).toBe(false);
+  });
+
+  it('migrates version 1 projects by filling the option groups and fields they are missing', () => {
+    const version1 = (settings: unknown) => JSON.stringify({ ...newProject(), version: 1, settings });
+    const { cleanupOptions: _, ...olderSettings } = SETTINGS;
+    const migrated = parseProject(version1(olderSettings));
+    expect(migrated.version).toBe(2);
+    expect(migrated.settings).toEqual(SETTINGS);
+    expect(parseProject(version1({ ...SETTINGS, cleanupOptions: { enabled: true } })).settings.cleanupOptions)
+      .toEqual({ ...DEFAULT_CLEANUP_OPTIONS, enabled: true });
+    const { scaleRaster: __, ...olderExport } = SETTINGS.exportSettings;
+    expect(parseProject(version1({ ...SETTINGS, exportSettings: olderExport })).settings.exportSettings.scaleRaster).toBe(false);
+  });
+
+  it('leaves projects of the current version unchanged', () => {
+    const project = newProject();
+    expect(migrateProject(project)).toBe(project);
+  });
+
+  it('rejects files that are not stencil projects', () => {
+    expect(() => parseProject('{')).toThrow('not valid JSON');
+    expect(() => parseProject('{"format":"other"}')).toThrow('not a stencil project');
+    expect(() => parseProject(JSON.stringify({ ...newProject(), version: 99 }))).toThrow('Unsupported project version: 99');
+    expect(() => parseProject(JSON.stringify({ ...newProject(), version: 0 }))).toThrow('Unsupported project version: 0');
+    expect(() => parseProject(JSON.stringify({ ...newProject(), source: null }))).toThrow('missing its source image');
+    expect(() => parseProject(JSON.stringify({ ...newProject(), groups: undefined }))).toThrow('missing its layers');
+  });
+
+  it('rejects broken SVG layer data', () => {
+    expect(() => deserializeGroups([{ kind: 'svg', representativeColor: { r: 0, g: 0, b: 0 }, elements: ['<path'], defs: [] }]))
+      .toThrow('invalid SVG layer data');
+  });
+});
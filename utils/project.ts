@@ -0,0 +1,166 @@
+import type { SVGColorGroup, RasterColorGroup, SerializedColorGroup, StencilProject, ProjectSettings } from '../types';
+import { DEFAULT_CLEANUP_OPTIONS } from './labelCleanup';
+import { DEFAULT_TRAP_OPTIONS } from './trapping';
+import { DEFAULT_PREFILTER_OPTIONS } from './prefilter';
+import { DEFAULT_DITHER_OPTIONS } from './dithering';
+import { DEFAULT_CUT_OPTIONS } from './cutExport';
+import { DEFAULT_TILE_OPTIONS } from './tiling';
+import { DEFAULT_EXPORT_SETTINGS } from './svgExport';
+
+export const PROJECT_FILE_EXTENSION = '.stencil.json';
+const PROJECT_FORMAT = 'stencil-project';
+const PROJECT_VERSION = 2;
+
+// Các nhóm tùy chọn được thêm, hoặc có thêm trường, khi định dạng dự án còn ở phiên bản 1; tệp bản 1 có thể thiếu chúng
+const ADDED_SETTINGS: Pick<ProjectSettings, 'exportSettings' | 'cleanupOptions' | 'trapOptions' | 'prefilterOptions' | 'ditherOptions' | 'cutOptions' | 'tileOptions'> = {
+  exportSettings: DEFAULT_EXPORT_SETTINGS,
+  cleanupOptions: DEFAULT_CLEANUP_OPTIONS,
+  trapOptions: DEFAULT_TRAP_OPTIONS,
+  prefilterOptions: DEFAULT_PREFILTER_OPTIONS,
+  ditherOptions: DEFAULT_DITHER_OPTIONS,
+  cutOptions: DEFAULT_CUT_OPTIONS,
+  tileOptions: DEFAULT_TILE_OPTIONS,
+};
+
+// Bản 1 → 2: điền giá trị mặc định cho các nhóm tùy chọn, và các trường trong từng nhóm, mà tệp còn thiếu
+function fillAddedSettings(project: StencilProject): StencilProject {
+  const settings = { ...project.settings };
+  (Object.keys(ADDED_SETTINGS) as (keyof typeof ADDED_SETTINGS)[]).forEach(<K extends keyof typeof ADDED_SETTINGS>(key: K) => {
+    settings[key] = { ...ADDED_SETTINGS[key], ...project.settings[key] };
+  });
+  return { ...project, settings };
+}
+
+// Bước chuyển từ mỗi phiên bản cũ lên phiên bản kế tiếp, theo phiên bản nguồn
+const MIGRATIONS: Record<number, (project: StencilProject) => StencilProject> = {
+  1: fillAddedSettings,
+};
+
+const isSupportedVersion = (version: unknown): boolean =>
+  version === PROJECT_VERSION || (typeof version === 'number' && version in MIGRATIONS);
+
+/** Đưa một dự án hoặc phiên lưu từ phiên bản cũ lên phiên bản hiện tại của định dạng. */
+export function migrateProject(project: StencilProject): StencilProject {
+  let migrated = project;
+  while (migrated.version < PROJECT_VERSION) {
+    migrated = { ...MIGRATIONS[migrated.version](migrated), version: migrated.version + 1 };
+  }
+  return migrated;
+}
+
+export const isProjectFile = (file: File): boolean =>
+  file.name.toLowerCase().endsWith('.json') || file.type === 'application/json';
+
+// Tập pixel (Uint32Array) được lưu dưới dạng base64 để tệp dự án không quá lớn
+function encodePixels(pixels: Uint32Array): string {
+  const bytes = new Uint8Array(pixels.buffer, pixels.byteOffset, pixels.byteLength);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+}
+
+function decodePixels(encoded: string): Uint32Array {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Uint32Array(bytes.buffer);
+}
+
+const PIXEL_SET_KEYS = ['region', 'claimedPixels', 'excludedPixels'] as const;
+type PixelSetKey = typeof PIXEL_SET_KEYS[number];
+
+function encodePixelSets(group: RasterColorGroup): Partial<Record<PixelSetKey, string>> {
+  const encoded: Partial<Record<PixelSetKey, string>> = {};
+  PIXEL_SET_KEYS.forEach(key => {
+    const pixels = group[key];
+    if (pixels) encoded[key] = encodePixels(pixels);
+  });
+  return encoded;
+}
+
+function decodePixelSets(group: Extract<SerializedColorGroup, { kind: 'raster' }>): Partial<Record<PixelSetKey, Uint32Array>> {
+  const decoded: Partial<Record<PixelSetKey, Uint32Array>> = {};
+  PIXEL_SET_KEYS.forEach(key => {
+    const pixels = group[key];
+    if (pixels) decoded[key] = decodePixels(pixels);
+  });
+  return decoded;
+}
+
+// Các lựa chọn riêng của lớp (màu sơn, độ loang), giống nhau ở cả hai dạng nhóm
+const layerOptions = (group: Pick<SVGColorGroup, 'targetColor' | 'trapOffset'>): Pick<SVGColorGroup, 'targetColor' | 'trapOffset'> => ({
+  ...(group.targetColor ? { targetColor: group.targetColor } : {}),
+  ...(group.trapOffset !== undefined ? { trapOffset: group.trapOffset } : {}),
+});
+
+export function serializeGroups(groups: (SVGColorGroup | RasterColorGroup)[]): SerializedColorGroup[] {
+  return groups.map(group =>
+    'elements' in group
+      ? {
+          kind: 'svg',
+          representativeColor: group.representativeColor,
+          ...layerOptions(group),
+          elements: group.elements.map(el => el.outerHTML),
+          defs: (group.defs ?? []).map(def => def.outerHTML),
+        }
+      : {
+          kind: 'raster',
+          representativeColor: group.representativeColor,
+          ...layerOptions(group),
+          ...(group.cleanup ? { cleanup: group.cleanup } : {}),
+          memberColors: group.memberColors,
+          totalCount: group.totalCount,
+          ...encodePixelSets(group),
+        }
+  );
+}
+
+// Phân tích một danh sách phần tử SVG dạng chuỗi trong cùng một tài liệu SVG
+function parseSvgFragments(fragments: string[]): SVGElement[] {
+  if (fragments.length === 0) return [];
+  const markup = `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">${fragments.join('')}</svg>`;
+  const doc = new DOMParser().parseFromString(markup, 'image/svg+xml');
+  if (doc.querySelector('parsererror')) throw new Error('The project contains invalid SVG layer data.');
+  return Array.from(doc.documentElement.children) as SVGElement[];
+}
+
+export function deserializeGroups(groups: SerializedColorGroup[]): (SVGColorGroup | RasterColorGroup)[] {
+  return groups.map(group =>
+    group.kind === 'svg'
+      ? {
+          representativeColor: group.representativeColor,
+          ...layerOptions(group),
+          elements: parseSvgFragments(group.elements),
+          defs: parseSvgFragments(group.defs),
+        }
+      : {
+          representativeColor: group.representativeColor,
+          ...layerOptions(group),
+          ...(group.cleanup ? { cleanup: group.cleanup } : {}),
+          memberColors: group.memberColors,
+          totalCount: group.totalCount,
+          ...decodePixelSets(group),
+        }
+  );
+}
+
+/** Đọc và kiểm tra nội dung một tệp dự án. */
+export function parseProject(text: string): StencilProject {
+  let data: Partial<StencilProject>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The project file is not valid JSON.');
+  }
+  if (!data || data.format !== PROJECT_FORMAT) throw new Error('This is not a stencil project file.');
+  if (!isSupportedVersion(data.version)) throw new Error(`Unsupported project version: ${data.version}.`);
+  if (!data.source || typeof data.source.content !== 'string' || typeof data.source.type !== 'string') {
+    throw new Error('The project file is missing its source image.');
+  }
+  if (!Array.isArray(data.groups)) throw new Error('The project file is missing its layers.');
+  return migrateProject(data as StencilProject);
+}
+
+export function createProject(project: Omit<StencilProject, 'format' | 'version' | 'savedAt'>): StencilProject {
+  return { format: PROJECT_FORMAT, version: PROJECT_VERSION, savedAt: new Date().toISOString(), ...project };
+}
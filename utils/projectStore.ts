@@ -0,0 +1,41 @@
+import type { StencilProject } from '../types';
+import { migrateProject } from './project';
+
+// Tự động lưu phiên làm việc hiện tại vào IndexedDB để khôi phục sau khi tải lại trang
+const DB_NAME = 'stencil-art';
+const STORE_NAME = 'sessions';
+const SESSION_KEY = 'current';
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') return reject(new Error('IndexedDB is not available.'));
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function runTransaction<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDatabase().then(db => new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = action(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  }));
+}
+
+export const saveSession = (project: StencilProject): Promise<void> =>
+  runTransaction('readwrite', store => store.put(project, SESSION_KEY)).then(() => undefined);
+
+export const loadSession = (): Promise<StencilProject | null> =>
+  runTransaction<StencilProject | undefined>('readonly', store => store.get(SESSION_KEY)).then(project => (project ? migrateProject(project) : null));
+
+export const clearSession = (): Promise<void> =>
+  runTransaction('readwrite', store => store.delete(SESSION_KEY)).then(() => undefined);
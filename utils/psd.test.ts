@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import type { LayerImage } from '../types';
+import { encodePsd } from './psd';
+
+// Lớp 4×3 chỉ có một khối 2×1 đặc màu tại (1, 1)
+function blockLayer(name: string): LayerImage {
+  const pixels = new Uint8ClampedArray(4 * 3 * 4);
+  [5, 6].forEach(p => pixels.set([200, 10, 20, 255], p * 4));
+  return { name, pixels };
+}
+
+const encode = async (layers: LayerImage[], dpi = 150) => {
+  const blob = await encodePsd(4, 3, layers.length, async index => layers[index], dpi);
+  return new DataView(await blob.arrayBuffer());
+};
+
+const ascii = (view: DataView, offset: number, length: number) =>
+  String.fromCharCode(...new Uint8Array(view.buffer, offset, length));
+
+describe('encodePsd', () => {
+  it('writes an 8-bit RGB header with the document size', async () => {
+    const view = await encode([blockLayer('#C80A14')]);
+    expect(ascii(view, 0, 4)).toBe('8BPS');
+    expect(view.getUint16(4)).toBe(1);
+    expect(view.getUint16(12)).toBe(3);
+    expect(view.getUint32(14)).toBe(3);
+    expect(view.getUint32(18)).toBe(4);
+    expect(view.getUint16(22)).toBe(8);
+    expect(view.getUint16(24)).toBe(3);
+  });
+
+  it('stores the resolution and one record per layer cropped to its pixels', async () => {
+    const view = await encode([blockLayer('#C80A14'), { name: 'empty', pixels: new Uint8ClampedArray(4 * 3 * 4) }]);
+    let pos = 26;
+    pos += 4 + view.getUint32(pos); // Bảng màu
+    const resourcesLength = view.getUint32(pos);
+    expect(ascii(view, pos + 4, 4)).toBe('8BIM');
+    expect(view.getUint16(pos + 8)).toBe(0x03ed);
+    expect(view.getUint32(pos + 16)).toBe(150 * 65536);
+    pos += 4 + resourcesLength;
+
+    const sectionLength = view.getUint32(pos);
+    expect(sectionLength % 2).toBe(0);
+    expect(view.getInt16(pos + 8)).toBe(2);
+    pos += 10;
+    // Bản ghi lớp đầu tiên: khung (top, left, bottom, right), 4 kênh, blend mode, tên Pascal
+    expect([0, 4, 8, 12].map(offset => view.getInt32(pos + offset))).toEqual([1, 1, 2, 3]);
+    expect(view.getUint16(pos + 16)).toBe(4);
+    const blendAt = pos + 18 + 4 * 6;
+    expect(ascii(view, blendAt, 8)).toBe('8BIMnorm');
+    const nameAt = blendAt + 16 + 8;
+    expect(ascii(view, nameAt + 1, view.getUint8(nameAt))).toBe('#C80A14');
+  });
+
+  it('rejects documents wider than the PSD limit', async () => {
+    await expect(encodePsd(30001, 1, 0, async () => blockLayer('x'), 72)).rejects.toThrow('30000');
+  });
+});
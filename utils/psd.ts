@@ -0,0 +1,216 @@
+import type { LayerImage } from '../types';
+import { packBits, packBitsBound } from './packBits';
+
+// Giới hạn kích thước của PSD phiên bản 1 (PSB không được hỗ trợ)
+const MAX_PSD_DIMENSION = 30000;
+const MAX_PSD_SIZE = 0xffffffff;
+
+interface Rect {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+// Kênh RGBA theo thứ tự ghi trong bản ghi lớp: id của kênh (-1 là alpha) và vị trí byte trong pixel
+const LAYER_CHANNELS: [number, number][] = [[-1, 3], [0, 0], [1, 1], [2, 2]];
+
+const encoder = new TextEncoder();
+
+// Các số trong PSD được ghi theo big-endian (mặc định của DataView)
+function record(size: number, write: (view: DataView) => void): Uint8Array {
+  const bytes = new Uint8Array(size);
+  write(new DataView(bytes.buffer));
+  return bytes;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    out.set(part, offset);
+    offset += part.length;
+  });
+  return out;
+}
+
+const padTo = (length: number, multiple: number) => Math.ceil(length / multiple) * multiple;
+
+// Khung bao các pixel không trong suốt; null nếu lớp trống
+function opaqueBounds(pixels: Uint8ClampedArray, width: number, height: number): Rect | null {
+  let top = height, left = width, bottom = 0, right = 0;
+  for (let y = 0, i = 3; y < height; y++) {
+    for (let x = 0; x < width; x++, i += 4) {
+      if (pixels[i] === 0) continue;
+      if (y < top) top = y;
+      if (x < left) left = x;
+      if (y >= bottom) bottom = y + 1;
+      if (x >= right) right = x + 1;
+    }
+  }
+  return bottom > top ? { top, left, bottom, right } : null;
+}
+
+/** Nén RLE các hàng của một kênh (byte `channel` trong mỗi pixel RGBA) trong khung `rect`. */
+function packPlane(pixels: Uint8ClampedArray, width: number, channel: number, rect: Rect): { rowLengths: number[]; data: Uint8Array } {
+  const rowWidth = rect.right - rect.left;
+  const row = new Uint8Array(rowWidth);
+  const out = new Uint8Array((rect.bottom - rect.top) * packBitsBound(rowWidth));
+  const rowLengths: number[] = [];
+  let pos = 0;
+  for (let y = rect.top; y < rect.bottom; y++) {
+    for (let x = 0, i = (y * width + rect.left) * 4 + channel; x < rowWidth; x++, i += 4) row[x] = pixels[i];
+    const next = packBits(row, 0, rowWidth, out, pos);
+    rowLengths.push(next - pos);
+    pos = next;
+  }
+  return { rowLengths, data: out.slice(0, pos) };
+}
+
+// Dữ liệu kênh nén RLE: mã nén 1, độ dài từng hàng (2 byte), rồi các hàng
+function rleChannel(planes: { rowLengths: number[]; data: Uint8Array }[]): Uint8Array {
+  const rowLengths = planes.flatMap(plane => plane.rowLengths);
+  const header = record(2 + rowLengths.length * 2, view => {
+    view.setUint16(0, 1);
+    rowLengths.forEach((length, i) => view.setUint16(2 + i * 2, length));
+  });
+  return concat([header, ...planes.map(plane => plane.data)]);
+}
+
+// Tên Pascal (ASCII, tối đa 255 byte) được đệm tới bội số của 4
+function pascalName(name: string): Uint8Array {
+  const ascii = encoder.encode(name.replace(/[^\x20-\x7e]/g, '?')).slice(0, 255);
+  const bytes = new Uint8Array(padTo(ascii.length + 1, 4));
+  bytes[0] = ascii.length;
+  bytes.set(ascii, 1);
+  return bytes;
+}
+
+// Khối 'luni': tên lớp dạng Unicode (UTF-16BE) để giữ được tên sơn có dấu
+function unicodeName(name: string): Uint8Array {
+  const size = padTo(4 + name.length * 2, 4);
+  return record(12 + size, view => {
+    encoder.encodeInto('8BIMluni', new Uint8Array(view.buffer, 0, 8));
+    view.setUint32(8, size);
+    view.setUint32(12, name.length);
+    for (let i = 0; i < name.length; i++) view.setUint16(16 + i * 2, name.charCodeAt(i));
+  });
+}
+
+interface EncodedLayer {
+  name: string;
+  rect: Rect;
+  channels: Uint8Array[]; // Theo thứ tự của LAYER_CHANNELS
+}
+
+function encodeLayer(layer: LayerImage, width: number, height: number): EncodedLayer {
+  const rect = opaqueBounds(layer.pixels, width, height);
+  if (!rect) {
+    // Lớp trống: khung rỗng, mỗi kênh chỉ có mã nén (không nén)
+    return { name: layer.name, rect: { top: 0, left: 0, bottom: 0, right: 0 }, channels: LAYER_CHANNELS.map(() => new Uint8Array(2)) };
+  }
+  return { name: layer.name, rect, channels: LAYER_CHANNELS.map(([, channel]) => rleChannel([packPlane(layer.pixels, width, channel, rect)])) };
+}
+
+function layerRecord(layer: EncodedLayer): Uint8Array {
+  const name = pascalName(layer.name);
+  const luni = unicodeName(layer.name);
+  const extra = concat([new Uint8Array(8), name, luni]); // Không có mặt nạ lớp và blending ranges
+  const head = record(18 + LAYER_CHANNELS.length * 6 + 16, view => {
+    const { top, left, bottom, right } = layer.rect;
+    view.setInt32(0, top);
+    view.setInt32(4, left);
+    view.setInt32(8, bottom);
+    view.setInt32(12, right);
+    view.setUint16(16, LAYER_CHANNELS.length);
+    LAYER_CHANNELS.forEach(([id], i) => {
+      view.setInt16(18 + i * 6, id);
+      view.setUint32(20 + i * 6, layer.channels[i].length);
+    });
+    const offset = 18 + LAYER_CHANNELS.length * 6;
+    encoder.encodeInto('8BIMnorm', new Uint8Array(view.buffer, offset, 8));
+    view.setUint8(offset + 8, 255); // Độ mờ
+    view.setUint32(offset + 12, extra.length);
+  });
+  return concat([head, extra]);
+}
+
+// Tài nguyên ResolutionInfo (0x03ED): độ phân giải theo pixel/inch
+function resolutionResource(dpi: number): Uint8Array {
+  return record(28, view => {
+    encoder.encodeInto('8BIM', new Uint8Array(view.buffer, 0, 4));
+    view.setUint16(4, 0x03ed);
+    view.setUint32(8, 16);
+    const fixed = Math.round(dpi * 65536);
+    view.setUint32(12, fixed);
+    view.setUint16(16, 1);
+    view.setUint16(18, 1);
+    view.setUint32(20, fixed);
+    view.setUint16(24, 1);
+    view.setUint16(26, 1);
+  });
+}
+
+/**
+ * Tạo tệp PSD (RGB 8 bit) có mỗi lớp một layer, lớp đầu tiên nằm dưới cùng, kèm ảnh ghép trên nền trắng.
+ * Các lớp được lấy và nén lần lượt qua `layerAt` để không phải giữ mọi ảnh RGBA cùng lúc.
+ */
+export async function encodePsd(
+  width: number,
+  height: number,
+  layerCount: number,
+  layerAt: (index: number) => Promise<LayerImage>,
+  dpi: number
+): Promise<Blob> {
+  if (width > MAX_PSD_DIMENSION || height > MAX_PSD_DIMENSION) throw new Error(`PSD files are limited to ${MAX_PSD_DIMENSION} pixels per side.`);
+  const composite = new Uint8ClampedArray(width * height * 4).fill(255);
+  const layers: EncodedLayer[] = [];
+  for (let index = 0; index < layerCount; index++) {
+    const layer = await layerAt(index);
+    layers.push(encodeLayer(layer, width, height));
+    const { pixels } = layer;
+    for (let i = 0; i < pixels.length; i += 4) {
+      const alpha = pixels[i + 3] / 255;
+      if (alpha === 0) continue;
+      for (let c = 0; c < 3; c++) composite[i + c] = composite[i + c] * (1 - alpha) + pixels[i + c] * alpha;
+    }
+  }
+
+  const records = layers.map(layerRecord);
+  const channelData = layers.flatMap(layer => layer.channels);
+  // Phần thông tin lớp (số lớp, các bản ghi và dữ liệu kênh) có độ dài chẵn
+  const layerInfoContent = 2 + [...records, ...channelData].reduce((sum, part) => sum + part.length, 0);
+  const layerInfoSize = padTo(layerInfoContent, 2);
+  const layerInfoHeader = record(6, view => {
+    view.setUint32(0, layerInfoSize);
+    view.setInt16(4, layers.length);
+  });
+  const layerInfoPadding = new Uint8Array(layerInfoSize - layerInfoContent);
+  const resources = resolutionResource(dpi);
+  const full = { top: 0, left: 0, bottom: height, right: width };
+  const merged = rleChannel([0, 1, 2].map(channel => packPlane(composite, width, channel, full)));
+
+  const parts: Uint8Array[] = [
+    record(26, view => {
+      encoder.encodeInto('8BPS', new Uint8Array(view.buffer, 0, 4));
+      view.setUint16(4, 1);
+      view.setUint16(12, 3); // Số kênh của ảnh ghép
+      view.setUint32(14, height);
+      view.setUint32(18, width);
+      view.setUint16(22, 8);
+      view.setUint16(24, 3); // Chế độ màu RGB
+    }),
+    record(4, () => {}), // Không có bảng màu
+    record(4, view => view.setUint32(0, resources.length)),
+    resources,
+    record(4, view => view.setUint32(0, 4 + layerInfoSize + 4)),
+    layerInfoHeader,
+    ...records,
+    ...channelData,
+    layerInfoPadding,
+    record(4, () => {}), // Không có mặt nạ chung
+    merged,
+  ];
+  if (parts.reduce((sum, part) => sum + part.length, 0) > MAX_PSD_SIZE) throw new Error('The document is larger than 4 GB and cannot be written as a PSD file.');
+  return new Blob(parts as BlobPart[], { type: 'image/vnd.adobe.photoshop' });
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import type { RGBColor } from '../types';
+import { kMeansQuantize } from './quantizer';
+import type { WeightedColor } from './quantizer';
+
+// Ba đám màu tách biệt quanh đỏ, xanh lá và xanh dương, mỗi đám có các sắc gần nhau
+function clusters(): WeightedColor[] {
+  const centres: RGBColor[] = [{ r: 220, g: 30, b: 30 }, { r: 30, g: 200, b: 40 }, { r: 20, g: 40, b: 210 }];
+  return centres.flatMap((centre, i) =>
+    [-12, 0, 12].flatMap(d => [{ color: { r: centre.r + d, g: centre.g, b: centre.b - d }, count: 10 * (i + 1) }])
+  );
+}
+
+describe('kMeansQuantize', () => {
+  it.each(['rgb', 'ciede2000', 'oklab'] as const)('finds the three colour clusters with %s', metric => {
+    const groups = kMeansQuantize(clusters(), 3, metric);
+    expect(groups).toHaveLength(3);
+    // Nhóm lớn nhất trước; tổng số pixel được giữ nguyên
+    expect(groups.map(group => group.totalCount)).toEqual([90, 60, 30]);
+    expect(groups.map(group => group.memberColors.length)).toEqual([3, 3, 3]);
+    expect(groups[0].representativeColor).toEqual({ r: 20, g: 40, b: 210 });
+    expect(groups[2].representativeColor).toEqual({ r: 220, g: 30, b: 30 });
+  });
+
+  it('returns at most as many groups as there are distinct colours', () => {
+    const colors = [{ color: { r: 0, g: 0, b: 0 }, count: 5 }, { color: { r: 255, g: 255, b: 255 }, count: 7 }];
+    const groups = kMeansQuantize(colors, 6);
+    expect(groups.map(group => group.representativeColor)).toEqual([{ r: 255, g: 255, b: 255 }, { r: 0, g: 0, b: 0 }]);
+  });
+
+  it('gives the same result on every run', () => {
+    const colors = Array.from({ length: 200 }, (_, i) => ({ color: { r: (i * 37) % 256, g: (i * 91) % 256, b: (i * 53) % 256 }, count: 1 + (i % 5) }));
+    expect(kMeansQuantize(colors, 5, 'oklab')).toEqual(kMeansQuantize(colors, 5, 'oklab'));
+    expect(kMeansQuantize(colors, 5, 'oklab')).toHaveLength(5);
+  });
+
+  it('returns nothing for an empty image', () => {
+    expect(kMeansQuantize([], 4)).toEqual([]);
+  });
+});
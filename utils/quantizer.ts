@@ -0,0 +1,140 @@
+import type { RGBColor, RasterColorGroup, ColorMetric } from '../types';
+import { colorDistance } from './colorUtils';
+
+export interface WeightedColor {
+  color: RGBColor;
+  count: number;
+}
+
+const MAX_ITERATIONS = 24;
+
+// Bộ sinh số ngẫu nhiên có hạt giống (mulberry32) để kết quả phân cụm ổn định giữa các lần xử lý lại.
+function createRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Gom các màu vào lưới 5 bit/kênh để giới hạn số điểm đầu vào cho k-means (tối đa 32768).
+function binColors(colors: WeightedColor[]): WeightedColor[] {
+  const bins = new Map<number, { r: number; g: number; b: number; count: number }>();
+  for (const { color, count } of colors) {
+    const key = ((color.r >> 3) << 10) | ((color.g >> 3) << 5) | (color.b >> 3);
+    const bin = bins.get(key);
+    if (bin) {
+      bin.r += color.r * count;
+      bin.g += color.g * count;
+      bin.b += color.b * count;
+      bin.count += count;
+    } else {
+      bins.set(key, { r: color.r * count, g: color.g * count, b: color.b * count, count });
+    }
+  }
+  return Array.from(bins.values()).map(bin => ({
+    color: { r: Math.round(bin.r / bin.count), g: Math.round(bin.g / bin.count), b: Math.round(bin.b / bin.count) },
+    count: bin.count,
+  }));
+}
+
+function seedCentroids(points: WeightedColor[], k: number, metric: ColorMetric, random: () => number): RGBColor[] {
+  // k-means++: tâm đầu tiên là màu phổ biến nhất, các tâm sau được chọn theo xác suất tỉ lệ với D².
+  let first = points[0];
+  for (const p of points) {
+    if (p.count > first.count) first = p;
+  }
+  const centroids: RGBColor[] = [first.color];
+  const minDistSq = points.map(p => {
+    const d = colorDistance(p.color, first.color, metric);
+    return d * d;
+  });
+
+  while (centroids.length < k) {
+    let total = 0;
+    for (let i = 0; i < points.length; i++) total += minDistSq[i] * points[i].count;
+    if (total === 0) break; // Không còn màu nào khác biệt để chọn làm tâm mới
+
+    let target = random() * total;
+    let chosen = points.length - 1;
+    for (let i = 0; i < points.length; i++) {
+      target -= minDistSq[i] * points[i].count;
+      if (target <= 0) {
+        chosen = i;
+        break;
+      }
+    }
+    const centroid = points[chosen].color;
+    centroids.push(centroid);
+    for (let i = 0; i < points.length; i++) {
+      const d = colorDistance(points[i].color, centroid, metric);
+      if (d * d < minDistSq[i]) minDistSq[i] = d * d;
+    }
+  }
+  return centroids;
+}
+
+/**
+ * Lượng tử hóa màu bằng k-means++ để tạo đúng `targetCount` nhóm (hoặc ít hơn nếu ảnh có ít màu hơn).
+ * Phép gán dùng metric khoảng cách đã chọn; tâm cụm là trung bình RGB có trọng số của các màu thành viên.
+ */
+export function kMeansQuantize(colors: WeightedColor[], targetCount: number, metric: ColorMetric = 'rgb'): RasterColorGroup[] {
+  const points = binColors(colors);
+  if (points.length === 0) return [];
+
+  const k = Math.max(1, Math.min(Math.round(targetCount), points.length));
+  const random = createRandom(0x5eed + k);
+  let centroids = seedCentroids(points, k, metric, random);
+  const assignments = new Int32Array(points.length).fill(-1);
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let changed = false;
+    points.forEach((p, i) => {
+      let best = 0;
+      let bestDist = Infinity;
+      for (let j = 0; j < centroids.length; j++) {
+        const d = colorDistance(p.color, centroids[j], metric);
+        if (d < bestDist) {
+          bestDist = d;
+          best = j;
+        }
+      }
+      if (assignments[i] !== best) {
+        assignments[i] = best;
+        changed = true;
+      }
+    });
+    if (!changed) break;
+
+    const sums = centroids.map(() => ({ r: 0, g: 0, b: 0, count: 0 }));
+    points.forEach((p, i) => {
+      const sum = sums[assignments[i]];
+      sum.r += p.color.r * p.count;
+      sum.g += p.color.g * p.count;
+      sum.b += p.color.b * p.count;
+      sum.count += p.count;
+    });
+    // Cụm rỗng giữ nguyên tâm cũ
+    centroids = sums.map((sum, j) =>
+      sum.count > 0
+        ? { r: Math.round(sum.r / sum.count), g: Math.round(sum.g / sum.count), b: Math.round(sum.b / sum.count) }
+        : centroids[j]
+    );
+  }
+
+  const groups: RasterColorGroup[] = centroids.map(centroid => ({
+    representativeColor: centroid,
+    memberColors: [],
+    totalCount: 0,
+  }));
+  points.forEach((p, i) => {
+    const group = groups[assignments[i]];
+    group.memberColors.push(p.color);
+    group.totalCount += p.count;
+  });
+
+  return groups.filter(g => g.totalCount > 0).sort((a, b) => b.totalCount - a.totalCount);
+}
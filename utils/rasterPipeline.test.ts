@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { RasterWorkerRequest, RasterWorkerResponse } from './rasterProtocol';
+import { computeLabelMap, renderLabelLayer, renderLabelPreview } from './imageProcessor';
+import { createRasterPipeline, isCancellation } from './rasterPipeline';
+
+// Worker giả: ghi lại các yêu cầu, để bài kiểm tra tự trả lời
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((event: { data: RasterWorkerResponse }) => void) | null = null;
+  onerror: ((event: { message: string }) => void) | null = null;
+  requests: RasterWorkerRequest[] = [];
+  terminated = false;
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(request: RasterWorkerRequest) {
+    this.requests.push(request);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  reply(message: RasterWorkerResponse) {
+    this.onmessage?.({ data: message });
+  }
+
+  last<T extends RasterWorkerRequest['type']>(type: T) {
+    return this.requests.filter((r): r is Extract<RasterWorkerRequest, { type: T }> => r.type === type).pop()!;
+  }
+}
+
+const image = (pixels: number[][], width = pixels.length, height = 1) =>
+  ({ width, height, data: new Uint8ClampedArray(pixels.flat()) }) as unknown as ImageData;
+
+const RED = { r: 255, g: 0, b: 0 };
+const BLUE = { r: 0, g: 0, b: 255 };
+
+describe('createRasterPipeline', () => {
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    vi.stubGlobal('Worker', FakeWorker);
+  });
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('sends the image once and resolves jobs with the worker results', async () => {
+    const pipeline = createRasterPipeline();
+    const source = image([[255, 0, 0, 255]]);
+    const progress: number[] = [];
+    const analyzed = pipeline.analyze(source, 10, 'rgb', null, 100, p => progress.push(p));
+    const worker = FakeWorker.instances[0];
+    const request = worker.last('analyze');
+    worker.reply({ id: request.id, type: 'progress', progress: 0.5 });
+    worker.reply({ id: request.id, type: 'analyzed', groups: [], labels: new Int32Array([0]).buffer, labelsVersion: request.id });
+    const result = await analyzed;
+    expect(progress).toEqual([0.5]);
+    expect(Array.from(result.labelMap.labels)).toEqual([0]);
+    expect(result.labelMap.version).toBe(request.id);
+
+    const labels = pipeline.computeLabels(source, [{ representativeColor: RED }], 'rgb', 100);
+    const labelsRequest = worker.last('labels');
+    worker.reply({ id: labelsRequest.id, type: 'labels', labels: new Int32Array([0]).buffer, labelsVersion: labelsRequest.id });
+    await labels;
+    expect(worker.requests.filter(r => r.type === 'load')).toHaveLength(1);
+  });
+
+  it('only ships a label map the worker no longer holds', async () => {
+    const pipeline = createRasterPipeline();
+    const source = image([[255, 0, 0, 255]]);
+    const analyzed = pipeline.analyze(source, 10, 'rgb', null, 100);
+    const worker = FakeWorker.instances[0];
+    const request = worker.last('analyze');
+    worker.reply({ id: request.id, type: 'analyzed', groups: [], labels: new Int32Array([0]).buffer, labelsVersion: request.id });
+    const { labelMap } = await analyzed;
+
+    const known = pipeline.render(source, [RED], 0, labelMap);
+    expect(worker.last('render').labels).toBeUndefined();
+    worker.reply({ id: worker.last('render').id, type: 'rendered', pixels: new Uint8ClampedArray(4).buffer });
+    await known;
+
+    const unknown = pipeline.render(source, [RED], 0, { labels: new Int32Array([0]), version: 999 });
+    expect(worker.last('render').labels).toBeInstanceOf(ArrayBuffer);
+    worker.reply({ id: worker.last('render').id, type: 'rendered', pixels: new Uint8ClampedArray(4).buffer });
+    await unknown;
+  });
+
+  it('rejects on worker errors', async () => {
+    const pipeline = createRasterPipeline();
+    const labels = pipeline.computeLabels(image([[0, 0, 0, 255]]), [{ representativeColor: RED }], 'rgb', 100);
+    const worker = FakeWorker.instances[0];
+    worker.reply({ id: worker.last('labels').id, type: 'error', message: 'boom' });
+    await expect(labels).rejects.toThrow('boom');
+  });
+
+  it('cancels running jobs and starts a fresh worker afterwards', async () => {
+    const pipeline = createRasterPipeline();
+    const source = image([[0, 0, 0, 255]]);
+    const labels = pipeline.computeLabels(source, [{ representativeColor: RED }], 'rgb', 100);
+    pipeline.cancel();
+    const error = await labels.catch(err => err);
+    expect(isCancellation(error)).toBe(true);
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+
+    pipeline.computeLabels(source, [{ representativeColor: RED }], 'rgb', 100).catch(() => {});
+    expect(FakeWorker.instances).toHaveLength(2);
+    expect(FakeWorker.instances[1].requests[0].type).toBe('load');
+    pipeline.dispose();
+  });
+
+  it('keeps render jobs through a cancel and resends them to the new worker', async () => {
+    const pipeline = createRasterPipeline();
+    const source = image([[0, 0, 0, 255]]);
+    const labelMap = { labels: new Int32Array([0]), version: 999 };
+
+    // Chỉ có việc vẽ đang chờ: Worker không bị dừng
+    const first = pipeline.render(source, [RED], 0, labelMap);
+    pipeline.cancel();
+    const worker = FakeWorker.instances[0];
+    expect(worker.terminated).toBe(false);
+    worker.reply({ id: worker.last('render').id, type: 'rendered', pixels: new Uint8ClampedArray([1, 2, 3, 4]).buffer });
+    expect(Array.from(await first)).toEqual([1, 2, 3, 4]);
+
+    const labels = pipeline.computeLabels(source, [{ representativeColor: RED }], 'rgb', 100);
+    const rendered = pipeline.render(source, [RED], 0, labelMap);
+    const renderId = worker.last('render').id;
+    pipeline.cancel();
+    expect(isCancellation(await labels.catch(err => err))).toBe(true);
+    expect(worker.terminated).toBe(true);
+
+    const fresh = FakeWorker.instances[1];
+    expect(fresh.requests.map(r => r.type)).toEqual(['load', 'render']);
+    expect(fresh.last('render').id).toBe(renderId);
+    expect(fresh.last('render').labels).toBeInstanceOf(ArrayBuffer);
+    fresh.reply({ id: renderId, type: 'rendered', pixels: new Uint8ClampedArray([5, 6, 7, 8]).buffer });
+    expect(Array.from(await rendered)).toEqual([5, 6, 7, 8]);
+    pipeline.dispose();
+  });
+});
+
+describe('label maps', () => {
+  it('assigns each opaque pixel to the nearest group within range', () => {
+    const source = image([[250, 0, 0, 255], [0, 0, 250, 255], [0, 255, 0, 255], [255, 0, 0, 0]]);
+    const labels = computeLabelMap(source, [{ representativeColor: RED }, { representativeColor: BLUE }], 'rgb', 20);
+    expect(Array.from(labels)).toEqual([0, 1, -1, -1]);
+  });
+
+  it('renders previews in group colours and layers in source colours', () => {
+    const source = image([[250, 0, 0, 255], [0, 0, 250, 200]]);
+    const labels = new Int32Array([0, 1]);
+    expect(Array.from(renderLabelPreview(labels, [RED, BLUE]))).toEqual([255, 0, 0, 255, 0, 0, 255, 255]);
+    expect(Array.from(renderLabelLayer(source, labels, 1))).toEqual([0, 0, 0, 0, 0, 0, 250, 200]);
+  });
+});
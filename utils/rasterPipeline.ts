@@ -0,0 +1,212 @@
+import type { RGBColor, ColorMetric, RasterColorGroup, CleanupOptions, CleanupOverride, PrefilterOptions, DitherOptions } from '../types';
+import type { LabelGroup, RasterWorkerRequest, RasterWorkerResponse } from './rasterProtocol';
+import { MAX_CACHED_LABEL_MAPS } from './rasterProtocol';
+
+export interface LabelMap {
+  labels: Int32Array;
+  version: number; // Mã của yêu cầu đã tạo ra bản đồ nhãn, dùng để tìm lại bản đồ trong Worker
+}
+
+export interface RasterPipeline {
+  /** Ảnh mới sau khi tiền xử lý (lọc nhiễu, chỉnh tông); ảnh gốc không đổi. */
+  prefilter(imageData: ImageData, options: PrefilterOptions, onProgress?: (progress: number) => void): Promise<ImageData>;
+  analyze(
+    imageData: ImageData,
+    tolerance: number,
+    metric: ColorMetric,
+    targetColorCount: number | null,
+    maxDistance: number,
+    onProgress?: (progress: number) => void
+  ): Promise<{ groups: RasterColorGroup[]; labelMap: LabelMap }>;
+  computeLabels(imageData: ImageData, groups: LabelGroup[], metric: ColorMetric, maxDistance: number, onProgress?: (progress: number) => void): Promise<LabelMap>;
+  /** Bản đồ nhãn mới sau khi làm sạch (bỏ đốm, mở/đóng, lấp lỗ, làm mượt) bản đồ `labelMap`; `overrides` là thiết lập riêng theo nhãn. */
+  cleanup(imageData: ImageData, labelMap: LabelMap, options: CleanupOptions, overrides: (CleanupOverride | null)[], onProgress?: (progress: number) => void): Promise<LabelMap>;
+  /** Bản đồ nhãn mới sau khi dither/halftone giữa các lớp có màu `colors` (theo nhãn). */
+  dither(imageData: ImageData, labelMap: LabelMap, colors: RGBColor[], options: DitherOptions, onProgress?: (progress: number) => void): Promise<LabelMap>;
+  /** Ảnh ghép từ `colors` (groupIndex = null) hoặc ảnh của một lớp; `fill` thay màu gốc của lớp đó. */
+  render(imageData: ImageData, colors: RGBColor[], groupIndex: number | null, labelMap: LabelMap, fill?: RGBColor): Promise<Uint8ClampedArray>;
+  /**
+   * Hủy các việc tính bản đồ nhãn đang chạy (Worker bị dừng và được tạo lại). Việc vẽ ảnh (xem trước, xuất lớp) không
+   * bị hủy mà được gửi lại cho Worker mới.
+   */
+  cancel(): void;
+  dispose(): void;
+}
+
+interface PendingJob {
+  resolve: (response: RasterWorkerResponse) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: number) => void;
+  cancellable?: boolean; // Việc tính bản đồ nhãn, bị cancel() hủy
+  resend?: () => void; // Gửi lại yêu cầu cho Worker mới sau khi Worker cũ bị dừng
+}
+
+export const isCancellation = (err: unknown): boolean => err instanceof DOMException && err.name === 'AbortError';
+
+/**
+ * Tạo pipeline xử lý ảnh raster trong một Web Worker. Ảnh chỉ được gửi sang Worker một lần (buffer
+ * được chuyển giao, không sao chép lại), còn bản đồ nhãn theo pixel được Worker giữ lại để
+ * xem trước và xuất lớp không phải tìm nhóm gần nhất lần nữa.
+ */
+export function createRasterPipeline(): RasterPipeline {
+  let worker: Worker | null = null;
+  let loadedImage: ImageData | null = null;
+  let nextId = 1;
+  const pending = new Map<number, PendingJob>();
+  // Phản chiếu các phiên bản bản đồ nhãn đang được Worker lưu (cùng thứ tự thêm và cùng giới hạn)
+  const workerLabelVersions: number[] = [];
+
+  const rememberLabels = (version: number) => {
+    workerLabelVersions.push(version);
+    if (workerLabelVersions.length > MAX_CACHED_LABEL_MAPS) workerLabelVersions.shift();
+  };
+
+  const ensureWorker = (): Worker => {
+    if (worker) return worker;
+    const created = new Worker(new URL('./rasterWorker.ts', import.meta.url), { type: 'module' });
+    created.onmessage = (event: MessageEvent<RasterWorkerResponse>) => {
+      const message = event.data;
+      const job = pending.get(message.id);
+      if (!job) return;
+      if (message.type === 'progress') {
+        job.onProgress?.(message.progress);
+        return;
+      }
+      pending.delete(message.id);
+      if (message.type === 'error') job.reject(new Error(message.message));
+      else job.resolve(message);
+    };
+    created.onerror = (event) => {
+      const error = new Error(event.message || 'Raster worker failed.');
+      pending.forEach(job => job.reject(error));
+      pending.clear();
+    };
+    worker = created;
+    loadedImage = null;
+    workerLabelVersions.length = 0;
+    return created;
+  };
+
+  const send = (request: RasterWorkerRequest, transfer: Transferable[] = [], onProgress?: (progress: number) => void) =>
+    new Promise<RasterWorkerResponse>((resolve, reject) => {
+      pending.set(request.id, { resolve, reject, onProgress, cancellable: true });
+      ensureWorker().postMessage(request, transfer);
+    });
+
+  // `post` nạp ảnh và gửi yêu cầu; được gọi lại nếu Worker bị dừng trước khi trả lời
+  const sendKept = (id: number, post: () => void) =>
+    new Promise<RasterWorkerResponse>((resolve, reject) => {
+      pending.set(id, { resolve, reject, resend: post });
+      post();
+    });
+
+  const ensureImage = (imageData: ImageData) => {
+    const target = ensureWorker();
+    if (loadedImage === imageData) return;
+    // Luồng chính vẫn cần ảnh gốc, nên chuyển giao một bản sao của buffer
+    const buffer = imageData.data.slice().buffer;
+    const id = nextId++;
+    pending.set(id, { resolve: () => {}, reject: () => {} });
+    target.postMessage({ id, type: 'load', width: imageData.width, height: imageData.height, buffer } satisfies RasterWorkerRequest, [buffer]);
+    loadedImage = imageData;
+    workerLabelVersions.length = 0;
+  };
+
+  // Worker đã bị tạo lại hoặc đã bỏ bản đồ này: gửi kèm một bản sao
+  const labelsToSend = (labelMap: LabelMap): ArrayBuffer | undefined => {
+    if (workerLabelVersions.includes(labelMap.version)) return undefined;
+    rememberLabels(labelMap.version);
+    return labelMap.labels.slice().buffer;
+  };
+
+  const stopWorker = () => {
+    worker?.terminate();
+    worker = null;
+    loadedImage = null;
+    workerLabelVersions.length = 0;
+  };
+
+  const cancel = () => {
+    if (!worker || ![...pending.values()].some(job => job.cancellable)) return;
+    stopWorker();
+    const kept: PendingJob[] = [];
+    pending.forEach((job, id) => {
+      if (job.resend) {
+        kept.push(job);
+        return;
+      }
+      pending.delete(id);
+      job.reject(new DOMException('Raster processing was cancelled.', 'AbortError'));
+    });
+    kept.forEach(job => job.resend?.());
+  };
+
+  return {
+    async prefilter(imageData, options, onProgress) {
+      ensureImage(imageData);
+      const response = await send({ id: nextId++, type: 'prefilter', options }, [], onProgress);
+      if (response.type !== 'prefiltered') throw new Error('Unexpected worker response.');
+      return new ImageData(new Uint8ClampedArray(response.pixels), imageData.width, imageData.height);
+    },
+
+    async analyze(imageData, tolerance, metric, targetColorCount, maxDistance, onProgress) {
+      ensureImage(imageData);
+      const id = nextId++;
+      rememberLabels(id);
+      const response = await send({ id, type: 'analyze', tolerance, metric, targetColorCount, maxDistance }, [], onProgress);
+      if (response.type !== 'analyzed') throw new Error('Unexpected worker response.');
+      return { groups: response.groups, labelMap: { labels: new Int32Array(response.labels), version: response.labelsVersion } };
+    },
+
+    async computeLabels(imageData, groups, metric, maxDistance, onProgress) {
+      ensureImage(imageData);
+      const id = nextId++;
+      rememberLabels(id);
+      // Chỉ gửi màu và các tập pixel, không gửi danh sách màu thành viên
+      const labelGroups = groups.map(({ representativeColor, region, claimedPixels, excludedPixels }) => ({ representativeColor, region, claimedPixels, excludedPixels }));
+      const response = await send({ id, type: 'labels', groups: labelGroups, metric, maxDistance }, [], onProgress);
+      if (response.type !== 'labels') throw new Error('Unexpected worker response.');
+      return { labels: new Int32Array(response.labels), version: response.labelsVersion };
+    },
+
+    async cleanup(imageData, labelMap, options, overrides, onProgress) {
+      ensureImage(imageData);
+      const labels = labelsToSend(labelMap);
+      const id = nextId++;
+      rememberLabels(id);
+      const response = await send({ id, type: 'cleanup', options, overrides, labelsVersion: labelMap.version, labels }, labels ? [labels] : [], onProgress);
+      if (response.type !== 'labels') throw new Error('Unexpected worker response.');
+      return { labels: new Int32Array(response.labels), version: response.labelsVersion };
+    },
+
+    async dither(imageData, labelMap, colors, options, onProgress) {
+      ensureImage(imageData);
+      const labels = labelsToSend(labelMap);
+      const id = nextId++;
+      rememberLabels(id);
+      const response = await send({ id, type: 'dither', colors, options, labelsVersion: labelMap.version, labels }, labels ? [labels] : [], onProgress);
+      if (response.type !== 'labels') throw new Error('Unexpected worker response.');
+      return { labels: new Int32Array(response.labels), version: response.labelsVersion };
+    },
+
+    async render(imageData, colors, groupIndex, labelMap, fill) {
+      const id = nextId++;
+      const response = await sendKept(id, () => {
+        ensureImage(imageData);
+        const labels = labelsToSend(labelMap);
+        const request: RasterWorkerRequest = { id, type: 'render', colors, groupIndex, fill, labelsVersion: labelMap.version, labels };
+        ensureWorker().postMessage(request, labels ? [labels] : []);
+      });
+      if (response.type !== 'rendered') throw new Error('Unexpected worker response.');
+      return new Uint8ClampedArray(response.pixels);
+    },
+
+    cancel,
+
+    dispose() {
+      stopWorker();
+      pending.forEach(job => job.reject(new DOMException('Raster processing was cancelled.', 'AbortError')));
+      pending.clear();
+    },
+  };
+}
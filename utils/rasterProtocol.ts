@@ -0,0 +1,26 @@
+import type { RGBColor, ColorMetric, RasterColorGroup, CleanupOptions, CleanupOverride, PrefilterOptions, DitherOptions } from '../types';
+
+// Số bản đồ nhãn gần nhất mà Worker giữ lại
+export const MAX_CACHED_LABEL_MAPS = 3;
+
+// Phần của nhóm màu cần để tính bản đồ nhãn
+export type LabelGroup = Pick<RasterColorGroup, 'representativeColor' | 'region' | 'claimedPixels' | 'excludedPixels'>;
+
+// Giao thức trao đổi giữa luồng chính và rasterWorker
+export type RasterWorkerRequest =
+  | { id: number; type: 'load'; width: number; height: number; buffer: ArrayBuffer }
+  | { id: number; type: 'prefilter'; options: PrefilterOptions }
+  | { id: number; type: 'analyze'; tolerance: number; metric: ColorMetric; targetColorCount: number | null; maxDistance: number }
+  | { id: number; type: 'labels'; groups: LabelGroup[]; metric: ColorMetric; maxDistance: number }
+  | { id: number; type: 'cleanup'; options: CleanupOptions; overrides: (CleanupOverride | null)[]; labelsVersion: number; labels?: ArrayBuffer }
+  | { id: number; type: 'dither'; colors: RGBColor[]; options: DitherOptions; labelsVersion: number; labels?: ArrayBuffer }
+  | { id: number; type: 'render'; colors: RGBColor[]; groupIndex: number | null; fill?: RGBColor; labelsVersion: number; labels?: ArrayBuffer };
+
+export type RasterWorkerResponse =
+  | { id: number; type: 'progress'; progress: number }
+  | { id: number; type: 'analyzed'; groups: RasterColorGroup[]; labels: ArrayBuffer; labelsVersion: number }
+  | { id: number; type: 'labels'; labels: ArrayBuffer; labelsVersion: number }
+  | { id: number; type: 'rendered'; pixels: ArrayBuffer }
+  | { id: number; type: 'prefiltered'; pixels: ArrayBuffer }
+  | { id: number; type: 'done' }
+  | { id: number; type: 'error'; message: string };
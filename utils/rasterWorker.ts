@@ -0,0 +1,92 @@
+import type { RasterWorkerRequest, RasterWorkerResponse } from './rasterProtocol';
+import { MAX_CACHED_LABEL_MAPS } from './rasterProtocol';
+import { analyzeImageData, computeLabelMap, renderLabelLayer, renderLabelPreview } from './imageProcessor';
+import { cleanupLabels } from './labelCleanup';
+import { prefilterImageData } from './prefilter';
+import { ditherLabels } from './dithering';
+
+// Worker xử lý ảnh raster: gom nhóm màu, tính bản đồ nhãn theo pixel và vẽ ảnh xem trước/ảnh lớp.
+let image: ImageData | null = null;
+const labelMaps = new Map<number, Int32Array>();
+
+const post = (message: RasterWorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+const storeLabels = (version: number, labels: Int32Array) => {
+  labelMaps.set(version, labels);
+  while (labelMaps.size > MAX_CACHED_LABEL_MAPS) labelMaps.delete(labelMaps.keys().next().value!);
+};
+
+const requireImage = (): ImageData => {
+  if (!image) throw new Error('No image has been loaded into the worker.');
+  return image;
+};
+
+// Bản đồ nhãn mà yêu cầu tham chiếu; luồng chính gửi kèm bản sao khi Worker có thể đã bỏ nó
+const requireLabels = (version: number, labels?: ArrayBuffer): Int32Array => {
+  if (labels) storeLabels(version, new Int32Array(labels));
+  const stored = labelMaps.get(version);
+  if (!stored) throw new Error('The label map is no longer available.');
+  return stored;
+};
+
+self.onmessage = (event: MessageEvent<RasterWorkerRequest>) => {
+  const request = event.data;
+  const { id } = request;
+  const reportProgress = (progress: number) => post({ id, type: 'progress', progress });
+
+  try {
+    switch (request.type) {
+      case 'load':
+        image = new ImageData(new Uint8ClampedArray(request.buffer), request.width, request.height);
+        labelMaps.clear();
+        post({ id, type: 'done' });
+        break;
+      case 'prefilter': {
+        const pixels = prefilterImageData(requireImage(), request.options, reportProgress);
+        post({ id, type: 'prefiltered', pixels: pixels.buffer as ArrayBuffer }, [pixels.buffer]);
+        break;
+      }
+      case 'analyze': {
+        const source = requireImage();
+        const groups = analyzeImageData(source, request.tolerance, request.metric, request.targetColorCount);
+        const labels = computeLabelMap(source, groups, request.metric, request.maxDistance, reportProgress);
+        storeLabels(id, labels);
+        const copy = labels.slice();
+        post({ id, type: 'analyzed', groups, labels: copy.buffer, labelsVersion: id }, [copy.buffer]);
+        break;
+      }
+      case 'labels': {
+        const labels = computeLabelMap(requireImage(), request.groups, request.metric, request.maxDistance, reportProgress);
+        storeLabels(id, labels);
+        const copy = labels.slice();
+        post({ id, type: 'labels', labels: copy.buffer, labelsVersion: id }, [copy.buffer]);
+        break;
+      }
+      case 'cleanup': {
+        const source = requireImage();
+        const labels = cleanupLabels(requireLabels(request.labelsVersion, request.labels), source.width, source.height, request.options, request.overrides, reportProgress);
+        storeLabels(id, labels);
+        const copy = labels.slice();
+        post({ id, type: 'labels', labels: copy.buffer, labelsVersion: id }, [copy.buffer]);
+        break;
+      }
+      case 'dither': {
+        const labels = ditherLabels(requireImage(), requireLabels(request.labelsVersion, request.labels), request.colors, request.options, reportProgress);
+        storeLabels(id, labels);
+        const copy = labels.slice();
+        post({ id, type: 'labels', labels: copy.buffer, labelsVersion: id }, [copy.buffer]);
+        break;
+      }
+      case 'render': {
+        const labels = requireLabels(request.labelsVersion, request.labels);
+        const pixels = request.groupIndex === null
+          ? renderLabelPreview(labels, request.colors)
+          : renderLabelLayer(requireImage(), labels, request.groupIndex, request.fill);
+        post({ id, type: 'rendered', pixels: pixels.buffer as ArrayBuffer }, [pixels.buffer]);
+        break;
+      }
+    }
+  } catch (err) {
+    post({ id, type: 'error', message: err instanceof Error ? err.message : 'Raster worker failed.' });
+  }
+};
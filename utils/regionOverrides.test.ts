@@ -0,0 +1,79 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import type { RasterColorGroup, SVGColorGroup } from '../types';
+import { computeLabelMap } from './imageProcessor';
+import { mergePixelOverrides, reassignElement, reassignPixels } from './regionOverrides';
+
+const RED = { r: 255, g: 0, b: 0 };
+const BLUE = { r: 0, g: 0, b: 255 };
+const raster = (representativeColor = RED): RasterColorGroup => ({ representativeColor, memberColors: [representativeColor], totalCount: 0 });
+const pixels = (set: Uint32Array | undefined) => (set ? Array.from(set).sort((a, b) => a - b) : []);
+
+// Ảnh 4 × 1: hai pixel đỏ rồi hai pixel xanh
+const IMAGE = { width: 4, height: 1, data: new Uint8ClampedArray([255, 0, 0, 255, 255, 0, 0, 255, 0, 0, 255, 255, 0, 0, 255, 255]) } as unknown as ImageData;
+
+function svgGroup(color: typeof RED, markup: string, defs = ''): SVGColorGroup {
+  const doc = new DOMParser().parseFromString(`<svg xmlns="http://www.w3.org/2000/svg"><defs>${defs}</defs>${markup}</svg>`, 'image/svg+xml');
+  const root = doc.documentElement;
+  return {
+    representativeColor: color,
+    elements: Array.from(root.children).filter(el => el.tagName !== 'defs') as SVGElement[],
+    defs: Array.from(root.querySelector('defs')!.children) as SVGElement[],
+  };
+}
+
+describe('reassignPixels', () => {
+  it('moves painted pixels to the target layer', () => {
+    const groups = reassignPixels([raster(RED), raster(BLUE)], Uint32Array.from([1]), 1);
+    expect(pixels(groups[1].claimedPixels)).toEqual([1]);
+    expect(groups[0].claimedPixels).toBeUndefined();
+    expect(Array.from(computeLabelMap(IMAGE, groups, 'rgb', 10))).toEqual([0, 1, 1, 1]);
+  });
+
+  it('erases painted pixels from every layer', () => {
+    const groups = reassignPixels([raster(RED), raster(BLUE)], Uint32Array.from([0, 3]), null);
+    expect(groups.map(g => pixels(g.excludedPixels))).toEqual([[0, 3], [0, 3]]);
+    expect(Array.from(computeLabelMap(IMAGE, groups, 'rgb', 10))).toEqual([-1, 0, 1, -1]);
+  });
+
+  it('lets the latest stroke win over earlier ones', () => {
+    let groups = reassignPixels([raster(RED), raster(BLUE)], Uint32Array.from([2]), 0);
+    groups = reassignPixels(groups, Uint32Array.from([2]), null);
+    expect(groups[0].claimedPixels).toBeUndefined();
+    groups = reassignPixels(groups, Uint32Array.from([2]), 1);
+    expect(groups.map(g => pixels(g.excludedPixels))).toEqual([[], []]);
+    expect(pixels(groups[1].claimedPixels)).toEqual([2]);
+  });
+
+  it('unions the overrides of merged layers', () => {
+    const merged = mergePixelOverrides([
+      { ...raster(), claimedPixels: Uint32Array.from([1, 2]) },
+      { ...raster(), claimedPixels: Uint32Array.from([2, 3]), excludedPixels: Uint32Array.from([7]) },
+    ]);
+    expect(pixels(merged.claimedPixels)).toEqual([1, 2, 3]);
+    expect(pixels(merged.excludedPixels)).toEqual([7]);
+    expect(mergePixelOverrides([raster(), raster()])).toEqual({ claimedPixels: undefined, excludedPixels: undefined });
+  });
+});
+
+describe('reassignElement', () => {
+  it('moves a shape with the definitions it may reference', () => {
+    const groups = [
+      svgGroup(RED, '<rect id="a" fill="url(#g)"/><rect id="b"/>', '<linearGradient id="g"/>'),
+      svgGroup(BLUE, '<circle id="c"/>'),
+    ];
+    const [red, blue] = reassignElement(groups, 0, 0, 1);
+    expect(red.elements.map(el => el.id)).toEqual(['b']);
+    expect(blue.elements.map(el => el.id)).toEqual(['c', 'a']);
+    expect(blue.defs!.map(el => el.id)).toEqual(['g']);
+  });
+
+  it('removes a shape and drops layers left empty', () => {
+    const groups = [svgGroup(RED, '<rect id="a"/>'), svgGroup(BLUE, '<circle id="c"/>')];
+    const result = reassignElement(groups, 0, 0, null);
+    expect(result).toHaveLength(1);
+    expect(result[0].representativeColor).toEqual(BLUE);
+    expect(reassignElement(groups, 0, 0, 0)).toBe(groups);
+    expect(reassignElement(groups, 0, 5, 1)).toBe(groups);
+  });
+});
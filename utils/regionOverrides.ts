@@ -0,0 +1,50 @@
+import type { SVGColorGroup, RasterColorGroup } from '../types';
+import { mergeDefs } from './svgDefs';
+
+const withoutPixels = (pixels: Uint32Array | undefined, painted: Set<number>): number[] =>
+  pixels ? Array.from(pixels).filter(p => !painted.has(p)) : [];
+
+const toPixelSet = (pixels: number[]): Uint32Array | undefined => (pixels.length > 0 ? Uint32Array.from(pixels) : undefined);
+
+/**
+ * Gán lại các pixel đã tô cho nhóm `target` (null = loại bỏ khỏi mọi lớp). Ghi đè được lưu trên chính các nhóm
+ * (claimedPixels/excludedPixels) nên vẫn đúng sau khi sắp xếp lại, gộp hay xuất lớp.
+ */
+export function reassignPixels(groups: RasterColorGroup[], pixels: Uint32Array, target: number | null): RasterColorGroup[] {
+  const painted = new Set(pixels);
+  return groups.map((group, index) => {
+    const claimed = withoutPixels(group.claimedPixels, painted);
+    const excluded = withoutPixels(group.excludedPixels, painted);
+    if (index === target) {
+      pixels.forEach(p => claimed.push(p));
+    } else if (target === null) {
+      // Loại bỏ: pixel bị loại khỏi mọi nhóm, để không quay lại nhóm gần màu nhất
+      pixels.forEach(p => excluded.push(p));
+    }
+    return { ...group, claimedPixels: toPixelSet(claimed), excludedPixels: toPixelSet(excluded) };
+  });
+}
+
+/** Chuyển một phần tử SVG sang nhóm `target` (null = loại bỏ); nhóm không còn phần tử nào bị xóa. */
+export function reassignElement(groups: SVGColorGroup[], groupIndex: number, elementIndex: number, target: number | null): SVGColorGroup[] {
+  const source = groups[groupIndex];
+  const element = source?.elements[elementIndex];
+  if (!element || groupIndex === target) return groups;
+  return groups
+    .map((group, index) => {
+      if (index === groupIndex) return { ...group, elements: group.elements.filter((_, i) => i !== elementIndex) };
+      // Phần tử có thể tham chiếu gradient, clip-path... của nhóm cũ
+      if (index === target) return { ...group, elements: [...group.elements, element], defs: mergeDefs(group.defs, source.defs) };
+      return group;
+    })
+    .filter(group => group.elements.length > 0);
+}
+
+/** Hợp các pixel tô thủ công của những nhóm raster được gộp lại. */
+export function mergePixelOverrides(groups: RasterColorGroup[]): Pick<RasterColorGroup, 'claimedPixels' | 'excludedPixels'> {
+  const union = (sets: (Uint32Array | undefined)[]) => toPixelSet(Array.from(new Set(sets.flatMap(set => (set ? Array.from(set) : [])))));
+  return {
+    claimedPixels: union(groups.map(g => g.claimedPixels)),
+    excludedPixels: union(groups.map(g => g.excludedPixels)),
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import type { RegistrationOptions } from '../types';
+import { buildRegistrationMarksSvg, DEFAULT_REGISTRATION_OPTIONS, drawRegistrationMarks } from './registrationMarks';
+
+const ENABLED: RegistrationOptions = { ...DEFAULT_REGISTRATION_OPTIONS, enabled: true };
+const LAYER = { index: 2, hex: '#ff8800' };
+
+const count = (svg: string, tag: string) => svg.split(`<${tag} `).length - 1;
+
+describe('buildRegistrationMarksSvg', () => {
+  it('returns nothing when disabled', () => {
+    expect(buildRegistrationMarksSvg(DEFAULT_REGISTRATION_OPTIONS, 400, 300, LAYER)).toBe('');
+  });
+
+  it('puts a crosshair in every corner at the configured offset', () => {
+    const svg = buildRegistrationMarksSvg(ENABLED, 400, 300, LAYER);
+    expect(count(svg, 'line')).toBe(8);
+    expect(count(svg, 'circle')).toBe(4);
+    for (const [x, y] of [[20, 20], [380, 20], [20, 280], [380, 280]]) {
+      expect(svg).toContain(`<circle cx="${x}" cy="${y}" r="`);
+    }
+  });
+
+  it('draws corner marks pointing into the frame', () => {
+    const svg = buildRegistrationMarksSvg({ ...ENABLED, style: 'corner' }, 400, 300, LAYER);
+    expect(count(svg, 'line')).toBe(8);
+    expect(count(svg, 'circle')).toBe(0);
+    // Góc trên trái: điểm gấp ở (8, 8), hai cạnh dài 24 px đi vào trong
+    expect(svg).toContain('<line x1="8" y1="8" x2="32" y2="8"/>');
+    expect(svg).toContain('<line x1="8" y1="8" x2="8" y2="32"/>');
+    expect(count(buildRegistrationMarksSvg({ ...ENABLED, style: 'both' }, 400, 300, LAYER), 'line')).toBe(16);
+  });
+
+  it('labels the layer with its number and colour', () => {
+    expect(buildRegistrationMarksSvg(ENABLED, 400, 300, LAYER)).toContain('>Layer 3 · #FF8800</text>');
+    expect(buildRegistrationMarksSvg({ ...ENABLED, showHexLabel: false }, 400, 300, LAYER)).toContain('>Layer 3</text>');
+    expect(count(buildRegistrationMarksSvg({ ...ENABLED, showLayerNumber: false, showHexLabel: false }, 400, 300, LAYER), 'text')).toBe(0);
+  });
+
+  it('keeps marks at the same place for every layer', () => {
+    const marksOnly = (svg: string) => svg.replace(/<text.*<\/text>/, '');
+    expect(marksOnly(buildRegistrationMarksSvg(ENABLED, 400, 300, LAYER)))
+      .toBe(marksOnly(buildRegistrationMarksSvg(ENABLED, 400, 300, { index: 0, hex: '#000000' })));
+  });
+});
+
+describe('drawRegistrationMarks', () => {
+  it('draws the same primitives on a canvas', () => {
+    const calls: string[] = [];
+    const ctx = new Proxy({} as Record<string, unknown>, {
+      get: (_target, key) => (...args: unknown[]) => calls.push(`${String(key)}(${args.join(',')})`),
+      set: () => true,
+    }) as unknown as CanvasRenderingContext2D;
+    drawRegistrationMarks(ctx, ENABLED, 400, 300, LAYER);
+    expect(calls.filter(c => c.startsWith('lineTo')).length).toBe(8);
+    expect(calls.filter(c => c.startsWith('arc')).length).toBe(4);
+    expect(calls).toContain('fillText(Layer 3 · #FF8800,200,284)');
+
+    calls.length = 0;
+    drawRegistrationMarks(ctx, DEFAULT_REGISTRATION_OPTIONS, 400, 300, LAYER);
+    expect(calls).toEqual([]);
+  });
+});
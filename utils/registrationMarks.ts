@@ -0,0 +1,130 @@
+import type { RegistrationOptions } from '../types';
+import type { Polyline } from './geometry';
+
+export const DEFAULT_REGISTRATION_OPTIONS: RegistrationOptions = {
+  enabled: false,
+  style: 'crosshair',
+  size: 24,
+  offset: 20,
+  showLayerNumber: true,
+  showHexLabel: true,
+};
+
+const MARK_COLOR = '#000000';
+// Số đoạn của vòng tròn khi dấu được xuất thành đường gấp khúc
+const CIRCLE_SEGMENTS = 48;
+
+type MarkPrimitive =
+  | { kind: 'line'; x1: number; y1: number; x2: number; y2: number }
+  | { kind: 'circle'; cx: number; cy: number; r: number }
+  | { kind: 'text'; x: number; y: number; text: string; fontSize: number };
+
+export interface LayerLabel {
+  index: number; // Chỉ số lớp bắt đầu từ 0
+  hex: string;
+}
+
+/**
+ * Tính toán hình học của các dấu canh chỉnh. Chỉ phụ thuộc vào kích thước khung và tùy chọn,
+ * nên mọi lớp xuất ra đều có dấu ở cùng một tọa độ.
+ */
+function buildPrimitives(options: RegistrationOptions, width: number, height: number, layer: LayerLabel): MarkPrimitive[] {
+  const primitives: MarkPrimitive[] = [];
+  const half = options.size / 2;
+  const o = options.offset;
+  const corners: [number, number, number, number][] = [
+    [o, o, 1, 1],
+    [width - o, o, -1, 1],
+    [o, height - o, 1, -1],
+    [width - o, height - o, -1, -1],
+  ];
+
+  for (const [x, y, sx, sy] of corners) {
+    if (options.style === 'crosshair' || options.style === 'both') {
+      primitives.push(
+        { kind: 'line', x1: x - half, y1: y, x2: x + half, y2: y },
+        { kind: 'line', x1: x, y1: y - half, x2: x, y2: y + half },
+        { kind: 'circle', cx: x, cy: y, r: half * 0.6 }
+      );
+    }
+    if (options.style === 'corner' || options.style === 'both') {
+      // Dấu góc hình chữ L hướng vào trong khung
+      const cx = x - sx * half;
+      const cy = y - sy * half;
+      primitives.push(
+        { kind: 'line', x1: cx, y1: cy, x2: cx + sx * options.size, y2: cy },
+        { kind: 'line', x1: cx, y1: cy, x2: cx, y2: cy + sy * options.size }
+      );
+    }
+  }
+
+  const labelParts: string[] = [];
+  if (options.showLayerNumber) labelParts.push(`Layer ${layer.index + 1}`);
+  if (options.showHexLabel) labelParts.push(layer.hex.toUpperCase());
+  if (labelParts.length > 0) {
+    const fontSize = Math.max(8, Math.round(options.size / 2));
+    primitives.push({ kind: 'text', x: width / 2, y: height - o + fontSize / 3, text: labelParts.join(' · '), fontSize });
+  }
+  return primitives;
+}
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/** Trả về đánh dấu SVG của các dấu canh chỉnh để chèn vào tệp SVG của một lớp. */
+export function buildRegistrationMarksSvg(options: RegistrationOptions, width: number, height: number, layer: LayerLabel): string {
+  if (!options.enabled) return '';
+  const strokeWidth = Math.max(1, options.size / 24);
+  const body = buildPrimitives(options, width, height, layer).map(p => {
+    switch (p.kind) {
+      case 'line':
+        return `<line x1="${p.x1}" y1="${p.y1}" x2="${p.x2}" y2="${p.y2}"/>`;
+      case 'circle':
+        return `<circle cx="${p.cx}" cy="${p.cy}" r="${p.r}"/>`;
+      default:
+        return `<text x="${p.x}" y="${p.y}" font-size="${p.fontSize}" font-family="monospace" text-anchor="middle" fill="${MARK_COLOR}" stroke="none">${escapeXml(p.text)}</text>`;
+    }
+  }).join('');
+  return `<g id="registration-marks" fill="none" stroke="${MARK_COLOR}" stroke-width="${strokeWidth}">${body}</g>`;
+}
+
+/** Các nét của dấu canh chỉnh dạng đường gấp khúc cho tệp cắt; chữ (số lớp, mã màu) không được cắt nên bị bỏ qua. */
+export function buildRegistrationMarkPolylines(options: RegistrationOptions, width: number, height: number, layer: LayerLabel): Polyline[] {
+  if (!options.enabled) return [];
+  return buildPrimitives(options, width, height, layer).flatMap((p): Polyline[] => {
+    if (p.kind === 'line') return [{ points: [{ x: p.x1, y: p.y1 }, { x: p.x2, y: p.y2 }], closed: false }];
+    if (p.kind === 'circle') {
+      const points = Array.from({ length: CIRCLE_SEGMENTS }, (_, i) => {
+        const angle = (i / CIRCLE_SEGMENTS) * 2 * Math.PI;
+        return { x: p.cx + p.r * Math.cos(angle), y: p.cy + p.r * Math.sin(angle) };
+      });
+      return [{ points, closed: true }];
+    }
+    return [];
+  });
+}
+
+/** Vẽ cùng các dấu canh chỉnh lên canvas (dùng cho PNG xuất từ nguồn raster). */
+export function drawRegistrationMarks(ctx: CanvasRenderingContext2D, options: RegistrationOptions, width: number, height: number, layer: LayerLabel): void {
+  if (!options.enabled) return;
+  ctx.save();
+  ctx.strokeStyle = MARK_COLOR;
+  ctx.fillStyle = MARK_COLOR;
+  ctx.lineWidth = Math.max(1, options.size / 24);
+  for (const p of buildPrimitives(options, width, height, layer)) {
+    if (p.kind === 'line') {
+      ctx.beginPath();
+      ctx.moveTo(p.x1, p.y1);
+      ctx.lineTo(p.x2, p.y2);
+      ctx.stroke();
+    } else if (p.kind === 'circle') {
+      ctx.beginPath();
+      ctx.arc(p.cx, p.cy, p.r, 0, 2 * Math.PI);
+      ctx.stroke();
+    } else {
+      ctx.font = `${p.fontSize}px monospace`;
+      ctx.textAlign = 'center';
+      ctx.fillText(p.text, p.x, p.y);
+    }
+  }
+  ctx.restore();
+}
@@ -0,0 +1,150 @@
+import type { SVGColorGroup, RasterColorGroup, ImageDimensions, ExportFrame, BridgeOptions, IslandAnalysis, ProjectSettings, CleanupOverride } from '../types';
+import { processSVG } from './imageProcessor';
+import { traceRasterGroups } from './tracer';
+import { analyzeLayerMask, rasterizeSvgToMask, scaleBridges } from './bridges';
+import { createFinalSvgString, transformSvgGroups } from './svgExport';
+import { toleranceToDistance } from './colorUtils';
+import { isCleanupActive } from './labelCleanup';
+import { isPrefilterActive } from './prefilter';
+import { isDitherActive } from './dithering';
+import { layerColor } from './palette';
+import type { LabelMap, RasterPipeline } from './rasterPipeline';
+
+// Độ phân giải tối đa khi raster hóa lớp SVG để phân tích đảo
+const MAX_SVG_ANALYSIS_SIZE = 1200;
+
+export type SourceSettings = Pick<ProjectSettings, 'tolerance' | 'colorMetric' | 'groupingMode' | 'targetColorCount' | 'vectorizeRaster' | 'traceOptions' | 'svgPaintOptions' | 'cleanupOptions' | 'prefilterOptions' | 'ditherOptions'>;
+
+export interface SourceAnalysis {
+  groups: (SVGColorGroup | RasterColorGroup)[];
+  labelMap: LabelMap | null; // Chỉ có khi các lớp vẫn là raster
+  dimensions: ImageDimensions;
+  isSvgSource: boolean;
+}
+
+// Ở chế độ số lớp cố định, mọi pixel đều thuộc về cụm gần nhất nên không giới hạn khoảng cách.
+export const groupDistance = (settings: Pick<ProjectSettings, 'tolerance' | 'colorMetric' | 'groupingMode'>): number =>
+  settings.groupingMode === 'count' ? Infinity : toleranceToDistance(settings.tolerance, settings.colorMetric);
+
+// Các thiết lập quyết định cách tách nhóm; dung sai được theo dõi riêng vì thay đổi nó có thể hoàn tác.
+// Làm sạch và dither chỉ thay đổi các nhóm khi ảnh được vector hóa (path được dò từ bản đồ nhãn đã xử lý).
+export const processingKey = (settings: Omit<SourceSettings, 'tolerance'>): string =>
+  JSON.stringify([
+    settings.colorMetric,
+    settings.groupingMode,
+    settings.targetColorCount,
+    settings.vectorizeRaster,
+    settings.traceOptions,
+    settings.svgPaintOptions,
+    settings.vectorizeRaster && isCleanupActive(settings.cleanupOptions) ? settings.cleanupOptions : null,
+    settings.vectorizeRaster && isDitherActive(settings.ditherOptions) ? settings.ditherOptions : null,
+    isPrefilterActive(settings.prefilterOptions) ? settings.prefilterOptions : null,
+  ]);
+
+/** Đọc tệp nguồn: văn bản với SVG, data URL với ảnh raster. */
+export function readSourceFile(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => (typeof reader.result === 'string' && reader.result ? resolve(reader.result) : reject(new Error('Could not read file.')));
+    reader.onerror = () => reject(new Error('Error reading file.'));
+    if (file.type === 'image/svg+xml') reader.readAsText(file);
+    else reader.readAsDataURL(file);
+  });
+}
+
+/** Ảnh dùng để gom nhóm: ảnh đã giải mã sau bước tiền xử lý (nếu bật), chạy trong Worker của pipeline. */
+export async function prepareImageData(
+  decoded: ImageData,
+  settings: Pick<ProjectSettings, 'prefilterOptions'>,
+  pipeline: RasterPipeline,
+  onProgress?: (progress: number) => void
+): Promise<ImageData> {
+  return isPrefilterActive(settings.prefilterOptions) ? pipeline.prefilter(decoded, settings.prefilterOptions, onProgress) : decoded;
+}
+
+/** Thiết lập làm sạch riêng của từng lớp, theo nhãn (lớp SVG không có). */
+export const cleanupOverrides = (groups: (SVGColorGroup | RasterColorGroup)[]): (CleanupOverride | null)[] =>
+  groups.map(group => ('elements' in group ? null : group.cleanup ?? null));
+
+/** Bản đồ nhãn dùng để xuất lớp raster: bản đồ gốc sau khi làm sạch rồi dither (nếu bật). */
+export async function refineLabels(
+  imageData: ImageData,
+  labelMap: LabelMap,
+  groups: (SVGColorGroup | RasterColorGroup)[],
+  settings: Pick<ProjectSettings, 'cleanupOptions' | 'ditherOptions'>,
+  pipeline: RasterPipeline
+): Promise<LabelMap> {
+  const overrides = cleanupOverrides(groups);
+  const cleaned = isCleanupActive(settings.cleanupOptions, overrides) ? await pipeline.cleanup(imageData, labelMap, settings.cleanupOptions, overrides) : labelMap;
+  return isDitherActive(settings.ditherOptions) ? pipeline.dither(imageData, cleaned, groups.map(layerColor), settings.ditherOptions) : cleaned;
+}
+
+/**
+ * Tách một ảnh nguồn thành các nhóm màu theo thiết lập. Nguồn raster cần ảnh đã giải mã và tiền xử lý (imageData),
+ * việc phân tích chạy trong Worker của pipeline.
+ */
+export async function analyzeSource(
+  content: string,
+  imageData: ImageData | null,
+  settings: SourceSettings,
+  pipeline: RasterPipeline,
+  onProgress?: (progress: number) => void
+): Promise<SourceAnalysis> {
+  if (!imageData) {
+    const { groups, dimensions } = processSVG(content, settings.tolerance, settings.colorMetric, settings.svgPaintOptions);
+    return { groups, labelMap: null, dimensions, isSvgSource: true };
+  }
+
+  const { width, height } = imageData;
+  const { groups, labelMap } = await pipeline.analyze(
+    imageData,
+    settings.tolerance,
+    settings.colorMetric,
+    settings.groupingMode === 'count' ? settings.targetColorCount : null,
+    groupDistance(settings),
+    onProgress
+  );
+  const dimensions = { width, height, viewBox: `0 0 ${width} ${height}` };
+  // Khi bật vector hóa, các nhóm raster được dò thành path và xử lý tiếp như nguồn SVG.
+  if (settings.vectorizeRaster) {
+    const traced = await refineLabels(imageData, labelMap, groups, settings, pipeline);
+    return { groups: traceRasterGroups(width, height, groups, traced.labels, settings.traceOptions), labelMap: null, dimensions, isSvgSource: true };
+  }
+  return { groups, labelMap, dimensions, isSvgSource: false };
+}
+
+/**
+ * Phân tích đảo cho từng lớp: lớp SVG được raster hóa trong khung xuất (giới hạn độ phân giải rồi quy đổi lại),
+ * lớp raster dùng độ phân giải gốc. Trả về null nếu bị hủy giữa chừng.
+ */
+export async function analyzeIslands(
+  groups: (SVGColorGroup | RasterColorGroup)[],
+  source: { isSvgSource: boolean; dimensions: ImageDimensions | null; frame: ExportFrame; imageData: ImageData | null; labelMap: LabelMap | null },
+  bridgeOptions: BridgeOptions,
+  isCancelled: () => boolean = () => false
+): Promise<Map<SVGColorGroup | RasterColorGroup, IslandAnalysis> | null> {
+  const analyses = new Map<SVGColorGroup | RasterColorGroup, IslandAnalysis>();
+  const { frame } = source;
+  if (source.isSvgSource) {
+    const analysisScale = Math.min(1, MAX_SVG_ANALYSIS_SIZE / Math.max(frame.width, frame.height));
+    const width = Math.max(1, Math.round(frame.width * analysisScale));
+    const height = Math.max(1, Math.round(frame.height * analysisScale));
+    const scaledOptions = { ...bridgeOptions, width: bridgeOptions.width * analysisScale };
+    for (const group of groups as SVGColorGroup[]) {
+      const svgData = createFinalSvgString(transformSvgGroups([group], source.dimensions, frame), { ...frame, background: null });
+      const mask = await rasterizeSvgToMask(svgData, width, height);
+      if (isCancelled()) return null;
+      const analysis = analyzeLayerMask(mask, width, height, group.representativeColor, scaledOptions);
+      analyses.set(group, { ...analysis, bridges: scaleBridges(analysis.bridges, 1 / analysisScale) });
+    }
+  } else if (source.imageData && source.labelMap) {
+    const { width, height } = source.imageData;
+    const { labels } = source.labelMap;
+    const mask = new Uint8Array(width * height);
+    groups.forEach((group, index) => {
+      for (let p = 0; p < labels.length; p++) mask[p] = labels[p] === index ? 1 : 0;
+      analyses.set(group, analyzeLayerMask(mask, width, height, group.representativeColor, bridgeOptions));
+    });
+  }
+  return isCancelled() ? null : analyses;
+}
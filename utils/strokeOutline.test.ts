@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import type { StrokeStyle } from './strokeOutline';
+import { outlineStroke } from './strokeOutline';
+
+const STYLE: StrokeStyle = { width: 4, lineJoin: 'miter', lineCap: 'butt', miterLimit: 4, dashArray: [], dashOffset: 0 };
+
+type Point = [number, number];
+
+// Tách kết quả thành các đa giác M…L…Z
+function polygons(d: string): Point[][] {
+  return d.split('Z').filter(Boolean).map(part =>
+    part.slice(1).split('L').map(pair => pair.split(' ').map(Number) as Point)
+  );
+}
+
+function signedArea(polygon: Point[]): number {
+  let area = 0;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    area += (polygon[j][0] + polygon[i][0]) * (polygon[j][1] - polygon[i][1]);
+  }
+  return area / 2;
+}
+
+// Quy tắc tô nonzero trên toàn bộ đường bao
+function covers(d: string, x: number, y: number): boolean {
+  let winding = 0;
+  polygons(d).forEach(polygon => {
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const [x1, y1] = polygon[j];
+      const [x2, y2] = polygon[i];
+      if ((y1 <= y) !== (y2 <= y)) {
+        const cross = x1 + ((y - y1) / (y2 - y1)) * (x2 - x1);
+        if (cross > x) winding += y2 > y1 ? 1 : -1;
+      }
+    }
+  });
+  return winding !== 0;
+}
+
+function bounds(d: string): [number, number, number, number] {
+  const points = polygons(d).flat();
+  const xs = points.map(p => p[0]);
+  const ys = points.map(p => p[1]);
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+}
+
+describe('outlineStroke', () => {
+  it('outlines a straight line as a rectangle of the stroke width', () => {
+    const d = outlineStroke('M0 0L10 0', STYLE);
+    expect(bounds(d)).toEqual([0, -2, 10, 2]);
+    expect(covers(d, 5, 1.9)).toBe(true);
+    expect(covers(d, 5, 2.1)).toBe(false);
+  });
+
+  it('extends square and round caps past the end points', () => {
+    expect(bounds(outlineStroke('M0 0L10 0', { ...STYLE, lineCap: 'square' }))).toEqual([-2, -2, 12, 2]);
+    const round = outlineStroke('M0 0L10 0', { ...STYLE, lineCap: 'round' });
+    expect(covers(round, -1.9, 0)).toBe(true);
+    expect(covers(round, -1.9, 1.9)).toBe(false);
+  });
+
+  it('winds every piece the same way so nonzero filling unions them', () => {
+    const d = outlineStroke('M0 0L10 0L10 10', { ...STYLE, lineJoin: 'round' });
+    const signs = new Set(polygons(d).map(p => Math.sign(signedArea(p))));
+    expect(signs.size).toBe(1);
+  });
+
+  it('fills the outer corner according to the line join', () => {
+    const corner = (lineJoin: StrokeStyle['lineJoin']) => outlineStroke('M0 0L10 0L10 10', { ...STYLE, lineJoin });
+    // Góc ngoài ở (12, -2): chỉ miter lấp đầy
+    expect(covers(corner('miter'), 11.8, -1.8)).toBe(true);
+    expect(covers(corner('bevel'), 11.8, -1.8)).toBe(false);
+    expect(covers(corner('round'), 11.8, -1.8)).toBe(false);
+    expect(covers(corner('round'), 11.3, -1.3)).toBe(true);
+  });
+
+  it('falls back to a bevel past the miter limit', () => {
+    // Góc rất nhọn: đỉnh miter nằm xa hơn giới hạn
+    const d = outlineStroke('M0 0L20 0L0 1', { ...STYLE, miterLimit: 2 });
+    expect(bounds(d)[2]).toBeLessThan(24);
+    expect(bounds(outlineStroke('M0 0L20 0L0 1', { ...STYLE, miterLimit: 100 }))[2]).toBeGreaterThan(50);
+  });
+
+  it('closes closed subpaths without caps', () => {
+    const d = outlineStroke('M0 0H10V10H0Z', STYLE);
+    expect(bounds(d)).toEqual([-2, -2, 12, 12]);
+    expect(covers(d, 5, 5)).toBe(false);
+    expect(covers(d, 0, 5)).toBe(true);
+  });
+
+  it('splits the stroke along the dash pattern', () => {
+    const d = outlineStroke('M0 0L20 0', { ...STYLE, dashArray: [5, 5] });
+    expect(covers(d, 2, 0)).toBe(true);
+    expect(covers(d, 7, 0)).toBe(false);
+    expect(covers(d, 12, 0)).toBe(true);
+    const shifted = outlineStroke('M0 0L20 0', { ...STYLE, dashArray: [5, 5], dashOffset: 5 });
+    expect(covers(shifted, 2, 0)).toBe(false);
+    expect(covers(shifted, 7, 0)).toBe(true);
+  });
+
+  it('flattens curves and skips zero-width strokes', () => {
+    const d = outlineStroke('M0 0C0 10 10 10 10 0', STYLE);
+    expect(covers(d, 5, 7.5)).toBe(true);
+    expect(bounds(d)[3]).toBeCloseTo(9.5, 0);
+    expect(outlineStroke('M0 0L10 0', { ...STYLE, width: 0 })).toBe('');
+  });
+});
@@ -0,0 +1,240 @@
+import type { PathPoint, Polyline } from './geometry';
+import { flattenPath, parsePathData } from './geometry';
+
+export interface StrokeStyle {
+  width: number;
+  lineJoin: 'miter' | 'round' | 'bevel';
+  lineCap: 'butt' | 'round' | 'square';
+  miterLimit: number;
+  dashArray: number[];
+  dashOffset: number;
+}
+
+// Số đoạn của một đường tròn đầy đủ (đầu tròn, nối tròn)
+const CIRCLE_SEGMENTS = 32;
+const EPSILON = 1e-9;
+
+const distance = (a: PathPoint, b: PathPoint) => Math.hypot(b.x - a.x, b.y - a.y);
+const lerp = (a: PathPoint, b: PathPoint, t: number): PathPoint => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+
+/** Đọc các thuộc tính nét từ style đã tính toán (giá trị dạng "2px", "5px, 3px"...). */
+export function strokeStyleFromComputed(style: CSSStyleDeclaration): StrokeStyle {
+  const number = (value: string, fallback: number) => (isNaN(parseFloat(value)) ? fallback : parseFloat(value));
+  const dashArray = style.strokeDasharray && style.strokeDasharray !== 'none'
+    ? style.strokeDasharray.split(/[\s,]+/).map(parseFloat).filter(v => !isNaN(v))
+    : [];
+  const lineJoin = style.strokeLinejoin === 'round' || style.strokeLinejoin === 'bevel' ? style.strokeLinejoin : 'miter';
+  const lineCap = style.strokeLinecap === 'round' || style.strokeLinecap === 'square' ? style.strokeLinecap : 'butt';
+  return {
+    width: number(style.strokeWidth, 1),
+    lineJoin,
+    lineCap,
+    miterLimit: number(style.strokeMiterlimit, 4),
+    dashArray,
+    dashOffset: number(style.strokeDashoffset, 0),
+  };
+}
+
+/** Đọc các thuộc tính nét mà processSVG ghi trực tiếp lên phần tử (thuộc tính hoặc style). */
+export function strokeStyleOf(el: SVGElement): StrokeStyle {
+  const attributeOf = (name: string) => el.style?.getPropertyValue(name) || el.getAttribute(name);
+  const number = (name: string, fallback: number) => {
+    const value = parseFloat(attributeOf(name) ?? '');
+    return isNaN(value) ? fallback : value;
+  };
+  const join = attributeOf('stroke-linejoin');
+  const cap = attributeOf('stroke-linecap');
+  const dashes = attributeOf('stroke-dasharray');
+  return {
+    width: number('stroke-width', 1),
+    lineJoin: join === 'round' || join === 'bevel' ? join : 'miter',
+    lineCap: cap === 'round' || cap === 'square' ? cap : 'butt',
+    miterLimit: number('stroke-miterlimit', 4),
+    dashArray: dashes && dashes !== 'none' ? dashes.split(/[\s,]+/).map(parseFloat).filter(v => !isNaN(v)) : [],
+    dashOffset: number('stroke-dashoffset', 0),
+  };
+}
+
+/** Cắt một đường gấp khúc theo stroke-dasharray; kết quả là các đoạn nét hở. */
+function dashPolyline(line: Polyline, dashArray: number[], dashOffset: number): Polyline[] {
+  // Mảng có số phần tử lẻ được lặp lại để thành số chẵn, theo đặc tả SVG
+  const pattern = dashArray.length % 2 === 1 ? [...dashArray, ...dashArray] : dashArray;
+  const total = pattern.reduce((sum, v) => sum + v, 0);
+  if (pattern.length === 0 || total <= 0 || pattern.some(v => v < 0)) return [line];
+
+  const points = line.closed ? [...line.points, line.points[0]] : line.points;
+  let phase = ((dashOffset % total) + total) % total;
+  let index = 0;
+  while (phase >= pattern[index]) {
+    phase -= pattern[index];
+    index = (index + 1) % pattern.length;
+  }
+  let remaining = pattern[index] - phase;
+  let on = index % 2 === 0;
+
+  const pieces: Polyline[] = [];
+  let current: PathPoint[] = on ? [points[0]] : [];
+  for (let i = 1; i < points.length; i++) {
+    let a = points[i - 1];
+    const b = points[i];
+    let segmentLength = distance(a, b);
+    while (segmentLength > remaining) {
+      const p = lerp(a, b, remaining / segmentLength);
+      if (on) {
+        current.push(p);
+        pieces.push({ points: current, closed: false });
+        current = [];
+      } else {
+        current = [p];
+      }
+      on = !on;
+      index = (index + 1) % pattern.length;
+      segmentLength -= remaining;
+      a = p;
+      remaining = pattern[index];
+    }
+    remaining -= segmentLength;
+    if (on) current.push(b);
+  }
+  if (on && current.length > 1) pieces.push({ points: current, closed: false });
+  return pieces;
+}
+
+function circlePolygon(center: PathPoint, radius: number): PathPoint[] {
+  return Array.from({ length: CIRCLE_SEGMENTS }, (_, i) => {
+    const angle = (i / CIRCLE_SEGMENTS) * 2 * Math.PI;
+    return { x: center.x + Math.cos(angle) * radius, y: center.y + Math.sin(angle) * radius };
+  });
+}
+
+/** Đa giác đầu nét tại `p`, với `out` là hướng đơn vị đi ra khỏi nét. */
+function capPolygon(p: PathPoint, out: PathPoint, halfWidth: number, cap: StrokeStyle['lineCap']): PathPoint[] | null {
+  if (cap === 'round') return circlePolygon(p, halfWidth);
+  if (cap !== 'square') return null;
+  const nx = -out.y * halfWidth;
+  const ny = out.x * halfWidth;
+  const ex = out.x * halfWidth;
+  const ey = out.y * halfWidth;
+  return [
+    { x: p.x + nx, y: p.y + ny },
+    { x: p.x + nx + ex, y: p.y + ny + ey },
+    { x: p.x - nx + ex, y: p.y - ny + ey },
+    { x: p.x - nx, y: p.y - ny },
+  ];
+}
+
+/** Đa giác phần nối ở phía ngoài của đỉnh `v`, giữa hướng vào `d1` và hướng ra `d2`. */
+function joinPolygon(v: PathPoint, d1: PathPoint, d2: PathPoint, halfWidth: number, style: StrokeStyle): PathPoint[] | null {
+  const cross = d1.x * d2.y - d1.y * d2.x;
+  const dot = d1.x * d2.x + d1.y * d2.y;
+  if (Math.abs(cross) < EPSILON && dot > 0) return null;
+
+  const side = cross > 0 ? -1 : 1;
+  const n1 = { x: -d1.y * side, y: d1.x * side };
+  const n2 = { x: -d2.y * side, y: d2.x * side };
+  const p1 = { x: v.x + n1.x * halfWidth, y: v.y + n1.y * halfWidth };
+  const p2 = { x: v.x + n2.x * halfWidth, y: v.y + n2.y * halfWidth };
+
+  if (style.lineJoin === 'round') {
+    const a1 = Math.atan2(n1.y, n1.x);
+    let delta = Math.atan2(n2.y, n2.x) - a1;
+    if (delta > Math.PI) delta -= 2 * Math.PI;
+    if (delta < -Math.PI) delta += 2 * Math.PI;
+    const steps = Math.max(2, Math.ceil((Math.abs(delta) / (2 * Math.PI)) * CIRCLE_SEGMENTS));
+    const arc = Array.from({ length: steps + 1 }, (_, i) => {
+      const angle = a1 + (delta * i) / steps;
+      return { x: v.x + Math.cos(angle) * halfWidth, y: v.y + Math.sin(angle) * halfWidth };
+    });
+    return [v, ...arc];
+  }
+
+  if (style.lineJoin === 'miter') {
+    // Tỉ lệ miter = 1 / cos(góc rẽ / 2); vượt quá stroke-miterlimit thì chuyển sang bevel
+    const cosHalfTurn = Math.sqrt(Math.max(0, (1 + dot) / 2));
+    if (cosHalfTurn > EPSILON && 1 / cosHalfTurn <= style.miterLimit) {
+      const mx = n1.x + n2.x;
+      const my = n1.y + n2.y;
+      const length = Math.hypot(mx, my);
+      const reach = halfWidth / cosHalfTurn;
+      return [v, p1, { x: v.x + (mx / length) * reach, y: v.y + (my / length) * reach }, p2];
+    }
+  }
+  return [v, p1, p2];
+}
+
+function signedArea(points: PathPoint[]): number {
+  let area = 0;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    area += (points[j].x + points[i].x) * (points[j].y - points[i].y);
+  }
+  return area / 2;
+}
+
+const fmt = (n: number) => String(Math.round(n * 1000) / 1000);
+
+/**
+ * Chuyển nét của một path thành đường bao tô kín. Mỗi đoạn, phần nối và đầu nét là một đa giác riêng,
+ * tất cả cùng chiều, nên hợp của chúng được vẽ đúng với fill-rule nonzero.
+ */
+export function outlineStroke(d: string, style: StrokeStyle): string {
+  const halfWidth = style.width / 2;
+  if (!(halfWidth > 0)) return '';
+  const tolerance = Math.max(1e-3, style.width * 0.05);
+
+  const lines = flattenPath(parsePathData(d), tolerance).flatMap(line =>
+    style.dashArray.length > 0 ? dashPolyline(line, style.dashArray, style.dashOffset) : [line]
+  );
+
+  const polygons: PathPoint[][] = [];
+  const push = (polygon: PathPoint[] | null) => {
+    if (polygon) polygons.push(polygon);
+  };
+
+  lines.forEach(({ points, closed }) => {
+    if (points.length === 0) return;
+    if (points.length === 1) {
+      // Subpath dài bằng 0: chỉ hiển thị khi có đầu nét tròn hoặc vuông
+      push(capPolygon(points[0], { x: 1, y: 0 }, halfWidth, style.lineCap));
+      return;
+    }
+
+    const count = closed ? points.length : points.length - 1;
+    const directions: PathPoint[] = [];
+    for (let i = 0; i < count; i++) {
+      const a = points[i];
+      const b = points[(i + 1) % points.length];
+      const length = distance(a, b);
+      const dir = { x: (b.x - a.x) / length, y: (b.y - a.y) / length };
+      directions.push(dir);
+      const nx = -dir.y * halfWidth;
+      const ny = dir.x * halfWidth;
+      push([
+        { x: a.x + nx, y: a.y + ny },
+        { x: b.x + nx, y: b.y + ny },
+        { x: b.x - nx, y: b.y - ny },
+        { x: a.x - nx, y: a.y - ny },
+      ]);
+    }
+
+    for (let i = closed ? 0 : 1; i < count; i++) {
+      const incoming = directions[(i - 1 + count) % count];
+      push(joinPolygon(points[i], incoming, directions[i], halfWidth, style));
+    }
+
+    if (!closed) {
+      const first = directions[0];
+      const last = directions[count - 1];
+      push(capPolygon(points[0], { x: -first.x, y: -first.y }, halfWidth, style.lineCap));
+      push(capPolygon(points[points.length - 1], last, halfWidth, style.lineCap));
+    }
+  });
+
+  return polygons
+    .map(polygon => {
+      const area = signedArea(polygon);
+      if (Math.abs(area) < EPSILON) return '';
+      const ordered = area < 0 ? [...polygon].reverse() : polygon;
+      return `M${ordered.map(p => `${fmt(p.x)} ${fmt(p.y)}`).join('L')}Z`;
+    })
+    .join('');
+}
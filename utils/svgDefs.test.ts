@@ -0,0 +1,89 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { collectReferencedDefs, DEFAULT_SVG_PAINT_OPTIONS, defsToMarkup, expandUseElements, extractUrlId, mergeDefs, referencesDefs, resolvePaintServerColor } from './svgDefs';
+
+function parseSvg(body: string): SVGSVGElement {
+  const doc = new DOMParser().parseFromString(`<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">${body}</svg>`, 'image/svg+xml');
+  // getComputedStyle cần phần tử nằm trong tài liệu của window
+  const svg = document.importNode(doc.documentElement, true) as unknown as SVGSVGElement;
+  document.body.replaceChildren(svg);
+  return svg;
+}
+
+const GRADIENT = '<linearGradient id="g"><stop offset="0" style="stop-color:#ff0000"/><stop offset="1" style="stop-color:#0000ff"/></linearGradient>';
+
+describe('extractUrlId', () => {
+  it('reads the id from url references', () => {
+    expect(extractUrlId('url(#grad)')).toBe('grad');
+    expect(extractUrlId('url("#a-b")')).toBe('a-b');
+    expect(extractUrlId('url("http://host/page.html#clip")')).toBe('clip');
+    expect(extractUrlId('#ff0000')).toBeNull();
+    expect(extractUrlId(null)).toBeNull();
+  });
+});
+
+describe('expandUseElements', () => {
+  it('replaces <use> with a translated copy of its target', () => {
+    const svg = parseSvg('<defs><rect id="r" width="5" height="5"/></defs><use href="#r" x="10" y="20" fill="red"/>');
+    expandUseElements(svg);
+    expect(svg.querySelector('use')).toBeNull();
+    const wrapper = svg.querySelector(':scope > g')!;
+    expect(wrapper.getAttribute('transform')).toBe('translate(10 20)');
+    expect(wrapper.getAttribute('fill')).toBe('red');
+    const copy = wrapper.querySelector('rect')!;
+    expect(copy.getAttribute('width')).toBe('5');
+    expect(copy.hasAttribute('id')).toBe(false);
+  });
+
+  it('turns symbols into groups and expands nested uses', () => {
+    const svg = parseSvg('<symbol id="s"><circle r="2"/></symbol><g id="outer"><use xlink:href="#s"/></g><use href="#outer"/>');
+    expandUseElements(svg);
+    expect(svg.querySelectorAll('use')).toHaveLength(0);
+    expect(svg.querySelectorAll('circle')).toHaveLength(3);
+  });
+
+  it('stops on self references', () => {
+    const svg = parseSvg('<g id="loop"><use href="#loop"/></g>');
+    expandUseElements(svg);
+    expect(svg.querySelectorAll('use')).toHaveLength(0);
+  });
+});
+
+describe('resolvePaintServerColor', () => {
+  it('averages gradient stops or picks the dominant one', () => {
+    const svg = parseSvg(`${GRADIENT}<linearGradient id="h"><stop offset="0.8" style="stop-color:#00ff00"/><stop offset="1" style="stop-color:#000000"/></linearGradient>`);
+    expect(resolvePaintServerColor('g', svg, { ...DEFAULT_SVG_PAINT_OPTIONS, gradientColor: 'average' })).toEqual({ r: 128, g: 0, b: 128 });
+    expect(resolvePaintServerColor('h', svg, { ...DEFAULT_SVG_PAINT_OPTIONS, gradientColor: 'dominant' })).toEqual({ r: 0, g: 255, b: 0 });
+  });
+
+  it('follows gradient inheritance through href', () => {
+    const svg = parseSvg(`${GRADIENT}<radialGradient id="child" href="#g"/>`);
+    expect(resolvePaintServerColor('child', svg, { ...DEFAULT_SVG_PAINT_OPTIONS, gradientColor: 'average' })).toEqual({ r: 128, g: 0, b: 128 });
+  });
+
+  it('uses the first solid fill of a pattern', () => {
+    const svg = parseSvg('<pattern id="p"><rect width="2" height="2" style="fill:#00ff00"/></pattern>');
+    expect(resolvePaintServerColor('p', svg, { ...DEFAULT_SVG_PAINT_OPTIONS, gradientColor: 'average' })).toEqual({ r: 0, g: 255, b: 0 });
+    expect(resolvePaintServerColor('missing', svg, { ...DEFAULT_SVG_PAINT_OPTIONS, gradientColor: 'average' })).toBeNull();
+  });
+});
+
+describe('collectReferencedDefs', () => {
+  it('collects direct and indirect references', () => {
+    const svg = parseSvg(`<defs>${GRADIENT}<linearGradient id="child" href="#g"/><clipPath id="c"><rect width="1" height="1" fill="url(#g)"/></clipPath><mask id="unused"/></defs><path id="shape" fill="url(#child)" clip-path="url(#c)"/>`);
+    const shape = svg.querySelector('#shape')!;
+    expect(referencesDefs(shape)).toBe(true);
+    const acc = new Map<string, SVGElement>();
+    collectReferencedDefs(shape, svg, acc);
+    expect([...acc.keys()].sort()).toEqual(['c', 'child', 'g']);
+  });
+
+  it('merges by id and writes a defs block', () => {
+    const svg = parseSvg(GRADIENT);
+    const gradient = svg.querySelector('#g') as SVGElement;
+    const merged = mergeDefs([gradient], [gradient.cloneNode(true) as SVGElement]);
+    expect(merged).toHaveLength(1);
+    expect(defsToMarkup(merged)).toMatch(/^<defs><linearGradient id="g">.*<\/defs>$/);
+    expect(defsToMarkup([])).toBe('');
+  });
+});
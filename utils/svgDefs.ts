@@ -0,0 +1,217 @@
+import type { RGBColor, SvgPaintOptions } from '../types';
+import { parseColorString } from './colorUtils';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+// Số vòng mở rộng <use> tối đa, chặn các tham chiếu vòng
+const MAX_USE_DEPTH = 8;
+// Các thuộc tính có thể tham chiếu đến một định nghĩa qua url(#id)
+const REFERENCE_ATTRIBUTES = ['fill', 'stroke', 'clip-path', 'mask', 'filter', 'marker-start', 'marker-mid', 'marker-end'];
+
+export const DEFAULT_SVG_PAINT_OPTIONS: SvgPaintOptions = {
+  gradientColor: 'average',
+  flattenGradients: false,
+  strokeMode: 'ignore',
+};
+
+// Các vùng chứa định nghĩa: hình bên trong chúng không được hiển thị trực tiếp
+export const NON_RENDERED_CONTAINERS = 'defs, clipPath, mask, pattern, marker, symbol, linearGradient, radialGradient';
+
+export function getHref(el: Element): string | null {
+  return el.getAttribute('href') || el.getAttributeNS(XLINK_NS, 'href');
+}
+
+export function extractUrlId(value: string | null): string | null {
+  // Một số trình duyệt trả về style đã tính toán kèm URL đầy đủ của tài liệu trước dấu #
+  const match = value ? /url\(\s*["']?[^#"')]*#([^"')\s]+)["']?\s*\)/.exec(value) : null;
+  return match ? match[1] : null;
+}
+
+function findById(root: Element, id: string): Element | null {
+  return root.querySelector(`[id="${id.replace(/"/g, '\\"')}"]`);
+}
+
+/**
+ * Thay mỗi <use> bằng một <g> chứa bản sao của phần tử được tham chiếu (x/y được chuyển thành translate,
+ * <symbol> được chuyển thành <g>). Lặp lại để mở rộng cả các <use> lồng nhau.
+ */
+export function expandUseElements(root: Element): void {
+  const doc = root.ownerDocument;
+  for (let depth = 0; depth < MAX_USE_DEPTH; depth++) {
+    const uses = Array.from(root.querySelectorAll('use'));
+    if (uses.length === 0) return;
+
+    uses.forEach(use => {
+      const href = getHref(use);
+      const target = href && href.startsWith('#') ? findById(root, href.slice(1)) : null;
+      const wrapper = doc.createElementNS(SVG_NS, 'g');
+
+      Array.from(use.attributes).forEach(attr => {
+        if (!['href', 'xlink:href', 'x', 'y', 'width', 'height', 'transform', 'id'].includes(attr.name)) {
+          wrapper.setAttribute(attr.name, attr.value);
+        }
+      });
+      const x = parseFloat(use.getAttribute('x') || '0') || 0;
+      const y = parseFloat(use.getAttribute('y') || '0') || 0;
+      const transform = [use.getAttribute('transform'), x || y ? `translate(${x} ${y})` : null].filter(Boolean).join(' ');
+      if (transform) wrapper.setAttribute('transform', transform);
+
+      if (target && !target.contains(use)) {
+        let content: Element;
+        if (target.tagName === 'symbol') {
+          content = doc.createElementNS(SVG_NS, 'g');
+          Array.from(target.childNodes).forEach(child => content.appendChild(child.cloneNode(true)));
+        } else {
+          content = target.cloneNode(true) as Element;
+        }
+        // Bản sao không được trùng id với bản gốc
+        content.removeAttribute('id');
+        content.querySelectorAll('[id]').forEach(child => child.removeAttribute('id'));
+        wrapper.appendChild(content);
+      }
+      use.replaceWith(wrapper);
+    });
+  }
+}
+
+function collectStops(gradient: Element, root: Element): Element[] {
+  let current: Element | null = gradient;
+  for (let depth = 0; current && depth < MAX_USE_DEPTH; depth++) {
+    const stops = Array.from(current.children).filter(child => child.tagName === 'stop');
+    if (stops.length > 0) return stops;
+    const href = getHref(current);
+    current = href && href.startsWith('#') ? findById(root, href.slice(1)) : null;
+  }
+  return [];
+}
+
+/** Quy một gradient về một màu: trung bình theo độ dài các khoảng màu, hoặc màu của điểm dừng chiếm khoảng lớn nhất. */
+function reduceGradient(gradient: Element, root: Element, mode: SvgPaintOptions['gradientColor']): RGBColor | null {
+  const stops = collectStops(gradient, root)
+    .map(stop => {
+      const offsetAttr = stop.getAttribute('offset') || '0';
+      const offset = offsetAttr.trim().endsWith('%') ? parseFloat(offsetAttr) / 100 : parseFloat(offsetAttr);
+      return { offset: Math.min(1, Math.max(0, isNaN(offset) ? 0 : offset)), color: parseColorString(window.getComputedStyle(stop).stopColor) };
+    })
+    .filter((stop): stop is { offset: number; color: RGBColor } => stop.color !== null);
+  if (stops.length === 0) return null;
+  if (stops.length === 1) return stops[0].color;
+
+  if (mode === 'dominant') {
+    let best = stops[0];
+    let bestSpan = -1;
+    stops.forEach((stop, i) => {
+      const start = i === 0 ? 0 : (stops[i - 1].offset + stop.offset) / 2;
+      const end = i === stops.length - 1 ? 1 : (stop.offset + stops[i + 1].offset) / 2;
+      if (end - start > bestSpan) {
+        bestSpan = end - start;
+        best = stop;
+      }
+    });
+    return best.color;
+  }
+
+  const sum = { r: 0, g: 0, b: 0 };
+  const add = (color: RGBColor, weight: number) => {
+    sum.r += color.r * weight;
+    sum.g += color.g * weight;
+    sum.b += color.b * weight;
+  };
+  add(stops[0].color, stops[0].offset);
+  for (let i = 0; i < stops.length - 1; i++) {
+    const span = Math.max(0, stops[i + 1].offset - stops[i].offset);
+    add(stops[i].color, span / 2);
+    add(stops[i + 1].color, span / 2);
+  }
+  add(stops[stops.length - 1].color, 1 - stops[stops.length - 1].offset);
+  return { r: Math.round(sum.r), g: Math.round(sum.g), b: Math.round(sum.b) };
+}
+
+/**
+ * Xác định màu dùng để gom nhóm cho một paint server (gradient hoặc pattern) được tham chiếu bằng url(#id).
+ * Pattern lấy màu tô đặc đầu tiên bên trong nó.
+ */
+export function resolvePaintServerColor(id: string, root: Element, options: SvgPaintOptions): RGBColor | null {
+  const server = findById(root, id);
+  if (!server) return null;
+  if (server.tagName === 'linearGradient' || server.tagName === 'radialGradient') {
+    return reduceGradient(server, root, options.gradientColor);
+  }
+  if (server.tagName === 'pattern') {
+    for (const shape of Array.from(server.querySelectorAll('path, rect, circle, ellipse, polygon, polyline'))) {
+      const fill = window.getComputedStyle(shape).fill;
+      if (!extractUrlId(fill)) {
+        const color = parseColorString(fill);
+        if (color) return color;
+      }
+    }
+  }
+  return null;
+}
+
+/** Phần tử có tham chiếu đến một định nghĩa trong <defs> hay không. */
+export function referencesDefs(el: Element): boolean {
+  return REFERENCE_ATTRIBUTES.some(name => extractUrlId(el.getAttribute(name)) !== null);
+}
+
+/**
+ * Thu thập (bản sao của) mọi định nghĩa mà phần tử tham chiếu đến, kể cả các tham chiếu gián tiếp
+ * (gradient kế thừa qua href, gradient dùng bên trong pattern hay mask...).
+ */
+export function collectReferencedDefs(el: Element, root: Element, acc: Map<string, SVGElement>): void {
+  const pending: string[] = [];
+  const scan = (node: Element) => {
+    REFERENCE_ATTRIBUTES.forEach(name => {
+      const id = extractUrlId(node.getAttribute(name));
+      if (id) pending.push(id);
+    });
+    const href = getHref(node);
+    if (href && href.startsWith('#') && node !== el) pending.push(href.slice(1));
+  };
+  scan(el);
+
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (acc.has(id)) continue;
+    const definition = findById(root, id);
+    if (!definition) continue;
+    acc.set(id, definition.cloneNode(true) as SVGElement);
+    scan(definition);
+    definition.querySelectorAll('*').forEach(scan);
+  }
+}
+
+export function mergeDefs(...lists: (SVGElement[] | undefined)[]): SVGElement[] {
+  const byId = new Map<string, SVGElement>();
+  lists.forEach(list => list?.forEach(def => byId.set(def.getAttribute('id') || '', def)));
+  return Array.from(byId.values());
+}
+
+export function defsToMarkup(defs: SVGElement[] | undefined): string {
+  return defs && defs.length > 0 ? `<defs>${defs.map(def => def.outerHTML).join('')}</defs>` : '';
+}
+
+// Phần tử có thể chạy mã hoặc nhúng HTML khi bản sao được gắn vào trang
+const UNSAFE_ELEMENTS = 'script, foreignObject, iframe, embed, object';
+// Thuộc tính chứa liên kết (kể cả giá trị mà <animate>/<set> gán cho href)
+const LINK_ATTRIBUTES = ['href', 'xlink:href', 'to', 'from', 'values'];
+
+/**
+ * Bản sao của một phần tử từ SVG người dùng tải lên, đã bỏ các phần tử có thể chạy mã,
+ * các thuộc tính sự kiện on* và các liên kết javascript:, để có thể gắn trực tiếp vào trang.
+ */
+export function sanitizedClone<T extends Element>(el: T): T {
+  const clone = el.cloneNode(true) as T;
+  clone.querySelectorAll(UNSAFE_ELEMENTS).forEach(child => child.remove());
+  [clone, ...Array.from(clone.querySelectorAll('*'))].forEach(node => {
+    Array.from(node.attributes).forEach(attr => {
+      const name = attr.name.toLowerCase();
+      // Trình duyệt bỏ qua khoảng trắng và ký tự điều khiển trong scheme của URL
+      const link = attr.value.replace(/[\s\u0000-\u001f]/g, '').toLowerCase();
+      if (name.startsWith('on') || (LINK_ATTRIBUTES.includes(name) && link.includes('javascript:'))) {
+        node.removeAttribute(attr.name);
+      }
+    });
+  });
+  return clone;
+}
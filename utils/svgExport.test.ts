@@ -0,0 +1,115 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import type { ExportSettings, SVGColorGroup } from '../types';
+import { createFinalSvgString, DEFAULT_EXPORT_SETTINGS, resolveExportFrame, toPixels, transformSvgGroups } from './svgExport';
+
+const SOURCE = { width: 200, height: 100, viewBox: null };
+const settings = (overrides: Partial<ExportSettings>): ExportSettings => ({ ...DEFAULT_EXPORT_SETTINGS, ...overrides });
+
+describe('toPixels', () => {
+  it('converts physical units at the given DPI', () => {
+    expect(toPixels(25.4, 'mm', 300)).toBeCloseTo(300);
+    expect(toPixels(2, 'in', 96)).toBe(192);
+    expect(toPixels(123, 'px', 300)).toBe(123);
+  });
+});
+
+describe('resolveExportFrame', () => {
+  it('fits the source inside the frame and centres it', () => {
+    const frame = resolveExportFrame(settings({ width: 600, height: 600 }), SOURCE);
+    expect(frame).toMatchObject({ width: 600, height: 600, widthAttr: '600', heightAttr: '600', scale: 3 });
+    expect(frame.translateX).toBe(0);
+    expect(frame.translateY).toBe(150);
+  });
+
+  it('fills the frame when asked to, cropping the long side', () => {
+    const frame = resolveExportFrame(settings({ width: 600, height: 600, aspect: 'fill' }), SOURCE);
+    expect(frame.scale).toBe(6);
+    expect(frame.translateX).toBe(-300);
+    expect(frame.translateY).toBe(0);
+  });
+
+  it('leaves room for the margin', () => {
+    const frame = resolveExportFrame(settings({ width: 600, height: 600, margin: 50 }), SOURCE);
+    expect(frame.scale).toBe(2.5);
+    expect(frame.translateX).toBe(50);
+  });
+
+  it('keeps the original scale and grows the frame by the margin', () => {
+    const frame = resolveExportFrame(settings({ aspect: 'original', margin: 10 }), { width: 0, height: 0, viewBox: '-5 -5 200 100' });
+    expect(frame).toMatchObject({ width: 220, height: 120, scale: 1, translateX: 15, translateY: 15 });
+  });
+
+  it('writes physical sizes into the SVG attributes', () => {
+    const frame = resolveExportFrame(settings({ width: 100, height: 50, unit: 'mm', dpi: 254 }), SOURCE);
+    expect(frame).toMatchObject({ width: 1000, height: 500, widthAttr: '100mm', heightAttr: '50mm' });
+    const svg = createFinalSvgString('<path/>', frame);
+    expect(svg).toContain('width="100mm" height="50mm" viewBox="0 0 1000 500"');
+  });
+
+  it('uses the frame as is without a source', () => {
+    expect(resolveExportFrame(settings({ width: 300, height: 200 }), null)).toMatchObject({ width: 300, height: 200, scale: 1, translateX: 0, translateY: 0 });
+  });
+});
+
+describe('createFinalSvgString', () => {
+  it('adds a background only when one is set', () => {
+    const frame = resolveExportFrame(settings({ background: '#ffffff' }), null);
+    expect(createFinalSvgString('<path/>', frame)).toContain('<rect width="100%" height="100%" fill="#ffffff"/><path/>');
+    expect(createFinalSvgString('<path/>')).not.toContain('<rect');
+  });
+});
+
+describe('transformSvgGroups', () => {
+  const withoutNamespace = (markup: string) => markup.replaceAll(' xmlns="http://www.w3.org/2000/svg"', '');
+  const group = (markup: string): SVGColorGroup => {
+    const doc = new DOMParser().parseFromString(`<svg xmlns="http://www.w3.org/2000/svg">${markup}</svg>`, 'image/svg+xml');
+    return { representativeColor: { r: 255, g: 0, b: 0 }, elements: Array.from(doc.documentElement.children) as SVGElement[] };
+  };
+
+  it('paints recoloured layers with their paint colour', () => {
+    const recolored = { ...group('<path d="M0 0H1V1Z"/><g><rect style="fill:red" stroke="red" width="1" height="1"/><circle fill="none" r="1"/></g>'), targetColor: { color: { r: 0, g: 128, b: 0 } } };
+    const svg = withoutNamespace(transformSvgGroups([recolored], null));
+    expect(svg).toContain('<path fill="#008000" d="M0 0L1 0L1 1Z"/>');
+    const rect = new DOMParser().parseFromString(`<svg xmlns="http://www.w3.org/2000/svg">${svg}</svg>`, 'image/svg+xml').querySelector('rect')!;
+    expect([rect.getAttribute('fill'), rect.getAttribute('stroke'), rect.style.fill]).toEqual(['#008000', '#008000', '']);
+    expect(svg).toContain('<circle fill="none" r="1"/>');
+    expect(svg).not.toContain('red');
+  });
+
+  it('leaves layers without a paint colour untouched', () => {
+    expect(withoutNamespace(transformSvgGroups([group('<path d="M0 0H1V1Z" fill="red"/>')], null))).toBe('<path fill="red" d="M0 0L1 0L1 1Z"/>');
+  });
+
+  describe('spread', () => {
+    const pathPoints = (markup: string) => {
+      const d = new DOMParser().parseFromString(`<svg xmlns="http://www.w3.org/2000/svg">${markup}</svg>`, 'image/svg+xml').querySelector('path')!.getAttribute('d')!;
+      return Array.from(d.matchAll(/(-?[\d.]+) (-?[\d.]+)/g), ([, x, y]) => ({ x: +x, y: +y }));
+    };
+    // Khoảng cách từ điểm tới hình vuông [min, max]²
+    const distanceToSquare = ({ x, y }: { x: number; y: number }, min: number, max: number) =>
+      Math.hypot(Math.max(min - x, 0, x - max), Math.max(min - y, 0, y - max));
+
+    it('offsets the outline of a filled shape by the spread distance', () => {
+      const svg = transformSvgGroups([group('<rect width="10" height="10" fill="red"/>')], null, undefined, 2);
+      expect(svg).not.toContain('stroke');
+      const points = pathPoints(svg);
+      expect(Math.min(...points.map(p => p.x))).toBeCloseTo(-2);
+      expect(Math.max(...points.map(p => p.y))).toBeCloseTo(12);
+      points.forEach(p => expect(distanceToSquare(p, 0, 10)).toBeCloseTo(2, 2));
+    });
+
+    it('measures the spread in frame pixels and fills stroke-only shapes with the stroke paint', () => {
+      const frame = resolveExportFrame(settings({ width: 100, height: 100 }), { width: 10, height: 10, viewBox: null });
+      const svg = transformSvgGroups([group('<path d="M0 0H10V10H0Z" fill="none" stroke="blue" stroke-width="2"/>')], { width: 10, height: 10, viewBox: null }, frame, 5);
+      expect(svg).toContain('fill="blue"');
+      // Nét rộng 2 đơn vị (20 px, nối vuông) phủ [-10, 110]² trừ lỗ [10, 90]²; phần loang thêm 5 px mỗi phía
+      const points = pathPoints(svg);
+      const outer = points.filter(p => distanceToSquare(p, 0, 100) > 0);
+      const inner = points.filter(p => distanceToSquare(p, 0, 100) === 0);
+      expect(outer.length).toBeGreaterThan(0);
+      outer.forEach(p => expect(distanceToSquare(p, -10, 110)).toBeCloseTo(5, 1));
+      expect(inner.map(p => Math.min(p.x, p.y, 100 - p.x, 100 - p.y))).toEqual([15, 15, 15, 15]);
+    });
+  });
+});
@@ -0,0 +1,306 @@
+import type { ImageDimensions, ExportSettings, ExportFrame, SizeUnit, SVGColorGroup } from '../types';
+import {
+  applyMatrix,
+  flattenPath,
+  GEOMETRY_ATTRIBUTES,
+  getCumulativeTransform,
+  IDENTITY_MATRIX,
+  invertMatrix,
+  isIdentityMatrix,
+  matrixToString,
+  multiplyMatrices,
+  parsePathData,
+  parseTransform,
+  pathCommandsToString,
+  shapeToPathData,
+  transformPathCommands,
+} from './geometry';
+import type { Matrix } from './geometry';
+import { defsToMarkup, mergeDefs, referencesDefs } from './svgDefs';
+import { rgbToHex } from './colorUtils';
+import { loopsToPathData, offsetLoops, regionLoops, unionLoops } from './polygonOps';
+import type { Loop } from './polygonOps';
+import { outlineStroke, strokeStyleOf } from './strokeOutline';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+// Sai số (px của khung xuất) khi làm phẳng đường cong và cung bo góc của phần loang
+const SPREAD_TOLERANCE = 0.05;
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  width: 600,
+  height: 600,
+  unit: 'px',
+  dpi: 96,
+  aspect: 'fit',
+  margin: 0,
+  background: null,
+  scaleRaster: false,
+};
+
+// Khung 600×600 mặc định, dùng khi chưa có kích thước nguồn (ví dụ trình chỉnh sửa SVG).
+export const DEFAULT_EXPORT_FRAME: ExportFrame = {
+  width: 600,
+  height: 600,
+  widthAttr: '600',
+  heightAttr: '600',
+  background: null,
+  scale: 1,
+  translateX: 0,
+  translateY: 0,
+};
+
+export function toPixels(value: number, unit: SizeUnit, dpi: number): number {
+  switch (unit) {
+    case 'mm':
+      return (value / 25.4) * dpi;
+    case 'in':
+      return value * dpi;
+    default:
+      return value;
+  }
+}
+
+function fromPixels(value: number, unit: SizeUnit, dpi: number): number {
+  return unit === 'px' ? value : value / toPixels(1, unit, dpi);
+}
+
+const formatLength = (value: number, unit: SizeUnit) =>
+  `${Math.round(value * 1000) / 1000}${unit === 'px' ? '' : unit}`;
+
+export function parseViewBox(dimensions: ImageDimensions | null): [number, number, number, number] | null {
+  if (!dimensions) return null;
+  const viewBox = dimensions.viewBox || `0 0 ${dimensions.width} ${dimensions.height}`;
+  const parts = viewBox.split(/[ ,]+/).map(parseFloat);
+  if (parts.length !== 4 || parts.some(isNaN) || parts[2] <= 0 || parts[3] <= 0) return null;
+  return parts as [number, number, number, number];
+}
+
+/**
+ * Tính khung xuất từ thiết lập và kích thước nguồn. Tọa độ trong khung là pixel ở DPI đã chọn;
+ * thuộc tính width/height của SVG mang đơn vị vật lý để in đúng kích thước.
+ */
+export function resolveExportFrame(settings: ExportSettings, dimensions: ImageDimensions | null): ExportFrame {
+  const viewBox = parseViewBox(dimensions);
+  const margin = Math.max(0, toPixels(settings.margin, settings.unit, settings.dpi));
+
+  let width = Math.max(1, Math.round(toPixels(settings.width, settings.unit, settings.dpi)));
+  let height = Math.max(1, Math.round(toPixels(settings.height, settings.unit, settings.dpi)));
+  let widthAttr = formatLength(settings.width, settings.unit);
+  let heightAttr = formatLength(settings.height, settings.unit);
+
+  if (!viewBox) {
+    return { width, height, widthAttr, heightAttr, background: settings.background, scale: 1, translateX: 0, translateY: 0 };
+  }
+
+  const [x, y, w, h] = viewBox;
+  let scale: number;
+  if (settings.aspect === 'original') {
+    // Giữ nguyên viewBox gốc theo tỉ lệ 1:1, khung chỉ được nới thêm lề
+    scale = 1;
+    width = Math.max(1, Math.round(w + 2 * margin));
+    height = Math.max(1, Math.round(h + 2 * margin));
+    widthAttr = formatLength(fromPixels(width, settings.unit, settings.dpi), settings.unit);
+    heightAttr = formatLength(fromPixels(height, settings.unit, settings.dpi), settings.unit);
+  } else {
+    const availableWidth = Math.max(1, width - 2 * margin);
+    const availableHeight = Math.max(1, height - 2 * margin);
+    scale = settings.aspect === 'fill'
+      ? Math.max(availableWidth / w, availableHeight / h)
+      : Math.min(availableWidth / w, availableHeight / h);
+  }
+
+  return {
+    width,
+    height,
+    widthAttr,
+    heightAttr,
+    background: settings.background,
+    scale,
+    translateX: (width - w * scale) / 2 - x * scale,
+    translateY: (height - h * scale) / 2 - y * scale,
+  };
+}
+
+/** Phép biến đổi từ viewBox gốc vào khung xuất (đơn vị nếu nguồn không có viewBox). */
+export const frameMatrix = (dimensions: ImageDimensions | null, frame: ExportFrame): Matrix =>
+  parseViewBox(dimensions) ? [frame.scale, 0, 0, frame.scale, frame.translateX, frame.translateY] : IDENTITY_MATRIX;
+
+// `rootAttributes` được thêm vào thẻ <svg> (ví dụ khai báo namespace của Inkscape)
+export const createFinalSvgString = (innerHtml: string, frame: ExportFrame = DEFAULT_EXPORT_FRAME, rootAttributes = ''): string => {
+    const background = frame.background ? `<rect width="100%" height="100%" fill="${frame.background}"/>` : '';
+    return `<svg width="${frame.widthAttr}" height="${frame.heightAttr}" viewBox="0 0 ${frame.width} ${frame.height}" fill="none" xmlns="http://www.w3.org/2000/svg"${rootAttributes}>${background}${innerHtml}</svg>`;
+};
+
+/**
+ * Đưa các phần tử từ hệ tọa độ gốc vào khung xuất. Mọi hình cơ bản được chuyển thành path và
+ * phép biến đổi (của khung, của phần tử và của các thẻ <g> cha đã được ghép sẵn) được áp dụng
+ * trực tiếp lên dữ liệu path. Các phần tử không phải hình, cùng các hình có nét hoặc tham chiếu
+ * gradient/clip-path/mask (vốn được tính trong hệ tọa độ gốc của hình), được bọc trong một transform duy nhất.
+ * `spread` (px của khung xuất) nới rộng mọi hình bằng phép dời biên.
+ */
+export const transformSvgElements = (elements: SVGElement[], dimensions: ImageDimensions | null, frame: ExportFrame = DEFAULT_EXPORT_FRAME, spread = 0): string => {
+    const toFrame = frameMatrix(dimensions, frame);
+
+    return elements.map(source => {
+        const matrix = multiplyMatrices(toFrame, parseTransform(source.getAttribute('transform')));
+        if (spread > 0) {
+            const spreadHtml = spreadShapeHtml(source, matrix, spread);
+            if (spreadHtml !== null) return spreadHtml;
+        }
+        // Nét nằm trong hệ tọa độ của phần tử nên độ dày được chia cho tỉ lệ của phép biến đổi
+        const el = spread > 0 ? spreadElement(source, (2 * spread) / (Math.sqrt(Math.abs(matrix[0] * matrix[3] - matrix[1] * matrix[2])) || 1)) : source;
+        // Hình có nét giữ nguyên hình học để độ dày nét được co giãn cùng khung
+        const stroke = el.getAttribute('stroke');
+        const keepGeometry = referencesDefs(el) || (!!stroke && stroke !== 'none');
+        const d = keepGeometry ? null : shapeToPathData(el);
+
+        if (d === null) {
+            const clone = el.cloneNode(true) as SVGElement;
+            clone.removeAttribute('transform');
+            return isIdentityMatrix(matrix)
+              ? clone.outerHTML
+              : `<g transform="${matrixToString(matrix)}">${clone.outerHTML}</g>`;
+        }
+
+        const path = el.ownerDocument.createElementNS(SVG_NS, 'path');
+        Array.from(el.attributes).forEach(attr => {
+            if (!GEOMETRY_ATTRIBUTES.includes(attr.name)) path.setAttribute(attr.name, attr.value);
+        });
+        path.setAttribute('d', pathCommandsToString(transformPathCommands(parsePathData(d), matrix)));
+        return path.outerHTML;
+    }).join('');
+};
+
+const paintOf = (node: SVGElement, prop: 'fill' | 'fill-rule' | 'stroke' | 'stroke-width'): string | null =>
+    node.style?.getPropertyValue(prop) || node.getAttribute(prop);
+
+// Giá trị của `node`, kế thừa từ các thẻ cha cho tới `root`
+const inheritedPaint = (node: SVGElement, root: SVGElement, prop: 'fill' | 'fill-rule' | 'stroke'): string | null => {
+    for (let current: SVGElement | null = node; current; current = current === root ? null : (current.parentNode as SVGElement | null)) {
+        const value = paintOf(current, prop);
+        if (value) return value;
+    }
+    return null;
+};
+
+const SHAPE_SELECTOR = 'path, rect, circle, ellipse, polygon, polyline, line';
+const PAINT_PROPERTIES = ['fill', 'fill-rule', 'stroke', 'stroke-width', 'stroke-linejoin', 'stroke-linecap', 'stroke-miterlimit', 'stroke-dasharray', 'stroke-dashoffset', 'stroke-opacity'];
+
+/**
+ * Phần loang của một hình (hoặc một <g> chỉ gồm các hình): vùng tô và vùng nét được đưa vào khung xuất, dời biên ra
+ * `spread` px rồi xuất thành một path tô kín bằng màu của hình. Trả về null với phần tử có nội dung không phải hình
+ * (chữ, ảnh...).
+ */
+const spreadShapeHtml = (el: SVGElement, matrix: Matrix, spread: number): string | null => {
+    const nodes = shapeToPathData(el) !== null ? [el] : Array.from(el.querySelectorAll<SVGElement>(SHAPE_SELECTOR));
+    if (nodes.length === 0 || el.querySelector('text, image, use, foreignObject')) return null;
+
+    let paint: string | null = null;
+    const regions: Loop[][] = [];
+    const addRegion = (d: string, nodeMatrix: Matrix, evenOdd: boolean) =>
+        regions.push(regionLoops(flattenPath(transformPathCommands(parsePathData(d), nodeMatrix), SPREAD_TOLERANCE), evenOdd));
+    nodes.forEach(node => {
+        const d = shapeToPathData(node);
+        if (!d) return;
+        const nodeMatrix = node === el ? matrix : multiplyMatrices(matrix, getCumulativeTransform(node, el));
+        const fill = inheritedPaint(node, el, 'fill');
+        const stroke = inheritedPaint(node, el, 'stroke');
+        if (fill !== 'none') {
+            paint ??= fill ?? 'black';
+            addRegion(d, nodeMatrix, inheritedPaint(node, el, 'fill-rule') === 'evenodd');
+        }
+        if (stroke && stroke !== 'none') {
+            paint ??= stroke;
+            const outline = outlineStroke(d, strokeStyleOf(node));
+            if (outline) addRegion(outline, nodeMatrix, false);
+        }
+    });
+    if (paint === null) return '';
+    const loops = offsetLoops(regions.length === 1 ? regions[0] : unionLoops(...regions), spread, SPREAD_TOLERANCE);
+
+    const path = el.ownerDocument.createElementNS(SVG_NS, 'path');
+    Array.from(el.attributes).forEach(attr => {
+        if (!GEOMETRY_ATTRIBUTES.includes(attr.name) && !PAINT_PROPERTIES.includes(attr.name)) path.setAttribute(attr.name, attr.value);
+    });
+    PAINT_PROPERTIES.forEach(prop => path.style?.removeProperty(prop));
+    if (path.getAttribute('style') === '') path.removeAttribute('style');
+    path.setAttribute('fill', paint);
+    if (!referencesDefs(path)) {
+        path.setAttribute('d', loopsToPathData(loops));
+        return path.outerHTML;
+    }
+    // Gradient, clip-path và mask được tính trong hệ tọa độ của phần tử nên đường bao được đưa ngược về hệ đó
+    const inverse = invertMatrix(matrix);
+    const local = loops.map(loop => loop.map(p => applyMatrix(inverse, p.x, p.y)));
+    path.setAttribute('d', pathCommandsToString(local.flatMap(loop => [
+        { type: 'M' as const, ...loop[0] },
+        ...loop.slice(1).map(p => ({ type: 'L' as const, ...p })),
+        { type: 'Z' as const },
+    ])));
+    return `<g transform="${matrixToString(matrix)}">${path.outerHTML}</g>`;
+};
+
+// Nới rộng phần tử không có hình học path (chữ, ảnh...) bằng một nét cùng màu tô, hoặc làm dày nét sẵn có
+const spreadElement = (el: SVGElement, strokeWidth: number): SVGElement => {
+    const clone = el.cloneNode(true) as SVGElement;
+    [clone, ...Array.from(clone.querySelectorAll<SVGElement>('*'))].forEach((node, index) => {
+        const fill = paintOf(node, 'fill');
+        const stroke = paintOf(node, 'stroke');
+        const currentWidth = parseFloat(paintOf(node, 'stroke-width') ?? '') || 1;
+        node.style?.removeProperty('stroke');
+        node.style?.removeProperty('stroke-width');
+        if (stroke && stroke !== 'none') {
+            node.setAttribute('stroke', stroke);
+            node.setAttribute('stroke-width', String(currentWidth + strokeWidth));
+        } else if (fill === 'none') {
+            // Không kế thừa nét của thẻ <g> cha
+            node.setAttribute('stroke', 'none');
+            return;
+        } else if (fill || index === 0) {
+            node.setAttribute('stroke', fill || 'black');
+            node.setAttribute('stroke-width', String(strokeWidth));
+        } else {
+            return;
+        }
+        node.setAttribute('stroke-linejoin', 'round');
+        node.setAttribute('stroke-linecap', 'round');
+    });
+    return clone;
+};
+
+// Thay mọi fill/stroke đang được vẽ (thuộc tính hoặc style, kể cả của các phần tử con trong <g>) bằng màu sơn của lớp
+const recolorElement = (el: SVGElement, hex: string): SVGElement => {
+    const clone = el.cloneNode(true) as SVGElement;
+    [clone, ...Array.from(clone.querySelectorAll<SVGElement>('*'))].forEach((node, index) => {
+        (['fill', 'stroke'] as const).forEach(prop => {
+            const value = node.style?.getPropertyValue(prop) || node.getAttribute(prop);
+            // Phần tử gốc không khai báo fill vẫn được tô đen mặc định
+            const painted = value ? value !== 'none' : prop === 'fill' && index === 0;
+            if (!painted) return;
+            node.style?.removeProperty(prop);
+            node.setAttribute(prop, hex);
+        });
+    });
+    return clone;
+};
+
+const paintedElements = (group: SVGColorGroup): SVGElement[] => {
+    if (!group.targetColor) return group.elements;
+    const hex = rgbToHex(group.targetColor.color);
+    return group.elements.map(el => recolorElement(el, hex));
+};
+
+/** Xuất nội dung của một hay nhiều nhóm màu, kèm các định nghĩa (<defs>) mà chúng tham chiếu. */
+export const transformSvgGroups = (groups: SVGColorGroup[], dimensions: ImageDimensions | null, frame: ExportFrame = DEFAULT_EXPORT_FRAME, spread = 0): string => {
+    const defs = mergeDefs(...groups.map(group => group.defs));
+    return defsToMarkup(defs) + transformSvgElements(groups.flatMap(paintedElements), dimensions, frame, spread);
+};
+
+/**
+ * Như transformSvgGroups nhưng nội dung của từng nhóm được bọc riêng bởi `wrap`;
+ * các <defs> dùng chung được gộp một lần ở đầu để id không bị trùng.
+ */
+export const transformSvgLayers = (groups: SVGColorGroup[], dimensions: ImageDimensions | null, frame: ExportFrame, wrap: (content: string, index: number) => string): string => {
+    const defs = mergeDefs(...groups.map(group => group.defs));
+    return defsToMarkup(defs) + groups.map((group, index) => wrap(transformSvgElements(paintedElements(group), dimensions, frame), index)).join('');
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import type { LayerImage } from '../types';
+import { encodeTiff } from './tiff';
+
+interface Page {
+  tags: Map<number, number[]>;
+}
+
+// Đọc chuỗi IFD (little-endian) và giá trị của các thẻ SHORT, LONG và ASCII
+function readPages(view: DataView): Page[] {
+  const pages: Page[] = [];
+  for (let offset = view.getUint32(4, true); offset !== 0; offset = view.getUint32(offset + 2 + view.getUint16(offset, true) * 12, true)) {
+    const tags = new Map<number, number[]>();
+    const count = view.getUint16(offset, true);
+    for (let i = 0; i < count; i++) {
+      const at = offset + 2 + i * 12;
+      const type = view.getUint16(at + 2, true);
+      const length = view.getUint32(at + 4, true);
+      const size = type === 2 ? 1 : type === 3 ? 2 : 4;
+      if (type === 5) continue;
+      const start = length * size > 4 ? view.getUint32(at + 8, true) : at + 8;
+      const values = Array.from({ length }, (_, j) =>
+        type === 2 ? view.getUint8(start + j) : type === 3 ? view.getUint16(start + j * 2, true) : view.getUint32(start + j * 4, true)
+      );
+      tags.set(view.getUint16(at, true), values);
+    }
+    pages.push({ tags });
+  }
+  return pages;
+}
+
+function unpackBits(bytes: Uint8Array): number[] {
+  const out: number[] = [];
+  for (let i = 0; i < bytes.length;) {
+    const n = (bytes[i++] << 24) >> 24;
+    if (n >= 0) {
+      out.push(...bytes.subarray(i, i + n + 1));
+      i += n + 1;
+    } else if (n !== -128) {
+      out.push(...new Array<number>(1 - n).fill(bytes[i++]));
+    }
+  }
+  return out;
+}
+
+const solidLayer = (name: string, rgba: number[]): LayerImage => {
+  const pixels = new Uint8ClampedArray(3 * 2 * 4);
+  for (let i = 0; i < pixels.length; i += 4) pixels.set(rgba, i);
+  return { name, pixels };
+};
+
+describe('encodeTiff', () => {
+  const layers = [solidLayer('#FF0000', [255, 0, 0, 255]), solidLayer('Layer é', [0, 0, 255, 128])];
+  const encode = async () => new DataView(await (await encodeTiff(3, 2, layers.length, async index => layers[index], 300)).arrayBuffer());
+
+  it('writes a little-endian header and one page per layer', async () => {
+    const view = await encode();
+    expect([view.getUint8(0), view.getUint8(1), view.getUint16(2, true)]).toEqual([0x49, 0x49, 42]);
+    const pages = readPages(view);
+    expect(pages).toHaveLength(2);
+    pages.forEach((page, index) => {
+      expect(page.tags.get(256)).toEqual([3]);
+      expect(page.tags.get(257)).toEqual([2]);
+      expect(page.tags.get(258)).toEqual([8, 8, 8, 8]);
+      expect(page.tags.get(259)).toEqual([32773]);
+      expect(page.tags.get(297)).toEqual([index, 2]);
+      expect(page.tags.get(338)).toEqual([2]);
+    });
+    const pageName = (page: Page) => String.fromCharCode(...page.tags.get(285)!.slice(0, -1));
+    expect(pages.map(pageName)).toEqual(['#FF0000', 'Layer ?']);
+  });
+
+  it('stores the layer pixels as PackBits strips', async () => {
+    const view = await encode();
+    const [, second] = readPages(view);
+    const offsets = second.tags.get(273)!;
+    const lengths = second.tags.get(279)!;
+    const pixels = offsets.flatMap((offset, i) => unpackBits(new Uint8Array(view.buffer, offset, lengths[i])));
+    expect(pixels).toEqual(Array.from(layers[1].pixels));
+  });
+});
@@ -0,0 +1,125 @@
+import type { LayerImage } from '../types';
+import { packBits, packBitsBound } from './packBits';
+
+const MAX_TIFF_SIZE = 0xffffffff;
+// Mỗi dải (strip) chứa khoảng 64 KB dữ liệu chưa nén
+const STRIP_BYTES = 65536;
+
+// Kiểu dữ liệu của các thẻ TIFF
+const ASCII = 2, SHORT = 3, LONG = 4, RATIONAL = 5;
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  values: number[]; // RATIONAL được ghi thành cặp tử số/mẫu số; ASCII là mã ký tự kèm NUL
+}
+
+/**
+ * Một IFD (little-endian) đặt tại `offset` trong tệp, theo sau là các giá trị không vừa 4 byte.
+ * Vị trí của IFD kế tiếp (4 byte cuối của bảng thẻ) được ghi sau qua `setNext`.
+ */
+function buildIfd(entries: IfdEntry[], offset: number): { bytes: Uint8Array; setNext: (next: number) => void } {
+  const tableSize = 2 + entries.length * 12 + 4;
+  const valueSize = (entry: IfdEntry) => entry.values.length * (entry.type === ASCII ? 1 : entry.type === SHORT ? 2 : 4);
+  const external = entries.reduce((sum, entry) => sum + (valueSize(entry) > 4 ? valueSize(entry) + (valueSize(entry) % 2) : 0), 0);
+  const bytes = new Uint8Array(tableSize + external);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, entries.length, true);
+  let valueOffset = tableSize;
+  entries.forEach((entry, i) => {
+    const at = 2 + i * 12;
+    const size = valueSize(entry);
+    view.setUint16(at, entry.tag, true);
+    view.setUint16(at + 2, entry.type, true);
+    view.setUint32(at + 4, entry.type === RATIONAL ? entry.values.length / 2 : entry.values.length, true);
+    let target = at + 8;
+    if (size > 4) {
+      view.setUint32(at + 8, offset + valueOffset, true);
+      target = valueOffset;
+      valueOffset += size + (size % 2); // Giá trị bắt đầu ở vị trí chẵn
+    }
+    entry.values.forEach((value, j) => {
+      if (entry.type === ASCII) view.setUint8(target + j, value);
+      else if (entry.type === SHORT) view.setUint16(target + j * 2, value, true);
+      else view.setUint32(target + j * 4, value, true);
+    });
+  });
+  return { bytes, setNext: next => view.setUint32(tableSize - 4, next, true) };
+}
+
+// Nén PackBits từng hàng (mỗi hàng được nén riêng theo đặc tả TIFF) và gom thành các dải
+function packStrips(pixels: Uint8ClampedArray, width: number, height: number, rowsPerStrip: number): Uint8Array[] {
+  const source = new Uint8Array(pixels.buffer, pixels.byteOffset, pixels.length);
+  const rowBytes = width * 4;
+  const strips: Uint8Array[] = [];
+  for (let top = 0; top < height; top += rowsPerStrip) {
+    const rows = Math.min(rowsPerStrip, height - top);
+    const out = new Uint8Array(rows * packBitsBound(rowBytes));
+    let pos = 0;
+    for (let y = top; y < top + rows; y++) pos = packBits(source, y * rowBytes, (y + 1) * rowBytes, out, pos);
+    strips.push(out.slice(0, pos));
+  }
+  return strips;
+}
+
+const asciiValues = (text: string) => [...text.replace(/[^\x20-\x7e]/g, '?')].map(ch => ch.charCodeAt(0)).concat(0);
+
+/**
+ * Tạo tệp TIFF nhiều trang, mỗi lớp một trang RGBA 8 bit (alpha không nhân trước, nén PackBits) mang tên lớp.
+ * Các lớp được lấy và nén lần lượt qua `layerAt` để không phải giữ mọi ảnh RGBA cùng lúc.
+ */
+export async function encodeTiff(
+  width: number,
+  height: number,
+  layerCount: number,
+  layerAt: (index: number) => Promise<LayerImage>,
+  dpi: number
+): Promise<Blob> {
+  const rowsPerStrip = Math.max(1, Math.floor(STRIP_BYTES / (width * 4)));
+  const header = new Uint8Array([0x49, 0x49, 42, 0, 8, 0, 0, 0]); // "II", 42, IFD đầu tiên ngay sau phần đầu
+  const parts: Uint8Array[] = [header];
+  let offset = header.length;
+  let previous: ((next: number) => void) | null = null;
+
+  for (let index = 0; index < layerCount; index++) {
+    const layer = await layerAt(index);
+    const strips = packStrips(layer.pixels, width, height, rowsPerStrip);
+    const stripLengths = strips.map(strip => strip.length);
+    const entries = (dataOffset: number): IfdEntry[] => {
+      let position = dataOffset;
+      const stripOffsets = stripLengths.map(length => (position += length) - length);
+      return [
+        { tag: 254, type: LONG, values: [2] }, // NewSubfileType: một trang của tài liệu nhiều trang
+        { tag: 256, type: LONG, values: [width] },
+        { tag: 257, type: LONG, values: [height] },
+        { tag: 258, type: SHORT, values: [8, 8, 8, 8] },
+        { tag: 259, type: SHORT, values: [32773] }, // PackBits
+        { tag: 262, type: SHORT, values: [2] }, // RGB
+        { tag: 273, type: LONG, values: stripOffsets },
+        { tag: 277, type: SHORT, values: [4] },
+        { tag: 278, type: LONG, values: [rowsPerStrip] },
+        { tag: 279, type: LONG, values: stripLengths },
+        { tag: 282, type: RATIONAL, values: [Math.round(dpi * 100), 100] },
+        { tag: 283, type: RATIONAL, values: [Math.round(dpi * 100), 100] },
+        { tag: 284, type: SHORT, values: [1] },
+        { tag: 285, type: ASCII, values: asciiValues(layer.name) }, // PageName
+        { tag: 296, type: SHORT, values: [2] }, // Inch
+        { tag: 297, type: SHORT, values: [index, layerCount] }, // PageNumber
+        { tag: 338, type: SHORT, values: [2] }, // Alpha không nhân trước
+      ];
+    };
+    // IFD được đặt trước dữ liệu ảnh của trang; kích thước của nó không phụ thuộc vào vị trí dữ liệu
+    const ifdSize = buildIfd(entries(0), 0).bytes.length;
+    const ifd = buildIfd(entries(offset + ifdSize), offset);
+    previous?.(offset);
+    previous = ifd.setNext;
+    parts.push(ifd.bytes, ...strips);
+    offset += ifd.bytes.length + stripLengths.reduce((sum, length) => sum + length, 0);
+    if (offset % 2) {
+      parts.push(new Uint8Array(1));
+      offset++;
+    }
+    if (offset > MAX_TIFF_SIZE) throw new Error('The document is larger than 4 GB and cannot be written as a TIFF file.');
+  }
+  return new Blob(parts as BlobPart[], { type: 'image/tiff' });
+}
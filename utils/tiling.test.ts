@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TILE_OPTIONS, tileFileName, tileLayout, tileSheetSize } from './tiling';
+
+// Ở 25,4 DPI một pixel là một milimét
+const DPI = 25.4;
+
+describe('tileSheetSize', () => {
+  it('swaps the sheet sides in landscape', () => {
+    expect(tileSheetSize(DEFAULT_TILE_OPTIONS)).toEqual({ width: 210, height: 297 });
+    expect(tileSheetSize({ ...DEFAULT_TILE_OPTIONS, landscape: true })).toEqual({ width: 297, height: 210 });
+    expect(tileSheetSize({ ...DEFAULT_TILE_OPTIONS, sheet: 'custom', width: 500, height: 700 })).toEqual({ width: 500, height: 700 });
+  });
+});
+
+describe('tileLayout', () => {
+  it('steps overlapping A4 tiles across the image', () => {
+    const layout = tileLayout(600, 400, DPI, DEFAULT_TILE_OPTIONS);
+    expect(layout).toMatchObject({ rows: 2, columns: 3, tileWidth: 210, tileHeight: 297, overlap: 10 });
+    expect(layout.tiles.map(tile => [tile.x, tile.y])).toEqual([[0, 0], [200, 0], [400, 0], [0, 287], [200, 287], [400, 287]]);
+    expect(layout.tiles.map(tile => tileFileName(tile, 'svg')).slice(0, 4)).toEqual(['r1-c1.svg', 'r1-c2.svg', 'r1-c3.svg', 'r2-c1.svg']);
+  });
+
+  it('covers the whole image with every sheet size', () => {
+    for (const sheet of ['a4', 'a3', 'cutter60'] as const) {
+      for (const landscape of [false, true]) {
+        const layout = tileLayout(2345, 1789, DPI, { ...DEFAULT_TILE_OPTIONS, sheet, landscape });
+        const last = layout.tiles[layout.tiles.length - 1];
+        expect(layout.tiles).toHaveLength(layout.rows * layout.columns);
+        expect(last.x + layout.tileWidth).toBeGreaterThanOrEqual(2345);
+        expect(last.y + layout.tileHeight).toBeGreaterThanOrEqual(1789);
+        // Không có tấm thừa: tấm trước tấm cuối chưa phủ tới mép ảnh
+        if (layout.columns > 1) expect(last.x - (layout.tileWidth - layout.overlap) + layout.tileWidth).toBeLessThan(2345);
+      }
+    }
+  });
+
+  it('uses a single tile when the image fits on one sheet', () => {
+    const layout = tileLayout(210, 297, DPI, DEFAULT_TILE_OPTIONS);
+    expect(layout.tiles).toEqual([{ row: 0, column: 0, x: 0, y: 0 }]);
+  });
+
+  it('scales the sheet with the DPI and caps the overlap at half a sheet', () => {
+    const layout = tileLayout(10000, 10000, 254, { ...DEFAULT_TILE_OPTIONS, overlap: 500 });
+    expect(layout.tileWidth).toBe(2100);
+    expect(layout.tileHeight).toBe(2970);
+    expect(layout.overlap).toBe(1050);
+    expect(layout.pxPerMm).toBeCloseTo(10);
+  });
+});
@@ -0,0 +1,262 @@
+import type { TileOptions, TileSheet, ExportFrame } from '../types';
+import type { LayerLabel } from './registrationMarks';
+import { createFinalSvgString } from './svgExport';
+import { parsePathData } from './geometry';
+
+export const DEFAULT_TILE_OPTIONS: TileOptions = {
+  enabled: false,
+  sheet: 'a4',
+  landscape: false,
+  width: 600,
+  height: 1000,
+  overlap: 10,
+};
+
+// Khổ chuẩn theo chiều dọc (mm)
+export const TILE_SHEETS: Record<Exclude<TileSheet, 'custom'>, { label: string; width: number; height: number }> = {
+  a4: { label: 'A4 (210 × 297 mm)', width: 210, height: 297 },
+  a3: { label: 'A3 (297 × 420 mm)', width: 297, height: 420 },
+  cutter60: { label: '60 cm cutter (600 × 1000 mm)', width: 600, height: 1000 },
+};
+
+// Kích thước của dấu, chữ và nét trên mỗi tấm (mm), không phụ thuộc DPI
+const MARK_SIZE_MM = 8;
+const LABEL_SIZE_MM = 4;
+const LINE_WIDTH_MM = 0.3;
+const MARK_COLOR = '#000000';
+const GUIDE_COLOR = '#808080';
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+
+export interface Tile {
+  row: number;
+  column: number;
+  x: number; // Góc trên trái của tấm trong ảnh lớp (px)
+  y: number;
+}
+
+export interface TileLayout {
+  rows: number;
+  columns: number;
+  tileWidth: number; // px
+  tileHeight: number;
+  overlap: number; // px
+  pxPerMm: number;
+  tiles: Tile[];
+}
+
+type TilePrimitive =
+  | { kind: 'line'; x1: number; y1: number; x2: number; y2: number; guide: boolean }
+  | { kind: 'circle'; cx: number; cy: number; r: number }
+  | { kind: 'text'; x: number; y: number; text: string; fontSize: number };
+
+/** Khổ của một tấm (mm) sau khi xoay. */
+export function tileSheetSize(options: TileOptions): { width: number; height: number } {
+  const sheet = options.sheet === 'custom' ? options : TILE_SHEETS[options.sheet];
+  return options.landscape ? { width: sheet.height, height: sheet.width } : { width: sheet.width, height: sheet.height };
+}
+
+/** Lưới các tấm phủ kín ảnh lớp `width` × `height` px (ở `dpi`), các tấm kề nhau chồng lên nhau một đoạn `overlap`. */
+export function tileLayout(width: number, height: number, dpi: number, options: TileOptions): TileLayout {
+  const pxPerMm = dpi / 25.4;
+  const sheet = tileSheetSize(options);
+  const tileWidth = Math.max(1, Math.round(sheet.width * pxPerMm));
+  const tileHeight = Math.max(1, Math.round(sheet.height * pxPerMm));
+  // Phần chồng mép không vượt quá nửa tấm để mỗi tấm vẫn có phần riêng
+  const overlap = Math.max(0, Math.min(Math.round(options.overlap * pxPerMm), Math.floor(Math.min(tileWidth, tileHeight) / 2)));
+  const count = (size: number, tile: number) => (size <= tile ? 1 : Math.ceil((size - overlap) / (tile - overlap)));
+  const columns = count(width, tileWidth);
+  const rows = count(height, tileHeight);
+  const tiles: Tile[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      tiles.push({ row, column, x: column * (tileWidth - overlap), y: row * (tileHeight - overlap) });
+    }
+  }
+  return { rows, columns, tileWidth, tileHeight, overlap, pxPerMm, tiles };
+}
+
+/** Thư mục (trong ZIP) chứa các tấm của lớp `index`. */
+export const tileFolder = (index: number) => `tiles/layer-${index + 1}`;
+
+export const tileFileName = (tile: Tile, extension: string) => `r${tile.row + 1}-c${tile.column + 1}.${extension}`;
+
+/**
+ * Dấu canh chỉnh nằm giữa dải chồng mép của mỗi đường nối, tính trong tọa độ của cả ảnh,
+ * nên hai tấm kề nhau có dấu ở cùng một vị trí và chỉ cần chồng các dấu lên nhau khi ghép.
+ */
+function seamMarks(layout: TileLayout): { x: number; y: number }[] {
+  const { rows, columns, tileWidth, tileHeight, overlap } = layout;
+  const marks: { x: number; y: number }[] = [];
+  if (overlap <= 0) return marks;
+  for (let column = 1; column < columns; column++) {
+    for (let row = 0; row < rows; row++) {
+      marks.push({ x: column * (tileWidth - overlap) + overlap / 2, y: row * (tileHeight - overlap) + tileHeight / 2 });
+    }
+  }
+  for (let row = 1; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      marks.push({ x: column * (tileWidth - overlap) + tileWidth / 2, y: row * (tileHeight - overlap) + overlap / 2 });
+    }
+  }
+  return marks;
+}
+
+// Đường chồng mép, dấu canh chỉnh và tọa độ của một tấm, trong hệ tọa độ của tấm
+function buildPrimitives(layout: TileLayout, tile: Tile, layer: LayerLabel): TilePrimitive[] {
+  const { rows, columns, tileWidth: w, tileHeight: h, overlap, pxPerMm } = layout;
+  const primitives: TilePrimitive[] = [];
+
+  // Chỉ các cạnh nối với tấm khác mới có đường chồng mép
+  if (overlap > 0) {
+    if (tile.column > 0) primitives.push({ kind: 'line', x1: overlap, y1: 0, x2: overlap, y2: h, guide: true });
+    if (tile.column < columns - 1) primitives.push({ kind: 'line', x1: w - overlap, y1: 0, x2: w - overlap, y2: h, guide: true });
+    if (tile.row > 0) primitives.push({ kind: 'line', x1: 0, y1: overlap, x2: w, y2: overlap, guide: true });
+    if (tile.row < rows - 1) primitives.push({ kind: 'line', x1: 0, y1: h - overlap, x2: w, y2: h - overlap, guide: true });
+  }
+
+  const half = Math.min(MARK_SIZE_MM * pxPerMm, overlap * 0.8) / 2;
+  seamMarks(layout).forEach(mark => {
+    const x = mark.x - tile.x;
+    const y = mark.y - tile.y;
+    if (x < 0 || y < 0 || x > w || y > h) return;
+    primitives.push(
+      { kind: 'line', x1: x - half, y1: y, x2: x + half, y2: y, guide: false },
+      { kind: 'line', x1: x, y1: y - half, x2: x, y2: y + half, guide: false },
+      { kind: 'circle', cx: x, cy: y, r: half * 0.6 }
+    );
+  });
+
+  const fontSize = LABEL_SIZE_MM * pxPerMm;
+  primitives.push({
+    kind: 'text',
+    x: overlap + fontSize / 2,
+    y: overlap + fontSize * 1.5,
+    text: `Layer ${layer.index + 1} · ${layer.hex.toUpperCase()} · R${tile.row + 1} C${tile.column + 1} of ${rows}×${columns}`,
+    fontSize,
+  });
+  return primitives;
+}
+
+// Khung bao của dữ liệu path theo các điểm điều khiển (luôn chứa cả đường cong); null nếu path rỗng
+function pathBounds(d: string): { minX: number; minY: number; maxX: number; maxY: number } | null {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  const add = (x: number, y: number) => {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  };
+  parsePathData(d).forEach(command => {
+    if (command.type === 'Z') return;
+    if (command.type === 'C') add(command.x2, command.y2);
+    if (command.type === 'C' || command.type === 'Q') add(command.x1, command.y1);
+    add(command.x, command.y);
+  });
+  return minX <= maxX ? { minX, minY, maxX, maxY } : null;
+}
+
+// Độ dày nét lớn nhất của path và các thẻ cha (thuộc tính hoặc style), 0 nếu không có
+function strokeWidthOf(el: Element | null): number {
+  let width = 0;
+  for (let node = el; node && node.namespaceURI === SVG_NS; node = node.parentElement) {
+    const value = parseFloat((node as SVGElement).style?.getPropertyValue('stroke-width') || node.getAttribute('stroke-width') || '');
+    if (!isNaN(value)) width = Math.max(width, value);
+  }
+  return width;
+}
+
+/**
+ * Bỏ khỏi nội dung lớp các path nằm hẳn ngoài tấm để tệp của mỗi tấm chỉ chứa phần của nó (phần còn lại bị cắt
+ * bằng clipPath). Chỉ xét các path không nằm dưới một transform hay trong defs/mask, vì transformSvgElements đã áp
+ * phép biến đổi lên dữ liệu path của chúng. Khung bao được nới thêm hai lần độ dày nét (đủ cho góc nhọn với miter-limit 4).
+ */
+function cropToTile(content: string, layout: TileLayout, tile: Tile): string {
+  const doc = new DOMParser().parseFromString(`<svg xmlns="${SVG_NS}" xmlns:xlink="${XLINK_NS}">${content}</svg>`, 'image/svg+xml');
+  if (doc.querySelector('parsererror')) return content;
+  const right = tile.x + layout.tileWidth;
+  const bottom = tile.y + layout.tileHeight;
+  doc.documentElement.querySelectorAll('path').forEach(path => {
+    if (path.parentElement?.closest('defs, mask, clipPath, [transform]') || path.hasAttribute('transform')) return;
+    if (['marker-start', 'marker-mid', 'marker-end'].some(name => path.hasAttribute(name))) return;
+    const bounds = pathBounds(path.getAttribute('d') ?? '');
+    const margin = 2 * strokeWidthOf(path) + 1;
+    if (!bounds || bounds.maxX + margin < tile.x || bounds.minX - margin > right || bounds.maxY + margin < tile.y || bounds.minY - margin > bottom) {
+      path.remove();
+    }
+  });
+  return doc.documentElement.innerHTML;
+}
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Tệp SVG của một tấm: khổ giấy thật (mm), cắt từ `content` (nội dung lớp trong khung xuất) bằng một clipPath
+ * đúng bằng tấm, và thêm đường chồng mép, dấu canh chỉnh và tọa độ của tấm.
+ */
+export function buildTileSvg(content: string, frame: ExportFrame, layout: TileLayout, tile: Tile, layer: LayerLabel): string {
+  const { tileWidth: w, tileHeight: h, pxPerMm } = layout;
+  const strokeWidth = LINE_WIDTH_MM * pxPerMm;
+  const overlay = buildPrimitives(layout, tile, layer).map(p => {
+    switch (p.kind) {
+      case 'line':
+        return `<line x1="${p.x1}" y1="${p.y1}" x2="${p.x2}" y2="${p.y2}"${p.guide ? ` stroke="${GUIDE_COLOR}" stroke-dasharray="${strokeWidth * 8} ${strokeWidth * 6}"` : ''}/>`;
+      case 'circle':
+        return `<circle cx="${p.cx}" cy="${p.cy}" r="${p.r}"/>`;
+      default:
+        return `<text x="${p.x}" y="${p.y}" font-size="${p.fontSize}" font-family="monospace" fill="${MARK_COLOR}" stroke="none">${escapeXml(p.text)}</text>`;
+    }
+  }).join('');
+  const sheetFrame: ExportFrame = {
+    ...frame,
+    width: w,
+    height: h,
+    widthAttr: `${Math.round((w / pxPerMm) * 100) / 100}mm`,
+    heightAttr: `${Math.round((h / pxPerMm) * 100) / 100}mm`,
+  };
+  return createFinalSvgString(
+    `<defs><clipPath id="tile-clip"><rect x="${tile.x}" y="${tile.y}" width="${w}" height="${h}"/></clipPath></defs>` +
+      `<g transform="translate(${-tile.x} ${-tile.y})"><g clip-path="url(#tile-clip)">${cropToTile(content, layout, tile)}</g></g>` +
+      `<g id="tile-marks" fill="none" stroke="${MARK_COLOR}" stroke-width="${strokeWidth}">${overlay}</g>`,
+    sheetFrame
+  );
+}
+
+/**
+ * Cắt một tấm từ canvas của lớp raster và vẽ đường chồng mép, dấu canh chỉnh và tọa độ lên đó.
+ * Tấm ở mép phải/dưới được cắt bớt phần nằm ngoài ảnh để không phải cấp phát canvas khổ đầy đủ.
+ */
+export function renderTileCanvas(source: HTMLCanvasElement, layout: TileLayout, tile: Tile, layer: LayerLabel): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.min(layout.tileWidth, source.width - tile.x));
+  canvas.height = Math.max(1, Math.min(layout.tileHeight, source.height - tile.y));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available.');
+  ctx.drawImage(source, -tile.x, -tile.y);
+  const lineWidth = Math.max(1, LINE_WIDTH_MM * layout.pxPerMm);
+  ctx.strokeStyle = MARK_COLOR;
+  ctx.fillStyle = MARK_COLOR;
+  ctx.lineWidth = lineWidth;
+  for (const p of buildPrimitives(layout, tile, layer)) {
+    if (p.kind === 'line') {
+      ctx.save();
+      if (p.guide) {
+        ctx.strokeStyle = GUIDE_COLOR;
+        ctx.setLineDash([lineWidth * 8, lineWidth * 6]);
+      }
+      ctx.beginPath();
+      ctx.moveTo(p.x1, p.y1);
+      ctx.lineTo(p.x2, p.y2);
+      ctx.stroke();
+      ctx.restore();
+    } else if (p.kind === 'circle') {
+      ctx.beginPath();
+      ctx.arc(p.cx, p.cy, p.r, 0, 2 * Math.PI);
+      ctx.stroke();
+    } else {
+      ctx.font = `${p.fontSize}px monospace`;
+      ctx.fillText(p.text, p.x, p.y);
+    }
+  }
+  return canvas;
+}
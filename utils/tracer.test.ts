@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { contourToPathData, extractContours, polygonArea, simplifyClosed, traceMask } from './tracer';
+
+const W = 12;
+
+// Mặt nạ W × W có các khối chữ nhật [x, y, w, h, giá trị] vẽ lần lượt
+function mask(blocks: [number, number, number, number, number][]): Uint8Array {
+  const m = new Uint8Array(W * W);
+  blocks.forEach(([x0, y0, w, h, value]) => {
+    for (let y = y0; y < y0 + h; y++) for (let x = x0; x < x0 + w; x++) m[y * W + x] = value;
+  });
+  return m;
+}
+
+describe('extractContours', () => {
+  it('traces a square between the pixel centres', () => {
+    const contours = extractContours(mask([[2, 2, 4, 4, 1]]), W, W);
+    expect(contours).toHaveLength(1);
+    const xs = contours[0].map(p => p.x);
+    const ys = contours[0].map(p => p.y);
+    expect([Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)]).toEqual([2, 6, 2, 6]);
+    // Hình vuông 4 × 4 bị vát bốn góc
+    expect(Math.abs(polygonArea(contours[0]))).toBe(15.5);
+  });
+
+  it('winds holes the opposite way to outer rings', () => {
+    const contours = extractContours(mask([[1, 1, 8, 8, 1], [4, 4, 2, 2, 0]]), W, W);
+    expect(contours).toHaveLength(2);
+    const [outer, hole] = [...contours].sort((a, b) => Math.abs(polygonArea(b)) - Math.abs(polygonArea(a)));
+    expect(Math.sign(polygonArea(outer))).toBe(-Math.sign(polygonArea(hole)));
+  });
+
+  it('keeps pixels that only touch diagonally apart', () => {
+    expect(extractContours(mask([[2, 2, 1, 1, 1], [3, 3, 1, 1, 1]]), W, W)).toHaveLength(2);
+  });
+
+  it('closes shapes on the image border', () => {
+    const contours = extractContours(mask([[0, 0, W, 3, 1]]), W, W);
+    expect(contours).toHaveLength(1);
+    expect(Math.min(...contours[0].map(p => p.x))).toBe(0);
+  });
+});
+
+describe('simplifyClosed', () => {
+  it('reduces a traced rectangle to its corners within the tolerance', () => {
+    const [contour] = extractContours(mask([[1, 1, 9, 6, 1]]), W, W);
+    const simplified = simplifyClosed(contour, 1);
+    expect(contour.length).toBeGreaterThan(20);
+    expect(simplified.length).toBeLessThanOrEqual(8);
+    // Khung bao chỉ lệch trong phạm vi sai số
+    const bounds = (points: { x: number; y: number }[]) => [Math.min(...points.map(p => p.x)), Math.max(...points.map(p => p.x)), Math.min(...points.map(p => p.y)), Math.max(...points.map(p => p.y))];
+    bounds(simplified).forEach((value, i) => expect(Math.abs(value - bounds(contour)[i])).toBeLessThanOrEqual(1));
+  });
+
+  it('leaves the contour alone with a zero tolerance', () => {
+    const [contour] = extractContours(mask([[1, 1, 9, 6, 1]]), W, W);
+    expect(simplifyClosed(contour, 0)).toBe(contour);
+  });
+});
+
+describe('traceMask', () => {
+  it('drops specks under the threshold and writes one subpath per contour', () => {
+    const options = { speckleThreshold: 4, simplifyTolerance: 1, curveFitting: false };
+    const d = traceMask(mask([[1, 1, 5, 5, 1], [9, 9, 1, 1, 1]]), W, W, options);
+    expect(d.match(/M/g)).toHaveLength(1);
+    expect(d.endsWith('Z')).toBe(true);
+    expect(d).not.toContain('C');
+  });
+
+  it('fits curves between smooth vertices and keeps corners straight', () => {
+    const square = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }];
+    expect(contourToPathData(square, true)).toBe('M0 0L10 0L10 10L0 10L0 0Z');
+    const octagon = Array.from({ length: 16 }, (_, i) => ({ x: 10 * Math.cos(i * Math.PI / 8), y: 10 * Math.sin(i * Math.PI / 8) }));
+    expect(contourToPathData(octagon, true).match(/C/g)).toHaveLength(16);
+  });
+});
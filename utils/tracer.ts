@@ -0,0 +1,233 @@
+import type { RGBColor, SVGColorGroup, RasterColorGroup, TraceOptions } from '../types';
+import { rgbToHex } from './colorUtils';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export const DEFAULT_TRACE_OPTIONS: TraceOptions = {
+  speckleThreshold: 8,
+  simplifyTolerance: 1,
+  curveFitting: true,
+};
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+// Góc đổi hướng (độ) từ đó một đỉnh được coi là góc nhọn và giữ nguyên đoạn thẳng
+const CORNER_ANGLE = 55;
+
+// Các đoạn có hướng cho từng trường hợp marching squares (tl*8 + tr*4 + br*2 + bl*1).
+// Phần tiền cảnh luôn nằm cùng một phía của đoạn, nên các vòng ngoài và các lỗ có chiều ngược nhau.
+// Các trường hợp yên ngựa (5, 10) được tách rời: hai pixel chỉ chạm chéo nhau không được nối.
+type Edge = 'T' | 'R' | 'B' | 'L';
+const SEGMENTS: [Edge, Edge][][] = [
+  [],
+  [['B', 'L']],
+  [['R', 'B']],
+  [['R', 'L']],
+  [['T', 'R']],
+  [['B', 'L'], ['T', 'R']],
+  [['T', 'B']],
+  [['T', 'L']],
+  [['L', 'T']],
+  [['B', 'T']],
+  [['L', 'T'], ['R', 'B']],
+  [['R', 'T']],
+  [['L', 'R']],
+  [['B', 'R']],
+  [['L', 'B']],
+  [],
+];
+
+/**
+ * Trích xuất các đường viền khép kín của một mặt nạ nhị phân bằng marching squares.
+ * Tọa độ nằm trong hệ tọa độ pixel của ảnh gốc.
+ */
+export function extractContours(mask: Uint8Array, width: number, height: number): Point[][] {
+  const at = (x: number, y: number) => (x < 0 || y < 0 || x >= width || y >= height ? 0 : mask[y * width + x]);
+  // Tọa độ được nhân đôi để các trung điểm cạnh là số nguyên
+  const stride = 2 * width + 8;
+  const keyOf = (x2: number, y2: number) => (y2 + 2) * stride + (x2 + 2);
+  const edgePoint = (cx: number, cy: number, edge: Edge): [number, number] => {
+    switch (edge) {
+      case 'T': return [2 * cx + 2, 2 * cy + 1];
+      case 'R': return [2 * cx + 3, 2 * cy + 2];
+      case 'B': return [2 * cx + 2, 2 * cy + 3];
+      default: return [2 * cx + 1, 2 * cy + 2];
+    }
+  };
+
+  const next = new Map<number, number>();
+  const coords = new Map<number, [number, number]>();
+
+  for (let cy = -1; cy < height; cy++) {
+    for (let cx = -1; cx < width; cx++) {
+      const index = (at(cx, cy) << 3) | (at(cx + 1, cy) << 2) | (at(cx + 1, cy + 1) << 1) | at(cx, cy + 1);
+      for (const [from, to] of SEGMENTS[index]) {
+        const a = edgePoint(cx, cy, from);
+        const b = edgePoint(cx, cy, to);
+        const ka = keyOf(a[0], a[1]);
+        const kb = keyOf(b[0], b[1]);
+        next.set(ka, kb);
+        coords.set(ka, a);
+        coords.set(kb, b);
+      }
+    }
+  }
+
+  const contours: Point[][] = [];
+  const visited = new Set<number>();
+  for (const start of next.keys()) {
+    if (visited.has(start)) continue;
+    const contour: Point[] = [];
+    let key: number | undefined = start;
+    while (key !== undefined && !visited.has(key)) {
+      visited.add(key);
+      const [x2, y2] = coords.get(key)!;
+      contour.push({ x: x2 / 2, y: y2 / 2 });
+      key = next.get(key);
+    }
+    if (contour.length >= 3) contours.push(contour);
+  }
+  return contours;
+}
+
+export function polygonArea(points: Point[]): number {
+  let area = 0;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    area += (points[j].x + points[i].x) * (points[j].y - points[i].y);
+  }
+  return area / 2;
+}
+
+function perpendicularDistance(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return Math.hypot(p.x - a.x, p.y - a.y);
+  return Math.abs(dy * p.x - dx * p.y + b.x * a.y - b.y * a.x) / length;
+}
+
+function simplifyOpen(points: Point[], tolerance: number): Point[] {
+  if (points.length <= 2) return points;
+  // Ramer–Douglas–Peucker dạng lặp để tránh tràn ngăn xếp với các đường viền dài
+  const keep = new Uint8Array(points.length);
+  keep[0] = keep[points.length - 1] = 1;
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let maxDist = 0;
+    let index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const d = perpendicularDistance(points[i], points[first], points[last]);
+      if (d > maxDist) {
+        maxDist = d;
+        index = i;
+      }
+    }
+    if (index !== -1 && maxDist > tolerance) {
+      keep[index] = 1;
+      stack.push([first, index], [index, last]);
+    }
+  }
+  return points.filter((_, i) => keep[i]);
+}
+
+/** Đơn giản hóa một đa giác khép kín bằng cách tách nó tại điểm xa nhất so với điểm đầu. */
+export function simplifyClosed(points: Point[], tolerance: number): Point[] {
+  if (points.length <= 4 || tolerance <= 0) return points;
+  let farthest = 0;
+  let maxDist = -1;
+  for (let i = 1; i < points.length; i++) {
+    const d = Math.hypot(points[i].x - points[0].x, points[i].y - points[0].y);
+    if (d > maxDist) {
+      maxDist = d;
+      farthest = i;
+    }
+  }
+  const firstHalf = simplifyOpen(points.slice(0, farthest + 1), tolerance);
+  const secondHalf = simplifyOpen([...points.slice(farthest), points[0]], tolerance);
+  return [...firstHalf.slice(0, -1), ...secondHalf.slice(0, -1)];
+}
+
+const fmt = (n: number) => String(Math.round(n * 100) / 100);
+
+function isCorner(prev: Point, current: Point, next: Point): boolean {
+  const a1 = Math.atan2(current.y - prev.y, current.x - prev.x);
+  const a2 = Math.atan2(next.y - current.y, next.x - current.x);
+  let turn = Math.abs(a2 - a1) * 180 / Math.PI;
+  if (turn > 180) turn = 360 - turn;
+  return turn > CORNER_ANGLE;
+}
+
+/**
+ * Chuyển một đa giác khép kín thành dữ liệu path. Khi bật khớp đường cong, các đỉnh mượt
+ * được nối bằng Bézier bậc ba (tiếp tuyến Catmull-Rom), còn các góc nhọn giữ đoạn thẳng.
+ */
+export function contourToPathData(points: Point[], curveFitting: boolean): string {
+  const n = points.length;
+  if (n < 3) return '';
+  const parts = [`M${fmt(points[0].x)} ${fmt(points[0].y)}`];
+
+  if (!curveFitting) {
+    for (let i = 1; i < n; i++) parts.push(`L${fmt(points[i].x)} ${fmt(points[i].y)}`);
+    parts.push('Z');
+    return parts.join('');
+  }
+
+  const corners = points.map((p, i) => isCorner(points[(i - 1 + n) % n], p, points[(i + 1) % n]));
+  for (let i = 0; i < n; i++) {
+    const p0 = points[(i - 1 + n) % n];
+    const p1 = points[i];
+    const p2 = points[(i + 1) % n];
+    const p3 = points[(i + 2) % n];
+    if (corners[i] && corners[(i + 1) % n]) {
+      parts.push(`L${fmt(p2.x)} ${fmt(p2.y)}`);
+      continue;
+    }
+    const c1 = corners[i] ? p1 : { x: p1.x + (p2.x - p0.x) / 6, y: p1.y + (p2.y - p0.y) / 6 };
+    const c2 = corners[(i + 1) % n] ? p2 : { x: p2.x - (p3.x - p1.x) / 6, y: p2.y - (p3.y - p1.y) / 6 };
+    parts.push(`C${fmt(c1.x)} ${fmt(c1.y)} ${fmt(c2.x)} ${fmt(c2.y)} ${fmt(p2.x)} ${fmt(p2.y)}`);
+  }
+  parts.push('Z');
+  return parts.join('');
+}
+
+/** Vector hóa một mặt nạ nhị phân thành dữ liệu path duy nhất (các lỗ được xử lý bằng fill-rule evenodd). */
+export function traceMask(mask: Uint8Array, width: number, height: number, options: TraceOptions): string {
+  return extractContours(mask, width, height)
+    .filter(contour => Math.abs(polygonArea(contour)) >= options.speckleThreshold)
+    .map(contour => contourToPathData(simplifyClosed(contour, options.simplifyTolerance), options.curveFitting))
+    .filter(Boolean)
+    .join('');
+}
+
+export function createTracedPath(pathData: string, color: RGBColor): SVGElement {
+  const path = document.createElementNS(SVG_NS, 'path');
+  path.setAttribute('d', pathData);
+  path.setAttribute('fill', rgbToHex(color));
+  path.setAttribute('fill-rule', 'evenodd');
+  return path;
+}
+
+/**
+ * Vector hóa tất cả các nhóm màu raster. Kết quả tương thích với SVGColorGroup nên có thể
+ * tải xuống dạng SVG, chỉnh sửa và đóng gói ZIP giống như nguồn SVG. `labels` là bản đồ nhãn
+ * theo pixel của các nhóm (xem computeLabelMap).
+ */
+export function traceRasterGroups(
+  width: number,
+  height: number,
+  groups: RasterColorGroup[],
+  labels: Int32Array,
+  options: TraceOptions
+): SVGColorGroup[] {
+  const mask = new Uint8Array(width * height);
+
+  return groups.flatMap((group, index) => {
+    for (let p = 0; p < labels.length; p++) mask[p] = labels[p] === index ? 1 : 0;
+    const pathData = traceMask(mask, width, height, options);
+    if (!pathData) return [];
+    return [{ representativeColor: group.representativeColor, elements: [createTracedPath(pathData, group.representativeColor)] }];
+  });
+}
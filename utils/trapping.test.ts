@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import type { RasterColorGroup, TrapOptions } from '../types';
+import { DEFAULT_TRAP_OPTIONS, layerTrap, spreadRasterLayer } from './trapping';
+
+const UNIFORM: TrapOptions = { ...DEFAULT_TRAP_OPTIONS, amount: 2 };
+const AUTO: TrapOptions = { ...UNIFORM, mode: 'auto' };
+
+const group = (gray: number, extra: Partial<RasterColorGroup> = {}): RasterColorGroup =>
+  ({ representativeColor: { r: gray, g: gray, b: gray }, memberColors: [], totalCount: 0, ...extra });
+
+// Lớp sáng phía trước, lớp tối hơn và lớp sáng hơn phía sau
+const GROUPS = [group(200), group(50), group(250)];
+
+describe('layerTrap', () => {
+  it('spreads every layer in all directions in uniform mode', () => {
+    expect(layerTrap(GROUPS, 0, UNIFORM, 96)).toEqual({ width: 2, into: null });
+    expect(layerTrap(GROUPS, 0, DEFAULT_TRAP_OPTIONS, 96)).toBeNull();
+  });
+
+  it('converts millimetres at the export DPI', () => {
+    expect(layerTrap(GROUPS, 0, { ...UNIFORM, amount: 0.254, unit: 'mm' }, 300)!.width).toBeCloseTo(3);
+  });
+
+  it('lets a layer override the global amount', () => {
+    const groups = [group(200, { trapOffset: 5 }), group(50, { trapOffset: 0 })];
+    expect(layerTrap(groups, 0, UNIFORM, 96)!.width).toBe(5);
+    expect(layerTrap(groups, 1, UNIFORM, 96)).toBeNull();
+  });
+
+  it('only spreads into darker layers sprayed later in auto mode', () => {
+    expect(layerTrap(GROUPS, 0, AUTO, 96)).toEqual({ width: 2, into: [1] });
+    expect(layerTrap(GROUPS, 1, AUTO, 96)).toBeNull();
+    expect(layerTrap(GROUPS, 2, AUTO, 96)).toBeNull();
+  });
+
+  it('compares paint colours when a layer has been recoloured', () => {
+    const groups = [group(200, { targetColor: { color: { r: 0, g: 0, b: 0 } } }), group(50)];
+    expect(layerTrap(groups, 0, AUTO, 96)).toBeNull();
+  });
+});
+
+describe('spreadRasterLayer', () => {
+  const WIDTH = 7;
+  // Lớp 0 ở giữa (cột 3), lớp 1 bên trái, lớp 2 bên phải
+  const labels = Int32Array.from({ length: WIDTH }, (_, x) => (x === 3 ? 0 : x < 3 ? 1 : 2));
+  const painted = (layer: ImageData) => Array.from({ length: WIDTH }, (_, x) => layer.data[x * 4 + 3] === 255 ? 1 : 0);
+  const layer = () => {
+    const data = new Uint8ClampedArray(WIDTH * 4);
+    data.set([10, 20, 30, 255], 3 * 4);
+    return { width: WIDTH, height: 1, data } as unknown as ImageData;
+  };
+
+  it('grows the layer by the trap width in its own colour', () => {
+    const result = layer();
+    spreadRasterLayer(result, labels, 0, { width: 2, into: null }, { r: 1, g: 2, b: 3 });
+    expect(painted(result)).toEqual([0, 1, 1, 1, 1, 1, 0]);
+    expect(Array.from(result.data.slice(4, 8))).toEqual([1, 2, 3, 255]);
+    expect(Array.from(result.data.slice(12, 16))).toEqual([10, 20, 30, 255]);
+  });
+
+  it('only grows into the allowed layers', () => {
+    const result = layer();
+    spreadRasterLayer(result, labels, 0, { width: 2, into: [2] }, { r: 1, g: 2, b: 3 });
+    expect(painted(result)).toEqual([0, 0, 0, 1, 1, 1, 0]);
+  });
+});
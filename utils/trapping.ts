@@ -0,0 +1,62 @@
+import type { SVGColorGroup, RasterColorGroup, RGBColor, TrapOptions, ImageDimensions, ExportFrame } from '../types';
+import { layerColor } from './palette';
+import { morphMask } from './labelCleanup';
+import { toPixels, transformSvgGroups } from './svgExport';
+
+const WHITE_PAINT = { color: { r: 255, g: 255, b: 255 } };
+
+export const DEFAULT_TRAP_OPTIONS: TrapOptions = {
+  mode: 'uniform',
+  amount: 0,
+  unit: 'px',
+};
+
+export interface LayerTrap {
+  width: number; // Độ loang theo pixel của tệp xuất
+  into: number[] | null; // Chỉ số các lớp được loang vào (null = loang ra mọi phía)
+}
+
+const luminance = ({ r, g, b }: RGBColor) => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+/**
+ * Độ loang của lớp `index`: giá trị riêng của lớp hoặc giá trị chung. Ở chế độ tự động, lớp chỉ loang vào các lớp
+ * tối hơn được phun sau nó (đứng sau trong colorGroups), nên phần loang luôn bị lớp sơn tối phủ lên.
+ */
+export function layerTrap(groups: (SVGColorGroup | RasterColorGroup)[], index: number, options: TrapOptions, dpi: number): LayerTrap | null {
+  const group = groups[index];
+  const width = toPixels(group.trapOffset ?? options.amount, options.unit, dpi);
+  if (!(width > 0)) return null;
+  if (options.mode === 'uniform') return { width, into: null };
+  const own = luminance(layerColor(group));
+  const into = groups.map((_, i) => i).filter(i => i > index && luminance(layerColor(groups[i])) < own);
+  return into.length > 0 ? { width, into } : null;
+}
+
+/**
+ * Nội dung của lớp đã loang. Khi chỉ được loang vào một số lớp, phần loang bị giới hạn trong hình của chính lớp
+ * và các lớp đó bằng một mặt nạ.
+ */
+export function trappedLayerHtml(groups: SVGColorGroup[], index: number, dimensions: ImageDimensions | null, frame: ExportFrame, trap: LayerTrap): string {
+  const spreadHtml = transformSvgGroups([groups[index]], dimensions, frame, trap.width);
+  if (!trap.into) return spreadHtml;
+  const { width, height } = frame;
+  const allowed = [groups[index], ...trap.into.map(i => groups[i])].map(group => ({ ...group, targetColor: WHITE_PAINT }));
+  return `<defs><mask id="stencil-trap" maskUnits="userSpaceOnUse" x="0" y="0" width="${width}" height="${height}">${transformSvgGroups(allowed, dimensions, frame)}</mask></defs><g mask="url(#stencil-trap)">${spreadHtml}</g>`;
+}
+
+/** Loang một lớp raster đã vẽ (layer) bằng cách giãn mặt nạ của nó trên bản đồ nhãn; pixel mới mang màu của lớp. */
+export function spreadRasterLayer(layer: ImageData, labels: Int32Array, index: number, trap: LayerTrap, color: RGBColor): void {
+  const { width, height, data } = layer;
+  const radius = Math.max(1, Math.round(trap.width));
+  const mask = new Uint8Array(labels.length);
+  for (let p = 0; p < labels.length; p++) mask[p] = labels[p] === index ? 1 : 0;
+  const grown = morphMask(mask, width, height, radius, false);
+  const into = trap.into ? new Set(trap.into) : null;
+  for (let p = 0, i = 0; p < labels.length; p++, i += 4) {
+    if (!grown[p] || mask[p] || (into && !into.has(labels[p]))) continue;
+    data[i] = color.r;
+    data[i + 1] = color.g;
+    data[i + 2] = color.b;
+    data[i + 3] = 255;
+  }
+}
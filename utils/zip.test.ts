@@ -0,0 +1,72 @@
+import { inflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { createZipArchive } from './zip';
+
+interface ReadEntry {
+  name: string;
+  crc: number;
+  method: number;
+  data: Uint8Array;
+}
+
+// Đọc lại ZIP theo thư mục trung tâm, như một trình giải nén
+function readZip(bytes: Uint8Array): ReadEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let pos = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ReadEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(pos, true)).toBe(0x02014b50);
+    const method = view.getUint16(pos + 10, true);
+    const crc = view.getUint32(pos + 16, true);
+    const compressedSize = view.getUint32(pos + 20, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const offset = view.getUint32(pos + 42, true);
+    const name = decoder.decode(bytes.subarray(pos + 46, pos + 46 + nameLength));
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    const start = offset + 30 + view.getUint16(offset + 26, true);
+    const raw = bytes.subarray(start, start + compressedSize);
+    entries.push({ name, crc, method, data: method === 8 ? new Uint8Array(inflateRawSync(raw)) : raw });
+    pos += 46 + nameLength;
+  }
+  return entries;
+}
+
+const generate = async (build: (zip: ReturnType<typeof createZipArchive>) => void) => {
+  const zip = createZipArchive({ date: new Date(2024, 0, 2, 3, 4, 6) });
+  build(zip);
+  return new Uint8Array(await (await zip.generate()).arrayBuffer());
+};
+
+describe('createZipArchive', () => {
+  it('writes the CRC-32 of each file', async () => {
+    const entries = readZip(await generate(zip => {
+      zip.file('digits.txt', '123456789');
+      zip.file('hello.txt', 'hello world', { compression: 'store' });
+    }));
+    expect(entries.map(entry => entry.crc)).toEqual([0xcbf43926, 0x0d4a1185]);
+  });
+
+  it('reads back stored and deflated files with their folder paths', async () => {
+    const png = Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0, 1, 2, 3]);
+    const text = 'layer '.repeat(200);
+    const entries = readZip(await generate(zip => {
+      zip.file('manifest.json', text);
+      zip.folder('tiles/').folder('layer-1').file('r1c1.png', png, { compression: 'store' });
+    }));
+    expect(entries.map(entry => entry.name)).toEqual(['manifest.json', 'tiles/layer-1/r1c1.png']);
+    expect(entries[0].method).toBe(8);
+    expect(new TextDecoder().decode(entries[0].data)).toBe(text);
+    expect(entries[1].method).toBe(0);
+    expect(entries[1].data).toEqual(png);
+  });
+
+  it('writes an empty archive', async () => {
+    const bytes = await generate(() => {});
+    expect(bytes.length).toBe(22);
+    expect(readZip(bytes)).toEqual([]);
+  });
+});
@@ -0,0 +1,203 @@
+export type ZipCompression = 'store' | 'deflate';
+
+export interface ZipFileOptions {
+  compression?: ZipCompression; // Mặc định 'deflate'; ảnh PNG/JPG đã nén nên dùng 'store'
+  date?: Date;
+}
+
+// Một thư mục trong ZIP; tên tệp được nối với đường dẫn của thư mục
+export interface ZipFolder {
+  file(name: string, data: string | Blob | Uint8Array, options?: ZipFileOptions): ZipFolder;
+  folder(name: string): ZipFolder;
+}
+
+export interface ZipArchive extends ZipFolder {
+  /** Nội dung ZIP dạng luồng: từng tệp được đọc, tính CRC và nén theo từng khối khi luồng được đọc tới. */
+  stream(): ReadableStream<Uint8Array>;
+  generate(): Promise<Blob>;
+}
+
+interface ZipEntry {
+  name: string;
+  data: Blob;
+  compression: ZipCompression;
+  date: Date;
+}
+
+// Giới hạn của định dạng ZIP không có phần mở rộng ZIP64
+const MAX_ZIP_SIZE = 0xffffffff;
+const MAX_ZIP_ENTRIES = 0xffff;
+
+const UTF8_FLAG = 0x0800; // Tên tệp mã hóa UTF-8
+const DESCRIPTOR_FLAG = 0x0008; // CRC và kích thước được ghi sau dữ liệu
+
+const encoder = new TextEncoder();
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// CRC-32 tích lũy; bắt đầu với 0xffffffff và đảo bit khi kết thúc
+function updateCrc(crc: number, chunk: Uint8Array): number {
+  for (let i = 0; i < chunk.length; i++) crc = CRC_TABLE[(crc ^ chunk[i]) & 0xff] ^ (crc >>> 8);
+  return crc;
+}
+
+function dosDateTime(date: Date) {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+// Trình duyệt cũ không có CompressionStream('deflate-raw'); khi đó tệp được lưu không nén
+let deflateSupported: boolean | null = null;
+function canDeflate(): boolean {
+  if (deflateSupported === null) {
+    try {
+      new CompressionStream('deflate-raw');
+      deflateSupported = true;
+    } catch {
+      deflateSupported = false;
+    }
+  }
+  return deflateSupported;
+}
+
+function record(size: number, write: (view: DataView) => void, name?: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(size + (name?.length ?? 0));
+  write(new DataView(bytes.buffer));
+  if (name) bytes.set(name, size);
+  return bytes;
+}
+
+async function* archiveChunks(entries: ZipEntry[]): AsyncGenerator<Uint8Array> {
+  if (entries.length > MAX_ZIP_ENTRIES) throw new Error('The archive has too many files.');
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const method = entry.compression === 'deflate' && canDeflate() ? 8 : 0;
+    const { time, date } = dosDateTime(entry.date);
+    const flags = UTF8_FLAG | DESCRIPTOR_FLAG;
+    const header = record(30, view => {
+      view.setUint32(0, 0x04034b50, true);
+      view.setUint16(4, 20, true);
+      view.setUint16(6, flags, true);
+      view.setUint16(8, method, true);
+      view.setUint16(10, time, true);
+      view.setUint16(12, date, true);
+      view.setUint16(26, name.length, true);
+    }, name);
+    yield header;
+
+    let crc = 0xffffffff;
+    let size = 0;
+    let compressedSize = 0;
+    const counted = entry.data.stream().pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        crc = updateCrc(crc, chunk);
+        size += chunk.length;
+        controller.enqueue(chunk);
+      },
+    }));
+    const output = method === 8 ? counted.pipeThrough(new CompressionStream('deflate-raw')) : counted;
+    const reader = output.getReader();
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      compressedSize += value.length;
+      yield value;
+    }
+    crc = (crc ^ 0xffffffff) >>> 0;
+
+    yield record(16, view => {
+      view.setUint32(0, 0x08074b50, true);
+      view.setUint32(4, crc, true);
+      view.setUint32(8, compressedSize, true);
+      view.setUint32(12, size, true);
+    });
+    central.push(record(46, view => {
+      view.setUint32(0, 0x02014b50, true);
+      view.setUint16(4, 20, true);
+      view.setUint16(6, 20, true);
+      view.setUint16(8, flags, true);
+      view.setUint16(10, method, true);
+      view.setUint16(12, time, true);
+      view.setUint16(14, date, true);
+      view.setUint32(16, crc, true);
+      view.setUint32(20, compressedSize, true);
+      view.setUint32(24, size, true);
+      view.setUint16(28, name.length, true);
+      view.setUint32(42, offset, true);
+    }, name));
+    offset += header.length + compressedSize + 16;
+    if (offset > MAX_ZIP_SIZE || size > MAX_ZIP_SIZE) throw new Error('The archive is larger than 4 GB and cannot be written as a ZIP file.');
+  }
+
+  const centralSize = central.reduce((sum, entry) => sum + entry.length, 0);
+  yield* central;
+  yield record(22, view => {
+    view.setUint32(0, 0x06054b50, true);
+    view.setUint16(8, entries.length, true);
+    view.setUint16(10, entries.length, true);
+    view.setUint32(12, centralSize, true);
+    view.setUint32(16, offset, true);
+  });
+}
+
+/** Tạo một tệp ZIP mới (nén deflate bằng CompressionStream của trình duyệt, không cần thư viện ngoài). */
+export function createZipArchive(defaults: ZipFileOptions = {}): ZipArchive {
+  const entries: ZipEntry[] = [];
+
+  const folderAt = (path: string): ZipFolder => ({
+    file(name, data, options = {}) {
+      entries.push({
+        name: path + name,
+        data: data instanceof Blob ? data : new Blob([data as BlobPart]),
+        compression: options.compression ?? defaults.compression ?? 'deflate',
+        date: options.date ?? defaults.date ?? new Date(),
+      });
+      return this;
+    },
+    folder(name) {
+      return folderAt(`${path}${name.replace(/\/+$/, '')}/`);
+    },
+  });
+
+  const root = folderAt('');
+  return {
+    ...root,
+    stream() {
+      const chunks = archiveChunks([...entries]);
+      return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          const { value, done } = await chunks.next();
+          if (done) controller.close();
+          else controller.enqueue(value);
+        },
+        async cancel() {
+          await chunks.return(undefined);
+        },
+      });
+    },
+    async generate() {
+      // Các khối được giữ riêng trong Blob, không ghép thành một bộ đệm lớn
+      const parts: BlobPart[] = [];
+      const reader = this.stream().getReader();
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        parts.push(value as BlobPart);
+      }
+      return new Blob(parts, { type: 'application/zip' });
+    },
+  };
+}
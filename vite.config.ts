@@ -1,11 +1,34 @@
+import fs from 'fs';
 import path from 'path';
+import { createHash } from 'crypto';
 import { defineConfig, loadEnv } from 'vite';
+import type { Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import tailwindcss from '@tailwindcss/vite';
+
+// Sinh sw.js cho bản build: mọi tệp đầu ra (kể cả Worker và thư mục public) được lưu sẵn để dùng offline
+function offlinePlugin(): Plugin {
+  return {
+    name: 'stencil-offline',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_, bundle) {
+      const publicDir = path.resolve(__dirname, 'public');
+      const publicFiles = fs.existsSync(publicDir) ? fs.readdirSync(publicDir) : [];
+      const files = ['./', ...Object.keys(bundle), ...publicFiles].map(file => (file.startsWith('./') ? file : `./${file}`));
+      const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+      const source = fs.readFileSync(path.resolve(__dirname, 'serviceWorker.js'), 'utf8')
+        .replace('self.__PRECACHE_MANIFEST__', JSON.stringify(files))
+        .replace('self.__CACHE_VERSION__', JSON.stringify(version));
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+    },
+  };
+}
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
-      plugins: [react()],
+      plugins: [react(), tailwindcss(), offlinePlugin()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)